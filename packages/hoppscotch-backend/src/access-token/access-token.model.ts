@@ -0,0 +1,45 @@
+import { Field, ID, ObjectType } from '@nestjs/graphql';
+
+@ObjectType()
+export class PersonalAccessToken {
+  @Field(() => ID, {
+    description: 'ID of the personal access token',
+  })
+  id: string;
+
+  @Field({
+    description: 'Label of the personal access token',
+  })
+  label: string;
+
+  @Field({
+    description: 'Date when the personal access token expires',
+    nullable: true,
+  })
+  expiresOn: Date | null;
+
+  @Field({
+    description: 'Date when the personal access token was last used',
+    nullable: true,
+  })
+  lastUsedOn: Date | null;
+
+  @Field({
+    description: 'Date when the personal access token was created',
+  })
+  createdOn: Date;
+}
+
+@ObjectType()
+export class CreatedPersonalAccessToken {
+  @Field({
+    description:
+      'The personal access token, which is only available at the time of creation',
+  })
+  token: string;
+
+  @Field(() => PersonalAccessToken, {
+    description: 'Details of the created personal access token',
+  })
+  info: PersonalAccessToken;
+}
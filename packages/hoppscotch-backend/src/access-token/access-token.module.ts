@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { AccessTokenResolver } from './access-token.resolver';
+import { AccessTokenService } from './access-token.service';
+
+// Global, as GqlAuthGuard (used across modules) authenticates personal access tokens
+@Global()
+@Module({
+  imports: [PrismaModule],
+  providers: [AccessTokenService, AccessTokenResolver],
+  exports: [AccessTokenService],
+})
+export class AccessTokenModule {}
@@ -0,0 +1,86 @@
+import { UseGuards } from '@nestjs/common';
+import { Args, ID, Int, Mutation, Query, Resolver } from '@nestjs/graphql';
+import * as E from 'fp-ts/Either';
+import { GqlUser } from 'src/decorators/gql-user.decorator';
+import { GqlSessionAuthGuard } from 'src/guards/gql-session-auth.guard';
+import { GqlThrottlerGuard } from 'src/guards/gql-throttler.guard';
+import { AuthUser } from 'src/types/AuthUser';
+import { PaginationArgs } from 'src/types/input-types.args';
+import { throwErr } from 'src/utils';
+import {
+  CreatedPersonalAccessToken,
+  PersonalAccessToken,
+} from './access-token.model';
+import { AccessTokenService } from './access-token.service';
+
+@UseGuards(GqlThrottlerGuard)
+@Resolver(() => PersonalAccessToken)
+export class AccessTokenResolver {
+  constructor(private readonly accessTokenService: AccessTokenService) {}
+
+  /* Queries */
+
+  @Query(() => [PersonalAccessToken], {
+    description: 'List the personal access tokens of the current user',
+  })
+  @UseGuards(GqlSessionAuthGuard)
+  async myPersonalAccessTokens(
+    @GqlUser() user: AuthUser,
+    @Args() args: PaginationArgs,
+  ) {
+    return this.accessTokenService.fetchPersonalAccessTokens(user.uid, args);
+  }
+
+  /* Mutations */
+
+  @Mutation(() => CreatedPersonalAccessToken, {
+    description: 'Create a personal access token for the current user',
+  })
+  @UseGuards(GqlSessionAuthGuard)
+  async createPersonalAccessToken(
+    @GqlUser() user: AuthUser,
+    @Args({
+      name: 'label',
+      description: 'Label of the personal access token',
+    })
+    label: string,
+    @Args({
+      name: 'expiryInDays',
+      description:
+        'Number of days the personal access token is valid for, never expires if omitted',
+      type: () => Int,
+      nullable: true,
+    })
+    expiryInDays: number | null,
+  ) {
+    const createdAccessToken =
+      await this.accessTokenService.createPersonalAccessToken(
+        user,
+        label,
+        expiryInDays ?? null,
+      );
+
+    if (E.isLeft(createdAccessToken)) throwErr(createdAccessToken.left);
+    return createdAccessToken.right;
+  }
+
+  @Mutation(() => Boolean, {
+    description: 'Revoke a personal access token of the current user',
+  })
+  @UseGuards(GqlSessionAuthGuard)
+  async revokePersonalAccessToken(
+    @GqlUser() user: AuthUser,
+    @Args({
+      name: 'id',
+      description: 'ID of the personal access token',
+      type: () => ID,
+    })
+    id: string,
+  ) {
+    const revokedAccessToken =
+      await this.accessTokenService.revokePersonalAccessToken(id, user.uid);
+
+    if (E.isLeft(revokedAccessToken)) throwErr(revokedAccessToken.left);
+    return revokedAccessToken.right;
+  }
+}
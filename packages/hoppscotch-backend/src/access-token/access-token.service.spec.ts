@@ -0,0 +1,218 @@
+import { mockDeep, mockReset } from 'jest-mock-extended';
+import { PersonalAccessToken as DBPersonalAccessToken } from '@prisma/client';
+import {
+  ACCESS_TOKEN_EXPIRED,
+  ACCESS_TOKEN_EXPIRY_INVALID,
+  ACCESS_TOKEN_INVALID,
+  ACCESS_TOKEN_LABEL_SHORT,
+  ACCESS_TOKEN_NOT_FOUND,
+} from 'src/errors';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuthUser } from 'src/types/AuthUser';
+import { AccessTokenService } from './access-token.service';
+
+const mockPrisma = mockDeep<PrismaService>();
+
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+const accessTokenService = new AccessTokenService(mockPrisma);
+
+const currentTime = new Date();
+
+const user: AuthUser = {
+  uid: 'aabb22ccdd',
+  displayName: 'user-display-name',
+  email: 'user-email',
+  photoURL: 'user-photo-url',
+  isAdmin: false,
+  refreshToken: 'hbfvdkhjbvkdvdfjvbnkhjb',
+  currentGQLSession: {},
+  currentRESTSession: {},
+  createdOn: currentTime,
+};
+
+const accessToken: DBPersonalAccessToken = {
+  id: 'pat-1',
+  userUid: user.uid,
+  label: 'CI',
+  token: 'hashed-token',
+  expiresOn: null,
+  lastUsedOn: null,
+  createdOn: currentTime,
+};
+
+beforeEach(() => {
+  mockReset(mockPrisma);
+});
+
+describe('AccessTokenService', () => {
+  describe('createPersonalAccessToken', () => {
+    test('should resolve right with the token and store only its hash', async () => {
+      mockPrisma.personalAccessToken.create.mockResolvedValue(accessToken);
+
+      const result = await accessTokenService.createPersonalAccessToken(
+        user,
+        'CI',
+      );
+
+      expect(result).toEqualRight({
+        token: expect.stringMatching(/^hopp_pat_[\w-]{43}$/),
+        info: {
+          id: accessToken.id,
+          label: accessToken.label,
+          expiresOn: null,
+          lastUsedOn: null,
+          createdOn: currentTime,
+        },
+      });
+
+      const { data } = mockPrisma.personalAccessToken.create.mock.calls[0][0];
+      expect(data.token).toMatch(/^[0-9a-f]{64}$/);
+      expect(data.expiresOn).toBeNull();
+    });
+
+    test('should set the expiry date from the number of days', async () => {
+      mockPrisma.personalAccessToken.create.mockResolvedValue(accessToken);
+
+      await accessTokenService.createPersonalAccessToken(user, 'CI', 30);
+
+      const { data } = mockPrisma.personalAccessToken.create.mock.calls[0][0];
+      const expectedExpiry = Date.now() + 30 * 24 * 60 * 60 * 1000;
+
+      expect((data.expiresOn as Date).getTime()).toBeGreaterThan(
+        expectedExpiry - 1000,
+      );
+      expect((data.expiresOn as Date).getTime()).toBeLessThanOrEqual(
+        expectedExpiry,
+      );
+    });
+
+    test('should resolve left with ACCESS_TOKEN_LABEL_SHORT for an empty label', async () => {
+      const result = await accessTokenService.createPersonalAccessToken(
+        user,
+        '  ',
+      );
+
+      expect(result).toEqualLeft(ACCESS_TOKEN_LABEL_SHORT);
+      expect(mockPrisma.personalAccessToken.create).not.toHaveBeenCalled();
+    });
+
+    test('should resolve left with ACCESS_TOKEN_EXPIRY_INVALID for a non-positive expiry', async () => {
+      const result = await accessTokenService.createPersonalAccessToken(
+        user,
+        'CI',
+        0,
+      );
+
+      expect(result).toEqualLeft(ACCESS_TOKEN_EXPIRY_INVALID);
+    });
+  });
+
+  describe('fetchPersonalAccessTokens', () => {
+    test('should resolve with the tokens of the user', async () => {
+      mockPrisma.personalAccessToken.findMany.mockResolvedValue([accessToken]);
+
+      const result = await accessTokenService.fetchPersonalAccessTokens(
+        user.uid,
+        { cursor: null, take: 10 },
+      );
+
+      expect(result).toEqual([
+        {
+          id: accessToken.id,
+          label: accessToken.label,
+          expiresOn: null,
+          lastUsedOn: null,
+          createdOn: currentTime,
+        },
+      ]);
+    });
+  });
+
+  describe('revokePersonalAccessToken', () => {
+    test('should resolve right when the token is revoked', async () => {
+      mockPrisma.personalAccessToken.deleteMany.mockResolvedValue({ count: 1 });
+
+      const result = await accessTokenService.revokePersonalAccessToken(
+        accessToken.id,
+        user.uid,
+      );
+
+      expect(result).toEqualRight(true);
+      expect(mockPrisma.personalAccessToken.deleteMany).toHaveBeenCalledWith({
+        where: { id: accessToken.id, userUid: user.uid },
+      });
+    });
+
+    test('should resolve left with ACCESS_TOKEN_NOT_FOUND when the user has no such token', async () => {
+      mockPrisma.personalAccessToken.deleteMany.mockResolvedValue({ count: 0 });
+
+      const result = await accessTokenService.revokePersonalAccessToken(
+        accessToken.id,
+        user.uid,
+      );
+
+      expect(result).toEqualLeft(ACCESS_TOKEN_NOT_FOUND);
+    });
+  });
+
+  describe('getUserFromAccessToken', () => {
+    test('should resolve right with the user and record the usage', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue({
+        ...accessToken,
+        user,
+      } as any);
+      mockPrisma.personalAccessToken.update.mockResolvedValue(accessToken);
+
+      const result = await accessTokenService.getUserFromAccessToken(
+        'hopp_pat_token',
+      );
+
+      expect(result).toEqualRight(user);
+      expect(mockPrisma.personalAccessToken.update).toHaveBeenCalledWith({
+        where: { id: accessToken.id },
+        data: { lastUsedOn: expect.any(Date) },
+      });
+    });
+
+    test('should not record the usage again within a minute of the last one', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue({
+        ...accessToken,
+        lastUsedOn: new Date(Date.now() - 30 * 1000),
+        user,
+      } as any);
+
+      const result = await accessTokenService.getUserFromAccessToken(
+        'hopp_pat_token',
+      );
+
+      expect(result).toEqualRight(user);
+      expect(mockPrisma.personalAccessToken.update).not.toHaveBeenCalled();
+    });
+
+    test('should resolve left with ACCESS_TOKEN_INVALID for an unknown token', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue(null);
+
+      const result = await accessTokenService.getUserFromAccessToken(
+        'hopp_pat_token',
+      );
+
+      expect(result).toEqualLeft(ACCESS_TOKEN_INVALID);
+    });
+
+    test('should resolve left with ACCESS_TOKEN_EXPIRED for an expired token', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue({
+        ...accessToken,
+        expiresOn: new Date(Date.now() - 1000),
+        user,
+      } as any);
+
+      const result = await accessTokenService.getUserFromAccessToken(
+        'hopp_pat_token',
+      );
+
+      expect(result).toEqualLeft(ACCESS_TOKEN_EXPIRED);
+      expect(mockPrisma.personalAccessToken.update).not.toHaveBeenCalled();
+    });
+  });
+});
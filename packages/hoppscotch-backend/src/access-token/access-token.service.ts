@@ -0,0 +1,183 @@
+import { Injectable } from '@nestjs/common';
+import { PersonalAccessToken as DBPersonalAccessToken } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import * as E from 'fp-ts/Either';
+import {
+  ACCESS_TOKEN_EXPIRED,
+  ACCESS_TOKEN_EXPIRY_INVALID,
+  ACCESS_TOKEN_INVALID,
+  ACCESS_TOKEN_LABEL_SHORT,
+  ACCESS_TOKEN_NOT_FOUND,
+} from 'src/errors';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuthUser } from 'src/types/AuthUser';
+import { PaginationArgs } from 'src/types/input-types.args';
+import {
+  CreatedPersonalAccessToken,
+  PersonalAccessToken,
+} from './access-token.model';
+
+/**
+ * Prefix of the generated tokens, making them recognizable when leaked
+ */
+const ACCESS_TOKEN_PREFIX = 'hopp_pat_';
+
+const ACCESS_TOKEN_BYTES = 32;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum interval between the writes of the last usage of a token, as every
+ * authenticated request uses the token
+ */
+const LAST_USED_ON_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class AccessTokenService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Converts a Prisma PersonalAccessToken type into the PersonalAccessToken model
+   *
+   * @param accessToken Prisma PersonalAccessToken type
+   * @returns GQL PersonalAccessToken
+   */
+  private cast(accessToken: DBPersonalAccessToken): PersonalAccessToken {
+    return {
+      id: accessToken.id,
+      label: accessToken.label,
+      expiresOn: accessToken.expiresOn,
+      lastUsedOn: accessToken.lastUsedOn,
+      createdOn: accessToken.createdOn,
+    };
+  }
+
+  /**
+   * Hash a token, only the hashes of the tokens are stored in the DB
+   *
+   * @param token Personal access token
+   * @returns SHA-256 hash of the token
+   */
+  private hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Create a personal access token for a user
+   *
+   * @param user User creating the token
+   * @param label Label of the token
+   * @param expiryInDays Number of days the token is valid for, never expires if null
+   * @returns Either of the created token (along with its details) or error
+   */
+  async createPersonalAccessToken(
+    user: AuthUser,
+    label: string,
+    expiryInDays: number | null = null,
+  ) {
+    if (!label.trim()) return E.left(ACCESS_TOKEN_LABEL_SHORT);
+
+    if (
+      expiryInDays !== null &&
+      (!Number.isInteger(expiryInDays) || expiryInDays <= 0)
+    )
+      return E.left(ACCESS_TOKEN_EXPIRY_INVALID);
+
+    const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(
+      ACCESS_TOKEN_BYTES,
+    ).toString('base64url')}`;
+
+    const createdAccessToken = await this.prisma.personalAccessToken.create({
+      data: {
+        userUid: user.uid,
+        label: label.trim(),
+        token: this.hashToken(token),
+        expiresOn:
+          expiryInDays !== null
+            ? new Date(Date.now() + expiryInDays * DAY_IN_MS)
+            : null,
+      },
+    });
+
+    return E.right(<CreatedPersonalAccessToken>{
+      token,
+      info: this.cast(createdAccessToken),
+    });
+  }
+
+  /**
+   * Fetch personal access tokens of a user
+   *
+   * @param uid User Uid
+   * @param args Pagination arguments
+   * @returns Array of personal access tokens
+   */
+  async fetchPersonalAccessTokens(uid: string, args: PaginationArgs) {
+    const accessTokens = await this.prisma.personalAccessToken.findMany({
+      where: {
+        userUid: uid,
+      },
+      orderBy: {
+        createdOn: 'desc',
+      },
+      skip: args.cursor ? 1 : 0,
+      take: args.take,
+      cursor: args.cursor ? { id: args.cursor } : undefined,
+    });
+
+    return accessTokens.map((accessToken) => this.cast(accessToken));
+  }
+
+  /**
+   * Revoke a personal access token of a user
+   *
+   * @param id ID of the personal access token
+   * @param uid User Uid
+   * @returns Either of true on successful revocation or error
+   */
+  async revokePersonalAccessToken(id: string, uid: string) {
+    const { count } = await this.prisma.personalAccessToken.deleteMany({
+      where: {
+        id,
+        userUid: uid,
+      },
+    });
+
+    if (count === 0) return E.left(ACCESS_TOKEN_NOT_FOUND);
+    return E.right(true);
+  }
+
+  /**
+   * Fetch the user a personal access token belongs to, recording the usage of the token
+   * at most once a minute
+   *
+   * @param token Personal access token
+   * @returns Either of the user or error if the token is invalid or expired
+   */
+  async getUserFromAccessToken(token: string) {
+    const accessToken = await this.prisma.personalAccessToken.findUnique({
+      where: { token: this.hashToken(token) },
+      include: { user: true },
+    });
+
+    if (!accessToken) return E.left(ACCESS_TOKEN_INVALID);
+
+    if (accessToken.expiresOn && accessToken.expiresOn <= new Date())
+      return E.left(ACCESS_TOKEN_EXPIRED);
+
+    const now = new Date();
+
+    if (
+      !accessToken.lastUsedOn ||
+      now.getTime() - accessToken.lastUsedOn.getTime() >=
+        LAST_USED_ON_INTERVAL_MS
+    ) {
+      await this.prisma.personalAccessToken.update({
+        where: { id: accessToken.id },
+        data: { lastUsedOn: now },
+      });
+    }
+
+    return E.right(<AuthUser>accessToken.user);
+  }
+}
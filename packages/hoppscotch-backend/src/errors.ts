@@ -372,6 +372,44 @@ export const USER_SETTINGS_ALREADY_EXISTS =
 export const USER_SETTINGS_NULL_SETTINGS =
   'user_settings/null_settings' as const;
 
+/**
+ * Personal access token label is empty
+ * (AccessTokenService)
+ */
+export const ACCESS_TOKEN_LABEL_SHORT = 'access_token/label_too_short' as const;
+
+/**
+ * Personal access token expiry is not a positive number of days
+ * (AccessTokenService)
+ */
+export const ACCESS_TOKEN_EXPIRY_INVALID =
+  'access_token/expiry_days_invalid' as const;
+
+/**
+ * Personal access token not found for the user
+ * (AccessTokenService)
+ */
+export const ACCESS_TOKEN_NOT_FOUND = 'access_token/not_found' as const;
+
+/**
+ * Personal access token supplied in the 'Authorization' header is invalid
+ * (AccessTokenService, GqlAuthGuard)
+ */
+export const ACCESS_TOKEN_INVALID = 'access_token/invalid' as const;
+
+/**
+ * Personal access token supplied in the 'Authorization' header has expired
+ * (AccessTokenService, GqlAuthGuard)
+ */
+export const ACCESS_TOKEN_EXPIRED = 'access_token/expired' as const;
+
+/**
+ * Personal access tokens are managed with a personal access token instead of a session
+ * (GqlSessionAuthGuard)
+ */
+export const ACCESS_TOKEN_SESSION_REQUIRED =
+  'access_token/session_required' as const;
+
 /*
  * Global environment doesn't exist for the user
  * (UserEnvironmentsService)
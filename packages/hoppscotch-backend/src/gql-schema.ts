@@ -28,6 +28,7 @@ import { UserEnvsUserResolver } from './user-environment/user.resolver';
 import { UserHistoryUserResolver } from './user-history/user.resolver';
 import { UserSettingsUserResolver } from './user-settings/user.resolver';
 import { InfraResolver } from './admin/infra.resolver';
+import { AccessTokenResolver } from './access-token/access-token.resolver';
 
 /**
  * All the resolvers present in the application.
@@ -58,6 +59,7 @@ const RESOLVERS = [
   UserRequestUserCollectionResolver,
   UserSettingsResolver,
   UserSettingsUserResolver,
+  AccessTokenResolver,
 ];
 
 /**
@@ -1,12 +1,43 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { GqlExecutionContext } from '@nestjs/graphql';
 import { AuthGuard } from '@nestjs/passport';
+import * as E from 'fp-ts/Either';
+import { AccessTokenService } from 'src/access-token/access-token.service';
 
 @Injectable()
 export class GqlAuthGuard extends AuthGuard('jwt') {
+  constructor(private readonly accessTokenService: AccessTokenService) {
+    super();
+  }
+
   getRequest(context: ExecutionContext) {
     const ctx = GqlExecutionContext.create(context);
     const { req, headers } = ctx.getContext();
     return headers ? headers : req;
   }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = this.getRequest(context);
+
+    // Subscriptions carry the headers directly, while HTTP requests carry them in `req.headers`
+    const authorization: string | undefined =
+      request.headers?.authorization ?? request.authorization;
+
+    // Requests without a bearer token are authenticated with the access token cookie
+    if (!authorization?.startsWith('Bearer ')) {
+      return super.canActivate(context) as Promise<boolean>;
+    }
+
+    const user = await this.accessTokenService.getUserFromAccessToken(
+      authorization.slice('Bearer '.length).trim(),
+    );
+    if (E.isLeft(user)) throw new UnauthorizedException(user.left);
+
+    request.user = user.right;
+    return true;
+  }
 }
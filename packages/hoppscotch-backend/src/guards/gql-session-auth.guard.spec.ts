@@ -0,0 +1,62 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { AccessTokenResolver } from 'src/access-token/access-token.resolver';
+import { ACCESS_TOKEN_SESSION_REQUIRED } from 'src/errors';
+import { GqlSessionAuthGuard } from './gql-session-auth.guard';
+
+const guard = new GqlSessionAuthGuard();
+
+// Authentication with the access token cookie, as done by the JWT strategy
+const sessionCanActivate = jest
+  .spyOn(Object.getPrototypeOf(GqlSessionAuthGuard.prototype), 'canActivate')
+  .mockResolvedValue(true);
+
+const makeContext = (headers: Record<string, string>) => {
+  // Root, arguments, context and info of the GraphQL resolvers
+  const args = [{}, {}, { req: { headers } }, {}];
+
+  return {
+    getType: () => 'graphql',
+    getArgs: () => args,
+    getArgByIndex: (index: number) => args[index],
+    getClass: () => AccessTokenResolver,
+    getHandler: () => AccessTokenResolver.prototype.createPersonalAccessToken,
+  } as unknown as ExecutionContext;
+};
+
+beforeEach(() => {
+  sessionCanActivate.mockClear();
+});
+
+describe('GqlSessionAuthGuard', () => {
+  test('should authenticate the requests with the session cookie', async () => {
+    const context = makeContext({ cookie: 'access_token=jwt' });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(sessionCanActivate).toHaveBeenCalledWith(context);
+  });
+
+  test('should reject the requests authenticated with a personal access token', () => {
+    const context = makeContext({ authorization: 'Bearer hopp_pat_token' });
+
+    expect(() => guard.canActivate(context)).toThrow(
+      new UnauthorizedException(ACCESS_TOKEN_SESSION_REQUIRED),
+    );
+    expect(sessionCanActivate).not.toHaveBeenCalled();
+  });
+
+  test('should guard the management of the personal access tokens', () => {
+    for (const operation of [
+      'myPersonalAccessTokens',
+      'createPersonalAccessToken',
+      'revokePersonalAccessToken',
+    ] as const) {
+      expect(
+        Reflect.getMetadata(
+          GUARDS_METADATA,
+          AccessTokenResolver.prototype[operation],
+        ),
+      ).toEqual([GqlSessionAuthGuard]);
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import {
+  Injectable,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import { AuthGuard } from '@nestjs/passport';
+import { ACCESS_TOKEN_SESSION_REQUIRED } from 'src/errors';
+
+/**
+ * Authenticates requests with the access token cookie of a session only, unlike
+ * GqlAuthGuard which also accepts personal access tokens. Guards the operations
+ * a leaked personal access token must not be able to perform, such as managing
+ * the personal access tokens themselves
+ */
+@Injectable()
+export class GqlSessionAuthGuard extends AuthGuard('jwt') {
+  getRequest(context: ExecutionContext) {
+    const ctx = GqlExecutionContext.create(context);
+    const { req, headers } = ctx.getContext();
+    return headers ? headers : req;
+  }
+
+  canActivate(context: ExecutionContext) {
+    const request = this.getRequest(context);
+
+    const authorization: string | undefined =
+      request.headers?.authorization ?? request.authorization;
+
+    if (authorization?.startsWith('Bearer '))
+      throw new UnauthorizedException(ACCESS_TOKEN_SESSION_REQUIRED);
+
+    return super.canActivate(context);
+  }
+}
@@ -102,6 +102,32 @@ export class TeamCollectionResolver {
     return jsonString.right;
   }
 
+  @Query(() => String, {
+    description:
+      'Returns the JSON string giving the collection and its contents (child collections and requests)',
+  })
+  @UseGuards(GqlAuthGuard, GqlCollectionTeamMemberGuard)
+  @RequiresTeamRole(
+    TeamMemberRole.VIEWER,
+    TeamMemberRole.EDITOR,
+    TeamMemberRole.OWNER,
+  )
+  async exportCollectionToJSON(
+    @Args({
+      name: 'collectionID',
+      description: 'ID of the collection',
+      type: () => ID,
+    })
+    collectionID: string,
+  ) {
+    const jsonString = await this.teamCollectionService.exportCollectionToJSON(
+      collectionID,
+    );
+
+    if (E.isLeft(jsonString)) throwErr(jsonString.left as string);
+    return jsonString.right;
+  }
+
   @Query(() => [TeamCollection], {
     description: 'Returns the collections of a team',
   })
@@ -1737,4 +1737,77 @@ describe('updateTeamCollection', () => {
   });
 });
 
+describe('exportCollectionToJSON', () => {
+  test('should throw TEAM_INVALID_COLL_ID when collectionID is invalid', async () => {
+    mockPrisma.teamCollection.findUniqueOrThrow.mockRejectedValueOnce(
+      'NotFoundError',
+    );
+
+    const result = await teamCollectionService.exportCollectionToJSON(
+      'invalid',
+    );
+    expect(result).toEqualLeft(TEAM_INVALID_COLL_ID);
+  });
+
+  test('should successfully export the collection along with its child collections and requests', async () => {
+    const request = {
+      v: '1',
+      name: 'Request 1',
+      endpoint: 'https://echo.hoppscotch.io',
+    };
+
+    // getCollection for the root collection, to find its team and to export it
+    mockPrisma.teamCollection.findUniqueOrThrow.mockResolvedValueOnce(
+      rootTeamCollection,
+    );
+    mockPrisma.teamCollection.findUniqueOrThrow.mockResolvedValueOnce(
+      rootTeamCollection,
+    );
+    // children of the root collection
+    mockPrisma.teamCollection.findMany.mockResolvedValueOnce([
+      childTeamCollection,
+    ]);
+    // getCollection for the child collection
+    mockPrisma.teamCollection.findUniqueOrThrow.mockResolvedValueOnce(
+      childTeamCollection,
+    );
+    // children of the child collection
+    mockPrisma.teamCollection.findMany.mockResolvedValueOnce([]);
+    // requests of the child collection
+    mockPrisma.teamRequest.findMany.mockResolvedValueOnce([]);
+    // requests of the root collection
+    mockPrisma.teamRequest.findMany.mockResolvedValueOnce([
+      {
+        id: 'request_1',
+        collectionID: rootTeamCollection.id,
+        teamID: team.id,
+        title: request.name,
+        request,
+        orderIndex: 1,
+        createdOn: currentTime,
+        updatedOn: currentTime,
+      },
+    ]);
+
+    const result = await teamCollectionService.exportCollectionToJSON(
+      rootTeamCollection.id,
+    );
+    expect(result).toEqualRight(
+      JSON.stringify({
+        name: rootTeamCollection.title,
+        folders: [
+          {
+            name: childTeamCollection.title,
+            folders: [],
+            requests: [],
+            data: JSON.stringify(childTeamCollection.data),
+          },
+        ],
+        requests: [request],
+        data: JSON.stringify(rootTeamCollection.data),
+      }),
+    );
+  });
+});
+
 //ToDo: write test cases for exportCollectionsToJSON
@@ -126,6 +126,25 @@ export class TeamCollectionService {
     return E.right(result);
   }
 
+  /**
+   * Generate a JSON containing all the contents of a collection and its children
+   *
+   * @param collectionID The Collection ID
+   * @returns A JSON string containing all the contents of the collection
+   */
+  async exportCollectionToJSON(collectionID: string) {
+    const collection = await this.getCollection(collectionID);
+    if (E.isLeft(collection)) return E.left(TEAM_INVALID_COLL_ID);
+
+    const result = await this.exportCollectionToJSONObject(
+      collection.right.teamID,
+      collectionID,
+    );
+    if (E.isLeft(result)) return E.left(result.left);
+
+    return E.right(JSON.stringify(result.right));
+  }
+
   /**
    * Generate a JSON containing all the contents of collections and requests of a team
    *
@@ -1,5 +1,12 @@
 import { UseGuards } from '@nestjs/common';
-import { Resolver, Mutation, Args, Subscription, ID } from '@nestjs/graphql';
+import {
+  Resolver,
+  Mutation,
+  Args,
+  Subscription,
+  ID,
+  Query,
+} from '@nestjs/graphql';
 import { SkipThrottle } from '@nestjs/throttler';
 import { pipe } from 'fp-ts/function';
 import * as TE from 'fp-ts/TaskEither';
@@ -27,6 +34,37 @@ export class TeamEnvironmentsResolver {
     private readonly pubsub: PubSubService,
   ) {}
 
+  /* Queries */
+
+  @Query(() => TeamEnvironment, {
+    description: 'Returns a Team Environment with the given ID',
+  })
+  @UseGuards(GqlAuthGuard, GqlTeamEnvTeamGuard)
+  @RequiresTeamRole(
+    TeamMemberRole.VIEWER,
+    TeamMemberRole.EDITOR,
+    TeamMemberRole.OWNER,
+  )
+  async teamEnvironment(
+    @Args({
+      name: 'id',
+      description: 'ID of the Team Environment',
+      type: () => ID,
+    })
+    id: string,
+  ): Promise<TeamEnvironment> {
+    const teamEnvironment =
+      await this.teamEnvironmentsService.getTeamEnvironment(id);
+
+    if (E.isLeft(teamEnvironment)) throwErr(teamEnvironment.left);
+    return {
+      id: teamEnvironment.right.id,
+      name: teamEnvironment.right.name,
+      teamID: teamEnvironment.right.teamID,
+      variables: JSON.stringify(teamEnvironment.right.variables),
+    };
+  }
+
   /* Mutations */
 
   @Mutation(() => TeamEnvironment, {
@@ -1,7 +1,12 @@
 import { ExecException } from "child_process";
+import { readFileSync, rmSync, writeFileSync } from "fs";
+import { Server, createServer } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { resolve } from "path";
 
 import { HoppErrorCode } from "../../types/errors";
-import { runCLI, getErrorCode, getTestJsonFilePath } from "../utils";
+import { runCLI, getErrorCode, getTestJsonFilePath, trimAnsi } from "../utils";
 
 describe("Test `hopp test <file>` command:", () => {
   describe("Argument parsing", () => {
@@ -238,6 +243,360 @@ describe("Test `hopp test <file> --env <file>` command:", () => {
       expect(error).toBeNull();
     });
   });
+
+  describe("Multipart form-data", () => {
+    test("Successfully sends multipart form-data bodies with files read from paths relative to the collection file", async () => {
+      const args = `test ${getTestJsonFilePath("multipart-form-data-coll.json", "collection")}`;
+      const { error } = await runCLI(args);
+
+      expect(error).toBeNull();
+    });
+
+    test("Reports the error code `FILE_NOT_FOUND` if a form-data file doesn't exist", async () => {
+      const args = `test ${getTestJsonFilePath("multipart-form-data-missing-file-coll.json", "collection")}`;
+      const { error, stderr } = await runCLI(args);
+
+      expect(error).toMatchObject(<ExecException>{ code: 1 });
+      expect(trimAnsi(stderr)).toContain("FILE_NOT_FOUND");
+      expect(stderr).toContain("notfound.txt");
+    });
+  });
+
+  describe("Binary body", () => {
+    let server: Server;
+    let serverURL: string;
+
+    // Echoes back the headers and the body (hex encoded) of the request
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk) => chunks.push(chunk));
+        req.on("end", () => {
+          res.setHeader("Content-Type", "application/json");
+          res.end(
+            JSON.stringify({ headers: req.headers, body: Buffer.concat(chunks).toString("hex") })
+          );
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    test("Successfully sends files read from paths relative to the collection file as the body", async () => {
+      const COLL_PATH = getTestJsonFilePath("binary-body-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("binary-body-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+  });
+
+  describe("OAuth 2.0 authorization", () => {
+    let server: Server;
+    let serverURL: string;
+
+    // Serves as both the authorization server and the resource server, which echoes back the authorization header
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          res.setHeader("Content-Type", "application/json");
+
+          if (req.url !== "/token") {
+            return res.end(JSON.stringify({ authorization: req.headers.authorization ?? null }));
+          }
+
+          const params = new URLSearchParams(body);
+          const [clientID, clientSecret] = req.headers.authorization?.startsWith("Basic ")
+            ? Buffer.from(req.headers.authorization.slice(6), "base64").toString().split(":")
+            : [params.get("client_id"), params.get("client_secret")];
+          const isValidClient =
+            clientID === "hopp-cli" && clientSecret === "hopp-cli-secret" && params.get("scope") === "read";
+
+          if (isValidClient && params.get("grant_type") === "client_credentials") {
+            return res.end(JSON.stringify({ access_token: "client-credentials-token", token_type: "Bearer" }));
+          }
+
+          if (
+            isValidClient &&
+            params.get("grant_type") === "password" &&
+            params.get("username") === "alice" &&
+            params.get("password") === "secret1"
+          ) {
+            return res.end(JSON.stringify({ access_token: "password-token", token_type: "Bearer" }));
+          }
+
+          res.statusCode = 401;
+          res.end(JSON.stringify({ error: "invalid_client" }));
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    test("Successfully fetches access tokens with the client-credentials and password grants, sending the client credentials in the body or the header", async () => {
+      const COLL_PATH = getTestJsonFilePath("oauth2-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("oauth2-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+
+    test("Reports the error code `REQUEST_ERROR` if the access token can't be fetched", async () => {
+      const COLL_PATH = getTestJsonFilePath("oauth2-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("oauth2-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error, stderr } = await runCLI(args, {
+        env: { ...process.env, serverURL: `${serverURL}/invalid` },
+      });
+
+      expect(error).toMatchObject(<ExecException>{ code: 1 });
+      expect(trimAnsi(stderr)).toContain("REQUEST_ERROR Unable to fetch the OAuth 2.0 access token");
+    });
+  });
+
+  describe("AWS Signature authorization", () => {
+    let server: Server;
+    let serverURL: string;
+
+    // Echoes back the URL and the headers the signature is sent with
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        req.resume();
+        req.on("end", () => {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ url: req.url, headers: req.headers }));
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    test("Signs the requests in the headers or the query params", async () => {
+      const COLL_PATH = getTestJsonFilePath("aws-signature-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("aws-signature-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+  });
+
+  describe("Request settings", () => {
+    let server: Server;
+    let serverURL: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        req.resume();
+        req.on("end", () => {
+          if (req.url === "/redirect") {
+            res.writeHead(302, { Location: "/target" });
+            return res.end();
+          }
+
+          const respond = () => {
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify({ url: req.url }));
+          };
+
+          if (req.url === "/slow") {
+            setTimeout(respond, 500);
+            return;
+          }
+
+          respond();
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    test("Applies the redirect and timeout settings of the requests", async () => {
+      const COLL_PATH = getTestJsonFilePath("request-settings-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("request-settings-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+
+    test("Reports the error code `REQUEST_ERROR` if a request exceeds its timeout", async () => {
+      const COLL_PATH = getTestJsonFilePath("request-timeout-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("request-settings-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error, stderr } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toMatchObject(<ExecException>{ code: 1 });
+      expect(trimAnsi(stderr)).toContain("REQUEST_ERROR");
+    });
+  });
+
+  describe("Request, collection and dynamic variables", () => {
+    let server: Server;
+    let serverURL: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        req.resume();
+        req.on("end", () => {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ url: req.url }));
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    test("Resolves the variables in the order of request > folder > collection > environment", async () => {
+      const COLL_PATH = getTestJsonFilePath("scoped-variables-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("scoped-variables-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+
+    test("Resolves the dynamic variables", async () => {
+      const COLL_PATH = getTestJsonFilePath("dynamic-variables-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("request-settings-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+  });
+
+  describe("Requests from scripts with `pw.sendRequest`", () => {
+    let server: Server;
+    let serverURL: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          res.setHeader("Content-Type", "application/json");
+
+          if (req.url === "/login" && req.method === "POST") {
+            const { username } = JSON.parse(body);
+            return res.end(JSON.stringify({ token: `${username}-token` }));
+          }
+
+          if (req.url === "/fixture") {
+            return res.end(JSON.stringify({ name: "fixture" }));
+          }
+
+          res.end(JSON.stringify({ authorization: req.headers.authorization ?? null }));
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    test("Successfully runs the requests made from the pre-request and test scripts", async () => {
+      const COLL_PATH = getTestJsonFilePath("send-request-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("send-request-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+
+    test("Reports the error code `PRE_REQUEST_SCRIPT_ERROR` if the request from the pre-request script fails", async () => {
+      const COLL_PATH = getTestJsonFilePath("send-request-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("send-request-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      // Nothing listens on port 1
+      const { error, stderr } = await runCLI(args, {
+        env: { ...process.env, serverURL: "http://127.0.0.1:1" },
+      });
+
+      expect(error).toMatchObject(<ExecException>{ code: 1 });
+      expect(trimAnsi(stderr)).toContain(
+        "PRE_REQUEST_SCRIPT_ERROR Script execution failed: Error: connect ECONNREFUSED"
+      );
+    });
+  });
+
+  describe("Requests modified by pre-request scripts with `pw.request`", () => {
+    let server: Server;
+    let serverURL: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          res.setHeader("Content-Type", "application/json");
+          res.end(
+            JSON.stringify({
+              method: req.method,
+              url: req.url,
+              headers: req.headers,
+              body: body ? JSON.parse(body) : null,
+            })
+          );
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    test("Sends the request with the changes made by the pre-request script", async () => {
+      const COLL_PATH = getTestJsonFilePath("request-script-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("send-request-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+
+    test("Runs the scripts of the parent collections and folders before the ones of the request", async () => {
+      const COLL_PATH = getTestJsonFilePath("collection-scripts-coll.json", "collection");
+      const ENVS_PATH = getTestJsonFilePath("send-request-envs.json", "environment");
+      const args = `test ${COLL_PATH} --env ${ENVS_PATH}`;
+
+      const { error } = await runCLI(args, { env: { ...process.env, serverURL } });
+
+      expect(error).toBeNull();
+    });
+  });
 });
 
 describe("Test `hopp test <file> --delay <delay_in_ms>` command:", () => {
@@ -273,3 +632,305 @@ describe("Test `hopp test <file> --delay <delay_in_ms>` command:", () => {
     expect(error).toBeNull();
   });
 });
+
+describe("Test `hopp test <file> --reporter <type>` command:", () => {
+  const VALID_TEST_ARGS = `test ${getTestJsonFilePath("passes-coll.json", "collection")}`;
+  const REPORTS_DIR = resolve(tmpdir(), "hopp-cli-reports");
+
+  afterAll(() => rmSync(REPORTS_DIR, { recursive: true, force: true }));
+
+  test("Errors with the code `INVALID_ARGUMENT` on not supplying a reporter type", async () => {
+    const args = `${VALID_TEST_ARGS} --reporter`;
+    const { stderr } = await runCLI(args);
+
+    const out = getErrorCode(stderr);
+    expect(out).toBe<HoppErrorCode>("INVALID_ARGUMENT");
+  });
+
+  test("Errors with the code `INVALID_ARGUMENT` on supplying an unsupported reporter type", async () => {
+    const args = `${VALID_TEST_ARGS} --reporter html`;
+    const { stderr } = await runCLI(args);
+
+    const out = getErrorCode(stderr);
+    expect(out).toBe<HoppErrorCode>("INVALID_ARGUMENT");
+  });
+
+  test("Exports a JUnit XML report with failures and errors to the supplied output path", async () => {
+    const COLL_PATH = getTestJsonFilePath("fails-coll.json", "collection");
+    const REPORT_PATH = resolve(REPORTS_DIR, "junit", "report.xml");
+    const args = `test ${COLL_PATH} --reporter junit --reporter-output ${REPORT_PATH}`;
+
+    const { error } = await runCLI(args);
+    expect(error).toMatchObject(<ExecException>{ code: 1 });
+
+    const report = readFileSync(REPORT_PATH).toString();
+    expect(report).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    expect(report).toContain(`<testsuites name="Hoppscotch CLI"`);
+    expect(report).toContain(`<testsuite name="tests/success"`);
+    expect(report).toContain(`type="PRE_REQUEST_SCRIPT_ERROR"`);
+  });
+
+  test("Exports a JSON report to the supplied output path", async () => {
+    const COLL_PATH = getTestJsonFilePath("fails-coll.json", "collection");
+    const REPORT_PATH = resolve(REPORTS_DIR, "report.json");
+    const args = `test ${COLL_PATH} -r json --reporter-output ${REPORT_PATH}`;
+
+    const { error } = await runCLI(args);
+    expect(error).toMatchObject(<ExecException>{ code: 1 });
+
+    const report = JSON.parse(readFileSync(REPORT_PATH).toString());
+    expect(report.result).toBe(false);
+    expect(report.summary.preRequestScripts.failed).toBeGreaterThan(0);
+    expect(report.iterations).toHaveLength(1);
+    expect(report.iterations[0].requests).toContainEqual(
+      expect.objectContaining({
+        path: "tests/success",
+        result: false,
+        errors: expect.arrayContaining([
+          expect.objectContaining({ code: "PRE_REQUEST_SCRIPT_ERROR" }),
+        ]),
+      })
+    );
+  });
+});
+
+describe("Test `hopp test <file> --data <file> --iterations <count>` command:", () => {
+  const COLL_PATH = getTestJsonFilePath("iteration-data-coll.json", "collection");
+  const VALID_TEST_ARGS = `test ${COLL_PATH}`;
+  const REPORTS_DIR = resolve(tmpdir(), "hopp-cli-iteration-reports");
+
+  afterAll(() => rmSync(REPORTS_DIR, { recursive: true, force: true }));
+
+  describe("Supplied data file validations", () => {
+    test("Errors with the code `INVALID_ARGUMENT` if no file is supplied", async () => {
+      const args = `${VALID_TEST_ARGS} --data`;
+      const { stderr } = await runCLI(args);
+
+      const out = getErrorCode(stderr);
+      expect(out).toBe<HoppErrorCode>("INVALID_ARGUMENT");
+    });
+
+    test("Errors with the code `INVALID_FILE_TYPE` if the supplied data file doesn't end with the `.json` or `.csv` extension", async () => {
+      const args = `${VALID_TEST_ARGS} --data ${getTestJsonFilePath("notjson-coll.txt", "collection")}`;
+      const { stderr } = await runCLI(args);
+
+      const out = getErrorCode(stderr);
+      expect(out).toBe<HoppErrorCode>("INVALID_FILE_TYPE");
+    });
+
+    test("Errors with the code `FILE_NOT_FOUND` if the supplied data file doesn't exist", async () => {
+      const args = `${VALID_TEST_ARGS} --data notfound.csv`;
+      const { stderr } = await runCLI(args);
+
+      const out = getErrorCode(stderr);
+      expect(out).toBe<HoppErrorCode>("FILE_NOT_FOUND");
+    });
+
+    test("Errors with the code `MALFORMED_DATA_FILE` on supplying a malformed CSV data file", async () => {
+      const DATA_PATH = getTestJsonFilePath("malformed-iteration-data.csv", "data");
+      const args = `${VALID_TEST_ARGS} --data ${DATA_PATH}`;
+      const { stderr } = await runCLI(args);
+
+      const out = getErrorCode(stderr);
+      expect(out).toBe<HoppErrorCode>("MALFORMED_DATA_FILE");
+    });
+
+    test("Errors with the code `MALFORMED_DATA_FILE` on supplying a malformed JSON data file", async () => {
+      const DATA_PATH = getTestJsonFilePath("malformed-iteration-data.json", "data");
+      const args = `${VALID_TEST_ARGS} --data ${DATA_PATH}`;
+      const { stderr } = await runCLI(args);
+
+      const out = getErrorCode(stderr);
+      expect(out).toBe<HoppErrorCode>("MALFORMED_DATA_FILE");
+    });
+  });
+
+  test("Errors with the code `INVALID_ARGUMENT` on supplying an invalid iterations count", async () => {
+    const args = `${VALID_TEST_ARGS} --iterations 0`;
+    const { stderr } = await runCLI(args);
+
+    const out = getErrorCode(stderr);
+    expect(out).toBe<HoppErrorCode>("INVALID_ARGUMENT");
+  });
+
+  test("Successfully runs an iteration for each row of the supplied CSV data file", async () => {
+    const DATA_PATH = getTestJsonFilePath("iteration-data.csv", "data");
+    const args = `${VALID_TEST_ARGS} --data ${DATA_PATH}`;
+
+    const { error, stdout } = await runCLI(args);
+
+    expect(stdout).toContain("Iteration 1/2");
+    expect(stdout).toContain("Iteration 2/2");
+    expect(error).toBeNull();
+  });
+
+  test("Successfully runs an iteration for each item of the supplied JSON data file", async () => {
+    const DATA_PATH = getTestJsonFilePath("iteration-data.json", "data");
+    const args = `${VALID_TEST_ARGS} --data ${DATA_PATH}`;
+
+    const { error } = await runCLI(args);
+    expect(error).toBeNull();
+  });
+
+  test("Groups the exported report by iteration, reusing the last data row for the remaining iterations", async () => {
+    const DATA_PATH = getTestJsonFilePath("iteration-data.csv", "data");
+    const REPORT_PATH = resolve(REPORTS_DIR, "report.json");
+    const args = `${VALID_TEST_ARGS} --data ${DATA_PATH} --iterations 3 -r json --reporter-output ${REPORT_PATH}`;
+
+    await runCLI(args);
+
+    const report = JSON.parse(readFileSync(REPORT_PATH).toString());
+    expect(report.iterations).toHaveLength(3);
+
+    report.iterations.forEach(
+      (
+        { iteration, requests }: { iteration: number; requests: any[] },
+        index: number
+      ) => {
+        expect(iteration).toBe(index + 1);
+        expect(requests).toHaveLength(1);
+
+        const [dataTestReport, indexTestReport] = requests[0].tests;
+        expect(dataTestReport.failed).toBe(0);
+        expect(dataTestReport.passed).toBe(2);
+        expect(indexTestReport.failed).toBe(0);
+      }
+    );
+  });
+});
+
+describe("Test `hopp test <collection_id> --token <access_token> --server <server_url>` command:", () => {
+  const TOKEN = "valid-token";
+  const COLLECTION_ID = "team-collection-id";
+  const ENVIRONMENT_ID = "team-environment-id";
+
+  let server: Server;
+  let serverURL: string;
+
+  // Mocks the GraphQL API of a self-hosted backend, along with an endpoint hit by the team collection requests
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+
+        if (req.url !== "/graphql") {
+          return res.end(JSON.stringify({ method: req.method }));
+        }
+
+        if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+          return res.end(JSON.stringify({ errors: [{ message: "access_token/invalid" }], data: null }));
+        }
+
+        const { variables } = JSON.parse(body);
+
+        if (variables.collectionID === COLLECTION_ID) {
+          const request = {
+            v: "1",
+            name: "team-request",
+            endpoint: "<<baseURL>>/echo",
+            method: "GET",
+            headers: [],
+            params: [],
+            auth: { authType: "inherit", authActive: true },
+            body: { contentType: null, body: null },
+            preRequestScript: "",
+            testScript: `pw.test("Resolves the team environment variables", () => {
+              pw.expect(pw.response.status).toBe(200);
+              pw.expect(pw.response.body.method).toBe("GET");
+              pw.expect(pw.env.get("baseURL")).toBe("${serverURL}");
+            });`,
+          };
+          const exportedCollection = {
+            name: "Team Collection",
+            folders: [{ name: "Team Folder", folders: [], requests: [request], data: null }],
+            requests: [request],
+            data: JSON.stringify({ auth: { authType: "none", authActive: true }, headers: [] }),
+          };
+
+          return res.end(JSON.stringify({ data: { exportCollectionToJSON: JSON.stringify(exportedCollection) } }));
+        }
+
+        if (variables.id === ENVIRONMENT_ID) {
+          return res.end(
+            JSON.stringify({
+              data: {
+                teamEnvironment: {
+                  name: "Team Environment",
+                  variables: JSON.stringify([{ key: "baseURL", value: serverURL }]),
+                },
+              },
+            })
+          );
+        }
+
+        res.end(JSON.stringify({ errors: [{ message: "team/invalid_coll_id" }], data: null }));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  test("Errors with the code `INVALID_ARGUMENT` on supplying the token without the server URL", async () => {
+    const args = `test ${COLLECTION_ID} --token ${TOKEN}`;
+    const { stderr } = await runCLI(args);
+
+    const out = getErrorCode(stderr);
+    expect(out).toBe<HoppErrorCode>("INVALID_ARGUMENT");
+  });
+
+  test("Errors with the code `INVALID_ARGUMENT` on supplying an invalid server URL", async () => {
+    const args = `test ${COLLECTION_ID} --token ${TOKEN} --server invalid-url`;
+    const { stderr } = await runCLI(args);
+
+    const out = getErrorCode(stderr);
+    expect(out).toBe<HoppErrorCode>("INVALID_ARGUMENT");
+  });
+
+  test("Errors with the code `INVALID_SERVER_URL` if the server can't be reached", async () => {
+    const args = `test ${COLLECTION_ID} --token ${TOKEN} --server http://127.0.0.1:1`;
+    const { stderr } = await runCLI(args);
+
+    const out = getErrorCode(stderr);
+    expect(out).toBe<HoppErrorCode>("INVALID_SERVER_URL");
+  });
+
+  test("Errors with the code `TOKEN_INVALID` on supplying an invalid access token", async () => {
+    const args = `test ${COLLECTION_ID} --token invalid-token --server ${serverURL}`;
+    const { stderr } = await runCLI(args);
+
+    const out = getErrorCode(stderr);
+    expect(out).toBe<HoppErrorCode>("TOKEN_INVALID");
+  });
+
+  test("Errors with the code `INVALID_ID` on supplying an invalid collection ID", async () => {
+    const args = `test invalid-collection-id --token ${TOKEN} --server ${serverURL}`;
+    const { stderr } = await runCLI(args);
+
+    const out = getErrorCode(stderr);
+    expect(out).toBe<HoppErrorCode>("INVALID_ID");
+  });
+
+  test("Successfully runs the team collection with the team environment fetched from the server", async () => {
+    const args = `test ${COLLECTION_ID} -e ${ENVIRONMENT_ID} --token ${TOKEN} --server ${serverURL}`;
+    const { error, stdout } = await runCLI(args);
+
+    expect(error).toBeNull();
+    expect(stdout).toContain("Team Collection/Team Folder/team-request");
+  });
+
+  test("Successfully runs the team collection with a local environment file", async () => {
+    const ENVS_PATH = resolve(tmpdir(), "hopp-team-collection-envs.json");
+    writeFileSync(ENVS_PATH, JSON.stringify({ baseURL: serverURL }));
+
+    const args = `test ${COLLECTION_ID} -e ${ENVS_PATH} --token ${TOKEN} --server ${serverURL}`;
+    const { error } = await runCLI(args);
+
+    rmSync(ENVS_PATH, { force: true });
+    expect(error).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
 import { Environment, HoppRESTRequest } from "@hoppscotch/data";
+import * as E from "fp-ts/Either";
 import { EffectiveHoppRESTRequest } from "../../../interfaces/request";
 import { HoppCLIError } from "../../../types/errors";
 import { getEffectiveRESTRequest } from "../../../utils/pre-request";
@@ -147,4 +148,25 @@ describe("getEffectiveRESTRequest", () => {
       effectiveFinalBody: vars[3].value,
     });
   });
+
+  test("Dynamic variables resolved once per request.", () => {
+    SAMPLE_REQUEST.endpoint = "https://example.com/users/<<$guid>>";
+    SAMPLE_REQUEST.body = {
+      contentType: "application/json",
+      body: '{ "id": "<<$guid>>" }',
+    };
+
+    const result = getEffectiveRESTRequest(SAMPLE_REQUEST, DEFAULT_ENV);
+
+    expect(result).toBeRight();
+
+    if (E.isRight(result)) {
+      const { effectiveFinalURL, effectiveFinalBody } =
+        result.right.effectiveRequest;
+      const id = effectiveFinalURL.split("/").pop();
+
+      expect(id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(JSON.parse(effectiveFinalBody as string).id).toBe(id);
+    }
+  });
 });
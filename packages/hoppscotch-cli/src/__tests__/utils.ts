@@ -25,10 +25,11 @@ export const getErrorCode = (out: string) => {
   return ansiTrimmedStr.split(" ")[0];
 };
 
-export const getTestJsonFilePath = (file: string, kind: "collection" | "environment") => {
+export const getTestJsonFilePath = (file: string, kind: "collection" | "environment" | "data") => {
   const kindDir = {
     collection: "collections",
     environment: "environments",
+    data: "data",
   }[kind];
 
   const filePath = resolve(__dirname, `../../src/__tests__/samples/${kindDir}/${file}`);
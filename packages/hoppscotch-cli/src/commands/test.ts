@@ -8,17 +8,34 @@ import { parseCollectionData } from "../utils/mutators";
 import { parseEnvsData } from "../options/test/env";
 import { TestCmdOptions } from "../types/commands";
 import { parseDelayOption } from "../options/test/delay";
+import { parseIterationData } from "../options/test/data";
+import { parseIterationsOption } from "../options/test/iterations";
+import { parseWorkspaceAccessOptions } from "../options/test/workspace";
+import {
+  getReporterOutputPath,
+  parseReporterOption,
+} from "../options/test/reporter";
 import { HoppEnvs } from "../types/request";
 import { isHoppCLIError } from "../utils/checks";
+import { exportReport } from "../utils/reporters";
 
 export const test = (path: string, options: TestCmdOptions) => async () => {
   try {
     const delay = options.delay ? parseDelayOption(options.delay) : 0
-    const envs = options.env ? await parseEnvsData(options.env) : <HoppEnvs>{ global: [], selected: [] }
-    const collections = await parseCollectionData(path)
+    const reporter = options.reporter ? parseReporterOption(options.reporter) : null
+    const iterations = options.iterations ? parseIterationsOption(options.iterations) : undefined
+    const workspaceAccess = parseWorkspaceAccessOptions(options.token, options.server)
+    const envs = options.env ? await parseEnvsData(options.env, workspaceAccess) : <HoppEnvs>{ global: [], selected: [] }
+    const iterationData = options.data ? await parseIterationData(options.data) : undefined
+    const collections = await parseCollectionData(path, workspaceAccess)
 
-    const report = await collectionsRunner({collections, envs, delay})
+    const report = await collectionsRunner({collections, envs, delay, iterations, iterationData})
     const hasSucceeded = collectionsRunnerResult(report)
+
+    if (reporter) {
+      await exportReport(report, reporter, getReporterOutputPath(reporter, options.reporterOutput))
+    }
+
     collectionsRunnerExit(hasSucceeded)
   } catch(e) {
     if(isHoppCLIError(e)) {
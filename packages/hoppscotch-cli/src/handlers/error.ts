@@ -32,12 +32,13 @@ const parseErrorData = (e: unknown) => {
 };
 
 /**
- * Handles HoppError to generate error messages based on data related
- * to error code and exits program with exit code 1.
+ * Generates error message based on data related to error code.
  * @param error Error object with code of type HoppErrorCode.
+ * @returns Error message in string format, empty for safe commander errors.
  */
-export const handleError = <T extends HoppErrorCode>(error: HoppError<T>) => {
-  const ERROR_CODE = BG_FAIL(error.code);
+export const getErrorMessage = <T extends HoppErrorCode>(
+  error: HoppError<T>
+): string => {
   let ERROR_MSG;
 
   switch (error.code) {
@@ -50,6 +51,11 @@ export const handleError = <T extends HoppErrorCode>(error: HoppError<T>) => {
     case "MALFORMED_ENV_FILE":
       ERROR_MSG = `The environment file is not of the correct format.`;
       break;
+    case "MALFORMED_DATA_FILE":
+      ERROR_MSG = `The data file is not of the correct format: ${
+        error.path
+      }\n${parseErrorData(error.data)}`;
+      break;
     case "BULK_ENV_FILE":
       ERROR_MSG = `CLI doesn't support bulk environments export.`;
       break;
@@ -82,8 +88,40 @@ export const handleError = <T extends HoppErrorCode>(error: HoppError<T>) => {
     case "TESTS_FAILING":
       ERROR_MSG = error.data;
       break;
+    case "INVALID_SERVER_URL":
+      ERROR_MSG = `Unable to reach the server, please check the server URL.\n${parseErrorData(
+        error.data
+      )}`;
+      break;
+    case "TOKEN_INVALID":
+      ERROR_MSG = `The access token is invalid or has expired, please supply a valid access token.\n${parseErrorData(
+        error.data
+      )}`;
+      break;
+    case "INVALID_ID":
+      ERROR_MSG = `The collection or environment doesn't exist or isn't accessible with the access token.\n${parseErrorData(
+        error.data
+      )}`;
+      break;
+    case "REPORT_EXPORT_FAILED":
+      ERROR_MSG = `Unable to export the report to ${
+        error.path
+      }\n${parseErrorData(error.data)}`;
+      break;
   }
 
+  return ERROR_MSG;
+};
+
+/**
+ * Handles HoppError to generate error messages based on data related
+ * to error code and exits program with exit code 1.
+ * @param error Error object with code of type HoppErrorCode.
+ */
+export const handleError = <T extends HoppErrorCode>(error: HoppError<T>) => {
+  const ERROR_CODE = BG_FAIL(error.code);
+  const ERROR_MSG = getErrorMessage(error);
+
   if (!S.isEmpty(ERROR_MSG)) {
     console.error(ERROR_CODE, ERROR_MSG);
   }
@@ -46,14 +46,41 @@ program.exitOverride().configureOutput({
 program
   .command("test")
   .argument(
-    "<file_path>",
-    "path to a hoppscotch collection.json file for CI testing"
+    "<file_path_or_id>",
+    "path to a hoppscotch collection.json file or a team collection ID (along with '--token' and '--server') for CI testing"
+  )
+  .option(
+    "-e, --env <file_path_or_id>",
+    "path to an environment variables json file or a team environment ID (along with '--token' and '--server')"
   )
-  .option("-e, --env <file_path>", "path to an environment variables json file")
   .option(
     "-d, --delay <delay_in_ms>",
     "delay in milliseconds(ms) between consecutive requests within a collection"
   )
+  .option(
+    "--data <file_path>",
+    "path to a data (json|csv) file, each row of which is injected as variables for an iteration"
+  )
+  .option(
+    "--iterations <count>",
+    "number of times to run the collection, defaults to the number of rows in the data file"
+  )
+  .option(
+    "-r, --reporter <type>",
+    "export the test results as a report of the given type (junit|json)"
+  )
+  .option(
+    "--reporter-output <file_path>",
+    "path to write the report to, when used along with the '--reporter' option"
+  )
+  .option(
+    "--token <access_token>",
+    "personal access token used to fetch the team collection and environment from the server"
+  )
+  .option(
+    "--server <server_url>",
+    "URL of the self-hosted Hoppscotch backend to fetch the team collection and environment from"
+  )
   .allowExcessArguments(false)
   .allowUnknownOption(false)
   .description("running hoppscotch collection.json file")
@@ -1,5 +1,6 @@
 import { AxiosPromise, AxiosRequestConfig } from "axios";
 import { HoppRESTRequest } from "@hoppscotch/data";
+import { AWSSignatureConfig, OAuth2TokenRequest } from "../types/request";
 
 /**
  * Provides definition to object returned by createRequest.
@@ -34,5 +35,15 @@ export interface EffectiveHoppRESTRequest extends HoppRESTRequest {
   effectiveFinalDisplayURL?: string;
   effectiveFinalHeaders: { key: string; value: string; active: boolean }[];
   effectiveFinalParams: { key: string; value: string; active: boolean }[];
-  effectiveFinalBody: FormData | string | null;
+  effectiveFinalBody: FormData | Blob | string | null;
+  /**
+   * Present when the request uses OAuth 2.0 without a token, in which case
+   * an access token is fetched with these details before running the request.
+   */
+  effectiveFinalOAuth2TokenRequest?: OAuth2TokenRequest;
+  /**
+   * Present when the request uses AWS Signature, in which case the request
+   * is signed with these details once its URL, params and body are final.
+   */
+  effectiveFinalAWSSignature?: AWSSignatureConfig;
 }
@@ -1,4 +1,4 @@
-import { TestResponse } from "@hoppscotch/js-sandbox";
+import { IterationInfo, TestResponse } from "@hoppscotch/js-sandbox";
 import { Method } from "axios";
 import { ExpectResult } from "../types/response";
 import { HoppEnvs } from "../types/request";
@@ -38,11 +38,13 @@ export interface RequestRunnerResponse extends TestResponse {
  * @property {string} testScript Stringified hoppscotch testScript, used while
  * running testRunner.
  * @property {TestResponse} response Response structure for test script runner.
+ * @property {IterationInfo} iteration Details of the current iteration.
  */
 export interface TestScriptParams {
   testScript: string;
   response: TestResponse;
   envs: HoppEnvs;
+  iteration?: IterationInfo;
 }
 
 /**
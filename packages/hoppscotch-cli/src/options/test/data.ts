@@ -0,0 +1,107 @@
+import fs from "fs/promises";
+import * as E from "fp-ts/Either";
+import { z } from "zod";
+
+import { HOPP_DATA_FILE_EXT } from "../../types/commands";
+import { error } from "../../types/errors";
+import { IterationData } from "../../types/request";
+import { parseCSV } from "../../utils/functions/csv";
+import { readJsonFile } from "../../utils/mutators";
+
+// Shape of the JSON data file, an array of objects with each object being a data row
+const IterationDataJSON = z.array(
+  z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))
+);
+
+/**
+ * Parses data json file for given path, where each item of the root array
+ * describes variables for an iteration.
+ * @param path Path of data.json file to be parsed
+ * @returns Variables for each iteration
+ */
+async function parseJSONIterationData(path: string): Promise<IterationData[]> {
+  const contents = await readJsonFile(path);
+  const result = IterationDataJSON.safeParse(contents);
+
+  if (!result.success) {
+    throw error({
+      code: "MALFORMED_DATA_FILE",
+      path,
+      data: "Expected an array of objects with string, number, boolean or null values",
+    });
+  }
+
+  return result.data.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key, String(value ?? "")])
+    )
+  );
+}
+
+/**
+ * Parses data csv file for given path, where the first row is the header
+ * row describing variable names and each subsequent row describes variables
+ * for an iteration.
+ * @param path Path of data.csv file to be parsed
+ * @returns Variables for each iteration
+ */
+async function parseCSVIterationData(path: string): Promise<IterationData[]> {
+  try {
+    await fs.access(path);
+  } catch (e) {
+    throw error({ code: "FILE_NOT_FOUND", path: path });
+  }
+
+  const rows = parseCSV((await fs.readFile(path)).toString());
+
+  if (E.isLeft(rows)) {
+    throw error({ code: "MALFORMED_DATA_FILE", path, data: rows.left });
+  }
+
+  const [header = [], ...dataRows] = rows.right;
+
+  if (header.some((key) => key.trim() === "")) {
+    throw error({
+      code: "MALFORMED_DATA_FILE",
+      path,
+      data: "Expected the header row to have non-empty variable names",
+    });
+  }
+
+  return dataRows.map((row, index) => {
+    if (row.length !== header.length) {
+      throw error({
+        code: "MALFORMED_DATA_FILE",
+        path,
+        data: `Expected ${header.length} fields on row ${index + 2}, found ${
+          row.length
+        }`,
+      });
+    }
+
+    return Object.fromEntries(
+      header.map((key, keyIndex) => [key.trim(), row[keyIndex]])
+    );
+  });
+}
+
+/**
+ * Parses data file (json/csv) for given path and validates the parsed
+ * iteration data
+ * @param path Path of data.json/data.csv file to be parsed
+ * @returns For successful parsing we get variables for each iteration
+ */
+export async function parseIterationData(
+  path: string
+): Promise<IterationData[]> {
+  const ext = path.split(".").pop()?.toLowerCase() as HOPP_DATA_FILE_EXT;
+
+  switch (ext) {
+    case "json":
+      return parseJSONIterationData(path);
+    case "csv":
+      return parseCSVIterationData(path);
+    default:
+      throw error({ code: "INVALID_FILE_TYPE", data: path });
+  }
+}
@@ -2,20 +2,33 @@ import { Environment } from "@hoppscotch/data";
 import { entityReference } from "verzod";
 import { z } from "zod";
 
+import { TeamWorkspaceAccess } from "../../types/commands";
 import { error } from "../../types/errors";
 import {
   HoppEnvKeyPairObject,
   HoppEnvPair,
   HoppEnvs
 } from "../../types/request";
+import { isExistingFile } from "../../utils/checks";
 import { readJsonFile } from "../../utils/mutators";
+import { fetchTeamEnvironment } from "../../utils/team-workspace";
 
 /**
- * Parses env json file for given path and validates the parsed env json object
- * @param path Path of env.json file to be parsed
+ * Parses env json file for given path and validates the parsed env json object.
+ * With team workspace access, the path is treated as a team environment ID
+ * if no file exists at the path.
+ * @param path Path of env.json file to be parsed or team environment ID
+ * @param workspaceAccess Server URL and access token of the team workspace
  * @returns For successful parsing we get HoppEnvs object
  */
-export async function parseEnvsData(path: string) {
+export async function parseEnvsData(
+  path: string,
+  workspaceAccess?: TeamWorkspaceAccess | null
+) {
+  if (workspaceAccess && !(await isExistingFile(path))) {
+    return fetchTeamEnvironment(path, workspaceAccess);
+  }
+
   const contents = await readJsonFile(path);
   const envPairs: Array<Environment["variables"][number] | HoppEnvPair> = [];
 
@@ -0,0 +1,14 @@
+import { error } from "../../types/errors";
+
+export function parseIterationsOption(iterations: string): number {
+  const maybeInt = Number.parseInt(iterations)
+
+  if(!Number.isNaN(maybeInt) && maybeInt > 0) {
+    return maybeInt
+  } else {
+    throw error({
+      code: "INVALID_ARGUMENT",
+      data: "Expected '--iterations' value to be a positive number",
+    })
+  }
+}
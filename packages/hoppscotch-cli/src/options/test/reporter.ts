@@ -0,0 +1,36 @@
+import { error } from "../../types/errors";
+import { HoppReporterType } from "../../types/commands";
+
+/**
+ * Default file path (relative to the current working directory) used for
+ * exporting the report when `--reporter-output` isn't supplied.
+ */
+const DEFAULT_REPORTER_OUTPUT: Record<HoppReporterType, string> = {
+  junit: "hopp-junit-report.xml",
+  json: "hopp-report.json",
+};
+
+const isReporterType = (reporter: string): reporter is HoppReporterType =>
+  reporter in DEFAULT_REPORTER_OUTPUT;
+
+export function parseReporterOption(reporter: string): HoppReporterType {
+  const maybeReporter = reporter.trim().toLowerCase();
+
+  if (isReporterType(maybeReporter)) {
+    return maybeReporter;
+  } else {
+    throw error({
+      code: "INVALID_ARGUMENT",
+      data: `Expected '-r, --reporter' value to be one of: ${Object.keys(
+        DEFAULT_REPORTER_OUTPUT
+      ).join(", ")}`,
+    });
+  }
+}
+
+export function getReporterOutputPath(
+  reporter: HoppReporterType,
+  output: string | undefined
+): string {
+  return output ?? DEFAULT_REPORTER_OUTPUT[reporter];
+}
@@ -0,0 +1,45 @@
+import { TeamWorkspaceAccess } from "../../types/commands";
+import { error } from "../../types/errors";
+
+/**
+ * Parses `--token` and `--server` options required for accessing the team
+ * workspace data on a self-hosted instance.
+ * @param token Access token supplied via `--token`.
+ * @param server Server URL supplied via `--server`.
+ * @returns Team workspace access details, null if neither of the options is supplied.
+ */
+export function parseWorkspaceAccessOptions(
+  token: string | undefined,
+  server: string | undefined
+): TeamWorkspaceAccess | null {
+  if (token === undefined && server === undefined) {
+    return null;
+  }
+
+  if (!token || !server) {
+    throw error({
+      code: "INVALID_ARGUMENT",
+      data: "Expected both the '--token' and '--server' options to be supplied",
+    });
+  }
+
+  let serverURL: URL;
+
+  try {
+    serverURL = new URL(server);
+  } catch (e) {
+    throw error({
+      code: "INVALID_ARGUMENT",
+      data: `Invalid server URL: ${server}`,
+    });
+  }
+
+  if (serverURL.protocol !== "http:" && serverURL.protocol !== "https:") {
+    throw error({
+      code: "INVALID_ARGUMENT",
+      data: `Invalid server URL: ${server}`,
+    });
+  }
+
+  return { serverURL: serverURL.toString().replace(/\/+$/, ""), token };
+}
@@ -1,10 +1,19 @@
 import { HoppCollection } from "@hoppscotch/data";
-import { HoppEnvs } from "./request";
+import { HoppEnvs, IterationData } from "./request";
 
 export type CollectionRunnerParam = {
   collections: HoppCollection[];
   envs: HoppEnvs;
   delay?: number;
+  /**
+   * Number of times the collections are run, defaults to the number of
+   * iteration-data rows (or 1, if no iteration-data is supplied).
+   */
+  iterations?: number;
+  /**
+   * Variables injected into the envs for each iteration.
+   */
+  iterationData?: IterationData[];
 };
 
 export type HoppCollectionFileExt = "json";
@@ -1,6 +1,27 @@
 export type TestCmdOptions = {
   env: string | undefined;
   delay: string | undefined;
+  reporter: string | undefined;
+  reporterOutput: string | undefined;
+  data: string | undefined;
+  iterations: string | undefined;
+  token: string | undefined;
+  server: string | undefined;
 };
 
 export type HOPP_ENV_FILE_EXT = "json";
+export type HOPP_DATA_FILE_EXT = "json" | "csv";
+
+/**
+ * Formats supported by `--reporter` for exporting the collection-runner report.
+ */
+export type HoppReporterType = "junit" | "json";
+
+/**
+ * Details for accessing the team workspace data on a self-hosted instance,
+ * supplied via `--server` and `--token`.
+ */
+export type TeamWorkspaceAccess = {
+  serverURL: string;
+  token: string;
+};
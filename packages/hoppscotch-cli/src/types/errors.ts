@@ -26,6 +26,11 @@ type HoppErrors = {
   MALFORMED_ENV_FILE: HoppErrorPath & HoppErrorData;
   BULK_ENV_FILE: HoppErrorPath & HoppErrorData;
   INVALID_FILE_TYPE: HoppErrorData;
+  REPORT_EXPORT_FAILED: HoppErrorPath & HoppErrorData;
+  MALFORMED_DATA_FILE: HoppErrorPath & HoppErrorData;
+  INVALID_SERVER_URL: HoppErrorData;
+  TOKEN_INVALID: HoppErrorData;
+  INVALID_ID: HoppErrorData;
 };
 
 export type HoppErrorCode = keyof HoppErrors;
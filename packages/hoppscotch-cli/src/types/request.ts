@@ -1,4 +1,11 @@
-import { Environment, HoppCollection, HoppRESTRequest } from "@hoppscotch/data";
+import {
+  AWSSignatureCredentials,
+  Environment,
+  HoppCollection,
+  HoppRESTAuthAWSSignature,
+  HoppRESTRequest,
+} from "@hoppscotch/data";
+import { IterationInfo } from "@hoppscotch/js-sandbox";
 import { z } from "zod";
 
 import { TestReport } from "../interfaces/response";
@@ -7,6 +14,36 @@ import { HoppCLIError } from "./errors";
 export type FormDataEntry = {
   key: string;
   value: string | Blob;
+  filename?: string;
+};
+
+/**
+ * OAuth 2.0 grant types supported for fetching access tokens from the CLI.
+ */
+export type OAuth2GrantType = "client_credentials" | "password";
+
+/**
+ * Details (with environment variables applied) required to fetch an
+ * OAuth 2.0 access token before running a request.
+ */
+export type OAuth2TokenRequest = {
+  grantType: OAuth2GrantType;
+  oidcDiscoveryURL: string;
+  accessTokenURL: string;
+  clientID: string;
+  clientSecret: string;
+  scope: string;
+  username: string;
+  password: string;
+  clientAuthentication: "header" | "body";
+};
+
+/**
+ * Details (with environment variables applied) required to sign a request
+ * with AWS Signature Version 4 while creating it.
+ */
+export type AWSSignatureConfig = AWSSignatureCredentials & {
+  addTo: HoppRESTAuthAWSSignature["addTo"];
 };
 
 export type HoppEnvPair = Environment["variables"][number];
@@ -18,6 +55,11 @@ export type HoppEnvs = {
   selected: HoppEnvPair[];
 };
 
+/**
+ * Variables (key-value pairs) supplied for a single iteration.
+ */
+export type IterationData = Record<string, string>;
+
 export type CollectionStack = {
   path: string;
   collection: HoppCollection;
@@ -25,6 +67,10 @@ export type CollectionStack = {
 
 export type RequestReport = {
   path: string;
+  /**
+   * Zero based index of the iteration in which the request was processed.
+   */
+  iteration: number;
   tests: TestReport[];
   errors: HoppCLIError[];
   result: boolean;
@@ -36,4 +82,5 @@ export type ProcessRequestParams = {
   envs: HoppEnvs;
   path: string;
   delay: number;
+  iteration?: IterationInfo;
 };
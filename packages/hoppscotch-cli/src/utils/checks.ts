@@ -1,4 +1,5 @@
-import { HoppCollection, isHoppRESTRequest } from "@hoppscotch/data";
+import { HoppCollection, HoppRESTRequest } from "@hoppscotch/data";
+import fs from "fs/promises";
 import * as A from "fp-ts/Array";
 import { CommanderError } from "commander";
 import { HoppCLIError, HoppErrnoException } from "../types/errors";
@@ -34,8 +35,13 @@ export const isRESTCollection = (param: unknown): param is HoppCollection => {
     if (!hasProperty(param, "requests") || !Array.isArray(param.requests)) {
       return false;
     } else {
-      // Checks each requests array to be valid HoppRESTRequest.
-      const checkRequests = A.every(isHoppRESTRequest)(param.requests);
+      // Checks each requests array to be valid HoppRESTRequest. Requests from
+      // V1 onwards (with the `v` property) are accepted, as the fields added
+      // in the later versions are read leniently while running them.
+      const checkRequests = A.every(
+        (request: unknown) =>
+          HoppRESTRequest.is(request) && hasProperty(request, "v")
+      )(param.requests);
       if (!checkRequests) {
         return false;
       }
@@ -102,3 +108,17 @@ export const isSafeCommanderError = (
 ): error is CommanderError => {
   return error instanceof CommanderError && error.exitCode === 0;
 };
+
+/**
+ * Checks whether a file exists at the given path.
+ * @param path Path to be checked.
+ * @returns Promise resolving to true, if the file exists; False, otherwise.
+ */
+export const isExistingFile = async (path: string) => {
+  try {
+    await fs.access(path);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
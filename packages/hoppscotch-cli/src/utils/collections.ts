@@ -1,4 +1,6 @@
 import { HoppCollection, HoppRESTRequest } from "@hoppscotch/data";
+import { IterationInfo } from "@hoppscotch/js-sandbox";
+import { combineScripts } from "@hoppscotch/js-sandbox/node";
 import { bold } from "chalk";
 import { log } from "console";
 import * as A from "fp-ts/Array";
@@ -8,7 +10,9 @@ import round from "lodash/round";
 import { CollectionRunnerParam } from "../types/collections";
 import {
   CollectionStack,
+  HoppEnvPair,
   HoppEnvs,
+  IterationData,
   ProcessRequestParams,
   RequestReport,
 } from "../types/request";
@@ -25,7 +29,11 @@ import {
   printRequestsMetrics,
   printTestsMetrics,
 } from "./display";
-import { exceptionColors } from "./getters";
+import {
+  exceptionColors,
+  getRequestReportPath,
+  hasMultipleIterations,
+} from "./getters";
 import { getPreRequestMetrics } from "./pre-request";
 import {
   getRequestMetrics,
@@ -34,11 +42,13 @@ import {
 } from "./request";
 import { getTestMetrics } from "./test";
 
-const { WARN, FAIL } = exceptionColors;
+const { WARN, FAIL, INFO } = exceptionColors;
 
 /**
  * Processes each requests within collections to prints details of subsequent requests,
  * tests and to display complete errors-report, failed-tests-report and test-metrics.
+ * Collections are processed once for each iteration, with the iteration-data
+ * injected into envs.
  * @param param Data of hopp-collection with hopp-requests, envs to be processed.
  * @returns List of report for each processed request.
  */
@@ -47,10 +57,49 @@ export const collectionsRunner = async (
 ): Promise<RequestReport[]> => {
   const envs: HoppEnvs = param.envs;
   const delay = param.delay ?? 0;
+  const iterationData = param.iterationData ?? [];
+  const iterations = param.iterations ?? Math.max(iterationData.length, 1);
   const requestsReport: RequestReport[] = [];
-  const collectionStack: CollectionStack[] = getCollectionStack(
-    param.collections
-  );
+
+  for (let index = 0; index < iterations; index++) {
+    // Last iteration-data row is reused, if iterations exceed the supplied rows.
+    const data = iterationData[Math.min(index, iterationData.length - 1)] ?? {};
+    const iteration: IterationInfo = { index, count: iterations, data };
+
+    if (iterations > 1) {
+      log(INFO(`\n${bold(`Iteration ${index + 1}/${iterations}`)}`));
+    }
+
+    applyIterationData(envs, data);
+
+    const iterationReport = await runCollections(
+      param.collections,
+      envs,
+      delay,
+      iteration
+    );
+    requestsReport.push(...iterationReport);
+  }
+
+  return requestsReport;
+};
+
+/**
+ * Processes each request within collections (including nested folders) once.
+ * @param collections Hopp-collection objects to be processed.
+ * @param envs Global + selected envs, updated with envs from each processed request.
+ * @param delay Delay in milliseconds before each request.
+ * @param iteration Details of the current iteration.
+ * @returns List of report for each processed request.
+ */
+const runCollections = async (
+  collections: HoppCollection[],
+  envs: HoppEnvs,
+  delay: number,
+  iteration: IterationInfo
+): Promise<RequestReport[]> => {
+  const requestsReport: RequestReport[] = [];
+  const collectionStack: CollectionStack[] = getCollectionStack(collections);
 
   while (collectionStack.length) {
     // Pop out top-most collection from stack to be processed.
@@ -65,6 +114,7 @@ export const collectionsRunner = async (
           request: _request,
           envs,
           delay,
+          iteration,
         };
 
         // Request processing initiated message.
@@ -100,6 +150,22 @@ export const collectionsRunner = async (
           updatedFolder.headers.push(...filteredHeaders);
         }
 
+        // Scripts of the parent collection are run before the ones of the folder
+        updatedFolder.preRequestScript = combineScripts([
+          collection.preRequestScript ?? "",
+          folder.preRequestScript ?? "",
+        ]);
+        updatedFolder.testScript = combineScripts([
+          collection.testScript ?? "",
+          folder.testScript ?? "",
+        ]);
+
+        // Variables of the folder take precedence over the ones of the parent collection
+        updatedFolder.variables = [
+          ...(folder.variables ?? []),
+          ...(collection.variables ?? []),
+        ];
+
         collectionStack.push({
           path: `${path}/${updatedFolder.name}`,
           collection: updatedFolder,
@@ -110,6 +176,25 @@ export const collectionsRunner = async (
   return requestsReport;
 };
 
+/**
+ * Injects iteration-data into selected envs, overriding the value of
+ * existing envs with the same key.
+ * @param envs Global + selected envs to be updated.
+ * @param data Variables supplied for the current iteration.
+ */
+const applyIterationData = (envs: HoppEnvs, data: IterationData) => {
+  for (const [key, value] of Object.entries(data)) {
+    const envPair: HoppEnvPair = { key, value, secret: false };
+    const index = envs.selected.findIndex((env) => env.key === key);
+
+    if (index >= 0) {
+      envs.selected[index] = envPair;
+    } else {
+      envs.selected.push(envPair);
+    }
+  }
+};
+
 /**
  * Transforms collections to generate collection-stack which describes each collection's
  * path within collection & the collection itself.
@@ -151,10 +236,12 @@ export const collectionsRunnerResult = (
     duration: 0,
   };
   let finalResult = true;
+  const hasIterations = hasMultipleIterations(requestsReport);
 
   // Printing requests-report details of failed-tests and errors
   for (const requestReport of requestsReport) {
-    const { path, tests, errors, result, duration } = requestReport;
+    const { tests, errors, result, duration } = requestReport;
+    const path = getRequestReportPath(requestReport, hasIterations);
     const requestDuration = duration.request;
     const testsDuration = duration.test;
     const preRequestDuration = duration.preRequest;
@@ -0,0 +1,65 @@
+import * as E from "fp-ts/Either";
+
+/**
+ * Parses CSV (RFC 4180) contents into rows of fields. Fields can be quoted
+ * with double-quotes to include commas, line-breaks and escaped ("") quotes,
+ * quotes within an unquoted field are kept as is. Empty lines are skipped.
+ * @param contents CSV contents to parse.
+ * @returns Rows of fields, or reason for failure in case of malformed contents.
+ */
+export const parseCSV = (contents: string): E.Either<string, string[][]> => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Ignoring the byte order mark, if present
+  const csv = contents.replace(/^\uFEFF/, "");
+
+  const pushRow = () => {
+    row.push(field);
+
+    // Skipping empty lines
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") {
+        i++;
+      }
+      pushRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    return E.left(`Unterminated quoted field on row ${rows.length + 1}`);
+  }
+
+  pushRow();
+
+  return E.right(rows);
+};
@@ -3,6 +3,7 @@ import {
   Environment,
   parseTemplateStringE,
   HoppRESTParam,
+  HoppRESTRequest,
 } from "@hoppscotch/data";
 import chalk from "chalk";
 import { pipe } from "fp-ts/function";
@@ -11,6 +12,7 @@ import * as E from "fp-ts/Either";
 import * as S from "fp-ts/string";
 import * as O from "fp-ts/Option";
 import { error } from "../types/errors";
+import { RequestReport } from "../types/request";
 import round from "lodash/round";
 import { DEFAULT_DURATION_PRECISION } from "./constants";
 
@@ -134,3 +136,40 @@ export const roundDuration = (
   duration: number,
   precision: number = DEFAULT_DURATION_PRECISION
 ) => round(duration, precision);
+
+/**
+ * Checks if given requests-report were generated by running the collections
+ * for more than one iteration.
+ * @param requestsReport Report for each request processed by collections-runner.
+ * @returns True, if any request-report belongs to an iteration other than the first.
+ */
+export const hasMultipleIterations = (requestsReport: RequestReport[]) =>
+  requestsReport.some(({ iteration }) => iteration > 0);
+
+/**
+ * Generates path of the request-report to be displayed, including the
+ * iteration number when collections ran for multiple iterations.
+ * @param requestReport Report of the processed request.
+ * @param withIteration Whether to include the iteration number.
+ * @returns Path of request within collection, with iteration number (if required).
+ */
+export const getRequestReportPath = (
+  { path, iteration }: RequestReport,
+  withIteration: boolean
+) => (withIteration ? `${path} [iteration ${iteration + 1}]` : path);
+
+/**
+ * Returns the active variables of a request, along with the ones inherited from
+ * its parent collections (and folders), in the format of environment variables.
+ * @param request Request to get the variables of.
+ * @returns Variables of the request, in the order of their precedence.
+ */
+export const getRequestVariables = (
+  request: HoppRESTRequest
+): Environment["variables"] =>
+  pipe(
+    // Requests saved before the variables were introduced don't have them
+    request.requestVariables ?? [],
+    A.filter(({ key, active }) => !S.isEmpty(key) && active),
+    A.map(({ key, value }) => ({ key, value, secret: false }))
+  );
@@ -1,8 +1,17 @@
+import { readFileSync } from "fs";
 import fs from "fs/promises";
+import { basename, dirname, resolve } from "path";
+import * as E from "fp-ts/Either";
 import { FormDataEntry } from "../types/request";
-import { error } from "../types/errors";
-import { isRESTCollection, isHoppErrnoException } from "./checks";
-import { HoppCollection } from "@hoppscotch/data";
+import { HoppCLIError, error } from "../types/errors";
+import { TeamWorkspaceAccess } from "../types/commands";
+import {
+  isExistingFile,
+  isRESTCollection,
+  isHoppErrnoException,
+} from "./checks";
+import { fetchTeamCollection } from "./team-workspace";
+import { HoppCollection, HoppRESTRequest } from "@hoppscotch/data";
 
 /**
  * Parses array of FormDataEntry to FormData.
@@ -12,11 +21,100 @@ import { HoppCollection } from "@hoppscotch/data";
 export const toFormData = (values: FormDataEntry[]) => {
   const formData = new FormData();
 
-  values.forEach(({ key, value }) => formData.append(key, value));
+  values.forEach(({ key, value, filename }) =>
+    typeof value === "string"
+      ? formData.append(key, value)
+      : formData.append(key, value, filename)
+  );
 
   return formData;
 };
 
+/**
+ * Serializes FormData to multipart/form-data encoded body, as axios doesn't
+ * support FormData in the node environment.
+ * @param formData FormData to be serialized.
+ * @returns Encoded body and the content-type header including the boundary.
+ */
+export const serializeFormData = async (formData: FormData) => {
+  const response = new Response(formData);
+
+  return {
+    contentType: response.headers.get("content-type") ?? "multipart/form-data",
+    data: Buffer.from(await response.arrayBuffer()),
+  };
+};
+
+/**
+ * Reads the file at given path to be sent as a multipart form-data file
+ * or as a binary body.
+ * @param path Path of the file.
+ * @returns File contents as a blob along with the file name,
+ * or FILE_NOT_FOUND error if the file can't be read.
+ */
+export const readFormDataFile = (
+  path: string
+): E.Either<HoppCLIError, { value: Blob; filename: string }> =>
+  E.tryCatch(
+    () => ({ value: new Blob([readFileSync(path)]), filename: basename(path) }),
+    () => error({ code: "FILE_NOT_FOUND", path })
+  );
+
+/**
+ * Resolves paths of multipart form-data files and binary body files in the
+ * requests of given collection (and it's folders) relative to the given directory.
+ * @param collection Collection containing the requests.
+ * @param dir Directory to resolve the file paths relative to.
+ * @returns Collection with absolute body file paths.
+ */
+const resolveBodyFilePaths = (
+  collection: HoppCollection,
+  dir: string
+): HoppCollection => ({
+  ...collection,
+  folders: collection.folders.map((folder) =>
+    resolveBodyFilePaths(folder, dir)
+  ),
+  requests: collection.requests.map((request) => {
+    const { body } = request as HoppRESTRequest;
+
+    if (body?.contentType === "application/octet-stream") {
+      // Binary bodies in the collection file are paths to the files
+      const file: unknown = body.body;
+
+      return {
+        ...request,
+        body: {
+          ...body,
+          body: typeof file === "string" ? resolve(dir, file) : file,
+        },
+      } as HoppRESTRequest;
+    }
+
+    if (body?.contentType !== "multipart/form-data") {
+      return request;
+    }
+
+    return {
+      ...request,
+      body: {
+        ...body,
+        body: body.body.map((entry) =>
+          entry.isFile
+            ? {
+                ...entry,
+                // File values in the collection file are paths to the files
+                value: (entry.value as unknown[]).map((file) =>
+                  typeof file === "string" ? resolve(dir, file) : file
+                ) as Blob[],
+              }
+            : entry
+        ),
+      },
+    };
+  }),
+});
+
 /**
  * Parses provided error message to maintain hopp-error messages.
  * @param e Custom error data.
@@ -54,13 +152,20 @@ export async function readJsonFile(path: string): Promise<unknown> {
 
 /**
  * Parses collection json file for given path:context.path, and validates
- * the parsed collectiona array.
- * @param path Collection json file path.
+ * the parsed collectiona array. With team workspace access, the path is
+ * treated as a team collection ID if no file exists at the path.
+ * @param path Collection json file path or team collection ID.
+ * @param workspaceAccess Server URL and access token of the team workspace.
  * @returns For successful parsing we get array of HoppCollection,
  */
 export async function parseCollectionData(
-  path: string
+  path: string,
+  workspaceAccess?: TeamWorkspaceAccess | null
 ): Promise<HoppCollection[]> {
+  if (workspaceAccess && !(await isExistingFile(path))) {
+    return [await fetchTeamCollection(path, workspaceAccess)];
+  }
+
   let contents = await readJsonFile(path);
 
   const maybeArrayOfCollections: unknown[] = Array.isArray(contents)
@@ -75,5 +180,7 @@ export async function parseCollectionData(
     });
   }
 
-  return maybeArrayOfCollections as HoppCollection[];
+  return (maybeArrayOfCollections as HoppCollection[]).map((collection) =>
+    resolveBodyFilePaths(collection, dirname(path))
+  );
 }
@@ -0,0 +1,213 @@
+import {
+  Environment,
+  HoppRESTAuthOAuth2,
+  parseTemplateString,
+} from "@hoppscotch/data";
+import axios from "axios";
+import * as E from "fp-ts/Either";
+import * as O from "fp-ts/Option";
+import * as TE from "fp-ts/TaskEither";
+import { pipe } from "fp-ts/function";
+import * as S from "fp-ts/string";
+import { z } from "zod";
+
+import { HoppCLIError, error } from "../types/errors";
+import { OAuth2TokenRequest } from "../types/request";
+
+/**
+ * Token request fields of the OAuth 2.0 authorization, which might be missing
+ * in collection files with requests older than the grant types. Grant types
+ * requiring a browser redirect aren't supported and are left to be inferred.
+ */
+const OAuth2TokenRequestFields = z.object({
+  grantType: z
+    .union([z.literal("client_credentials"), z.literal("password")])
+    .optional()
+    .catch(undefined),
+  clientSecret: z.string().catch(""),
+  username: z.string().catch(""),
+  password: z.string().catch(""),
+  clientAuthentication: z
+    .union([z.literal("header"), z.literal("body")])
+    .catch("body"),
+});
+
+const OIDCConfiguration = z.object({
+  token_endpoint: z.string(),
+});
+
+const OAuth2TokenResponse = z.object({
+  access_token: z.string(),
+});
+
+/**
+ * Access tokens fetched during the current run, keyed by the serialized
+ * token request so that requests sharing the same authorization fetch once.
+ */
+const accessTokens = new Map<string, string>();
+
+/**
+ * Generates the details required to fetch an OAuth 2.0 access token with
+ * environment variables applied. The grant type of the authorization is used
+ * if supported, otherwise password grant is used if a username is supplied
+ * and client-credentials grant otherwise.
+ * @param auth OAuth 2.0 authorization of the request.
+ * @param envVariables Environment variables used to parse template strings.
+ * @returns Token request details, none if there's no endpoint to fetch from.
+ */
+export const getOAuth2TokenRequest = (
+  auth: HoppRESTAuthOAuth2,
+  envVariables: Environment["variables"]
+): O.Option<OAuth2TokenRequest> => {
+  const fields = OAuth2TokenRequestFields.parse(auth);
+  const parse = (value: string) => parseTemplateString(value, envVariables);
+
+  const tokenRequest: OAuth2TokenRequest = {
+    grantType:
+      fields.grantType ??
+      (S.isEmpty(fields.username) ? "client_credentials" : "password"),
+    oidcDiscoveryURL: parse(auth.oidcDiscoveryURL),
+    accessTokenURL: parse(auth.accessTokenURL),
+    clientID: parse(auth.clientID),
+    clientSecret: parse(fields.clientSecret),
+    scope: parse(auth.scope),
+    username: parse(fields.username),
+    password: parse(fields.password),
+    clientAuthentication: fields.clientAuthentication,
+  };
+
+  return S.isEmpty(tokenRequest.oidcDiscoveryURL) &&
+    S.isEmpty(tokenRequest.accessTokenURL)
+    ? O.none
+    : O.some(tokenRequest);
+};
+
+// Tokens expiring within this margin (in millis) are considered expired,
+// accounting for the clock skew with the authorization server.
+const OAUTH2_TOKEN_EXPIRY_BUFFER_MS = 30 * 1000;
+
+/**
+ * Checks whether the supplied access token has expired (or is about to), as
+ * per the expiry stored along with it. Collection files with requests older
+ * than the expiry tracking don't have it, and their tokens are considered valid.
+ * @param auth OAuth 2.0 authorization of the request.
+ * @returns True if the token has expired; False, otherwise.
+ */
+export const isOAuth2TokenExpired = (auth: HoppRESTAuthOAuth2): boolean => {
+  const result = z.number().safeParse(auth.tokenExpiresAt);
+
+  return (
+    result.success && result.data - OAUTH2_TOKEN_EXPIRY_BUFFER_MS <= Date.now()
+  );
+};
+
+/**
+ * Generates REQUEST_ERROR for failures while fetching the access token.
+ * @param reason Reason for the failure.
+ * @returns HoppCLIError with the failure reason.
+ */
+const tokenRequestError = (reason: unknown): HoppCLIError =>
+  error({
+    code: "REQUEST_ERROR",
+    data: `Unable to fetch the OAuth 2.0 access token. ${
+      E.toError(reason).message
+    }`,
+  });
+
+/**
+ * Resolves the token endpoint, from the OpenID discovery document if
+ * a discovery URL is supplied.
+ * @param tokenRequest Details of the token request.
+ * @returns Token endpoint URL or HoppCLIError if discovery fails.
+ */
+const getTokenEndpoint = ({
+  oidcDiscoveryURL,
+  accessTokenURL,
+}: OAuth2TokenRequest): TE.TaskEither<HoppCLIError, string> =>
+  S.isEmpty(oidcDiscoveryURL)
+    ? TE.right(accessTokenURL)
+    : pipe(
+        TE.tryCatch(() => axios.get(oidcDiscoveryURL), tokenRequestError),
+        TE.chainEitherK(({ data }) => {
+          const result = OIDCConfiguration.safeParse(data);
+
+          return result.success
+            ? E.right(result.data.token_endpoint)
+            : E.left(
+                tokenRequestError(
+                  `Invalid OpenID configuration at ${oidcDiscoveryURL}`
+                )
+              );
+        })
+      );
+
+/**
+ * Fetches OAuth 2.0 access token with the client-credentials or password
+ * grant. Tokens are reused for subsequent requests with the same details.
+ * @param tokenRequest Details of the token request.
+ * @returns Access token or HoppCLIError if the token request fails.
+ */
+export const fetchOAuth2Token = (
+  tokenRequest: OAuth2TokenRequest
+): TE.TaskEither<HoppCLIError, string> => {
+  const cacheKey = JSON.stringify(tokenRequest);
+  const cachedToken = accessTokens.get(cacheKey);
+
+  if (cachedToken) {
+    return TE.right(cachedToken);
+  }
+
+  const {
+    grantType,
+    clientID,
+    clientSecret,
+    scope,
+    username,
+    password,
+    clientAuthentication,
+  } = tokenRequest;
+
+  const params = new URLSearchParams({ grant_type: grantType });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  if (clientAuthentication === "header") {
+    headers.Authorization = `Basic ${btoa(
+      `${encodeURIComponent(clientID)}:${encodeURIComponent(clientSecret)}`
+    )}`;
+  } else {
+    params.append("client_id", clientID);
+
+    if (!S.isEmpty(clientSecret)) params.append("client_secret", clientSecret);
+  }
+
+  if (!S.isEmpty(scope)) params.append("scope", scope);
+
+  if (grantType === "password") {
+    params.append("username", username);
+    params.append("password", password);
+  }
+
+  return pipe(
+    getTokenEndpoint(tokenRequest),
+    TE.chain((tokenEndpoint) =>
+      TE.tryCatch(
+        () =>
+          axios.post(tokenEndpoint, params.toString(), { headers }),
+        tokenRequestError
+      )
+    ),
+    TE.chainEitherK(({ data }) => {
+      const result = OAuth2TokenResponse.safeParse(data);
+
+      return result.success
+        ? E.right(result.data.access_token)
+        : E.left(tokenRequestError("Response doesn't include access_token"));
+    }),
+    TE.chainFirstIOK((token) => () => {
+      accessTokens.set(cacheKey, token);
+    })
+  );
+};
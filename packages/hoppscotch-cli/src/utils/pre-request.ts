@@ -5,7 +5,9 @@ import {
   parseRawKeyValueEntriesE,
   parseTemplateString,
   parseTemplateStringE,
+  resolveDynamicVariables,
 } from "@hoppscotch/data";
+import { IterationInfo } from "@hoppscotch/js-sandbox";
 import { runPreRequestScript } from "@hoppscotch/js-sandbox/node";
 import * as A from "fp-ts/Array";
 import * as E from "fp-ts/Either";
@@ -18,24 +20,34 @@ import qs from "qs";
 
 import { EffectiveHoppRESTRequest } from "../interfaces/request";
 import { HoppCLIError, error } from "../types/errors";
-import { HoppEnvs } from "../types/request";
+import {
+  AWSSignatureConfig,
+  FormDataEntry,
+  HoppEnvs,
+  OAuth2TokenRequest,
+} from "../types/request";
 import { PreRequestMetrics } from "../types/response";
 import { isHoppCLIError } from "./checks";
-import { arrayFlatMap, arraySort, tupleToRecord } from "./functions/array";
-import { getEffectiveFinalMetaData } from "./getters";
-import { toFormData } from "./mutators";
+import { arraySort, tupleToRecord } from "./functions/array";
+import { getEffectiveFinalMetaData, getRequestVariables } from "./getters";
+import { readFormDataFile, toFormData } from "./mutators";
+import { getOAuth2TokenRequest, isOAuth2TokenExpired } from "./oauth";
+import { sendScriptRequest } from "./script-request";
 
 /**
  * Runs pre-request-script runner over given request which extracts set ENVs and
- * applies them on current request to generate updated request.
+ * applies them along with the changes made to `pw.request` on current request
+ * to generate updated request.
  * @param request HoppRESTRequest to be converted to EffectiveHoppRESTRequest.
  * @param envs Environment variables related to request.
+ * @param iteration Details of the current iteration, exposed to the script.
  * @returns EffectiveHoppRESTRequest that includes parsed ENV variables with in
  * request OR HoppCLIError with error code and related information.
  */
 export const preRequestScriptRunner = (
   request: HoppRESTRequest,
-  envs: HoppEnvs
+  envs: HoppEnvs,
+  iteration?: IterationInfo
 ): TE.TaskEither<
   HoppCLIError,
   { effectiveRequest: EffectiveHoppRESTRequest } & { updatedEnvs: HoppEnvs }
@@ -43,13 +55,21 @@ export const preRequestScriptRunner = (
   pipe(
     TE.of(request),
     TE.chain(({ preRequestScript }) =>
-      runPreRequestScript(preRequestScript, envs)
+      runPreRequestScript(
+        preRequestScript,
+        envs,
+        iteration,
+        sendScriptRequest,
+        request
+      )
     ),
-    TE.map(
-      ({ selected, global }) =>
-        <Environment>{ name: "Env", variables: [...selected, ...global] }
+    TE.chainEitherKW(
+      ({ envs: { selected, global }, request: updatedRequest }) =>
+        getEffectiveRESTRequest(updatedRequest ?? request, <Environment>{
+          name: "Env",
+          variables: [...selected, ...global],
+        })
     ),
-    TE.chainEitherKW((env) => getEffectiveRESTRequest(request, env)),
     TE.mapLeft((reason) =>
       isHoppCLIError(reason)
         ? reason
@@ -75,12 +95,22 @@ export function getEffectiveRESTRequest(
   HoppCLIError,
   { effectiveRequest: EffectiveHoppRESTRequest } & { updatedEnvs: HoppEnvs }
 > {
-  const envVariables = environment.variables;
+  // The first variable with a matching key is used, so the request variables
+  // (followed by the ones of its folders and collection) take precedence over
+  // the environment variables. They aren't written back to the environment.
+  // The dynamic variables are resolved once, for the signatures of the request
+  // to cover the values it's sent with.
+  const envVariables = [
+    ...resolveDynamicVariables(),
+    ...getRequestVariables(request),
+    ...environment.variables,
+  ];
+  const resolvedEnvironment = { ...environment, variables: envVariables };
 
   // Parsing final headers with applied ENVs.
   const _effectiveFinalHeaders = getEffectiveFinalMetaData(
     request.headers,
-    environment
+    resolvedEnvironment
   );
   if (E.isLeft(_effectiveFinalHeaders)) {
     return _effectiveFinalHeaders;
@@ -90,13 +120,16 @@ export function getEffectiveRESTRequest(
   // Parsing final parameters with applied ENVs.
   const _effectiveFinalParams = getEffectiveFinalMetaData(
     request.params,
-    environment
+    resolvedEnvironment
   );
   if (E.isLeft(_effectiveFinalParams)) {
     return _effectiveFinalParams;
   }
   const effectiveFinalParams = _effectiveFinalParams.right;
 
+  let effectiveFinalOAuth2TokenRequest: OAuth2TokenRequest | undefined;
+  let effectiveFinalAWSSignature: AWSSignatureConfig | undefined;
+
   // Authentication
   if (request.auth.authActive) {
     // TODO: Support a better b64 implementation than btoa ?
@@ -109,10 +142,7 @@ export function getEffectiveRESTRequest(
         key: "Authorization",
         value: `Basic ${btoa(`${username}:${password}`)}`,
       });
-    } else if (
-      request.auth.authType === "bearer" ||
-      request.auth.authType === "oauth-2"
-    ) {
+    } else if (request.auth.authType === "bearer") {
       effectiveFinalHeaders.push({
         active: true,
         key: "Authorization",
@@ -121,6 +151,22 @@ export function getEffectiveRESTRequest(
           envVariables
         )}`,
       });
+    } else if (request.auth.authType === "oauth-2") {
+      const token = parseTemplateString(request.auth.token, envVariables);
+
+      // Access token is fetched while creating the request, if not supplied
+      // or if the supplied one has expired
+      if (S.isEmpty(token) || isOAuth2TokenExpired(request.auth)) {
+        effectiveFinalOAuth2TokenRequest = O.toUndefined(
+          getOAuth2TokenRequest(request.auth, envVariables)
+        );
+      } else {
+        effectiveFinalHeaders.push({
+          active: true,
+          key: "Authorization",
+          value: `Bearer ${token}`,
+        });
+      }
     } else if (request.auth.authType === "api-key") {
       const { key, value, addTo } = request.auth;
       if (addTo === "Headers") {
@@ -136,6 +182,19 @@ export function getEffectiveRESTRequest(
           value: parseTemplateString(value, envVariables),
         });
       }
+    } else if (request.auth.authType === "aws-signature") {
+      const { accessKey, secretKey, sessionToken, region, serviceName, addTo } =
+        request.auth;
+
+      // The signature covers the final request, so it's generated while creating it
+      effectiveFinalAWSSignature = {
+        accessKey: parseTemplateString(accessKey, envVariables),
+        secretKey: parseTemplateString(secretKey, envVariables),
+        sessionToken: parseTemplateString(sessionToken, envVariables),
+        region: parseTemplateString(region, envVariables),
+        serviceName: parseTemplateString(serviceName, envVariables),
+        addTo,
+      };
     }
   }
 
@@ -146,7 +205,19 @@ export function getEffectiveRESTRequest(
   }
   const effectiveFinalBody = _effectiveFinalBody.right;
 
-  if (request.body.contentType)
+  // Content-type for multipart bodies is set along with the boundary, while creating the request
+  if (request.body.contentType === "application/octet-stream") {
+    effectiveFinalHeaders.push({
+      active: true,
+      key: "content-type",
+      value:
+        parseTemplateString(request.body.fileContentType, envVariables) ||
+        "application/octet-stream",
+    });
+  } else if (
+    request.body.contentType &&
+    request.body.contentType !== "multipart/form-data"
+  )
     effectiveFinalHeaders.push({
       active: true,
       key: "content-type",
@@ -190,8 +261,10 @@ export function getEffectiveRESTRequest(
       effectiveFinalHeaders,
       effectiveFinalParams,
       effectiveFinalBody,
+      effectiveFinalOAuth2TokenRequest,
+      effectiveFinalAWSSignature,
     },
-    updatedEnvs: { global: [], selected: envVariables },
+    updatedEnvs: { global: [], selected: environment.variables },
   });
 }
 
@@ -207,11 +280,23 @@ export function getEffectiveRESTRequest(
 function getFinalBodyFromRequest(
   request: HoppRESTRequest,
   envVariables: Environment["variables"]
-): E.Either<HoppCLIError, string | null | FormData> {
+): E.Either<HoppCLIError, string | null | FormData | Blob> {
   if (request.body.contentType === null) {
     return E.right(null);
   }
 
+  if (request.body.contentType === "application/octet-stream") {
+    // The file is a path (resolved relative to the collection file) in collection files
+    const file: unknown = request.body.body;
+
+    return typeof file === "string"
+      ? pipe(
+          readFormDataFile(file),
+          E.map(({ value }) => value)
+        )
+      : E.right(file instanceof Blob ? file : null);
+  }
+
   if (request.body.contentType === "application/x-www-form-urlencoded") {
     return pipe(
       request.body.body,
@@ -264,21 +349,20 @@ function getFinalBodyFromRequest(
 
       // FormData allows only a single blob in an entry,
       // we split array blobs into separate entries (FormData will then join them together during exec)
-      arrayFlatMap((x) =>
+      A.traverse(E.Applicative)((x) =>
         x.isFile
-          ? x.value.map((v) => ({
-              key: parseTemplateString(x.key, envVariables),
-              value: v as string | Blob,
-            }))
-          : [
+          ? getFormDataFileEntries(
+              parseTemplateString(x.key, envVariables),
+              x.value
+            )
+          : E.right([
               {
                 key: parseTemplateString(x.key, envVariables),
                 value: parseTemplateString(x.value, envVariables),
               },
-            ]
+            ])
       ),
-      toFormData,
-      E.right
+      E.map(flow(A.flatten, toFormData))
     );
   }
 
@@ -293,6 +377,34 @@ function getFinalBodyFromRequest(
   );
 }
 
+/**
+ * Generates form-data entries for the files of a multipart form-data field.
+ * Files are either blobs or paths (resolved relative to the collection file)
+ * to be read from the file system.
+ * @param key Key of the form-data field.
+ * @param files Files of the form-data field.
+ * @returns Form-data entry for each file, or HoppCLIError if a file can't be read.
+ */
+const getFormDataFileEntries = (
+  key: string,
+  files: unknown[]
+): E.Either<HoppCLIError, FormDataEntry[]> =>
+  pipe(
+    files,
+    A.filter(
+      (file): file is string | Blob =>
+        typeof file === "string" || file instanceof Blob
+    ),
+    A.traverse(E.Applicative)((file) =>
+      typeof file === "string"
+        ? pipe(
+            readFormDataFile(file),
+            E.map(({ value, filename }) => ({ key, value, filename }))
+          )
+        : E.right({ key, value: file })
+    )
+  );
+
 /**
  * Get pre-request-metrics (stats + duration) object based on existence of
  * PRE_REQUEST_ERROR code in given hopp-error list.
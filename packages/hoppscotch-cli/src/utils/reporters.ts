@@ -0,0 +1,278 @@
+import fs from "fs/promises";
+import { dirname } from "path";
+import round from "lodash/round";
+
+import { getErrorMessage } from "../handlers/error";
+import { TestReport } from "../interfaces/response";
+import { HoppReporterType } from "../types/commands";
+import { HoppCLIError, error } from "../types/errors";
+import { RequestReport } from "../types/request";
+import { ExpectResult, Stats } from "../types/response";
+import { DEFAULT_DURATION_PRECISION } from "./constants";
+import { getRequestReportPath, hasMultipleIterations } from "./getters";
+import { getPreRequestMetrics } from "./pre-request";
+import { getRequestMetrics } from "./request";
+import { getTestMetrics } from "./test";
+
+/**
+ * Escapes characters with special meaning in XML attribute values and text.
+ * @param value Raw string to be escaped.
+ * @returns XML safe string.
+ */
+const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters (except tab, LF, CR) aren't allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+/**
+ * Serializes given attributes to be used within an XML tag.
+ * @param attributes Key-value pairs of attributes.
+ * @returns Attributes string with a leading space, empty if no attributes.
+ */
+const toXMLAttributes = (attributes: Record<string, string | number>) =>
+  Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${escapeXML(String(value))}"`)
+    .join("");
+
+/**
+ * Total time (in seconds) taken to execute pre-request-script, request and
+ * test-script for a request.
+ * @param requestReport Report of the processed request.
+ * @returns Total duration rounded-off upto DEFAULT_DURATION_PRECISION.
+ */
+const getRequestReportDuration = ({ duration }: RequestReport) =>
+  round(
+    duration.preRequest + duration.request + duration.test,
+    DEFAULT_DURATION_PRECISION
+  );
+
+/**
+ * Counts failed (status "fail") and errored (status "error") expected-results
+ * within given tests-report.
+ * @param testsReport Tests-report of a request.
+ * @returns Number of total, failed and errored expected-results.
+ */
+const getExpectResultsCount = (testsReport: TestReport[]) =>
+  testsReport
+    .flatMap(({ expectResults }) => expectResults)
+    .reduce(
+      (count, { status }) => ({
+        tests: count.tests + 1,
+        failures: count.failures + (status === "fail" ? 1 : 0),
+        errors: count.errors + (status === "error" ? 1 : 0),
+      }),
+      { tests: 0, failures: 0, errors: 0 }
+    );
+
+/**
+ * Generates JUnit testcase element for an expected-result, with failure or
+ * error child element based on it's status.
+ * @param classname Path of the request along with the test descriptor.
+ * @param expectResult Expected-result of a test-case.
+ * @returns JUnit testcase element.
+ */
+const getExpectResultTestCase = (
+  classname: string,
+  { status, message }: ExpectResult
+) => {
+  const testCaseAttributes = toXMLAttributes({ name: message, classname });
+
+  if (status === "pass") {
+    return `    <testcase${testCaseAttributes}/>`;
+  }
+
+  const [tag, type] =
+    status === "fail"
+      ? ["failure", "AssertionFailure"]
+      : ["error", "ExpectationError"];
+
+  return [
+    `    <testcase${testCaseAttributes}>`,
+    `      <${tag}${toXMLAttributes({ type, message })}/>`,
+    `    </testcase>`,
+  ].join("\n");
+};
+
+/**
+ * Generates JUnit testcase element for an error reported while processing
+ * the request (pre-request-script, request or test-script errors).
+ * @param classname Path of the request.
+ * @param hoppError Reported error.
+ * @returns JUnit testcase element with an error child element.
+ */
+const getErrorTestCase = (classname: string, hoppError: HoppCLIError) => {
+  const message = getErrorMessage(hoppError);
+
+  return [
+    `    <testcase${toXMLAttributes({ name: hoppError.code, classname })}>`,
+    `      <error${toXMLAttributes({
+      type: hoppError.code,
+      message,
+    })}>${escapeXML(message)}</error>`,
+    `    </testcase>`,
+  ].join("\n");
+};
+
+/**
+ * Generates JUnit XML report, where each request is a testsuite and each
+ * expected-result is a testcase. Errors reported for a request are included
+ * as errored testcases.
+ * @param requestsReport Report for each request processed by collections-runner.
+ * @returns JUnit XML report in string format.
+ */
+export const generateJUnitReport = (requestsReport: RequestReport[]) => {
+  const total = { tests: 0, failures: 0, errors: 0, time: 0 };
+  const hasIterations = hasMultipleIterations(requestsReport);
+
+  const testSuites = requestsReport.map((requestReport) => {
+    const { tests, errors } = requestReport;
+    const path = getRequestReportPath(requestReport, hasIterations);
+    const count = getExpectResultsCount(tests);
+    const time = getRequestReportDuration(requestReport);
+
+    const testSuite = {
+      tests: count.tests + errors.length,
+      failures: count.failures,
+      errors: count.errors + errors.length,
+      time,
+    };
+
+    total.tests += testSuite.tests;
+    total.failures += testSuite.failures;
+    total.errors += testSuite.errors;
+    total.time += time;
+
+    const testCases = [
+      ...tests.flatMap(({ descriptor, expectResults }) =>
+        expectResults.map((expectResult) =>
+          getExpectResultTestCase(`${path} › ${descriptor}`, expectResult)
+        )
+      ),
+      ...errors.map((hoppError) => getErrorTestCase(path, hoppError)),
+    ];
+
+    return [
+      `  <testsuite${toXMLAttributes({ name: path, ...testSuite })}>`,
+      ...testCases,
+      `  </testsuite>`,
+    ].join("\n");
+  });
+
+  total.time = round(total.time, DEFAULT_DURATION_PRECISION);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites${toXMLAttributes({ name: "Hoppscotch CLI", ...total })}>`,
+    ...testSuites,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+};
+
+/**
+ * Generates JSON report including overall metrics and details of each
+ * request's tests-report and errors, grouped by iteration.
+ * @param requestsReport Report for each request processed by collections-runner.
+ * @returns JSON report in string format.
+ */
+export const generateJSONReport = (requestsReport: RequestReport[]) => {
+  const addStats = (a: Stats, b: Stats): Stats => ({
+    failed: a.failed + b.failed,
+    passed: a.passed + b.passed,
+  });
+
+  const summary = {
+    tests: <Stats>{ failed: 0, passed: 0 },
+    testSuites: <Stats>{ failed: 0, passed: 0 },
+    testScripts: <Stats>{ failed: 0, passed: 0 },
+    requests: <Stats>{ failed: 0, passed: 0 },
+    preRequestScripts: <Stats>{ failed: 0, passed: 0 },
+    duration: { test: 0, request: 0, preRequest: 0 },
+  };
+
+  const iterations: {
+    iteration: number;
+    result: boolean;
+    requests: Record<string, unknown>[];
+  }[] = [];
+
+  for (const requestReport of requestsReport) {
+    const { path, iteration, tests, errors, result, duration } = requestReport;
+
+    const testMetrics = getTestMetrics(tests, duration.test, errors);
+    const requestMetrics = getRequestMetrics(errors, duration.request);
+    const preRequestMetrics = getPreRequestMetrics(errors, duration.preRequest);
+
+    summary.tests = addStats(summary.tests, testMetrics.tests);
+    summary.testSuites = addStats(summary.testSuites, testMetrics.testSuites);
+    summary.testScripts = addStats(summary.testScripts, testMetrics.scripts);
+    summary.requests = addStats(summary.requests, requestMetrics.requests);
+    summary.preRequestScripts = addStats(
+      summary.preRequestScripts,
+      preRequestMetrics.scripts
+    );
+    summary.duration.test += duration.test;
+    summary.duration.request += duration.request;
+    summary.duration.preRequest += duration.preRequest;
+
+    // Reports are ordered by iteration, so the last group is the current one.
+    let iterationGroup = iterations[iterations.length - 1];
+    if (!iterationGroup || iterationGroup.iteration !== iteration + 1) {
+      iterationGroup = { iteration: iteration + 1, result: true, requests: [] };
+      iterations.push(iterationGroup);
+    }
+
+    iterationGroup.result = iterationGroup.result && result;
+    iterationGroup.requests.push({
+      path,
+      result,
+      duration,
+      tests,
+      errors: errors.map((hoppError) => ({
+        code: hoppError.code,
+        message: getErrorMessage(hoppError),
+      })),
+    });
+  }
+
+  summary.duration = {
+    test: round(summary.duration.test, DEFAULT_DURATION_PRECISION),
+    request: round(summary.duration.request, DEFAULT_DURATION_PRECISION),
+    preRequest: round(summary.duration.preRequest, DEFAULT_DURATION_PRECISION),
+  };
+
+  const result = requestsReport.every(({ result }) => result);
+
+  return JSON.stringify({ result, summary, iterations }, null, 2);
+};
+
+/**
+ * Generates report of given type and writes it to the given path, creating
+ * parent directories if required.
+ * @param requestsReport Report for each request processed by collections-runner.
+ * @param reporter Type of report to be generated.
+ * @param path Path of the file to write the report to.
+ */
+export const exportReport = async (
+  requestsReport: RequestReport[],
+  reporter: HoppReporterType,
+  path: string
+) => {
+  const report =
+    reporter === "junit"
+      ? generateJUnitReport(requestsReport)
+      : generateJSONReport(requestsReport);
+
+  try {
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(path, report);
+  } catch (e) {
+    throw error({ code: "REPORT_EXPORT_FAILED", path, data: e });
+  }
+};
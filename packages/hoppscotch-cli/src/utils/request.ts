@@ -1,4 +1,13 @@
-import { Environment, HoppCollection, HoppRESTRequest } from "@hoppscotch/data";
+import {
+  Environment,
+  HoppCollection,
+  HoppRESTAuth,
+  HoppRESTRequest,
+  RESTReqSchemaVersion,
+  generateAWSSignature,
+  getDefaultRESTRequestSettings,
+} from "@hoppscotch/data";
+import { combineScripts } from "@hoppscotch/js-sandbox/node";
 import axios, { Method } from "axios";
 import * as A from "fp-ts/Array";
 import * as E from "fp-ts/Either";
@@ -6,6 +15,7 @@ import * as T from "fp-ts/Task";
 import * as TE from "fp-ts/TaskEither";
 import { pipe } from "fp-ts/function";
 import * as S from "fp-ts/string";
+import { Agent } from "https";
 import { hrtime } from "process";
 import { URL } from "url";
 import { EffectiveHoppRESTRequest, RequestConfig } from "../interfaces/request";
@@ -24,11 +34,11 @@ import {
   printTestRunner,
 } from "./display";
 import { getDurationInSeconds, getMetaDataPairs } from "./getters";
+import { serializeFormData } from "./mutators";
+import { fetchOAuth2Token } from "./oauth";
 import { preRequestScriptRunner } from "./pre-request";
 import { getTestScriptParams, hasFailedTestCases, testRunner } from "./test";
 
-// !NOTE: The `config.supported` checks are temporary until OAuth2 and Multipart Forms are supported
-
 /**
  * Processes given variable, which includes checking for secret variables
  * and getting value from system environment
@@ -63,52 +73,105 @@ const processEnvs = (envs: HoppEnvs) => {
 
 /**
  * Transforms given request data to request-config used by request-runner to
- * perform HTTP request.
+ * perform HTTP request. Fetches the OAuth 2.0 access token, encodes the
+ * multipart form-data and binary bodies and signs the request with AWS Signature,
+ * if required. The timeout, redirect and TLS verification settings of the
+ * request are applied to the config as well.
  * @param req Effective request data with parsed ENVs.
- * @returns Request config with data realted to HTTP request.
+ * @returns Request config with data realted to HTTP request, or HoppCLIError
+ * if the OAuth 2.0 access token can't be fetched.
  */
-export const createRequest = (req: EffectiveHoppRESTRequest): RequestConfig => {
-  const config: RequestConfig = {
-    supported: true,
-    displayUrl: req.effectiveFinalDisplayURL
-  };
-  const { finalBody, finalEndpoint, finalHeaders, finalParams } = getRequest;
-  const reqParams = finalParams(req);
-  const reqHeaders = finalHeaders(req);
-  config.url = finalEndpoint(req);
-  config.method = req.method as Method;
-  config.params = getMetaDataPairs(reqParams);
-  config.headers = getMetaDataPairs(reqHeaders);
-  if (req.auth.authActive) {
-    switch (req.auth.authType) {
-      case "oauth-2": {
-        // TODO: OAuth2 Request Parsing
-        // !NOTE: Temporary `config.supported` check
-        config.supported = false;
-      }
-      default: {
-        break;
+export const createRequest =
+  (req: EffectiveHoppRESTRequest): TE.TaskEither<HoppCLIError, RequestConfig> =>
+  async () => {
+    const config: RequestConfig = {
+      supported: true,
+      displayUrl: req.effectiveFinalDisplayURL,
+    };
+    const { finalBody, finalEndpoint, finalHeaders, finalParams } = getRequest;
+    const reqParams = finalParams(req);
+    const reqHeaders = finalHeaders(req);
+    config.url = finalEndpoint(req);
+    config.method = req.method as Method;
+    config.params = getMetaDataPairs(reqParams);
+    config.headers = getMetaDataPairs(reqHeaders);
+
+    // Requests saved before the settings were introduced don't have them
+    const settings = req.settings ?? getDefaultRESTRequestSettings();
+    config.timeout = settings.timeout ?? 0;
+    config.maxRedirects = settings.followRedirects ? settings.maxRedirects : 0;
+    if (!settings.verifyTLS) {
+      config.httpsAgent = new Agent({ rejectUnauthorized: false });
+    }
+
+    if (req.auth.authActive && req.effectiveFinalOAuth2TokenRequest) {
+      const token = await fetchOAuth2Token(
+        req.effectiveFinalOAuth2TokenRequest
+      )();
+
+      if (E.isLeft(token)) {
+        return token;
       }
+
+      config.headers["Authorization"] = `Bearer ${token.right}`;
     }
-  }
-  if (req.body.contentType) {
-    config.headers["Content-Type"] = req.body.contentType;
-    switch (req.body.contentType) {
-      case "multipart/form-data": {
-        // TODO: Parse Multipart Form Data
-        // !NOTE: Temporary `config.supported` check
-        config.supported = false;
-        break;
+    if (req.body.contentType) {
+      config.headers["Content-Type"] = req.body.contentType;
+      switch (req.body.contentType) {
+        case "multipart/form-data": {
+          const body = finalBody(req);
+
+          if (body instanceof FormData) {
+            const { contentType, data } = await serializeFormData(body);
+            config.headers["Content-Type"] = contentType;
+            config.data = data;
+          }
+          break;
+        }
+        case "application/octet-stream": {
+          const body = finalBody(req);
+
+          config.data =
+            body instanceof Blob ? Buffer.from(await body.arrayBuffer()) : null;
+          break;
+        }
+        default: {
+          config.data = finalBody(req);
+          break;
+        }
       }
-      default: {
-        config.data = finalBody(req);
-        break;
+    }
+    if (req.auth.authActive && req.effectiveFinalAWSSignature) {
+      const { addTo, ...credentials } = req.effectiveFinalAWSSignature;
+      const query = new URLSearchParams(config.params).toString();
+
+      const signature = generateAWSSignature(
+        credentials,
+        {
+          method: req.method,
+          url: query
+            ? `${config.url}${config.url.includes("?") ? "&" : "?"}${query}`
+            : config.url,
+          // The multipart and binary bodies are signed with their bytes
+          body:
+            typeof config.data === "string" || config.data instanceof Buffer
+              ? config.data
+              : null,
+        },
+        addTo
+      );
+
+      for (const { key, value } of signature) {
+        if (addTo === "Headers") {
+          config.headers[key] = value;
+        } else {
+          config.params[key] = value;
+        }
       }
     }
-  }
 
-  return config;
-};
+    return E.right(config);
+  };
 
 /**
  * Performs http request using axios with given requestConfig axios
@@ -229,7 +292,7 @@ export const processRequest =
     params: ProcessRequestParams
   ): T.Task<{ envs: HoppEnvs; report: RequestReport }> =>
   async () => {
-    const { envs, path, request, delay } = params;
+    const { envs, path, request, delay, iteration } = params;
 
     // Initialising updatedEnvs with given parameter envs, will eventually get updated.
     const result = {
@@ -240,6 +303,7 @@ export const processRequest =
     // Initial value for current request's report with default values for properties.
     const report: RequestReport = {
       path: path,
+      iteration: iteration?.index ?? 0,
       tests: [],
       errors: [],
       result: true,
@@ -260,7 +324,11 @@ export const processRequest =
     const processedEnvs = processEnvs(envs)
 
     // Executing pre-request-script
-    const preRequestRes = await preRequestScriptRunner(request, processedEnvs)();
+    const preRequestRes = await preRequestScriptRunner(
+      request,
+      processedEnvs,
+      iteration
+    )();
     if (E.isLeft(preRequestRes)) {
       printPreRequestRunner.fail();
 
@@ -273,9 +341,11 @@ export const processRequest =
     }
 
     // Creating request-config for request-runner.
-    const requestConfig = createRequest(effectiveRequest);
+    const requestConfig = await createRequest(effectiveRequest)();
 
-    printRequestRunner.start(requestConfig);
+    if (E.isRight(requestConfig)) {
+      printRequestRunner.start(requestConfig.right);
+    }
 
     // Default value for request-runner's response.
     let _requestRunnerRes: RequestRunnerResponse = {
@@ -290,7 +360,7 @@ export const processRequest =
     // Executing request-runner.
     const requestRunnerRes = await delayPromiseFunction<
       E.Either<HoppCLIError, RequestRunnerResponse>
-    >(requestRunner(requestConfig), delay);
+    >(pipe(TE.fromEither(requestConfig), TE.chain(requestRunner)), delay);
     if (E.isLeft(requestRunnerRes)) {
       // Updating report for errors & current result
       report.errors.push(requestRunnerRes.left);
@@ -307,7 +377,8 @@ export const processRequest =
     const testScriptParams = getTestScriptParams(
       _requestRunnerRes,
       request,
-      updatedEnvs
+      updatedEnvs,
+      iteration
     );
 
     // Executing test-runner.
@@ -353,7 +424,7 @@ export const preProcessRequest = (
   const { headers: parentHeaders, auth: parentAuth } = collection;
 
   if (!tempRequest.v) {
-    tempRequest.v = "1";
+    tempRequest.v = RESTReqSchemaVersion;
   }
   if (!tempRequest.name) {
     tempRequest.name = "Untitled Request";
@@ -379,15 +450,25 @@ export const preProcessRequest = (
     tempRequest.headers = [];
   }
 
-  if (!tempRequest.preRequestScript) {
-    tempRequest.preRequestScript = "";
-  }
-  if (!tempRequest.testScript) {
-    tempRequest.testScript = "";
-  }
+  // Scripts of the parent collections (and folders) are run before the request's own
+  tempRequest.preRequestScript = combineScripts([
+    collection.preRequestScript ?? "",
+    tempRequest.preRequestScript ?? "",
+  ]);
+  tempRequest.testScript = combineScripts([
+    collection.testScript ?? "",
+    tempRequest.testScript ?? "",
+  ]);
+
+  // Variables of the request take precedence over the ones of the parent collections (and folders)
+  tempRequest.requestVariables = [
+    ...(tempRequest.requestVariables ?? []),
+    ...(collection.variables ?? []),
+  ];
 
   if (tempRequest.auth?.authType === "inherit") {
-    tempRequest.auth = parentAuth;
+    // Collections run by the CLI hold REST requests, hence the REST auth
+    tempRequest.auth = parentAuth as HoppRESTAuth;
   } else if (!tempRequest.auth) {
     tempRequest.auth = { authActive: false, authType: "none" };
   }
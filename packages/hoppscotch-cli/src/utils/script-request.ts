@@ -0,0 +1,40 @@
+import { SendRequestHandler } from "@hoppscotch/js-sandbox";
+import axios, { Method } from "axios";
+
+/**
+ * Runs the requests made from the pre-request and test scripts with
+ * `pw.sendRequest`. Responses with error status codes resolve as well,
+ * leaving the checks to the scripts.
+ * @param request Request made from the script.
+ * @returns Response with the body as text, rejects for network failures.
+ */
+export const sendScriptRequest: SendRequestHandler = async ({
+  url,
+  method,
+  headers,
+  body,
+}) => {
+  const response = await axios({
+    url,
+    method: method as Method,
+    headers: Object.fromEntries(headers.map(({ key, value }) => [key, value])),
+    data: body ?? undefined,
+    responseType: "text",
+    // Body is parsed by the sandbox
+    transformResponse: [(data) => data],
+    validateStatus: () => true,
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.entries(response.headers).flatMap(([key, value]) =>
+      // Headers such as `set-cookie` have multiple values
+      (Array.isArray(value) ? value : [value]).map((value) => ({
+        key,
+        value: String(value),
+      }))
+    ),
+    body: typeof response.data === "string" ? response.data : "",
+  };
+};
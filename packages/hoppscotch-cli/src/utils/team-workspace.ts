@@ -0,0 +1,246 @@
+import { HoppCollection, HoppRESTRequest } from "@hoppscotch/data";
+import axios from "axios";
+import { z } from "zod";
+
+import { TeamWorkspaceAccess } from "../types/commands";
+import { HoppCLIError, error } from "../types/errors";
+import { HoppEnvs } from "../types/request";
+import { isRESTCollection } from "./checks";
+
+const GQLResponse = z.object({
+  data: z.record(z.string(), z.unknown()).nullish(),
+  errors: z.array(z.object({ message: z.string() })).optional(),
+});
+
+type TeamCollectionJSON = {
+  name: string;
+  folders: TeamCollectionJSON[];
+  requests: unknown[];
+  data?: string | null;
+};
+
+// Shape of the collections exported from the team workspace
+const TeamCollectionJSON: z.ZodType<TeamCollectionJSON> = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    folders: z.array(TeamCollectionJSON),
+    requests: z.array(z.unknown()),
+    data: z.string().nullish(),
+  })
+);
+
+// Collection level properties, stored as JSON string in the `data` field
+const TeamCollectionData = z
+  .object({
+    auth: z.unknown().optional(),
+    headers: z.unknown().optional(),
+    preRequestScript: z.string().optional(),
+    testScript: z.string().optional(),
+    variables: z.unknown().optional(),
+  })
+  .nullable();
+
+const TeamEnvironmentVariables = z.array(
+  z.object({ key: z.string(), value: z.string().catch("") })
+);
+
+const EXPORT_COLLECTION_QUERY = `
+  query ExportCollectionToJSON($collectionID: ID!) {
+    exportCollectionToJSON(collectionID: $collectionID)
+  }
+`;
+
+const TEAM_ENVIRONMENT_QUERY = `
+  query TeamEnvironment($id: ID!) {
+    teamEnvironment(id: $id) {
+      name
+      variables
+    }
+  }
+`;
+
+/**
+ * Error messages returned by the server when the access token is missing, invalid or expired.
+ */
+const isAuthErrorMessage = (message: string) =>
+  /^(auth\/|access_token\/|user\/not_found|Unauthorized|Forbidden)/.test(
+    message
+  );
+
+/**
+ * Runs the given GraphQL query against the server of the team workspace,
+ * authenticated with the supplied personal access token.
+ * @param access Server URL and access token of the team workspace.
+ * @param query GraphQL query to be run.
+ * @param variables Variables of the query.
+ * @returns Data returned for the query.
+ * @throws HoppCLIError with INVALID_SERVER_URL, TOKEN_INVALID or INVALID_ID code.
+ */
+async function runGQLQuery(
+  { serverURL, token }: TeamWorkspaceAccess,
+  query: string,
+  variables: Record<string, string>
+): Promise<Record<string, unknown>> {
+  let response: unknown;
+
+  try {
+    ({ data: response } = await axios.post(
+      `${serverURL}/graphql`,
+      { query, variables },
+      {
+        headers: { Authorization: `Bearer ${token}` },
+        // GraphQL errors are reported with non-2xx status codes as well
+        validateStatus: () => true,
+      }
+    ));
+  } catch (e) {
+    throw error({ code: "INVALID_SERVER_URL", data: e });
+  }
+
+  const result = GQLResponse.safeParse(response);
+
+  if (!result.success) {
+    throw error({
+      code: "INVALID_SERVER_URL",
+      data: `${serverURL}/graphql didn't respond with a GraphQL response`,
+    });
+  }
+
+  const { data, errors } = result.data;
+
+  if (errors?.length || !data) {
+    const message = errors?.[0]?.message ?? "No data returned for the query";
+
+    throw error({
+      code: isAuthErrorMessage(message) ? "TOKEN_INVALID" : "INVALID_ID",
+      data: message,
+    });
+  }
+
+  return data;
+}
+
+/**
+ * Transforms collection exported from the team workspace to HoppCollection.
+ * @param collection Exported team collection (or folder).
+ * @returns HoppCollection with the requests migrated to the latest version.
+ */
+const toHoppCollection = ({
+  name,
+  folders,
+  requests,
+  data,
+}: TeamCollectionJSON): HoppCollection => {
+  let collectionData: z.infer<typeof TeamCollectionData> = null;
+
+  try {
+    const result = TeamCollectionData.safeParse(JSON.parse(data ?? "null"));
+    if (result.success) collectionData = result.data;
+  } catch (e) {
+    // Collections with malformed data are treated as ones without auth and headers
+  }
+
+  return <HoppCollection>{
+    v: 4,
+    name,
+    folders: folders.map(toHoppCollection),
+    requests: requests.map((request) => {
+      const result = HoppRESTRequest.safeParse(request);
+      return result.type === "ok" ? result.value : request;
+    }),
+    auth: collectionData?.auth ?? { authType: "inherit", authActive: true },
+    headers: collectionData?.headers ?? [],
+    preRequestScript: collectionData?.preRequestScript ?? "",
+    testScript: collectionData?.testScript ?? "",
+    variables: collectionData?.variables ?? [],
+  };
+};
+
+/**
+ * Fetches the collection (along with its folders and requests) with the
+ * given ID from the team workspace.
+ * @param collectionID ID of the team collection.
+ * @param access Server URL and access token of the team workspace.
+ * @returns Fetched collection as HoppCollection.
+ */
+export async function fetchTeamCollection(
+  collectionID: string,
+  access: TeamWorkspaceAccess
+): Promise<HoppCollection> {
+  const data = await runGQLQuery(access, EXPORT_COLLECTION_QUERY, {
+    collectionID,
+  });
+
+  const malformedCollectionError = (reason: string): HoppCLIError =>
+    error({ code: "MALFORMED_COLLECTION", path: collectionID, data: reason });
+
+  let contents: unknown;
+
+  try {
+    contents = JSON.parse(String(data.exportCollectionToJSON));
+  } catch (e) {
+    throw malformedCollectionError("The exported collection isn't valid JSON.");
+  }
+
+  const result = TeamCollectionJSON.safeParse(contents);
+
+  if (!result.success) {
+    throw malformedCollectionError("Please check the collection data.");
+  }
+
+  const collection = toHoppCollection(result.data);
+
+  if (!isRESTCollection(collection)) {
+    throw malformedCollectionError("Please check the collection data.");
+  }
+
+  return collection;
+}
+
+/**
+ * Fetches the team environment with the given ID from the team workspace.
+ * @param environmentID ID of the team environment.
+ * @param access Server URL and access token of the team workspace.
+ * @returns HoppEnvs with the variables of the environment as selected envs.
+ */
+export async function fetchTeamEnvironment(
+  environmentID: string,
+  access: TeamWorkspaceAccess
+): Promise<HoppEnvs> {
+  const data = await runGQLQuery(access, TEAM_ENVIRONMENT_QUERY, {
+    id: environmentID,
+  });
+
+  const teamEnvironment = z
+    .object({ variables: z.string() })
+    .safeParse(data.teamEnvironment);
+
+  let variables: unknown;
+
+  try {
+    variables = teamEnvironment.success
+      ? JSON.parse(teamEnvironment.data.variables)
+      : null;
+  } catch (e) {
+    variables = null;
+  }
+
+  const result = TeamEnvironmentVariables.safeParse(variables);
+
+  if (!result.success) {
+    throw error({
+      code: "MALFORMED_ENV_FILE",
+      path: environmentID,
+      data: "Please check the environment variables.",
+    });
+  }
+
+  return {
+    global: [],
+    selected: result.data.map(({ key, value }) => ({
+      key,
+      value,
+      secret: false,
+    })),
+  };
+}
@@ -1,5 +1,5 @@
 import { HoppRESTRequest } from "@hoppscotch/data";
-import { TestDescriptor } from "@hoppscotch/js-sandbox";
+import { IterationInfo, TestDescriptor } from "@hoppscotch/js-sandbox";
 import { runTestScript } from "@hoppscotch/js-sandbox/node";
 import * as A from "fp-ts/Array";
 import * as RA from "fp-ts/ReadonlyArray";
@@ -17,6 +17,7 @@ import { HoppCLIError, error } from "../types/errors";
 import { HoppEnvs } from "../types/request";
 import { ExpectResult, TestMetrics, TestRunnerRes } from "../types/response";
 import { getDurationInSeconds } from "./getters";
+import { sendScriptRequest } from "./script-request";
 
 /**
  * Executes test script and runs testDescriptorParser to generate test-report using
@@ -37,8 +38,14 @@ export const testRunner = (
     TE.bind("test_response", () =>
       pipe(
         TE.of(testScriptData),
-        TE.chain(({ testScript, response, envs }) =>
-          runTestScript(testScript, envs, response)
+        TE.chain(({ testScript, response, envs, iteration }) =>
+          runTestScript(
+            testScript,
+            envs,
+            response,
+            iteration,
+            sendScriptRequest
+          )
         )
       )
     ),
@@ -132,12 +139,14 @@ export const testDescriptorParser = (
  * @param reqRunnerRes Provides response data.
  * @param request Provides test-script data.
  * @param envs Current ENVs state with-in collections-runner.
+ * @param iteration Details of the current iteration, exposed to the script.
  * @returns Object to be passed as parameter for test-runner
  */
 export const getTestScriptParams = (
   reqRunnerRes: RequestRunnerResponse,
   request: HoppRESTRequest,
-  envs: HoppEnvs
+  envs: HoppEnvs,
+  iteration?: IterationInfo
 ) => {
   const testScriptParams: TestScriptParams = {
     testScript: request.testScript,
@@ -147,6 +156,7 @@ export const getTestScriptParams = (
       headers: reqRunnerRes.headers,
     },
     envs: envs,
+    iteration,
   };
   return testScriptParams;
 };
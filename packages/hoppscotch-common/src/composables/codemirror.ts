@@ -62,6 +62,11 @@ type CodeMirrorOptions = {
   // NOTE: This property is not reactive
   environmentHighlights: boolean
 
+  // Whether the variables of the request open in the current REST tab are
+  // highlighted along with the environment variables
+  // NOTE: This property is not reactive
+  scopedVariables?: boolean
+
   additionalExts?: Extension[]
 
   contextMenuEnabled?: boolean
@@ -233,7 +238,11 @@ export function useCodemirror(
   const view = ref<EditorView>()
 
   const environmentTooltip = options.environmentHighlights
-    ? new HoppEnvironmentPlugin(subscribeToStream, view)
+    ? new HoppEnvironmentPlugin(
+        subscribeToStream,
+        view,
+        options.scopedVariables
+      )
     : null
 
   function handleTextSelection() {
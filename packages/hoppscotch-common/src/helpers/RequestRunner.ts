@@ -1,14 +1,19 @@
-import { Environment } from "@hoppscotch/data"
+import {
+  Environment,
+  HoppGQLAuth,
+  HoppRESTAuth,
+  HoppRESTRequest,
+} from "@hoppscotch/data"
 import { SandboxTestResult, TestDescriptor } from "@hoppscotch/js-sandbox"
-import { runTestScript } from "@hoppscotch/js-sandbox/web"
+import { combineScripts, runTestScript } from "@hoppscotch/js-sandbox/web"
 import * as A from "fp-ts/Array"
 import * as E from "fp-ts/Either"
 import * as O from "fp-ts/Option"
 import { flow, pipe } from "fp-ts/function"
 import { cloneDeep } from "lodash-es"
-import { Observable, Subject } from "rxjs"
+import { Observable, Subject, lastValueFrom } from "rxjs"
 import { filter } from "rxjs/operators"
-import { Ref } from "vue"
+import { Ref, ref } from "vue"
 
 import {
   environmentsStore,
@@ -18,17 +23,31 @@ import {
   setGlobalEnvVariables,
   updateEnvironment,
 } from "~/newstore/environments"
+import { editRESTCollection, editRESTFolder } from "~/newstore/collections"
 import { HoppTab } from "~/services/tab"
+import { RESTTabService } from "~/services/tab/rest"
+import { runGQLQuery } from "./backend/GQLClient"
+import { GetCollectionTitleAndDataDocument } from "./backend/graphql"
+import { updateTeamCollection } from "./backend/mutations/TeamCollection"
 import { updateTeamEnvironment } from "./backend/mutations/TeamEnvironment"
-import { createRESTNetworkRequestStream } from "./network"
+import {
+  HoppCollectionRunnerDocument,
+  HoppCollectionRunnerResult,
+  getCollectionRunnerRequests,
+  hasFailedTests,
+} from "./collection/runner"
+import { createRESTNetworkRequestStream, sendScriptRequest } from "./network"
+import { refreshExpiredOAuth2Token } from "./oauth"
 import {
   getCombinedEnvVariables,
   getFinalEnvsFromPreRequest,
 } from "./preRequest"
 import { HoppRESTDocument } from "./rest/document"
 import { HoppRESTResponse } from "./types/HoppRESTResponse"
+import { HoppInheritedProperty } from "./types/HoppInheritedProperties"
 import { HoppTestData, HoppTestResult } from "./types/HoppTestResult"
 import { getEffectiveRESTRequest } from "./utils/EffectiveURL"
+import { getInheritedVariables } from "./rest/variables"
 import { isJSONContentType } from "./utils/contenttypes"
 import {
   SecretEnvironmentService,
@@ -122,69 +141,226 @@ const updateEnvironmentsWithSecret = (
   return updatedEnv
 }
 
-export function runRESTRequest$(
-  tab: Ref<HoppTab<HoppRESTDocument>>
-): [
+/**
+ * Saves the access token refreshed for a request where its authorization comes
+ * from, the request itself or the collection (or folder) it inherits it from
+ * @param tab The tab of the request
+ * @param auth The authorization with the refreshed token
+ */
+const saveRefreshedOAuth2Token = async (
+  tab: Ref<HoppTab<HoppRESTDocument>>,
+  auth: HoppRESTAuth
+) => {
+  const { request, inheritedProperties, saveContext } = tab.value.document
+
+  if (request.auth.authType !== "inherit") {
+    tab.value.document.request.auth = auth
+    return
+  }
+
+  if (!inheritedProperties) return
+
+  // The requests run by the collection runner share the inherited auth, so
+  // they are sent with the refreshed token as well
+  inheritedProperties.auth.inheritedAuth = auth
+
+  const { parentID } = inheritedProperties.auth
+
+  if (!saveContext || !parentID) return
+
+  // Other tabs inheriting the auth from the same collection
+  getService(RESTTabService)
+    .getTabsRefTo(
+      (otherTab) =>
+        otherTab.document.saveContext?.originLocation ===
+          saveContext.originLocation &&
+        otherTab.document.inheritedProperties?.auth.parentID === parentID
+    )
+    .forEach((otherTab) => {
+      otherTab.value.document.inheritedProperties!.auth.inheritedAuth = auth
+    })
+
+  if (saveContext.originLocation === "user-collection") {
+    if (parentID.includes("/")) {
+      editRESTFolder(parentID, { auth })
+    } else {
+      editRESTCollection(parseInt(parentID), { auth })
+    }
+
+    return
+  }
+
+  // The path of a team collection is made of the IDs of its parents
+  const collectionID = parentID.split("/").pop()!
+
+  const collection = await runGQLQuery({
+    query: GetCollectionTitleAndDataDocument,
+    variables: { collectionID },
+  })
+
+  if (E.isLeft(collection)) {
+    console.error(collection.left)
+    return
+  }
+
+  const data = collection.right.collection?.data
+
+  const result = await updateTeamCollection(
+    collectionID,
+    JSON.stringify({ ...(data ? JSON.parse(data) : {}), auth }),
+    undefined
+  )()
+
+  if (E.isLeft(result)) {
+    console.error(result.left)
+  }
+}
+
+/**
+ * Refreshes the access token of the OAuth 2.0 authorization of a request if it
+ * has expired, saving the new token where the authorization comes from
+ * @param tab The tab of the request
+ * @param auth The authorization of the request (including the inherited one)
+ * @returns The authorization to send the request with
+ */
+const refreshOAuth2Token = async (
+  tab: Ref<HoppTab<HoppRESTDocument>>,
+  auth: HoppRESTAuth | HoppGQLAuth
+): Promise<E.Either<"oauth_refresh_fail", HoppRESTAuth | HoppGQLAuth>> => {
+  if (
+    auth.authType !== "oauth-2" ||
+    !auth.authActive ||
+    // The OAuth 2.0 authorization of GraphQL requests doesn't track the expiry
+    !("tokenExpiresAt" in auth)
+  ) {
+    return E.right(auth)
+  }
+
+  const result = await refreshExpiredOAuth2Token(auth)
+
+  if (E.isLeft(result)) {
+    console.error(result.left)
+    return E.left("oauth_refresh_fail")
+  }
+
+  if (result.right !== auth) {
+    saveRefreshedOAuth2Token(tab, result.right).catch(console.error)
+  }
+
+  return E.right(result.right)
+}
+
+export function runRESTRequest$(tab: Ref<HoppTab<HoppRESTDocument>>): [
   () => void,
   Promise<
-    | E.Left<"script_fail" | "cancellation">
+    | E.Left<"script_fail" | "cancellation" | "oauth_refresh_fail">
     | E.Right<Observable<HoppRESTResponse>>
   >,
+  // Resolved once the test script is run on the response and the test
+  // results are set in the tab
+  Promise<void>,
 ] {
   let cancelCalled = false
   let cancelFunc: (() => void) | null = null
 
+  let onTestScriptRun: () => void
+  const testScriptRun = new Promise<void>(
+    (resolve) => (onTestScriptRun = resolve)
+  )
+
   const cancel = () => {
     cancelCalled = true
     cancelFunc?.()
   }
 
-  const res = getFinalEnvsFromPreRequest(
-    tab.value.document.request.preRequestScript,
-    getCombinedEnvVariables()
-  ).then((envs) => {
-    if (cancelCalled) return E.left("cancellation" as const)
+  const requestAuth =
+    tab.value.document.request.auth.authType === "inherit" &&
+    tab.value.document.request.auth.authActive
+      ? tab.value.document.inheritedProperties?.auth.inheritedAuth
+      : tab.value.document.request.auth
 
-    if (E.isLeft(envs)) {
-      console.error(envs.left)
-      return E.left("script_fail" as const)
+  let requestHeaders
+
+  const inheritedHeaders = tab.value.document.inheritedProperties?.headers.map(
+    (header) => {
+      if (header.inheritedHeader) {
+        return header.inheritedHeader
+      }
+      return []
     }
+  )
 
-    const requestAuth =
-      tab.value.document.request.auth.authType === "inherit" &&
-      tab.value.document.request.auth.authActive
-        ? tab.value.document.inheritedProperties?.auth.inheritedAuth
-        : tab.value.document.request.auth
+  if (inheritedHeaders) {
+    requestHeaders = [
+      ...inheritedHeaders,
+      ...tab.value.document.request.headers,
+    ]
+  } else {
+    requestHeaders = [...tab.value.document.request.headers]
+  }
 
-    let requestHeaders
+  const finalRequest = {
+    ...tab.value.document.request,
+    auth: requestAuth ?? { authType: "none", authActive: false },
+    headers: requestHeaders,
+  }
 
-    const inheritedHeaders =
-      tab.value.document.inheritedProperties?.headers.map((header) => {
-        if (header.inheritedHeader) {
-          return header.inheritedHeader
-        }
-        return []
-      })
+  // Scripts of the parent collections are run around the ones of the request
+  const inheritedScripts = tab.value.document.inheritedProperties?.scripts ?? []
 
-    if (inheritedHeaders) {
-      requestHeaders = [
-        ...inheritedHeaders,
-        ...tab.value.document.request.headers,
-      ]
-    } else {
-      requestHeaders = [...tab.value.document.request.headers]
-    }
+  const preRequestScript = combineScripts([
+    ...inheritedScripts.map(({ preRequestScript }) => preRequestScript),
+    tab.value.document.request.preRequestScript,
+  ])
+
+  const testScript = combineScripts([
+    ...inheritedScripts.map(({ testScript }) => testScript),
+    tab.value.document.request.testScript,
+  ])
+
+  // Expired OAuth 2.0 tokens are refreshed before running the scripts, so the
+  // request (as seen by the pre-request script too) is sent with the new token
+  const preRequestResultPromise = refreshOAuth2Token(
+    tab,
+    finalRequest.auth
+  ).then(async (refreshResult) => {
+    if (E.isLeft(refreshResult)) return refreshResult
+
+    finalRequest.auth = refreshResult.right
+
+    return E.right(
+      await getFinalEnvsFromPreRequest(
+        preRequestScript,
+        getCombinedEnvVariables(),
+        finalRequest
+      )
+    )
+  })
+
+  const res = preRequestResultPromise.then((refreshAndPreRequestResult) => {
+    if (cancelCalled) return E.left("cancellation" as const)
+
+    // The request isn't sent with a token known to be expired
+    if (E.isLeft(refreshAndPreRequestResult)) return refreshAndPreRequestResult
+
+    const preRequestResult = refreshAndPreRequestResult.right
 
-    const finalRequest = {
-      ...tab.value.document.request,
-      auth: requestAuth ?? { authType: "none", authActive: false },
-      headers: requestHeaders,
+    if (E.isLeft(preRequestResult)) {
+      console.error(preRequestResult.left)
+      return E.left("script_fail" as const)
     }
 
-    const effectiveRequest = getEffectiveRESTRequest(finalRequest, {
-      name: "Env",
-      variables: combineEnvVariables(envs.right),
-    })
+    const { envs, request } = preRequestResult.right
+
+    // The request includes the changes made by the script through `pw.request`
+    const effectiveRequest = getEffectiveRESTRequest(
+      request ?? finalRequest,
+      {
+        name: "Env",
+        variables: combineEnvVariables(envs),
+      },
+      getInheritedVariables(tab.value.document.inheritedProperties)
+    )
 
     const [stream, cancelRun] = createRESTNetworkRequestStream(effectiveRequest)
     cancelFunc = cancelRun
@@ -198,107 +374,277 @@ export function runRESTRequest$(
             res
           )
 
-          const runResult = await runTestScript(
-            res.req.testScript,
-            envs.right,
-            {
-              status: res.statusCode,
-              body: getTestableBody(res),
-              headers: res.headers,
-            }
-          )
-
-          if (E.isRight(runResult)) {
-            const updatedGlobalEnvVariables = updateEnvironmentsWithSecret(
-              cloneDeep(runResult.right.envs.global),
-              "global"
+          try {
+            // Errors thrown while running the script are reported as a
+            // failure of the script
+            const runResult = await runTestScript(
+              testScript,
+              envs,
+              {
+                status: res.statusCode,
+                body: getTestableBody(res),
+                headers: res.headers,
+              },
+              undefined,
+              sendScriptRequest
+            ).catch(
+              (e): Awaited<ReturnType<typeof runTestScript>> =>
+                E.left(String(e))
             )
 
-            const updatedSelectedEnvVariables = updateEnvironmentsWithSecret(
-              cloneDeep(runResult.right.envs.selected),
-              "selected"
-            )
+            if (E.isRight(runResult)) {
+              const updatedGlobalEnvVariables = updateEnvironmentsWithSecret(
+                cloneDeep(runResult.right.envs.global),
+                "global"
+              )
 
-            // set the response in the tab so that multiple tabs can run request simultaneously
-            tab.value.document.response = res
+              const updatedSelectedEnvVariables = updateEnvironmentsWithSecret(
+                cloneDeep(runResult.right.envs.selected),
+                "selected"
+              )
 
-            const updatedRunResult = {
-              ...runResult.right,
-              envs: {
-                global: updatedGlobalEnvVariables,
-                selected: updatedSelectedEnvVariables,
-              },
-            }
+              // set the response in the tab so that multiple tabs can run request simultaneously
+              tab.value.document.response = res
 
-            tab.value.document.testResults =
-              translateToSandboxTestResults(updatedRunResult)
+              const updatedRunResult = {
+                ...runResult.right,
+                envs: {
+                  global: updatedGlobalEnvVariables,
+                  selected: updatedSelectedEnvVariables,
+                },
+              }
 
-            setGlobalEnvVariables(
-              updateEnvironmentsWithSecret(
-                runResult.right.envs.global,
-                "global"
-              )
-            )
-            if (
-              environmentsStore.value.selectedEnvironmentIndex.type === "MY_ENV"
-            ) {
-              const env = getEnvironment({
-                type: "MY_ENV",
-                index: environmentsStore.value.selectedEnvironmentIndex.index,
-              })
-              updateEnvironment(
-                environmentsStore.value.selectedEnvironmentIndex.index,
-                {
-                  name: env.name,
-                  v: 1,
-                  id: env.id ?? "",
-                  variables: updatedRunResult.envs.selected,
-                }
+              tab.value.document.testResults =
+                translateToSandboxTestResults(updatedRunResult)
+
+              setGlobalEnvVariables(
+                updateEnvironmentsWithSecret(
+                  runResult.right.envs.global,
+                  "global"
+                )
               )
-            } else if (
-              environmentsStore.value.selectedEnvironmentIndex.type ===
-              "TEAM_ENV"
-            ) {
-              const env = getEnvironment({
-                type: "TEAM_ENV",
-              })
-              pipe(
-                updateTeamEnvironment(
-                  JSON.stringify(updatedRunResult.envs.selected),
-                  environmentsStore.value.selectedEnvironmentIndex.teamEnvID,
-                  env.name
+              if (
+                environmentsStore.value.selectedEnvironmentIndex.type ===
+                "MY_ENV"
+              ) {
+                const env = getEnvironment({
+                  type: "MY_ENV",
+                  index: environmentsStore.value.selectedEnvironmentIndex.index,
+                })
+                updateEnvironment(
+                  environmentsStore.value.selectedEnvironmentIndex.index,
+                  {
+                    name: env.name,
+                    v: 1,
+                    id: env.id ?? "",
+                    variables: updatedRunResult.envs.selected,
+                  }
                 )
-              )()
-            }
-          } else {
-            tab.value.document.testResults = {
-              description: "",
-              expectResults: [],
-              tests: [],
-              envDiff: {
-                global: {
-                  additions: [],
-                  deletions: [],
-                  updations: [],
+              } else if (
+                environmentsStore.value.selectedEnvironmentIndex.type ===
+                "TEAM_ENV"
+              ) {
+                const env = getEnvironment({
+                  type: "TEAM_ENV",
+                })
+                pipe(
+                  updateTeamEnvironment(
+                    JSON.stringify(updatedRunResult.envs.selected),
+                    environmentsStore.value.selectedEnvironmentIndex.teamEnvID,
+                    env.name
+                  )
+                )()
+              }
+            } else {
+              tab.value.document.testResults = {
+                description: "",
+                expectResults: [],
+                tests: [],
+                envDiff: {
+                  global: {
+                    additions: [],
+                    deletions: [],
+                    updations: [],
+                  },
+                  selected: {
+                    additions: [],
+                    deletions: [],
+                    updations: [],
+                  },
                 },
-                selected: {
-                  additions: [],
-                  deletions: [],
-                  updations: [],
-                },
-              },
-              scriptError: true,
+                scriptError: true,
+              }
             }
+          } finally {
+            subscription.unsubscribe()
+            onTestScriptRun()
           }
-
-          subscription.unsubscribe()
         }
       })
 
     return E.right(stream)
   })
 
-  return [cancel, res]
+  return [cancel, res, testScriptRun]
+}
+
+/**
+ * Runs a request of a collection run, along with its scripts
+ * @param request The request to run
+ * @param inheritedProperties The properties inherited by the request
+ * @param onCancel Called with the function to cancel the request once it is started
+ * @returns The outcome of running the request
+ */
+const runCollectionRequest = async (
+  request: HoppRESTRequest,
+  inheritedProperties: HoppInheritedProperty,
+  onCancel: (cancel: () => void) => void
+): Promise<
+  Pick<
+    HoppCollectionRunnerResult,
+    "status" | "statusCode" | "duration" | "error" | "testResults"
+  >
+> => {
+  // The request is run in a tab of its own, which isn't shown
+  const requestTab = ref({
+    id: "collection-runner",
+    document: {
+      request: cloneDeep(request),
+      isDirty: false,
+      inheritedProperties,
+      response: null,
+      testResults: null,
+    },
+  }) as Ref<HoppTab<HoppRESTDocument>>
+
+  const [cancel, streamPromise, testScriptRun] = runRESTRequest$(requestTab)
+  onCancel(cancel)
+
+  const streamResult = await streamPromise
+
+  if (E.isLeft(streamResult)) {
+    return {
+      status: "error",
+      error:
+        streamResult.left === "oauth_refresh_fail"
+          ? "oauth_refresh_fail"
+          : "script_fail",
+    }
+  }
+
+  const response = await lastValueFrom(streamResult.right)
+
+  if (response.type !== "success" && response.type !== "fail") {
+    return { status: "error", error: "network_fail" }
+  }
+
+  await testScriptRun
+
+  const testResults = requestTab.value.document.testResults
+
+  if (!testResults) {
+    return { status: "error", error: "test_script_fail" }
+  }
+
+  return {
+    status:
+      testResults.scriptError || hasFailedTests(testResults)
+        ? "failed"
+        : "passed",
+    statusCode: response.statusCode,
+    duration: response.meta.responseDuration,
+    error: testResults.scriptError ? "test_script_fail" : undefined,
+    testResults,
+  }
+}
+
+/**
+ * Runs the requests of the collection of a collection runner tab one after the other,
+ * updating the results in the document of the tab as they complete
+ * @param tab The collection runner tab
+ * @returns The function to stop the run
+ */
+export function runCollection(
+  tab: Ref<HoppTab<HoppCollectionRunnerDocument>>
+): () => void {
+  let cancelCalled = false
+  let cancelRequest: (() => void) | null = null
+
+  const cancel = () => {
+    cancelCalled = true
+    cancelRequest?.()
+  }
+
+  // The document is held on to, as the tab may be closed while running
+  const document = tab.value.document
+
+  const requests = getCollectionRunnerRequests(
+    document.collection,
+    document.inheritedProperties,
+    document.collectionID
+  )
+
+  document.status = "running"
+  document.startedAt = new Date().toISOString()
+  document.results = requests.map(({ path, request }) => ({
+    path,
+    request,
+    status: "pending",
+  }))
+
+  const run = async () => {
+    try {
+      for (const [
+        index,
+        { request, inheritedProperties },
+      ] of requests.entries()) {
+        // The delay is between the requests
+        if (index > 0 && document.delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, document.delay))
+        }
+
+        if (cancelCalled) break
+
+        const result = document.results[index]
+        result.status = "running"
+
+        let outcome: Awaited<ReturnType<typeof runCollectionRequest>>
+
+        try {
+          outcome = await runCollectionRequest(
+            request,
+            inheritedProperties,
+            (cancelFunc) => (cancelRequest = cancelFunc)
+          )
+        } catch (e) {
+          console.error(e)
+          outcome = { status: "error", error: "something_went_wrong" }
+        }
+
+        if (cancelCalled) break
+
+        Object.assign(result, outcome)
+
+        if (document.stopOnFailure && outcome.status !== "passed") break
+      }
+    } finally {
+      for (const result of document.results) {
+        if (result.status === "pending" || result.status === "running") {
+          result.status = "skipped"
+        }
+      }
+
+      document.status = document.results.some(
+        ({ status }) => status === "skipped"
+      )
+        ? "stopped"
+        : "completed"
+    }
+  }
+
+  run().catch(console.error)
+
+  return cancel
 }
 
 const getAddedEnvVariables = (
@@ -138,6 +138,9 @@ export const teamCollToHoppRESTColl = (
     requests: coll.requests?.map((x) => x.request) ?? [],
     auth: data.auth ?? { authType: "inherit", authActive: true },
     headers: data.headers ?? [],
+    preRequestScript: data.preRequestScript ?? "",
+    testScript: data.testScript ?? "",
+    variables: data.variables ?? [],
   })
 }
 
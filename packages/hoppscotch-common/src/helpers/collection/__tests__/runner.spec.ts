@@ -0,0 +1,293 @@
+import { describe, expect, it } from "vitest"
+import {
+  HoppCollection,
+  HoppRESTRequest,
+  getDefaultRESTRequest,
+  makeCollection,
+} from "@hoppscotch/data"
+import {
+  HoppCollectionRunnerDocument,
+  getCollectionRunnerReport,
+  getCollectionRunnerRequests,
+  hasFailedTests,
+} from "../runner"
+import { HoppInheritedProperty } from "~/helpers/types/HoppInheritedProperties"
+import { HoppTestResult } from "~/helpers/types/HoppTestResult"
+
+const makeRequest = (name: string): HoppRESTRequest => ({
+  ...getDefaultRESTRequest(),
+  name,
+})
+
+const makeFolder = (
+  name: string,
+  properties: Partial<HoppCollection> = {}
+): HoppCollection =>
+  makeCollection({
+    name,
+    folders: [],
+    requests: [],
+    auth: { authType: "inherit", authActive: true },
+    headers: [],
+    preRequestScript: "",
+    testScript: "",
+    variables: [],
+    ...properties,
+  })
+
+const collectionProperties: HoppInheritedProperty = {
+  auth: {
+    parentID: "0",
+    parentName: "Collection",
+    inheritedAuth: { authType: "bearer", authActive: true, token: "a" },
+  },
+  headers: [
+    {
+      parentID: "0",
+      parentName: "Collection",
+      inheritedHeader: { key: "X-Client", value: "hopp", active: true },
+    },
+  ],
+  scripts: [
+    {
+      parentID: "0",
+      parentName: "Collection",
+      preRequestScript: "collection-pre",
+      testScript: "collection-test",
+    },
+  ],
+  variables: [
+    {
+      parentID: "0",
+      parentName: "Collection",
+      inheritedVariables: [{ key: "base", value: "/api", active: true }],
+    },
+  ],
+}
+
+const makeTestResult = (
+  expectResults: HoppTestResult["expectResults"],
+  tests: HoppTestResult["tests"] = []
+): HoppTestResult => ({
+  description: "",
+  expectResults,
+  tests,
+  scriptError: false,
+  envDiff: {
+    global: { additions: [], updations: [], deletions: [] },
+    selected: { additions: [], updations: [], deletions: [] },
+  },
+})
+
+describe("getCollectionRunnerRequests", () => {
+  it("lists the requests of a folder before the ones of its sub-folders", () => {
+    const collection = makeFolder("Collection", {
+      requests: [makeRequest("a")],
+      folders: [
+        makeFolder("Folder 1", {
+          requests: [makeRequest("b")],
+          folders: [makeFolder("Folder 3", { requests: [makeRequest("c")] })],
+        }),
+        makeFolder("Folder 2", { requests: [makeRequest("d")] }),
+      ],
+    })
+
+    const requests = getCollectionRunnerRequests(
+      collection,
+      collectionProperties,
+      "0"
+    )
+
+    expect(requests.map(({ path }) => path)).toEqual([
+      "Collection/a",
+      "Collection/Folder 1/b",
+      "Collection/Folder 1/Folder 3/c",
+      "Collection/Folder 2/d",
+    ])
+  })
+
+  it("passes down the auth, headers, scripts and variables of the folders", () => {
+    const collection = makeFolder("Collection", {
+      folders: [
+        makeFolder("Folder", {
+          requests: [makeRequest("a")],
+          auth: {
+            authType: "basic",
+            authActive: true,
+            username: "u",
+            password: "p",
+          },
+          headers: [
+            { key: "X-Client", value: "folder", active: true },
+            { key: "X-Inactive", value: "1", active: false },
+          ],
+          preRequestScript: "folder-pre",
+          testScript: "folder-test",
+          variables: [{ key: "id", value: "1", active: true }],
+        }),
+      ],
+    })
+
+    const [{ inheritedProperties }] = getCollectionRunnerRequests(
+      collection,
+      collectionProperties,
+      "0"
+    )
+
+    expect(inheritedProperties).toEqual({
+      auth: {
+        parentID: "0/0",
+        parentName: "Folder",
+        inheritedAuth: {
+          authType: "basic",
+          authActive: true,
+          username: "u",
+          password: "p",
+        },
+      },
+      headers: [
+        {
+          parentID: "0/0",
+          parentName: "Folder",
+          inheritedHeader: { key: "X-Client", value: "folder", active: true },
+        },
+      ],
+      scripts: [
+        ...collectionProperties.scripts!,
+        {
+          parentID: "0/0",
+          parentName: "Folder",
+          preRequestScript: "folder-pre",
+          testScript: "folder-test",
+        },
+      ],
+      variables: [
+        ...collectionProperties.variables!,
+        {
+          parentID: "0/0",
+          parentName: "Folder",
+          inheritedVariables: [{ key: "id", value: "1", active: true }],
+        },
+      ],
+    })
+  })
+
+  it("keeps the inherited auth for folders inheriting it", () => {
+    const collection = makeFolder("Collection", {
+      folders: [makeFolder("Folder", { requests: [makeRequest("a")] })],
+    })
+
+    const [{ inheritedProperties }] = getCollectionRunnerRequests(
+      collection,
+      collectionProperties,
+      "0"
+    )
+
+    expect(inheritedProperties.auth).toEqual(collectionProperties.auth)
+    expect(inheritedProperties.headers).toEqual(collectionProperties.headers)
+  })
+})
+
+describe("hasFailedTests", () => {
+  it("returns false if all the expectations passed", () => {
+    expect(
+      hasFailedTests(
+        makeTestResult(
+          [{ status: "pass", message: "a" }],
+          [
+            {
+              description: "test",
+              expectResults: [{ status: "pass", message: "b" }],
+              tests: [],
+            },
+          ]
+        )
+      )
+    ).toBe(false)
+  })
+
+  it("returns true if an expectation of a nested test failed", () => {
+    expect(
+      hasFailedTests(
+        makeTestResult(
+          [],
+          [
+            {
+              description: "test",
+              expectResults: [],
+              tests: [
+                {
+                  description: "nested",
+                  expectResults: [{ status: "error", message: "b" }],
+                  tests: [],
+                },
+              ],
+            },
+          ]
+        )
+      )
+    ).toBe(true)
+  })
+})
+
+describe("getCollectionRunnerReport", () => {
+  it("summarises the results of the run", () => {
+    const document: HoppCollectionRunnerDocument = {
+      collection: makeFolder("Collection"),
+      collectionID: "0",
+      inheritedProperties: collectionProperties,
+      delay: 10,
+      stopOnFailure: true,
+      status: "stopped",
+      startedAt: "2024-01-01T00:00:00.000Z",
+      results: [
+        {
+          path: "Collection/a",
+          request: makeRequest("a"),
+          status: "failed",
+          statusCode: 404,
+          duration: 12,
+          testResults: makeTestResult([{ status: "fail", message: "a" }]),
+        },
+        {
+          path: "Collection/b",
+          request: makeRequest("b"),
+          status: "skipped",
+        },
+      ],
+    }
+
+    expect(getCollectionRunnerReport(document)).toEqual({
+      collection: "Collection",
+      startedAt: "2024-01-01T00:00:00.000Z",
+      delay: 10,
+      stopOnFailure: true,
+      summary: { total: 2, passed: 0, failed: 1, errored: 0, skipped: 1 },
+      results: [
+        {
+          path: "Collection/a",
+          method: "GET",
+          endpoint: getDefaultRESTRequest().endpoint,
+          status: "failed",
+          statusCode: 404,
+          duration: 12,
+          error: null,
+          tests: {
+            tests: [],
+            expectResults: [{ status: "fail", message: "a" }],
+          },
+        },
+        {
+          path: "Collection/b",
+          method: "GET",
+          endpoint: getDefaultRESTRequest().endpoint,
+          status: "skipped",
+          statusCode: null,
+          duration: null,
+          error: null,
+          tests: null,
+        },
+      ],
+    })
+  })
+})
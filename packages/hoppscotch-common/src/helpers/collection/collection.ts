@@ -212,7 +212,12 @@ export function updateInheritedPropertiesForAffectedRequests(
   })
 
   for (const tab of tabsEffectedByAuth) {
-    tab.value.document.inheritedProperties = inheritedProperties
+    tab.value.document.inheritedProperties = {
+      ...inheritedProperties,
+      // The scripts and variables of the nested folders are kept, updated below
+      scripts: tab.value.document.inheritedProperties?.scripts,
+      variables: tab.value.document.inheritedProperties?.variables,
+    }
   }
 
   for (const tab of tabsEffectedByHeaders) {
@@ -237,6 +242,44 @@ export function updateInheritedPropertiesForAffectedRequests(
       headers,
     }
   }
+
+  const updatedScripts = inheritedProperties.scripts?.find(
+    (script) => script.parentID === path
+  )
+
+  if (updatedScripts) {
+    for (const tab of tabs) {
+      const currentInheritedProperties = tab.value.document.inheritedProperties
+
+      if (!currentInheritedProperties?.scripts) continue
+
+      tab.value.document.inheritedProperties = {
+        ...currentInheritedProperties,
+        scripts: currentInheritedProperties.scripts.map((script) =>
+          script.parentID === path ? updatedScripts : script
+        ),
+      }
+    }
+  }
+
+  const updatedVariables = inheritedProperties.variables?.find(
+    (variable) => variable.parentID === path
+  )
+
+  if (!updatedVariables) return
+
+  for (const tab of tabs) {
+    const currentInheritedProperties = tab.value.document.inheritedProperties
+
+    if (!currentInheritedProperties?.variables) continue
+
+    tab.value.document.inheritedProperties = {
+      ...currentInheritedProperties,
+      variables: currentInheritedProperties.variables.map((variable) =>
+        variable.parentID === path ? updatedVariables : variable
+      ),
+    }
+  }
 }
 
 function resetSaveContextForAffectedRequests(folderPath: string) {
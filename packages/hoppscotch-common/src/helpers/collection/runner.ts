@@ -0,0 +1,255 @@
+import { HoppCollection, HoppRESTRequest } from "@hoppscotch/data"
+import { HoppInheritedProperty } from "../types/HoppInheritedProperties"
+import { HoppTestData, HoppTestResult } from "../types/HoppTestResult"
+
+export type HoppCollectionRunnerResultStatus =
+  | "pending"
+  | "running"
+  | "passed"
+  | "failed"
+  | "error"
+  | "skipped"
+
+/**
+ * The result of running a request of the collection
+ */
+export type HoppCollectionRunnerResult = {
+  /**
+   * Path to the request, made of the names of the collection, the folders and the request
+   */
+  path: string
+  request: HoppRESTRequest
+  status: HoppCollectionRunnerResultStatus
+  statusCode?: number
+  /**
+   * Time taken for the response (in millis)
+   */
+  duration?: number
+  /**
+   * Why the request couldn't be run (if it failed to)
+   */
+  error?:
+    | "script_fail"
+    | "network_fail"
+    | "test_script_fail"
+    | "something_went_wrong"
+    | "oauth_refresh_fail"
+  testResults?: HoppTestResult | null
+}
+
+/**
+ * Defines the document of a collection runner tab
+ */
+export type HoppCollectionRunnerDocument = {
+  /**
+   * The collection (or folder) to run
+   */
+  collection: HoppCollection
+
+  /**
+   * ID of the collection (the path to it, in case of personal collections)
+   */
+  collectionID: string
+
+  /**
+   * The properties the collection inherits from its parent collections
+   * (including the ones of the collection itself)
+   */
+  inheritedProperties: HoppInheritedProperty
+
+  /**
+   * Delay (in millis) before running each request
+   */
+  delay: number
+
+  /**
+   * Whether to stop the run on the first request that fails
+   */
+  stopOnFailure: boolean
+
+  status: "idle" | "running" | "completed" | "stopped"
+
+  /**
+   * When the last run was started (as an ISO string)
+   */
+  startedAt: string | null
+
+  results: HoppCollectionRunnerResult[]
+}
+
+/**
+ * A request to be run by the collection runner,
+ * along with the properties it inherits
+ */
+export type HoppCollectionRunnerRequest = {
+  path: string
+  request: HoppRESTRequest
+  inheritedProperties: HoppInheritedProperty
+}
+
+/**
+ * Adds the auth, headers, scripts and variables of a folder to the properties inherited from its parent
+ * @param inheritedProperties The properties inherited by the parent of the folder
+ * @param folder The folder
+ * @param folderID ID of the folder, used as the parent ID of the properties
+ * @returns The properties inherited by the contents of the folder
+ */
+export const getFolderInheritedProperties = (
+  inheritedProperties: HoppInheritedProperty,
+  folder: HoppCollection,
+  folderID: string
+): HoppInheritedProperty => {
+  const auth =
+    folder.auth?.authType === "inherit" || !folder.auth
+      ? inheritedProperties.auth
+      : {
+          parentID: folderID,
+          parentName: folder.name,
+          inheritedAuth: folder.auth,
+        }
+
+  const headers = [...inheritedProperties.headers]
+
+  // Headers of the folder override the inherited ones with the same key
+  for (const header of folder.headers?.filter((h) => h.active) ?? []) {
+    const inheritedHeader = {
+      parentID: folderID,
+      parentName: folder.name,
+      inheritedHeader: header,
+    }
+
+    const index = headers.findIndex(
+      (h) => h.inheritedHeader?.key === header.key
+    )
+
+    if (index !== -1) {
+      headers[index] = inheritedHeader
+    } else {
+      headers.push(inheritedHeader)
+    }
+  }
+
+  return {
+    auth,
+    headers,
+    scripts: [
+      ...(inheritedProperties.scripts ?? []),
+      {
+        parentID: folderID,
+        parentName: folder.name,
+        preRequestScript: folder.preRequestScript ?? "",
+        testScript: folder.testScript ?? "",
+      },
+    ],
+    variables: [
+      ...(inheritedProperties.variables ?? []),
+      {
+        parentID: folderID,
+        parentName: folder.name,
+        inheritedVariables: folder.variables ?? [],
+      },
+    ],
+  }
+}
+
+/**
+ * Lists the requests of a collection (and its folders) in the order they are run,
+ * the requests of a folder being run before the ones of its sub-folders
+ * @param collection The collection to run
+ * @param inheritedProperties The properties the collection inherits
+ * (including the ones of the collection itself)
+ * @param collectionID ID of the collection, used as the parent ID of the properties of the folders
+ * @param parentPath Path of the parent of the collection (if it is a folder)
+ * @returns The requests to run along with the properties they inherit
+ */
+export const getCollectionRunnerRequests = (
+  collection: HoppCollection,
+  inheritedProperties: HoppInheritedProperty,
+  collectionID: string,
+  parentPath?: string
+): HoppCollectionRunnerRequest[] => {
+  const path = parentPath ? `${parentPath}/${collection.name}` : collection.name
+
+  const requests = (collection.requests as HoppRESTRequest[]).map(
+    (request) => ({
+      path: `${path}/${request.name}`,
+      request,
+      inheritedProperties,
+    })
+  )
+
+  const folderRequests = collection.folders.flatMap((folder, index) => {
+    const folderID = folder.id ?? `${collectionID}/${index}`
+
+    return getCollectionRunnerRequests(
+      folder,
+      getFolderInheritedProperties(inheritedProperties, folder, folderID),
+      folderID,
+      path
+    )
+  })
+
+  return [...requests, ...folderRequests]
+}
+
+/**
+ * Checks whether any of the tests (or the expectations outside them) failed
+ * @param testResults The test results of the request
+ */
+export const hasFailedTests = (testResults: HoppTestResult) => {
+  const isFailed = ({ status }: HoppTestData["expectResults"][number]) =>
+    status === "fail" || status === "error"
+
+  const hasFailedTest = (test: HoppTestData): boolean =>
+    test.expectResults.some(isFailed) || test.tests.some(hasFailedTest)
+
+  return (
+    testResults.expectResults.some(isFailed) ||
+    testResults.tests.some(hasFailedTest)
+  )
+}
+
+/**
+ * Counts the results of a run by their status
+ * @param results The results of the requests run
+ */
+export const getCollectionRunnerSummary = (
+  results: HoppCollectionRunnerResult[]
+) => ({
+  total: results.length,
+  passed: results.filter(({ status }) => status === "passed").length,
+  failed: results.filter(({ status }) => status === "failed").length,
+  errored: results.filter(({ status }) => status === "error").length,
+  skipped: results.filter(({ status }) => status === "skipped").length,
+})
+
+/**
+ * Generates the report of a run, to be exported as JSON
+ * @param document The document of the collection runner tab
+ */
+export const getCollectionRunnerReport = (
+  document: HoppCollectionRunnerDocument
+) => ({
+  collection: document.collection.name,
+  startedAt: document.startedAt,
+  delay: document.delay,
+  stopOnFailure: document.stopOnFailure,
+  summary: getCollectionRunnerSummary(document.results),
+  results: document.results.map(
+    ({ path, request, status, statusCode, duration, error, testResults }) => ({
+      path,
+      method: request.method,
+      endpoint: request.endpoint,
+      status,
+      statusCode: statusCode ?? null,
+      duration: duration ?? null,
+      error: error ?? null,
+      tests: testResults
+        ? {
+            tests: testResults.tests,
+            expectResults: testResults.expectResults,
+          }
+        : null,
+    })
+  ),
+})
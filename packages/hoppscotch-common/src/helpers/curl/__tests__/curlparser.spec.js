@@ -2,7 +2,11 @@
 // ^^^ Enables Type Checking by the TypeScript compiler
 
 import { describe, expect, test } from "vitest"
-import { makeRESTRequest, rawKeyValueEntriesToString } from "@hoppscotch/data"
+import {
+  getDefaultRESTRequestSettings,
+  makeRESTRequest,
+  rawKeyValueEntriesToString,
+} from "@hoppscotch/data"
 import { parseCurlToHoppRESTReq } from ".."
 
 const samples = [
@@ -38,6 +42,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -141,6 +147,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -158,6 +166,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -181,6 +191,8 @@ const samples = [
       ],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -209,6 +221,8 @@ const samples = [
       ],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -239,6 +253,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -268,6 +284,8 @@ const samples = [
       ],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -291,6 +309,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -312,6 +332,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -335,6 +357,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -366,6 +390,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -430,6 +456,8 @@ const samples = [
       ],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -458,6 +486,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -515,6 +545,8 @@ const samples = [
       ],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -560,6 +592,8 @@ const samples = [
       ],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -607,6 +641,8 @@ const samples = [
       ],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -621,6 +657,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -645,6 +683,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -662,6 +702,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -685,6 +727,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -702,6 +746,8 @@ const samples = [
       params: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -725,6 +771,8 @@ const samples = [
       ],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -747,6 +795,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -767,6 +817,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -788,6 +840,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -808,6 +862,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
   {
@@ -839,6 +895,8 @@ const samples = [
       headers: [],
       preRequestScript: "",
       testScript: "",
+      settings: getDefaultRESTRequestSettings(),
+      requestVariables: [],
     }),
   },
 ]
@@ -64,7 +64,7 @@ export const parseCurlCommand = (curlCommand: string) => {
     O.getOrElseW(() => "")
   )
 
-  let body: HoppRESTReqBody["body"] = ""
+  let body: string | null = ""
   let contentType: HoppRESTReqBody["contentType"] =
     defaultRESTReq.body.contentType
   let hasBodyBeenParsed = false
@@ -181,5 +181,7 @@ export const parseCurlCommand = (curlCommand: string) => {
     testScript: defaultRESTReq.testScript,
     auth,
     body: finalBody,
+    settings: defaultRESTReq.settings,
+    requestVariables: defaultRESTReq.requestVariables,
   })
 }
@@ -6,6 +6,7 @@ import * as RNEA from "fp-ts/ReadonlyNonEmptyArray"
 import * as S from "fp-ts/string"
 import {
   HoppRESTReqBody,
+  HoppRESTReqBodyBinary,
   HoppRESTReqBodyFormData,
   ValidContentTypes,
   knownContentTypes,
@@ -21,7 +22,10 @@ type BodyReturnType =
   | { type: "FORMDATA"; body: Record<string, string> }
   | {
       type: "NON_FORMDATA"
-      body: Exclude<HoppRESTReqBody, HoppRESTReqBodyFormData>
+      body: Exclude<
+        HoppRESTReqBody,
+        HoppRESTReqBodyFormData | HoppRESTReqBodyBinary
+      >
     }
 
 /** Parses body based on the content type
@@ -59,7 +63,12 @@ const getContentTypeFromRawContentType = (rawContentType: string) =>
     // get everything before semi-colon
     O.map(flow(S.toLowerCase, S.split(";"), RNEA.head)),
     // if rawContentType is valid, cast it to contentType type
-    O.filter((ct) => Object.keys(knownContentTypes).includes(ct)),
+    // the data of a curl command is kept as text, never as a binary (file) body
+    O.filter(
+      (ct) =>
+        Object.keys(knownContentTypes).includes(ct) &&
+        ct !== "application/octet-stream"
+    ),
     O.map((ct) => ct as HoppRESTReqBody["contentType"])
   )
 
@@ -108,7 +117,7 @@ export const getBody = (
               body: ctBody,
               contentType: cType as Exclude<
                 ValidContentTypes,
-                "multipart/form-data"
+                "multipart/form-data" | "application/octet-stream"
               >,
             },
           }
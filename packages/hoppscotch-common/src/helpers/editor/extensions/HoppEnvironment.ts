@@ -1,5 +1,10 @@
-import { watch, Ref } from "vue"
-import { Compartment } from "@codemirror/state"
+import { computed, watch, Ref } from "vue"
+import { Compartment, EditorState } from "@codemirror/state"
+import {
+  Completion,
+  CompletionContext,
+  autocompletion,
+} from "@codemirror/autocomplete"
 import {
   Decoration,
   EditorView,
@@ -8,7 +13,12 @@ import {
   hoverTooltip,
 } from "@codemirror/view"
 import * as E from "fp-ts/Either"
-import { parseTemplateStringE } from "@hoppscotch/data"
+import { uniqBy } from "lodash-es"
+import {
+  DYNAMIC_VARIABLES,
+  getDynamicVariable,
+  parseTemplateStringE,
+} from "@hoppscotch/data"
 import { StreamSubscriberFunc } from "@composables/stream"
 import {
   AggregateEnvironment,
@@ -21,10 +31,15 @@ import { invokeAction } from "~/helpers/actions"
 import IconUser from "~icons/lucide/user?raw"
 import IconUsers from "~icons/lucide/users?raw"
 import IconEdit from "~icons/lucide/edit?raw"
+import IconFolder from "~icons/lucide/folder?raw"
+import IconZap from "~icons/lucide/zap?raw"
 import { SecretEnvironmentService } from "~/services/secret-environment.service"
+import { RESTTabService } from "~/services/tab/rest"
 import { getService } from "~/modules/dioc"
+import { getScopedVariables } from "~/helpers/rest/variables"
 
-const HOPP_ENVIRONMENT_REGEX = /(<<[a-zA-Z0-9-_]+>>)/g
+// Dynamic variables are prefixed with `$`
+const HOPP_ENVIRONMENT_REGEX = /(<<\$?[a-zA-Z0-9-_]+>>)/g
 
 const HOPP_ENV_HIGHLIGHT =
   "cursor-help transition rounded px-1 focus:outline-none mx-0.5 env-highlight"
@@ -32,8 +47,24 @@ const HOPP_ENV_HIGHLIGHT_FOUND = "env-found"
 const HOPP_ENV_HIGHLIGHT_NOT_FOUND = "env-not-found"
 
 const secretEnvironmentService = getService(SecretEnvironmentService)
-
-const cursorTooltipField = (aggregateEnvs: AggregateEnvironment[]) =>
+const restTabService = getService(RESTTabService)
+
+/**
+ * The variables of the request open in the current REST tab and the ones it
+ * inherits from its parent collections, which take precedence over the
+ * environment variables
+ */
+const currentTabScopedVariables = computed<AggregateEnvironment[]>(() => {
+  const { request, inheritedProperties } =
+    restTabService.currentActiveTab.value.document
+
+  return getScopedVariables(request, inheritedProperties)
+})
+
+const cursorTooltipField = (
+  aggregateEnvs: AggregateEnvironment[],
+  scopedVariables: AggregateEnvironment[] = []
+) =>
   hoverTooltip(
     (view, pos, side) => {
       const { from, to, text } = view.state.doc.lineAt(pos)
@@ -52,9 +83,9 @@ const cursorTooltipField = (aggregateEnvs: AggregateEnvironment[]) =>
       let start = pos
       let end = pos
 
-      while (start > from && /[a-zA-Z0-9-_]+/.test(text[start - from - 1]))
+      while (start > from && /[a-zA-Z0-9-_$]+/.test(text[start - from - 1]))
         start--
-      while (end < to && /[a-zA-Z0-9-_]+/.test(text[end - from])) end++
+      while (end < to && /[a-zA-Z0-9-_$]+/.test(text[end - from])) end++
 
       if (
         (start === pos && side < 0) ||
@@ -67,7 +98,23 @@ const cursorTooltipField = (aggregateEnvs: AggregateEnvironment[]) =>
 
       const parsedEnvKey = text.slice(start - from, end - from)
 
-      const tooltipEnv = aggregateEnvs.find((env) => env.key === parsedEnvKey)
+      const dynamicVariable = getDynamicVariable(parsedEnvKey)
+
+      const scopedVariable = scopedVariables.find(
+        (variable) => variable.key === parsedEnvKey
+      )
+
+      // Dynamic variables are generated while sending the request, so their
+      // description is shown in place of the value
+      const tooltipEnv: AggregateEnvironment | undefined = dynamicVariable
+        ? {
+            key: dynamicVariable.key,
+            value: dynamicVariable.description,
+            secret: false,
+            sourceEnv: "Dynamic",
+          }
+        : scopedVariable ??
+          aggregateEnvs.find((env) => env.key === parsedEnvKey)
 
       const envName = tooltipEnv?.sourceEnv ?? "Choose an Environment"
 
@@ -93,14 +140,23 @@ const cursorTooltipField = (aggregateEnvs: AggregateEnvironment[]) =>
         envValue = "Empty"
       }
 
-      const result = parseTemplateStringE(envValue, aggregateEnvs)
+      const result = parseTemplateStringE(envValue, [
+        ...scopedVariables,
+        ...aggregateEnvs,
+      ])
 
       const finalEnv = E.isLeft(result) ? "error" : result.right
 
       const selectedEnvType = getSelectedEnvironmentType()
 
       const envTypeIcon = `<span class="inline-flex items-center justify-center my-1">${
-        selectedEnvType === "TEAM_ENV" ? IconUsers : IconUser
+        dynamicVariable
+          ? IconZap
+          : scopedVariable
+            ? IconFolder
+            : selectedEnvType === "TEAM_ENV"
+              ? IconUsers
+              : IconUser
       }</span>`
 
       const appendEditAction = (tooltip: HTMLElement) => {
@@ -149,7 +205,10 @@ const cursorTooltipField = (aggregateEnvs: AggregateEnvironment[]) =>
           tooltipContainer.appendChild(icon)
           tooltipContainer.appendChild(document.createTextNode(`${envName} `))
           tooltipContainer.appendChild(kbd)
-          if (tooltipEnv) appendEditAction(tooltipContainer)
+          // Request and collection variables are edited along with them,
+          // while dynamic variables can't be edited
+          if (tooltipEnv && !scopedVariable && !dynamicVariable)
+            appendEditAction(tooltipContainer)
           tooltipContainer.className = "tippy-content"
           dom.className = "tippy-box"
           dom.dataset.theme = "tooltip"
@@ -165,11 +224,13 @@ const cursorTooltipField = (aggregateEnvs: AggregateEnvironment[]) =>
   )
 
 function checkEnv(env: string, aggregateEnvs: AggregateEnvironment[]) {
-  const className = aggregateEnvs.find(
-    (k: { key: string }) => k.key === env.slice(2, -2)
-  )
-    ? HOPP_ENV_HIGHLIGHT_FOUND
-    : HOPP_ENV_HIGHLIGHT_NOT_FOUND
+  const key = env.slice(2, -2)
+
+  const className =
+    getDynamicVariable(key) ||
+    aggregateEnvs.find((k: { key: string }) => k.key === key)
+      ? HOPP_ENV_HIGHLIGHT_FOUND
+      : HOPP_ENV_HIGHLIGHT_NOT_FOUND
 
   return Decoration.mark({
     class: `${HOPP_ENV_HIGHLIGHT} ${className}`,
@@ -200,33 +261,97 @@ export const environmentHighlightStyle = (
   )
 }
 
+/**
+ * Completes the variable names after `<<`, including the dynamic variables
+ */
+const environmentCompletion = (aggregateEnvs: AggregateEnvironment[]) => {
+  const options: Completion[] = [
+    ...uniqBy(aggregateEnvs, (env) => env.key).map((env) => ({
+      label: env.key,
+      detail: env.sourceEnv,
+      type: "variable",
+      apply: `${env.key}>>`,
+    })),
+    ...DYNAMIC_VARIABLES.map((variable) => ({
+      label: variable.key,
+      detail: variable.description,
+      type: "constant",
+      apply: `${variable.key}>>`,
+    })),
+  ]
+
+  return [
+    autocompletion(),
+    EditorState.languageData.of(() => [
+      {
+        autocomplete: (context: CompletionContext) => {
+          const word = context.matchBefore(/<<\$?[a-zA-Z0-9-_]*/)
+
+          if (!word) return null
+
+          return {
+            from: word.from + 2,
+            options,
+            validFor: /^\$?[a-zA-Z0-9-_]*$/,
+          }
+        },
+      },
+    ]),
+  ]
+}
+
+const getEnvironmentExtensions = (
+  aggregateEnvs: AggregateEnvironment[],
+  scopedVariables: AggregateEnvironment[]
+) => [
+  cursorTooltipField(aggregateEnvs, scopedVariables),
+  environmentHighlightStyle([...scopedVariables, ...aggregateEnvs]),
+  environmentCompletion([...scopedVariables, ...aggregateEnvs]),
+]
+
 export class HoppEnvironmentPlugin {
   private compartment = new Compartment()
 
   private envs: AggregateEnvironment[] = []
 
+  /**
+   * @param subscribeToStream The function to subscribe to the environments with
+   * @param editorView The editor to highlight the variables in
+   * @param withScopedVariables Whether the variables of the request open in
+   * the current REST tab are highlighted too
+   */
   constructor(
     subscribeToStream: StreamSubscriberFunc,
-    private editorView: Ref<EditorView | undefined>
+    private editorView: Ref<EditorView | undefined>,
+    private withScopedVariables = false
   ) {
     this.envs = getAggregateEnvsWithSecrets()
 
     subscribeToStream(aggregateEnvsWithSecrets$, (envs) => {
       this.envs = envs
-      this.editorView.value?.dispatch({
-        effects: this.compartment.reconfigure([
-          cursorTooltipField(this.envs),
-          environmentHighlightStyle(this.envs),
-        ]),
-      })
+      this.reconfigure()
+    })
+
+    if (withScopedVariables)
+      watch(currentTabScopedVariables, () => this.reconfigure())
+  }
+
+  private get scopedVariables() {
+    return this.withScopedVariables ? currentTabScopedVariables.value : []
+  }
+
+  private reconfigure() {
+    this.editorView.value?.dispatch({
+      effects: this.compartment.reconfigure(
+        getEnvironmentExtensions(this.envs, this.scopedVariables)
+      ),
     })
   }
 
   get extension() {
-    return this.compartment.of([
-      cursorTooltipField(this.envs),
-      environmentHighlightStyle(this.envs),
-    ])
+    return this.compartment.of(
+      getEnvironmentExtensions(this.envs, this.scopedVariables)
+    )
   }
 }
 
@@ -235,30 +360,45 @@ export class HoppReactiveEnvPlugin {
 
   private envs: AggregateEnvironment[] = []
 
+  /**
+   * @param envsRef The environment variables to highlight
+   * @param editorView The editor to highlight the variables in
+   * @param withScopedVariables Whether the variables of the request open in
+   * the current REST tab are highlighted too
+   */
   constructor(
     envsRef: Ref<AggregateEnvironment[]>,
-    private editorView: Ref<EditorView | undefined>
+    private editorView: Ref<EditorView | undefined>,
+    private withScopedVariables = false
   ) {
     watch(
       envsRef,
       (envs) => {
         this.envs = envs
-
-        this.editorView.value?.dispatch({
-          effects: this.compartment.reconfigure([
-            cursorTooltipField(this.envs),
-            environmentHighlightStyle(this.envs),
-          ]),
-        })
+        this.reconfigure()
       },
       { immediate: true }
     )
+
+    if (withScopedVariables)
+      watch(currentTabScopedVariables, () => this.reconfigure())
+  }
+
+  private get scopedVariables() {
+    return this.withScopedVariables ? currentTabScopedVariables.value : []
+  }
+
+  private reconfigure() {
+    this.editorView.value?.dispatch({
+      effects: this.compartment.reconfigure(
+        getEnvironmentExtensions(this.envs, this.scopedVariables)
+      ),
+    })
   }
 
   get extension() {
-    return this.compartment.of([
-      cursorTooltipField(this.envs),
-      environmentHighlightStyle(this.envs),
-    ])
+    return this.compartment.of(
+      getEnvironmentExtensions(this.envs, this.scopedVariables)
+    )
   }
 }
@@ -0,0 +1,30 @@
+import {
+  HoppCollection,
+  HoppRESTRequest,
+  makeCollection,
+} from "@hoppscotch/data"
+import { getDefaultRESTRequest } from "~/helpers/rest/default"
+
+// Factories of the requests and the collections exported across the test cases
+
+export const makeRequest = (
+  request: Partial<HoppRESTRequest>
+): HoppRESTRequest => ({
+  ...getDefaultRESTRequest(),
+  ...request,
+})
+
+export const makeTestCollection = (
+  collection: Partial<HoppCollection>
+): HoppCollection =>
+  makeCollection({
+    name: "Test Collection",
+    folders: [],
+    requests: [],
+    auth: { authType: "none", authActive: true },
+    headers: [],
+    preRequestScript: "",
+    testScript: "",
+    variables: [],
+    ...collection,
+  })
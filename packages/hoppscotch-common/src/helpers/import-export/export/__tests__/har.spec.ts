@@ -0,0 +1,76 @@
+import { describe, expect, test } from "vitest"
+import { RESTHistoryEntry } from "~/newstore/history"
+import { harExporter } from "../har"
+import { makeRequest } from "./fixtures"
+
+const makeHistoryEntry = (
+  entry: Omit<RESTHistoryEntry, "v">
+): RESTHistoryEntry => ({ v: 1, ...entry })
+
+describe("harExporter", () => {
+  test("exports the history entries in chronological order", () => {
+    const har = JSON.parse(
+      harExporter([
+        makeHistoryEntry({
+          request: makeRequest({
+            name: "Create user",
+            method: "POST",
+            endpoint: "https://api.example.com/users?notify=true",
+            params: [
+              { key: "page", value: "1", active: true },
+              { key: "debug", value: "true", active: false },
+            ],
+            headers: [{ key: "X-Tenant", value: "acme", active: true }],
+            body: {
+              contentType: "application/json",
+              body: '{ "name": "Alice" }',
+            },
+          }),
+          responseMeta: { duration: 120, statusCode: 201 },
+          star: false,
+          updatedOn: new Date("2024-01-02T00:00:00.000Z"),
+        }),
+        makeHistoryEntry({
+          request: makeRequest({
+            name: "List users",
+            endpoint: "https://api.example.com/users",
+          }),
+          responseMeta: { duration: null, statusCode: null },
+          star: false,
+          updatedOn: new Date("2024-01-01T00:00:00.000Z"),
+        }),
+      ])
+    )
+
+    expect(har.log).toMatchObject({
+      version: "1.2",
+      creator: { name: "Hoppscotch" },
+    })
+
+    const [listUsers, createUser] = har.log.entries
+
+    expect(createUser).toMatchObject({
+      startedDateTime: "2024-01-02T00:00:00.000Z",
+      time: 120,
+      comment: "Create user",
+      request: {
+        method: "POST",
+        url: "https://api.example.com/users?notify=true&page=1",
+        headers: [{ name: "X-Tenant", value: "acme" }],
+        queryString: [{ name: "page", value: "1" }],
+        postData: { mimeType: "application/json", text: '{ "name": "Alice" }' },
+      },
+      response: { status: 201 },
+      timings: { send: 0, wait: 120, receive: 0 },
+    })
+
+    expect(listUsers).toMatchObject({
+      startedDateTime: "2024-01-01T00:00:00.000Z",
+      time: 0,
+      comment: "List users",
+      request: { method: "GET", url: "https://api.example.com/users" },
+      response: { status: 0 },
+    })
+    expect(listUsers.request.postData).toBeUndefined()
+  })
+})
@@ -0,0 +1,182 @@
+import { describe, expect, test } from "vitest"
+import * as E from "fp-ts/Either"
+import { HoppCollection } from "@hoppscotch/data"
+import { hoppHTTPFileImporter } from "../../import/httpFile"
+import { httpFileExporter } from "../httpFile"
+import { makeRequest, makeTestCollection } from "./fixtures"
+
+describe("httpFileExporter", () => {
+  test("exports the requests of the collections and their folders", () => {
+    const file = httpFileExporter([
+      makeTestCollection({
+        variables: [
+          { key: "baseURL", value: "https://api.example.com", active: true },
+          { key: "unused", value: "", active: false },
+        ],
+        headers: [
+          { key: "X-Tenant", value: "<<tenant>>", active: true },
+          { key: "X-Version", value: "1", active: true },
+        ],
+        auth: { authType: "bearer", authActive: true, token: "<<token>>" },
+        requests: [
+          makeRequest({
+            name: "List users",
+            endpoint: "<<baseURL>>/users",
+            params: [
+              { key: "page", value: "1", active: true },
+              { key: "debug", value: "true", active: false },
+            ],
+            headers: [{ key: "x-version", value: "2", active: true }],
+          }),
+        ],
+        folders: [
+          makeTestCollection({
+            auth: { authType: "inherit", authActive: true },
+            requests: [
+              makeRequest({
+                name: "Create post",
+                method: "POST",
+                endpoint: "<<baseURL>>/posts",
+                auth: { authType: "none", authActive: true },
+                body: {
+                  contentType: "application/json",
+                  body: '{ "title": "<<title>>" }',
+                },
+              }),
+            ],
+          }),
+        ],
+      }),
+    ])
+
+    expect(file).toBe(
+      [
+        "@baseURL = https://api.example.com",
+        "",
+        "### List users",
+        "GET {{baseURL}}/users?page=1",
+        "X-Tenant: {{tenant}}",
+        "x-version: 2",
+        "Authorization: Bearer {{token}}",
+        "",
+        "### Create post",
+        "POST {{baseURL}}/posts",
+        "X-Tenant: {{tenant}}",
+        "X-Version: 1",
+        "Content-Type: application/json",
+        "",
+        '{ "title": "{{title}}" }',
+      ].join("\n")
+    )
+  })
+
+  test("exports the form bodies", () => {
+    const file = httpFileExporter([
+      makeTestCollection({
+        requests: [
+          makeRequest({
+            name: "Login",
+            method: "POST",
+            endpoint: "https://example.com/login",
+            body: {
+              contentType: "application/x-www-form-urlencoded",
+              body: "username: alice\n#remember: true",
+            },
+          }),
+          makeRequest({
+            name: "Upload",
+            method: "POST",
+            endpoint: "https://example.com/upload",
+            body: {
+              contentType: "multipart/form-data",
+              body: [
+                { key: "caption", value: "Hi", isFile: false, active: true },
+                {
+                  key: "avatar",
+                  value: [new File([""], "avatar.png")],
+                  isFile: true,
+                  active: true,
+                },
+              ],
+            },
+          }),
+        ],
+      }),
+    ])
+
+    expect(file).toBe(
+      [
+        "### Login",
+        "POST https://example.com/login",
+        "Content-Type: application/x-www-form-urlencoded",
+        "",
+        "username=alice",
+        "",
+        "### Upload",
+        "POST https://example.com/upload",
+        "Content-Type: multipart/form-data; boundary=HoppscotchFormBoundary",
+        "",
+        "--HoppscotchFormBoundary",
+        'Content-Disposition: form-data; name="caption"',
+        "",
+        "Hi",
+        "--HoppscotchFormBoundary",
+        'Content-Disposition: form-data; name="avatar"; filename="avatar.png"',
+        "",
+        "< ./avatar.png",
+        "--HoppscotchFormBoundary--",
+      ].join("\n")
+    )
+  })
+
+  test("can be imported back by the HTTP file importer", async () => {
+    const request = makeRequest({
+      name: "Create user",
+      method: "POST",
+      endpoint: "<<baseURL>>/users",
+      params: [{ key: "notify", value: "true", active: true }],
+      headers: [{ key: "X-Tenant", value: "<<tenant>>", active: true }],
+      auth: {
+        authType: "basic",
+        authActive: true,
+        username: "<<username>>",
+        password: "secret",
+      },
+      body: { contentType: "application/json", body: '{ "name": "Alice" }' },
+    })
+
+    const result = await hoppHTTPFileImporter(
+      httpFileExporter([
+        makeTestCollection({
+          variables: [
+            { key: "baseURL", value: "https://example.com", active: true },
+          ],
+          requests: [request],
+        }),
+      ])
+    )()
+
+    expect(E.isRight(result)).toBe(true)
+
+    const { collection, environment } = (
+      result as E.Right<{
+        collection: HoppCollection
+        environment: { variables: unknown[] }
+      }>
+    ).right
+
+    expect(environment.variables).toEqual([
+      { key: "baseURL", value: "https://example.com", secret: false },
+    ])
+
+    expect(collection.requests[0]).toMatchObject({
+      name: request.name,
+      method: request.method,
+      endpoint: request.endpoint,
+      params: request.params,
+      headers: request.headers,
+      auth: request.auth,
+      body: request.body,
+    })
+  })
+})
@@ -0,0 +1,308 @@
+import { describe, expect, test } from "vitest"
+import { HoppCollection } from "@hoppscotch/data"
+import SwaggerParser from "@apidevtools/swagger-parser"
+import { openAPIExporter } from "../openapi"
+import { makeRequest, makeTestCollection } from "./fixtures"
+
+const exportCollections = (collections: HoppCollection[]) =>
+  JSON.parse(openAPIExporter(collections))
+
+describe("openAPIExporter", () => {
+  test("generates a valid OpenAPI 3.1 specification", async () => {
+    const spec = exportCollections([
+      makeTestCollection({
+        auth: { authType: "bearer", authActive: true, token: "<<token>>" },
+        requests: [
+          makeRequest({
+            name: "Get user",
+            endpoint: "<<baseURL>>/users/<<userID>>",
+          }),
+        ],
+        folders: [
+          makeTestCollection({
+            name: "Posts",
+            auth: { authType: "inherit", authActive: true },
+            requests: [
+              makeRequest({
+                name: "Create post",
+                method: "POST",
+                endpoint: "<<baseURL>>/posts",
+                body: {
+                  contentType: "application/json",
+                  body: '{ "title": "Hello", "tags": ["intro"] }',
+                },
+              }),
+            ],
+          }),
+        ],
+      }),
+    ])
+
+    await expect(SwaggerParser.validate(spec)).resolves.toBeDefined()
+  })
+
+  test("infers the paths, path parameters and servers from the endpoints", () => {
+    const spec = exportCollections([
+      makeTestCollection({
+        requests: [
+          makeRequest({
+            name: "Get comment",
+            endpoint: "https://api.example.com/posts/:postID/comments/<<id>>",
+          }),
+          makeRequest({
+            name: "Get status",
+            endpoint: "https://status.example.com/",
+          }),
+        ],
+      }),
+    ])
+
+    expect(spec.servers).toEqual([
+      { url: "https://api.example.com" },
+      { url: "https://status.example.com" },
+    ])
+
+    const getComment = spec.paths["/posts/{postID}/comments/{id}"].get
+
+    expect(getComment).toMatchObject({
+      operationId: "getComment",
+      summary: "Get comment",
+      tags: ["Test Collection"],
+      parameters: [
+        { name: "postID", in: "path", required: true },
+        { name: "id", in: "path", required: true },
+      ],
+    })
+    expect(getComment.servers).toBeUndefined()
+
+    expect(spec.paths["/"].get.servers).toEqual([
+      { url: "https://status.example.com" },
+    ])
+  })
+
+  test("templates the servers with variables", () => {
+    const spec = exportCollections([
+      makeTestCollection({
+        requests: [makeRequest({ endpoint: "<<baseURL>>/users" })],
+      }),
+    ])
+
+    expect(spec.servers).toEqual([
+      { url: "{baseURL}", variables: { baseURL: { default: "" } } },
+    ])
+    expect(spec.paths["/users"]).toBeDefined()
+  })
+
+  test("maps the params and headers to parameters, including the inherited headers", () => {
+    const spec = exportCollections([
+      makeTestCollection({
+        headers: [
+          { key: "X-Tenant", value: "acme", active: true },
+          { key: "X-Version", value: "1", active: true },
+        ],
+        requests: [
+          makeRequest({
+            endpoint: "https://api.example.com/users?sort=name",
+            params: [
+              { key: "page", value: "1", active: true },
+              { key: "debug", value: "true", active: false },
+            ],
+            headers: [
+              { key: "x-version", value: "2", active: true },
+              { key: "Content-Type", value: "text/plain", active: true },
+            ],
+          }),
+        ],
+      }),
+    ])
+
+    expect(spec.paths["/users"].get.parameters).toEqual([
+      {
+        name: "sort",
+        in: "query",
+        schema: { type: "string" },
+        example: "name",
+      },
+      { name: "page", in: "query", schema: { type: "string" }, example: "1" },
+      {
+        name: "X-Tenant",
+        in: "header",
+        schema: { type: "string" },
+        example: "acme",
+      },
+      {
+        name: "x-version",
+        in: "header",
+        schema: { type: "string" },
+        example: "2",
+      },
+    ])
+  })
+
+  test("maps the request bodies", () => {
+    const spec = exportCollections([
+      makeTestCollection({
+        requests: [
+          makeRequest({
+            method: "POST",
+            endpoint: "https://api.example.com/json",
+            body: {
+              contentType: "application/json",
+              body: '{ "id": 1, "price": 9.5, "tags": ["a"] }',
+            },
+          }),
+          makeRequest({
+            method: "POST",
+            endpoint: "https://api.example.com/form",
+            body: {
+              contentType: "application/x-www-form-urlencoded",
+              body: "name: Alice\n#age: 30",
+            },
+          }),
+          makeRequest({
+            method: "POST",
+            endpoint: "https://api.example.com/upload",
+            body: {
+              contentType: "multipart/form-data",
+              body: [
+                { key: "file", value: [], isFile: true, active: true },
+                { key: "caption", value: "Hi", isFile: false, active: true },
+              ],
+            },
+          }),
+        ],
+      }),
+    ])
+
+    expect(spec.paths["/json"].post.requestBody).toEqual({
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              id: { type: "integer" },
+              price: { type: "number" },
+              tags: { type: "array", items: { type: "string" } },
+            },
+          },
+          example: { id: 1, price: 9.5, tags: ["a"] },
+        },
+      },
+    })
+
+    expect(spec.paths["/form"].post.requestBody).toEqual({
+      content: {
+        "application/x-www-form-urlencoded": {
+          schema: {
+            type: "object",
+            properties: { name: { type: "string", examples: ["Alice"] } },
+          },
+        },
+      },
+    })
+
+    expect(spec.paths["/upload"].post.requestBody).toEqual({
+      content: {
+        "multipart/form-data": {
+          schema: {
+            type: "object",
+            properties: {
+              file: { type: "string", format: "binary" },
+              caption: { type: "string", examples: ["Hi"] },
+            },
+          },
+        },
+      },
+    })
+  })
+
+  test("maps the collection and request auth to security schemes", () => {
+    const spec = exportCollections([
+      makeTestCollection({
+        auth: {
+          authType: "basic",
+          authActive: true,
+          username: "",
+          password: "",
+        },
+        requests: [
+          makeRequest({ name: "Inherited", endpoint: "/inherited" }),
+          makeRequest({
+            name: "API key",
+            endpoint: "/api-key",
+            auth: {
+              authType: "api-key",
+              authActive: true,
+              key: "X-API-Key",
+              value: "",
+              addTo: "Headers",
+            },
+          }),
+          makeRequest({
+            name: "No auth",
+            endpoint: "/no-auth",
+            auth: { authType: "none", authActive: true },
+          }),
+        ],
+      }),
+    ])
+
+    expect(spec.components.securitySchemes).toEqual({
+      basicAuth: { type: "http", scheme: "basic" },
+      apiKeyAuth: { type: "apiKey", name: "X-API-Key", in: "header" },
+    })
+
+    expect(spec.paths["/inherited"].get.security).toEqual([{ basicAuth: [] }])
+    expect(spec.paths["/api-key"].get.security).toEqual([{ apiKeyAuth: [] }])
+    expect(spec.paths["/no-auth"].get.security).toBeUndefined()
+  })
+
+  test("maps the folders to tags", () => {
+    const spec = exportCollections([
+      makeTestCollection({
+        name: "API",
+        folders: [
+          makeTestCollection({
+            name: "Users",
+            requests: [makeRequest({ endpoint: "/users" })],
+          }),
+        ],
+      }),
+    ])
+
+    expect(spec.tags).toEqual([{ name: "API / Users" }])
+    expect(spec.paths["/users"].get.tags).toEqual(["API / Users"])
+  })
+
+  test("maps the saved examples to responses", () => {
+    const spec = exportCollections([
+      makeTestCollection({
+        requests: [
+          makeRequest({
+            endpoint: "/users",
+            responses: {
+              Found: {
+                code: 200,
+                status: "OK",
+                headers: [{ key: "Content-Type", value: "application/json" }],
+                body: '{ "id": 1 }',
+              },
+            },
+          }),
+        ],
+      }),
+    ])
+
+    expect(spec.paths["/users"].get.responses).toEqual({
+      "200": {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: { type: "object", properties: { id: { type: "integer" } } },
+            examples: { Found: { value: { id: 1 } } },
+          },
+        },
+      },
+    })
+  })
+})
@@ -0,0 +1,353 @@
+import { describe, expect, test } from "vitest"
+import * as E from "fp-ts/Either"
+import { HoppCollection } from "@hoppscotch/data"
+import { hoppPostmanImporter } from "../../import/postman"
+import { postmanExporter } from "../postman"
+import { makeRequest, makeTestCollection } from "./fixtures"
+
+const exportCollections = (collections: HoppCollection[]) =>
+  JSON.parse(postmanExporter(collections).collection)
+
+describe("postmanExporter", () => {
+  test("exports a collection with its folders as a Postman Collection v2.1", () => {
+    const collection = exportCollections([
+      makeTestCollection({
+        name: "API",
+        variables: [{ key: "baseURL", value: "https://api.com", active: true }],
+        folders: [
+          makeTestCollection({
+            name: "Users",
+            auth: { authType: "inherit", authActive: true },
+            requests: [makeRequest({ name: "List users" })],
+          }),
+        ],
+      }),
+    ])
+
+    expect(collection).toMatchObject({
+      info: {
+        name: "API",
+        schema:
+          "https://schema.getpostman.com/json/collection/v2.1.0/collection.json",
+      },
+      auth: { type: "noauth" },
+      variable: [{ key: "baseURL", value: "https://api.com", type: "string" }],
+      item: [{ name: "Users", item: [{ name: "List users" }] }],
+    })
+    expect(collection.item[0].auth).toBeUndefined()
+  })
+
+  test("groups multiple collections under a collection", () => {
+    const collection = exportCollections([
+      makeTestCollection({ name: "First" }),
+      makeTestCollection({ name: "Second" }),
+    ])
+
+    expect(collection.info.name).toBe("Hoppscotch Collections")
+    expect(collection.item.map(({ name }: { name: string }) => name)).toEqual([
+      "First",
+      "Second",
+    ])
+  })
+
+  test("templates the variables and maps the URL, params and headers", () => {
+    const collection = exportCollections([
+      makeTestCollection({
+        headers: [
+          { key: "X-Tenant", value: "<<tenant>>", active: true },
+          { key: "X-Version", value: "1", active: true },
+        ],
+        requests: [
+          makeRequest({
+            endpoint: "<<baseURL>>/users/:id?sort=name",
+            params: [
+              { key: "page", value: "<<page>>", active: true },
+              { key: "debug", value: "true", active: false },
+            ],
+            headers: [{ key: "x-version", value: "2", active: true }],
+            requestVariables: [{ key: "id", value: "1", active: true }],
+          }),
+        ],
+      }),
+    ])
+
+    const [item] = collection.item
+
+    expect(item.request.url).toMatchObject({
+      raw: "{{baseURL}}/users/:id?sort=name&page={{page}}",
+      host: ["{{baseURL}}"],
+      path: ["users", ":id"],
+      query: [
+        { key: "sort", value: "name" },
+        { key: "page", value: "{{page}}" },
+        { key: "debug", value: "true", disabled: true },
+      ],
+    })
+    expect(item.request.header).toEqual([
+      { key: "X-Tenant", value: "{{tenant}}" },
+      { key: "x-version", value: "2" },
+    ])
+    expect(item.variable).toEqual([{ key: "id", value: "1", type: "string" }])
+  })
+
+  test("maps the request bodies", () => {
+    const collection = exportCollections([
+      makeTestCollection({
+        requests: [
+          makeRequest({
+            method: "POST",
+            body: {
+              contentType: "application/ld+json",
+              body: '{ "id": "<<id>>" }',
+            },
+          }),
+          makeRequest({
+            method: "POST",
+            body: {
+              contentType: "application/x-www-form-urlencoded",
+              body: "name: Alice\n#age: 30",
+            },
+          }),
+          makeRequest({
+            method: "POST",
+            body: {
+              contentType: "multipart/form-data",
+              body: [
+                {
+                  key: "avatar",
+                  value: [new File([""], "avatar.png")],
+                  isFile: true,
+                  active: true,
+                },
+                { key: "caption", value: "Hi", isFile: false, active: false },
+              ],
+            },
+          }),
+          makeRequest({
+            method: "POST",
+            body: {
+              contentType: "application/octet-stream",
+              body: new File([""], "data.bin"),
+              fileContentType: "image/png",
+            },
+          }),
+        ],
+      }),
+    ])
+
+    const [raw, urlencoded, formdata, file] = collection.item
+
+    expect(raw.request.body).toEqual({
+      mode: "raw",
+      raw: '{ "id": "{{id}}" }',
+      options: { raw: { language: "json" } },
+    })
+    expect(raw.request.header).toEqual([
+      { key: "Content-Type", value: "application/ld+json" },
+    ])
+
+    expect(urlencoded.request.body).toEqual({
+      mode: "urlencoded",
+      urlencoded: [
+        { key: "name", value: "Alice" },
+        { key: "age", value: "30", disabled: true },
+      ],
+    })
+
+    expect(formdata.request.body).toEqual({
+      mode: "formdata",
+      formdata: [
+        { key: "avatar", src: ["avatar.png"], type: "file" },
+        { key: "caption", value: "Hi", type: "text", disabled: true },
+      ],
+    })
+
+    expect(file.request.body).toEqual({
+      mode: "file",
+      file: { src: "data.bin" },
+    })
+    expect(file.request.header).toEqual([
+      { key: "Content-Type", value: "image/png" },
+    ])
+  })
+
+  test("maps the auth", () => {
+    const collection = exportCollections([
+      makeTestCollection({
+        auth: {
+          authType: "api-key",
+          authActive: true,
+          key: "X-API-Key",
+          value: "<<apiKey>>",
+          addTo: "Headers",
+        },
+        requests: [
+          makeRequest({
+            auth: { authType: "inherit", authActive: true },
+          }),
+          makeRequest({
+            auth: { authType: "bearer", authActive: false, token: "token" },
+          }),
+          makeRequest({
+            auth: {
+              authType: "aws-signature",
+              authActive: true,
+              accessKey: "<<accessKey>>",
+              secretKey: "secret",
+              sessionToken: "",
+              region: "us-east-1",
+              serviceName: "s3",
+              addTo: "Query params",
+            },
+          }),
+        ],
+      }),
+    ])
+
+    expect(collection.auth).toEqual({
+      type: "apikey",
+      apikey: [
+        { key: "key", value: "X-API-Key", type: "string" },
+        { key: "value", value: "{{apiKey}}", type: "string" },
+        { key: "in", value: "header", type: "string" },
+      ],
+    })
+
+    const [inherited, inactive, aws] = collection.item
+
+    expect(inherited.request.auth).toBeUndefined()
+    expect(inactive.request.auth).toEqual({ type: "noauth" })
+    expect(aws.request.auth).toEqual({
+      type: "awsv4",
+      awsv4: [
+        { key: "accessKey", value: "{{accessKey}}", type: "string" },
+        { key: "secretKey", value: "secret", type: "string" },
+        { key: "sessionToken", value: "", type: "string" },
+        { key: "region", value: "us-east-1", type: "string" },
+        { key: "service", value: "s3", type: "string" },
+        { key: "addAuthDataToQuery", value: true, type: "boolean" },
+      ],
+    })
+  })
+
+  test("exports the scripts as events, translating the Hoppscotch APIs", () => {
+    const { collection, warnings } = postmanExporter([
+      makeTestCollection({
+        preRequestScript: 'pw.env.set("nonce", Date.now().toString())',
+        requests: [
+          makeRequest({
+            name: "Get user",
+            testScript: [
+              'pw.test("Status is 200", () => {',
+              "  pw.expect(pw.response.status).toBe(200)",
+              "})",
+            ].join("\n"),
+          }),
+        ],
+      }),
+    ])
+
+    const { event, item } = JSON.parse(collection)
+
+    expect(event).toEqual([
+      {
+        listen: "prerequest",
+        script: {
+          type: "text/javascript",
+          exec: ['pm.environment.set("nonce", Date.now().toString())'],
+        },
+      },
+    ])
+
+    expect(item[0].event).toEqual([
+      {
+        listen: "test",
+        script: {
+          type: "text/javascript",
+          exec: [
+            "// The following Hoppscotch APIs don't have a Postman equivalent and need to be migrated manually:",
+            "// pw.expect",
+            'pm.test("Status is 200", () => {',
+            "  pw.expect(pm.response.code).toBe(200)",
+            "})",
+          ],
+        },
+      },
+    ])
+
+    expect(warnings).toEqual([
+      {
+        location: "Test Collection / Get user",
+        script: "test",
+        apis: ["pw.expect"],
+      },
+    ])
+  })
+
+  test("exports the saved examples as responses", () => {
+    const collection = exportCollections([
+      makeTestCollection({
+        requests: [
+          makeRequest({
+            responses: {
+              Found: {
+                code: 200,
+                status: "OK",
+                headers: [{ key: "Content-Type", value: "application/json" }],
+                body: '{ "id": 1 }',
+              },
+            },
+          }),
+        ],
+      }),
+    ])
+
+    expect(collection.item[0].response).toEqual([
+      {
+        name: "Found",
+        code: 200,
+        status: "OK",
+        header: [{ key: "Content-Type", value: "application/json" }],
+        body: '{ "id": 1 }',
+      },
+    ])
+  })
+
+  test("can be imported back by the Postman importer", async () => {
+    const request = makeRequest({
+      name: "Create user",
+      method: "POST",
+      endpoint: "<<baseURL>>/users",
+      params: [{ key: "notify", value: "true", active: true }],
+      headers: [{ key: "X-Tenant", value: "<<tenant>>", active: true }],
+      auth: {
+        authType: "basic",
+        authActive: true,
+        username: "<<username>>",
+        password: "secret",
+      },
+      body: { contentType: "application/json", body: '{ "name": "Alice" }' },
+    })
+
+    const result = await hoppPostmanImporter(
+      postmanExporter([makeTestCollection({ requests: [request] })]).collection
+    )()
+
+    expect(E.isRight(result)).toBe(true)
+
+    const [collection] = (result as E.Right<HoppCollection[]>).right
+
+    expect(collection.requests[0]).toMatchObject({
+      name: "Create user",
+      method: "POST",
+      endpoint: "<<baseURL>>/users",
+      params: [{ key: "notify", value: "true", active: true }],
+      headers: [
+        { key: "X-Tenant", value: "<<tenant>>", active: true },
+        { key: "Content-Type", value: "application/json", active: true },
+      ],
+      auth: request.auth,
+      body: request.body,
+    })
+  })
+})
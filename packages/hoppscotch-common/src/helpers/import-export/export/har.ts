@@ -0,0 +1,66 @@
+import * as Har from "har-format"
+import { buildHarRequest } from "~/helpers/new-codegen/har"
+import { RESTHistoryEntry } from "~/newstore/history"
+import { version } from "~/../package.json"
+
+const getHarEntry = (entry: RESTHistoryEntry): Har.Entry => {
+  const { request, responseMeta, updatedOn } = entry
+
+  const harRequest: Har.Request = buildHarRequest(request)
+
+  // The params are a part of the URL sent, which HAR expects in full
+  const queryString = new URLSearchParams(
+    harRequest.queryString.map(({ name, value }) => [name, value])
+  ).toString()
+
+  if (queryString) {
+    harRequest.url = `${request.endpoint}${
+      request.endpoint.includes("?") ? "&" : "?"
+    }${queryString}`
+  }
+
+  if (request.body.contentType === null) delete harRequest.postData
+
+  // Only the status code and the duration of the responses are kept in the
+  // history, the rest of the response is left empty
+  const duration = responseMeta.duration ?? 0
+
+  return {
+    startedDateTime: new Date(updatedOn ?? Date.now()).toISOString(),
+    time: duration,
+    request: harRequest,
+    response: {
+      status: responseMeta.statusCode ?? 0,
+      statusText: "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: [],
+      content: { size: -1, mimeType: "" },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: duration, receive: 0 },
+    comment: request.name,
+  }
+}
+
+/**
+ * Generates a HAR file from REST history entries
+ * @param entries The history entries to export
+ * @returns The HAR file, as a JSON string
+ */
+export const harExporter = (entries: RESTHistoryEntry[]) => {
+  const har: Har.Har = {
+    log: {
+      version: "1.2",
+      creator: { name: "Hoppscotch", version },
+      entries: entries
+        .map(getHarEntry)
+        .sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime)),
+    },
+  }
+
+  return JSON.stringify(har, null, 2)
+}
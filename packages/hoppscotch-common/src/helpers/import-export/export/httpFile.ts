@@ -0,0 +1,244 @@
+import {
+  FormDataKeyValue,
+  HoppCollection,
+  HoppRESTAuth,
+  HoppRESTHeader,
+  HoppRESTReqBody,
+  HoppRESTRequest,
+  parseRawKeyValueEntries,
+} from "@hoppscotch/data"
+
+const MULTIPART_BOUNDARY = "HoppscotchFormBoundary"
+
+// Replaces the Hoppscotch Templating (<< ? >>) to the client one ({{ ? }})
+const replaceHoppTemplating = (str: string) =>
+  str.replace(/<<([^>]+)>>/g, "{{$1}}")
+
+/**
+ * @param auths The auth of the request, followed by the ones of its parents
+ * from the innermost one outwards
+ */
+const resolveAuth = (auths: HoppRESTAuth[]): HoppRESTAuth | null => {
+  const auth = auths.find((auth) => auth.authType !== "inherit")
+
+  return auth && auth.authActive && auth.authType !== "none" ? auth : null
+}
+
+/**
+ * Maps the auth to the headers and params sent for it. The clients can't
+ * sign or fetch tokens for the requests, so only the auth sent as is
+ * (basic, bearer, API key and OAuth 2.0 with a token) is kept
+ */
+const getAuthEntries = (
+  auth: HoppRESTAuth | null
+): { headers: HoppRESTHeader[]; params: HoppRESTHeader[] } => {
+  const entries = { headers: [], params: [] }
+
+  if (!auth) return entries
+
+  switch (auth.authType) {
+    case "basic":
+      return {
+        ...entries,
+        headers: [
+          {
+            key: "Authorization",
+            value: `Basic ${auth.username} ${auth.password}`,
+            active: true,
+          },
+        ],
+      }
+    case "bearer":
+    case "oauth-2":
+      return auth.token
+        ? {
+            ...entries,
+            headers: [
+              {
+                key: "Authorization",
+                value: `Bearer ${auth.token}`,
+                active: true,
+              },
+            ],
+          }
+        : entries
+    case "api-key":
+      return auth.addTo === "Headers"
+        ? {
+            ...entries,
+            headers: [{ key: auth.key, value: auth.value, active: true }],
+          }
+        : {
+            ...entries,
+            params: [{ key: auth.key, value: auth.value, active: true }],
+          }
+    default:
+      return entries
+  }
+}
+
+const getFileName = (file: Blob | null) =>
+  file instanceof File ? file.name : "file"
+
+const getBody = (body: HoppRESTReqBody): string | null => {
+  if (body.contentType === null) return null
+
+  if (body.contentType === "multipart/form-data") {
+    const parts = (body.body as FormDataKeyValue[])
+      .filter(({ key, active }) => active && key !== "")
+      .flatMap((entry) =>
+        entry.isFile
+          ? entry.value.map((file) =>
+              [
+                `--${MULTIPART_BOUNDARY}`,
+                `Content-Disposition: form-data; name="${
+                  entry.key
+                }"; filename="${getFileName(file)}"`,
+                "",
+                `< ./${getFileName(file)}`,
+              ].join("\n")
+            )
+          : [
+              [
+                `--${MULTIPART_BOUNDARY}`,
+                `Content-Disposition: form-data; name="${entry.key}"`,
+                "",
+                entry.value,
+              ].join("\n"),
+            ]
+      )
+
+    return [...parts, `--${MULTIPART_BOUNDARY}--`].join("\n")
+  }
+
+  if (body.contentType === "application/x-www-form-urlencoded") {
+    return parseRawKeyValueEntries(body.body)
+      .filter(({ key, active }) => active && key !== "")
+      .map(({ key, value }) => `${key}=${value}`)
+      .join("&")
+  }
+
+  // The files are referenced by their name, relative to the request file
+  if (body.contentType === "application/octet-stream") {
+    return `< ./${getFileName(body.body)}`
+  }
+
+  return body.body
+}
+
+const getContentType = (body: HoppRESTReqBody) => {
+  if (body.contentType === "multipart/form-data") {
+    return `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`
+  }
+
+  if (body.contentType === "application/octet-stream") {
+    return body.fileContentType || body.contentType
+  }
+
+  return body.contentType
+}
+
+const getRequestBlock = (
+  request: HoppRESTRequest,
+  parentAuths: HoppRESTAuth[],
+  inheritedHeaders: HoppRESTHeader[]
+) => {
+  const auth = getAuthEntries(resolveAuth([request.auth, ...parentAuths]))
+
+  const params = [...request.params, ...auth.params].filter(
+    ({ key, active }) => active && key !== ""
+  )
+
+  const queryString = params.map(({ key, value }) => `${key}=${value}`)
+  const url = `${request.endpoint}${
+    queryString.length > 0
+      ? `${request.endpoint.includes("?") ? "&" : "?"}${queryString.join("&")}`
+      : ""
+  }`
+
+  const requestHeaders = [...request.headers, ...auth.headers].filter(
+    ({ key, active }) => active && key !== ""
+  )
+
+  // The inherited headers are sent unless the request overrides them
+  const headers = [
+    ...inheritedHeaders.filter(
+      ({ key, active }) =>
+        active &&
+        key !== "" &&
+        !requestHeaders.some(
+          (header) => header.key.toLowerCase() === key.toLowerCase()
+        )
+    ),
+    ...requestHeaders,
+  ]
+
+  const contentType = getContentType(request.body)
+
+  if (
+    contentType &&
+    !headers.some(({ key }) => key.toLowerCase() === "content-type")
+  ) {
+    headers.push({ key: "Content-Type", value: contentType, active: true })
+  }
+
+  const body = getBody(request.body)
+
+  return replaceHoppTemplating(
+    [
+      `### ${request.name}`,
+      `${request.method} ${url}`,
+      ...headers.map(({ key, value }) => `${key}: ${value}`),
+      ...(body !== null ? ["", body] : []),
+    ].join("\n")
+  )
+}
+
+const getRequestBlocks = (
+  collection: HoppCollection,
+  parentAuths: HoppRESTAuth[],
+  inheritedHeaders: HoppRESTHeader[]
+): string[] => {
+  const auths = [collection.auth as HoppRESTAuth, ...parentAuths]
+  const headers = [
+    ...inheritedHeaders,
+    ...(collection.headers as HoppRESTHeader[]),
+  ]
+
+  return [
+    ...(collection.requests as HoppRESTRequest[]).map((request) =>
+      getRequestBlock(request, auths, headers)
+    ),
+    ...collection.folders.flatMap((folder) =>
+      getRequestBlocks(folder, auths, headers)
+    ),
+  ]
+}
+
+const getVariableDeclarations = (collection: HoppCollection): string[] => [
+  ...collection.variables
+    .filter(({ key, active }) => active && key !== "")
+    .map(({ key, value }) => `@${key} = ${replaceHoppTemplating(value)}`),
+  ...collection.folders.flatMap(getVariableDeclarations),
+]
+
+/**
+ * Generates a `.http` file, runnable by the JetBrains HTTP Client and the VS
+ * Code REST Client, from REST collections.
+ * The folders are flattened, the variables of the collections are declared on
+ * top of the file and the inherited headers and auth are added to the
+ * requests. Scripts aren't exported, as the clients don't run them
+ * @param collections The collections to export
+ * @returns The contents of the file
+ */
+export const httpFileExporter = (collections: HoppCollection[]) => {
+  const declarations = collections.flatMap(getVariableDeclarations)
+  const blocks = collections.flatMap((collection) =>
+    getRequestBlocks(collection, [], [])
+  )
+
+  return [
+    ...(declarations.length > 0 ? [declarations.join("\n")] : []),
+    ...blocks,
+  ].join("\n\n")
+}
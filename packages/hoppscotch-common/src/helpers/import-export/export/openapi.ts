@@ -0,0 +1,638 @@
+import {
+  HoppCollection,
+  HoppRESTAuth,
+  HoppRESTHeader,
+  HoppRESTReqBody,
+  HoppRESTRequest,
+  HoppRESTRequestResponses,
+  parseRawKeyValueEntries,
+} from "@hoppscotch/data"
+import { OpenAPIV3_1 as OpenAPIV31 } from "openapi-types"
+
+type OpenAPISecurity = {
+  /**
+   * Name the scheme is registered with, suffixed if it's already taken by a
+   * different scheme
+   */
+  name: string
+  scheme: OpenAPIV31.SecuritySchemeObject
+  scopes: string[]
+}
+
+/**
+ * The state accumulated while walking the collections
+ */
+type ExportContext = {
+  doc: Omit<OpenAPIV31.Document, "paths"> & {
+    paths: Record<
+      string,
+      Partial<Record<HTTPMethod, OpenAPIV31.OperationObject>>
+    >
+  }
+  servers: OpenAPIV31.ServerObject[]
+  securitySchemes: Record<string, OpenAPIV31.SecuritySchemeObject>
+  operationIDs: Set<string>
+}
+
+const HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+] as const
+
+type HTTPMethod = (typeof HTTP_METHODS)[number]
+
+// These are described by the request body and the security schemes instead,
+// OpenAPI ignores them as header parameters
+const IGNORED_HEADERS = ["accept", "content-type", "authorization"]
+
+const JSON_CONTENT_TYPES = [
+  "application/json",
+  "application/ld+json",
+  "application/hal+json",
+  "application/vnd.api+json",
+]
+
+const isHTTPMethod = (method: string): method is HTTPMethod =>
+  (HTTP_METHODS as readonly string[]).includes(method)
+
+const safeParseJSON = (str: string): { value: unknown } | null => {
+  try {
+    return { value: JSON.parse(str) }
+  } catch (_) {
+    return null
+  }
+}
+
+// Replaces the Hoppscotch Templating (<< ? >>) to the OpenAPI Path Templating
+const replaceHoppTemplating = (str: string) =>
+  str.replace(/<<([^>]+)>>/g, "{$1}")
+
+const getTemplateVariables = (str: string) =>
+  Array.from(str.matchAll(/\{([^}]+)\}/g), ([, name]) => name)
+
+/**
+ * Splits an endpoint into the server it's sent to and the templated path
+ * (path parameters declared as `<<param>>`, `{param}` or `:param` are
+ * templated as `{param}`), dropping the query string
+ */
+const parseEndpoint = (endpoint: string) => {
+  const [, server = "", path = ""] =
+    endpoint
+      .trim()
+      .match(/^([a-z][a-z0-9+.-]*:\/\/[^/?#]*|<<[^>]+>>)?([^?#]*)/i) ?? []
+
+  const templatedPath = replaceHoppTemplating(path).replace(
+    /\/:([a-zA-Z_][a-zA-Z0-9_]*)/g,
+    "/{$1}"
+  )
+
+  return {
+    server: replaceHoppTemplating(server).replace(/\/$/, ""),
+    path: templatedPath.startsWith("/") ? templatedPath : `/${templatedPath}`,
+  }
+}
+
+const getEndpointQueryParams = (endpoint: string) => {
+  const queryIndex = endpoint.indexOf("?")
+
+  if (queryIndex === -1) return []
+
+  return Array.from(
+    new URLSearchParams(endpoint.slice(queryIndex + 1).split("#")[0])
+  )
+}
+
+const toOperationID = (name: string, method: HTTPMethod) => {
+  const words = name.split(/[^a-zA-Z0-9]+/).filter((word) => word !== "")
+
+  if (words.length === 0) return `${method}Request`
+
+  return words
+    .map((word, index) =>
+      index === 0
+        ? word[0].toLowerCase() + word.slice(1)
+        : word[0].toUpperCase() + word.slice(1)
+    )
+    .join("")
+}
+
+/**
+ * Infers a JSON schema describing a value
+ */
+const inferSchema = (value: unknown): OpenAPIV31.SchemaObject => {
+  if (value === null) return { type: "null" }
+
+  if (Array.isArray(value)) {
+    return {
+      type: "array",
+      items: value.length > 0 ? inferSchema(value[0]) : {},
+    }
+  }
+
+  switch (typeof value) {
+    case "object":
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).map(
+            ([key, propertyValue]) => [key, inferSchema(propertyValue)]
+          )
+        ),
+      }
+    case "number":
+      return { type: Number.isInteger(value) ? "integer" : "number" }
+    case "boolean":
+      return { type: "boolean" }
+    default:
+      return { type: "string" }
+  }
+}
+
+/**
+ * Resolves the auth a request is sent with, following the auth inherited
+ * from its parent collections (and folders)
+ * @param auths The auth of the request, followed by the ones of its parents
+ * from the innermost one outwards
+ */
+const resolveAuth = (auths: HoppRESTAuth[]): HoppRESTAuth | null => {
+  const auth = auths.find((auth) => auth.authType !== "inherit")
+
+  return auth && auth.authActive && auth.authType !== "none" ? auth : null
+}
+
+const getOAuth2Scopes = (scope: string) =>
+  Object.fromEntries(
+    scope
+      .split(/\s+/)
+      .filter((scope) => scope !== "")
+      .map((scope) => [scope, ""])
+  )
+
+const getOAuth2Flows = (
+  auth: Extract<HoppRESTAuth, { authType: "oauth-2" }>
+): OpenAPIV31.OAuth2SecurityScheme["flows"] => {
+  const scopes = getOAuth2Scopes(auth.scope)
+
+  switch (auth.grantType) {
+    case "client_credentials":
+      return {
+        clientCredentials: { tokenUrl: auth.accessTokenURL, scopes },
+      }
+    case "password":
+      return { password: { tokenUrl: auth.accessTokenURL, scopes } }
+    case "implicit":
+      return { implicit: { authorizationUrl: auth.authURL, scopes } }
+    default:
+      return {
+        authorizationCode: {
+          authorizationUrl: auth.authURL,
+          tokenUrl: auth.accessTokenURL,
+          scopes,
+        },
+      }
+  }
+}
+
+/**
+ * Maps an auth to the security scheme describing it
+ */
+const getSecurity = (auth: HoppRESTAuth): OpenAPISecurity | null => {
+  switch (auth.authType) {
+    case "basic":
+      return {
+        name: "basicAuth",
+        scheme: { type: "http", scheme: "basic" },
+        scopes: [],
+      }
+    case "bearer":
+      return {
+        name: "bearerAuth",
+        scheme: { type: "http", scheme: "bearer" },
+        scopes: [],
+      }
+    case "digest":
+      return {
+        name: "digestAuth",
+        scheme: { type: "http", scheme: "digest" },
+        scopes: [],
+      }
+    case "api-key":
+      return {
+        name: "apiKeyAuth",
+        scheme: {
+          type: "apiKey",
+          name: auth.key,
+          in: auth.addTo === "Query params" ? "query" : "header",
+        },
+        scopes: [],
+      }
+    case "oauth-2":
+      return {
+        name: "oauth2Auth",
+        scheme: auth.oidcDiscoveryURL
+          ? { type: "openIdConnect", openIdConnectUrl: auth.oidcDiscoveryURL }
+          : { type: "oauth2", flows: getOAuth2Flows(auth) },
+        scopes: Object.keys(getOAuth2Scopes(auth.scope)),
+      }
+    case "aws-signature":
+      return {
+        name: "awsSignatureAuth",
+        scheme: {
+          type: "apiKey",
+          name:
+            auth.addTo === "Query params" ? "X-Amz-Signature" : "Authorization",
+          in: auth.addTo === "Query params" ? "query" : "header",
+          description: "AWS Signature Version 4",
+        },
+        scopes: [],
+      }
+    case "hawk":
+      return {
+        name: "hawkAuth",
+        scheme: {
+          type: "apiKey",
+          name: "Authorization",
+          in: "header",
+          description: "Hawk authentication",
+        },
+        scopes: [],
+      }
+    default:
+      return null
+  }
+}
+
+/**
+ * Registers a security scheme (reusing the one registered with the same
+ * definition) and returns the name it's registered with
+ */
+const registerSecurityScheme = (
+  ctx: ExportContext,
+  { name, scheme }: OpenAPISecurity
+) => {
+  const serializedScheme = JSON.stringify(scheme)
+
+  const existingName = Object.keys(ctx.securitySchemes).find(
+    (schemeName) =>
+      JSON.stringify(ctx.securitySchemes[schemeName]) === serializedScheme
+  )
+
+  if (existingName) return existingName
+
+  let schemeName = name
+  for (let i = 2; schemeName in ctx.securitySchemes; i++) {
+    schemeName = `${name}${i}`
+  }
+
+  ctx.securitySchemes[schemeName] = scheme
+
+  return schemeName
+}
+
+/**
+ * Registers a server (with its variables) and returns it
+ */
+const registerServer = (ctx: ExportContext, url: string) => {
+  const existingServer = ctx.servers.find((server) => server.url === url)
+
+  if (existingServer) return existingServer
+
+  const variables = getTemplateVariables(url)
+
+  const server: OpenAPIV31.ServerObject = {
+    url,
+    ...(variables.length > 0 && {
+      variables: Object.fromEntries(
+        variables.map((variable) => [variable, { default: "" }])
+      ),
+    }),
+  }
+
+  ctx.servers.push(server)
+
+  return server
+}
+
+const getParameters = (
+  request: HoppRESTRequest,
+  path: string,
+  inheritedHeaders: HoppRESTHeader[]
+): OpenAPIV31.ParameterObject[] => {
+  const pathParams: OpenAPIV31.ParameterObject[] = getTemplateVariables(
+    path
+  ).map((name) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }))
+
+  const queryParams: OpenAPIV31.ParameterObject[] = [
+    ...getEndpointQueryParams(request.endpoint),
+    ...request.params
+      .filter((param) => param.active && param.key !== "")
+      .map(({ key, value }) => [key, value] as const),
+  ].map(([name, value]) => ({
+    name,
+    in: "query",
+    schema: { type: "string" },
+    ...(value !== "" && { example: value }),
+  }))
+
+  const headerParams: OpenAPIV31.ParameterObject[] = [
+    ...inheritedHeaders,
+    ...request.headers,
+  ]
+    .filter(
+      (header) =>
+        header.active &&
+        header.key !== "" &&
+        !IGNORED_HEADERS.includes(header.key.toLowerCase())
+    )
+    .map(({ key, value }) => ({
+      name: key,
+      in: "header",
+      schema: { type: "string" },
+      ...(value !== "" && { example: value }),
+    }))
+
+  // Parameters are unique by their name and location, the ones declared
+  // later (the ones of the request over the inherited ones) take precedence
+  const parameters = new Map(
+    [...pathParams, ...queryParams, ...headerParams].map((param) => [
+      `${param.in}:${
+        param.in === "header" ? param.name.toLowerCase() : param.name
+      }`,
+      param,
+    ])
+  )
+
+  return Array.from(parameters.values())
+}
+
+const getRequestBody = (
+  body: HoppRESTReqBody
+): OpenAPIV31.RequestBodyObject | null => {
+  if (body.contentType === null) return null
+
+  if (body.contentType === "multipart/form-data") {
+    const fields = body.body.filter((field) => field.active && field.key !== "")
+
+    return {
+      content: {
+        [body.contentType]: {
+          schema: {
+            type: "object",
+            properties: Object.fromEntries(
+              fields.map((field) => [
+                field.key,
+                field.isFile
+                  ? { type: "string", format: "binary" }
+                  : { type: "string", examples: [field.value] },
+              ])
+            ),
+          },
+        },
+      },
+    }
+  }
+
+  if (body.contentType === "application/octet-stream") {
+    return {
+      content: {
+        [body.fileContentType || body.contentType]: {
+          schema: { type: "string", format: "binary" },
+        },
+      },
+    }
+  }
+
+  if (body.contentType === "application/x-www-form-urlencoded") {
+    const fields = parseRawKeyValueEntries(body.body).filter(
+      (field) => field.active && field.key !== ""
+    )
+
+    return {
+      content: {
+        [body.contentType]: {
+          schema: {
+            type: "object",
+            properties: Object.fromEntries(
+              fields.map((field) => [
+                field.key,
+                { type: "string", examples: [field.value] },
+              ])
+            ),
+          },
+        },
+      },
+    }
+  }
+
+  const parsedBody = JSON_CONTENT_TYPES.includes(body.contentType)
+    ? safeParseJSON(body.body)
+    : null
+
+  return {
+    content: {
+      [body.contentType]: parsedBody
+        ? { schema: inferSchema(parsedBody.value), example: parsedBody.value }
+        : {
+            schema: { type: "string" },
+            ...(body.body !== "" && { example: body.body }),
+          },
+    },
+  }
+}
+
+/**
+ * Maps the saved examples of a request to the responses of the operation,
+ * grouped by their status codes
+ */
+const getResponses = (
+  responses: HoppRESTRequestResponses
+): OpenAPIV31.ResponsesObject | null => {
+  const entries = Object.entries(responses)
+
+  if (entries.length === 0) return null
+
+  const operationResponses: Record<string, OpenAPIV31.ResponseObject> = {}
+
+  entries.forEach(([name, response]) => {
+    const contentType =
+      response.headers
+        .find(({ key }) => key.toLowerCase() === "content-type")
+        ?.value.split(";")[0]
+        .trim() || "text/plain"
+
+    const parsedBody = JSON_CONTENT_TYPES.includes(contentType)
+      ? safeParseJSON(response.body)
+      : null
+
+    const operationResponse = (operationResponses[response.code] ??= {
+      description: response.status || name,
+      content: {},
+    })
+
+    const mediaType = (operationResponse.content![contentType] ??= {
+      ...(parsedBody && { schema: inferSchema(parsedBody.value) }),
+      examples: {},
+    })
+
+    mediaType.examples![name] = {
+      value: parsedBody ? parsedBody.value : response.body,
+    }
+  })
+
+  return operationResponses
+}
+
+const addRequest = (
+  ctx: ExportContext,
+  request: HoppRESTRequest,
+  tag: string,
+  parentAuths: HoppRESTAuth[],
+  inheritedHeaders: HoppRESTHeader[]
+) => {
+  const method = request.method.toLowerCase()
+
+  // OpenAPI can't describe the custom methods
+  if (!isHTTPMethod(method)) return
+
+  const { server, path } = parseEndpoint(request.endpoint)
+
+  const pathItem = (ctx.doc.paths[path] ??= {})
+
+  // An operation is described once for a path and a method, so the requests
+  // duplicating one are left out
+  if (pathItem[method]) return
+
+  let operationID = toOperationID(request.name, method)
+  for (let i = 2; ctx.operationIDs.has(operationID); i++) {
+    operationID = `${toOperationID(request.name, method)}${i}`
+  }
+  ctx.operationIDs.add(operationID)
+
+  const operation: OpenAPIV31.OperationObject = {
+    operationId: operationID,
+    summary: request.name,
+    tags: [tag],
+  }
+
+  if (server !== "") {
+    const registeredServer = registerServer(ctx, server)
+
+    // Operations are sent to the first server unless specified otherwise
+    if (registeredServer !== ctx.servers[0]) {
+      operation.servers = [registeredServer]
+    }
+  }
+
+  const parameters = getParameters(request, path, inheritedHeaders)
+  if (parameters.length > 0) operation.parameters = parameters
+
+  const requestBody = getRequestBody(request.body)
+  if (requestBody) operation.requestBody = requestBody
+
+  const auth = resolveAuth([request.auth, ...parentAuths])
+  const security = auth ? getSecurity(auth) : null
+
+  if (security) {
+    operation.security = [
+      { [registerSecurityScheme(ctx, security)]: security.scopes },
+    ]
+  }
+
+  const responses = getResponses(request.responses ?? {})
+  if (responses) operation.responses = responses
+
+  pathItem[method] = operation
+}
+
+const addCollection = (
+  ctx: ExportContext,
+  collection: HoppCollection,
+  parentNames: string[],
+  parentAuths: HoppRESTAuth[],
+  inheritedHeaders: HoppRESTHeader[]
+) => {
+  // Folders are tagged with their full path, so the ones sharing a name
+  // under different parents are told apart
+  const names = [...parentNames, collection.name]
+  const tag = names.join(" / ")
+
+  const auths = [collection.auth as HoppRESTAuth, ...parentAuths]
+  const headers = [
+    ...inheritedHeaders,
+    ...(collection.headers as HoppRESTHeader[]),
+  ]
+
+  if (collection.requests.length > 0) {
+    ctx.doc.tags!.push({ name: tag })
+  }
+
+  ;(collection.requests as HoppRESTRequest[]).forEach((request) =>
+    addRequest(ctx, request, tag, auths, headers)
+  )
+
+  collection.folders.forEach((folder) =>
+    addCollection(ctx, folder, names, auths, headers)
+  )
+}
+
+/**
+ * Generates an OpenAPI 3.1 specification from REST collections.
+ * Folders are mapped to tags, requests to operations (the ones with custom
+ * methods or duplicating the path and method of another request are left out)
+ * and the auth of the requests and collections to security schemes
+ * @param collections The collections to export
+ * @returns The specification, as a JSON string
+ */
+export const openAPIExporter = (collections: HoppCollection[]) => {
+  const ctx: ExportContext = {
+    doc: {
+      openapi: "3.1.0",
+      info: {
+        title:
+          collections.length === 1
+            ? collections[0].name
+            : "Hoppscotch Collections",
+        version: "1.0.0",
+      },
+      tags: [],
+      paths: {},
+    },
+    servers: [],
+    securitySchemes: {},
+    operationIDs: new Set(),
+  }
+
+  collections.forEach((collection) =>
+    addCollection(ctx, collection, [], [], [])
+  )
+
+  const {
+    doc: { openapi, info, tags, paths },
+    servers,
+    securitySchemes,
+  } = ctx
+
+  const doc: OpenAPIV31.Document = {
+    openapi,
+    info,
+    ...(servers.length > 0 && { servers }),
+    tags,
+    paths: paths as OpenAPIV31.PathsObject,
+    ...(Object.keys(securitySchemes).length > 0 && {
+      components: { securitySchemes },
+    }),
+  }
+
+  return JSON.stringify(doc, null, 2)
+}
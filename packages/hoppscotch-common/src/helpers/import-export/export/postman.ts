@@ -0,0 +1,594 @@
+import {
+  FormDataKeyValue,
+  HoppCollection,
+  HoppRESTAuth,
+  HoppRESTHeader,
+  HoppRESTReqBody,
+  HoppRESTRequest,
+  HoppRESTRequestResponses,
+  HoppRESTRequestVariables,
+  parseRawKeyValueEntries,
+} from "@hoppscotch/data"
+import { Url } from "postman-collection"
+import { PMRawLanguage } from "~/types/pm-coll-exts"
+
+/*
+  The definitions the 'postman-collection' package provides describe its SDK
+  rather than the v2.1 file format (`events` instead of `event`, no `raw` in
+  the URLs and so on), so the parts of the format written here are typed below
+*/
+
+type PMVariable = {
+  key: string
+  value: string | boolean
+  type: "string" | "boolean"
+  disabled?: boolean
+}
+
+type PMKeyValue = {
+  key: string
+  value: string
+  disabled?: boolean
+}
+
+type PMURL = Omit<ReturnType<typeof Url.parse>, "query"> & {
+  raw: string
+  query: PMKeyValue[]
+}
+
+type PMAuth = {
+  type: string
+  [params: string]: string | PMVariable[]
+}
+
+type PMBody =
+  | {
+      mode: "raw"
+      raw: string
+      options: { raw: { language: PMRawLanguage } }
+    }
+  | { mode: "urlencoded"; urlencoded: PMKeyValue[] }
+  | {
+      mode: "formdata"
+      formdata: Array<
+        | (PMKeyValue & { type: "text" })
+        | { key: string; src: string[]; type: "file"; disabled?: boolean }
+      >
+    }
+  | { mode: "file"; file: { src: string } }
+
+type PMEvent = {
+  listen: "prerequest" | "test"
+  script: { type: "text/javascript"; exec: string[] }
+}
+
+type PMResponse = {
+  name: string
+  code: number
+  status: string
+  header: PMKeyValue[]
+  body: string
+}
+
+type PMItem = {
+  name: string
+  request: {
+    method: string
+    url: PMURL
+    header: PMKeyValue[]
+    auth?: PMAuth
+    body?: PMBody
+  }
+  response: PMResponse[]
+  event?: PMEvent[]
+  variable?: PMVariable[]
+}
+
+type PMItemGroup = {
+  name: string
+  item: Array<PMItem | PMItemGroup>
+  auth?: PMAuth
+  event?: PMEvent[]
+  variable?: PMVariable[]
+}
+
+type PMCollection = Omit<PMItemGroup, "name"> & {
+  info: { name: string; schema: string }
+}
+
+/**
+ * A script using Hoppscotch APIs which don't map to the Postman ones
+ */
+export type PostmanExportWarning = {
+  /**
+   * The names of the collection, folders and request the script belongs to,
+   * joined with " / "
+   */
+  location: string
+  script: "pre-request" | "test"
+  apis: string[]
+}
+
+type ExportContext = {
+  warnings: PostmanExportWarning[]
+}
+
+const POSTMAN_SCHEMA =
+  "https://schema.getpostman.com/json/collection/v2.1.0/collection.json"
+
+// Hoppscotch APIs with a Postman counterpart working the same way
+const PW_TO_PM_APIS: Record<string, string> = {
+  "pw.env.get": "pm.environment.get",
+  "pw.env.set": "pm.environment.set",
+  "pw.env.unset": "pm.environment.unset",
+  "pw.test": "pm.test",
+  "pw.response.status": "pm.response.code",
+}
+
+const JSON_CONTENT_TYPES = [
+  "application/json",
+  "application/ld+json",
+  "application/hal+json",
+  "application/vnd.api+json",
+]
+
+// Replaces the Hoppscotch Templating (<< ? >>) to the Postman one ({{ ? }})
+const replaceHoppTemplating = (str: string) =>
+  str.replace(/<<([^>]+)>>/g, "{{$1}}")
+
+const getRawLanguage = (contentType: string): PMRawLanguage => {
+  if (JSON_CONTENT_TYPES.includes(contentType)) return "json"
+  if (contentType === "application/xml") return "xml"
+  if (contentType === "text/html") return "html"
+  return "text"
+}
+
+const getFileNames = (files: Array<Blob | null>) =>
+  files.flatMap((file) => (file instanceof File ? [file.name] : []))
+
+const toPMVariable = (key: string, value: string | boolean): PMVariable => ({
+  key,
+  value: typeof value === "string" ? replaceHoppTemplating(value) : value,
+  type: typeof value === "string" ? "string" : "boolean",
+})
+
+const toPMVariables = (
+  variables: HoppRESTRequestVariables
+): PMVariable[] | undefined =>
+  variables.length > 0
+    ? variables.map(({ key, value, active }) => ({
+        ...toPMVariable(key, value),
+        ...(!active && { disabled: true }),
+      }))
+    : undefined
+
+/**
+ * Translates the Hoppscotch APIs of a script to the Postman ones, prefixing
+ * it with a comment listing the APIs which couldn't be translated
+ */
+const translateScript = (
+  ctx: ExportContext,
+  script: string,
+  location: string,
+  type: PostmanExportWarning["script"]
+) => {
+  const translated = script.replace(/\bpw(?:\.\w+)+/g, (api) =>
+    Object.entries(PW_TO_PM_APIS).reduce(
+      (acc, [pwAPI, pmAPI]) =>
+        acc === pwAPI || acc.startsWith(`${pwAPI}.`)
+          ? `${pmAPI}${acc.slice(pwAPI.length)}`
+          : acc,
+      api
+    )
+  )
+
+  const unsupportedAPIs = Array.from(
+    new Set(Array.from(translated.matchAll(/\bpw(?:\.\w+)+/g), ([api]) => api))
+  )
+
+  if (unsupportedAPIs.length === 0) return translated
+
+  ctx.warnings.push({ location, script: type, apis: unsupportedAPIs })
+
+  return [
+    "// The following Hoppscotch APIs don't have a Postman equivalent and need to be migrated manually:",
+    `// ${unsupportedAPIs.join(", ")}`,
+    translated,
+  ].join("\n")
+}
+
+const getEvents = (
+  ctx: ExportContext,
+  preRequestScript: string,
+  testScript: string,
+  location: string
+): PMEvent[] | undefined => {
+  const events: PMEvent[] = []
+
+  if (preRequestScript.trim() !== "") {
+    events.push({
+      listen: "prerequest",
+      script: {
+        type: "text/javascript",
+        exec: translateScript(
+          ctx,
+          preRequestScript,
+          location,
+          "pre-request"
+        ).split("\n"),
+      },
+    })
+  }
+
+  if (testScript.trim() !== "") {
+    events.push({
+      listen: "test",
+      script: {
+        type: "text/javascript",
+        exec: translateScript(ctx, testScript, location, "test").split("\n"),
+      },
+    })
+  }
+
+  return events.length > 0 ? events : undefined
+}
+
+/**
+ * Maps the auth of a request or a collection.
+ * Inherited auth is left out, as Postman inherits it from the parents as well
+ */
+const getAuth = (auth: HoppRESTAuth): PMAuth | undefined => {
+  if (auth.authType === "inherit") return undefined
+
+  if (!auth.authActive || auth.authType === "none") return { type: "noauth" }
+
+  switch (auth.authType) {
+    case "basic":
+      return {
+        type: "basic",
+        basic: [
+          toPMVariable("username", auth.username),
+          toPMVariable("password", auth.password),
+        ],
+      }
+    case "bearer":
+      return {
+        type: "bearer",
+        bearer: [toPMVariable("token", auth.token)],
+      }
+    case "api-key":
+      return {
+        type: "apikey",
+        apikey: [
+          toPMVariable("key", auth.key),
+          toPMVariable("value", auth.value),
+          toPMVariable("in", auth.addTo === "Headers" ? "header" : "query"),
+        ],
+      }
+    case "oauth-2":
+      return {
+        type: "oauth2",
+        oauth2: [
+          toPMVariable(
+            "grant_type",
+            auth.grantType === "password"
+              ? "password_credentials"
+              : auth.grantType
+          ),
+          toPMVariable("accessToken", auth.token),
+          toPMVariable("addTokenTo", "header"),
+          toPMVariable("authUrl", auth.authURL),
+          toPMVariable("accessTokenUrl", auth.accessTokenURL),
+          toPMVariable("clientId", auth.clientID),
+          toPMVariable("clientSecret", auth.clientSecret),
+          toPMVariable("scope", auth.scope),
+          toPMVariable("username", auth.username),
+          toPMVariable("password", auth.password),
+          toPMVariable("client_authentication", auth.clientAuthentication),
+          ...(auth.refreshToken
+            ? [toPMVariable("refreshToken", auth.refreshToken)]
+            : []),
+        ],
+      }
+    case "aws-signature":
+      return {
+        type: "awsv4",
+        awsv4: [
+          toPMVariable("accessKey", auth.accessKey),
+          toPMVariable("secretKey", auth.secretKey),
+          toPMVariable("sessionToken", auth.sessionToken),
+          toPMVariable("region", auth.region),
+          toPMVariable("service", auth.serviceName),
+          toPMVariable("addAuthDataToQuery", auth.addTo === "Query params"),
+        ],
+      }
+    case "digest":
+      return {
+        type: "digest",
+        digest: [
+          toPMVariable("username", auth.username),
+          toPMVariable("password", auth.password),
+          toPMVariable("realm", auth.realm),
+          toPMVariable("nonce", auth.nonce),
+          toPMVariable("algorithm", auth.algorithm),
+          toPMVariable("qop", auth.qop),
+          toPMVariable("nonceCount", auth.nc),
+          toPMVariable("clientNonce", auth.cnonce),
+          toPMVariable("opaque", auth.opaque),
+          toPMVariable("disableRetryRequest", auth.disableRetry),
+        ],
+      }
+    case "hawk":
+      return {
+        type: "hawk",
+        hawk: [
+          toPMVariable("authId", auth.authId),
+          toPMVariable("authKey", auth.authKey),
+          toPMVariable("algorithm", auth.algorithm),
+          toPMVariable("nonce", auth.nonce),
+          toPMVariable("timestamp", auth.timestamp),
+          toPMVariable("extraData", auth.ext),
+          toPMVariable("app", auth.app),
+          toPMVariable("delegation", auth.dlg),
+          toPMVariable("includePayloadHash", auth.includePayloadHash),
+        ],
+      }
+  }
+}
+
+const getURL = (request: HoppRESTRequest): PMURL => {
+  const [endpoint, queryString] = replaceHoppTemplating(request.endpoint).split(
+    /\?(.*)/s
+  )
+
+  const query: PMKeyValue[] = [
+    ...(queryString
+      ? queryString
+          .split("&")
+          .filter((param) => param !== "")
+          .map((param) => {
+            const [key, value = ""] = param.split(/=(.*)/s)
+            return { key, value }
+          })
+      : []),
+    ...request.params
+      .filter(({ key }) => key !== "")
+      .map(({ key, value, active }) => ({
+        key: replaceHoppTemplating(key),
+        value: replaceHoppTemplating(value),
+        ...(!active && { disabled: true }),
+      })),
+  ]
+
+  // Only the active params are a part of the raw URL
+  const activeQueryString = query
+    .filter(({ disabled }) => !disabled)
+    .map(({ key, value }) => `${key}=${value}`)
+    .join("&")
+
+  const raw = activeQueryString ? `${endpoint}?${activeQueryString}` : endpoint
+
+  return {
+    ...Url.parse(endpoint),
+    raw,
+    query,
+  }
+}
+
+/**
+ * Postman doesn't have collection headers, so the inherited headers are added
+ * to the request unless it overrides them
+ */
+const getHeaders = (
+  request: HoppRESTRequest,
+  inheritedHeaders: HoppRESTHeader[]
+): PMKeyValue[] => {
+  const requestHeaders = request.headers.filter(({ key }) => key !== "")
+
+  const overriddenKeys = requestHeaders
+    .filter(({ active }) => active)
+    .map(({ key }) => key.toLowerCase())
+
+  const headers: PMKeyValue[] = [
+    ...inheritedHeaders.filter(
+      ({ key, active }) =>
+        active && key !== "" && !overriddenKeys.includes(key.toLowerCase())
+    ),
+    ...requestHeaders,
+  ].map(({ key, value, active }) => ({
+    key: replaceHoppTemplating(key),
+    value: replaceHoppTemplating(value),
+    ...(!active && { disabled: true }),
+  }))
+
+  // Raw and binary bodies are sent with their content type by Hoppscotch
+  const { contentType } = request.body
+  const hasContentTypeHeader = headers.some(
+    ({ key, disabled }) => !disabled && key.toLowerCase() === "content-type"
+  )
+
+  if (
+    contentType &&
+    contentType !== "multipart/form-data" &&
+    contentType !== "application/x-www-form-urlencoded" &&
+    !hasContentTypeHeader
+  ) {
+    headers.push({
+      key: "Content-Type",
+      value:
+        request.body.contentType === "application/octet-stream"
+          ? request.body.fileContentType || contentType
+          : contentType,
+    })
+  }
+
+  return headers
+}
+
+const getBody = (body: HoppRESTReqBody): PMBody | undefined => {
+  if (body.contentType === null) return undefined
+
+  if (body.contentType === "multipart/form-data") {
+    return {
+      mode: "formdata",
+      formdata: (body.body as FormDataKeyValue[])
+        .filter(({ key }) => key !== "")
+        .map((entry) => {
+          const disabled = !entry.active ? { disabled: true } : {}
+
+          return entry.isFile
+            ? {
+                key: replaceHoppTemplating(entry.key),
+                src: getFileNames(entry.value),
+                type: "file" as const,
+                ...disabled,
+              }
+            : {
+                key: replaceHoppTemplating(entry.key),
+                value: replaceHoppTemplating(entry.value),
+                type: "text" as const,
+                ...disabled,
+              }
+        }),
+    }
+  }
+
+  if (body.contentType === "application/x-www-form-urlencoded") {
+    return {
+      mode: "urlencoded",
+      urlencoded: parseRawKeyValueEntries(body.body).map(
+        ({ key, value, active }) => ({
+          key: replaceHoppTemplating(key),
+          value: replaceHoppTemplating(value),
+          ...(!active && { disabled: true }),
+        })
+      ),
+    }
+  }
+
+  if (body.contentType === "application/octet-stream") {
+    return {
+      mode: "file",
+      file: {
+        src: body.body instanceof File ? body.body.name : "",
+      },
+    }
+  }
+
+  return {
+    mode: "raw",
+    raw: replaceHoppTemplating(body.body),
+    options: { raw: { language: getRawLanguage(body.contentType) } },
+  }
+}
+
+const getResponses = (responses: HoppRESTRequestResponses): PMResponse[] =>
+  Object.entries(responses).map(([name, response]) => ({
+    name,
+    code: response.code ?? 200,
+    status: response.status,
+    header: response.headers.map(({ key, value }) => ({ key, value })),
+    body: response.body,
+  }))
+
+const getItem = (
+  ctx: ExportContext,
+  request: HoppRESTRequest,
+  parentNames: string[],
+  inheritedHeaders: HoppRESTHeader[]
+): PMItem => {
+  const auth = getAuth(request.auth)
+  const body = getBody(request.body)
+  const event = getEvents(
+    ctx,
+    request.preRequestScript,
+    request.testScript,
+    [...parentNames, request.name].join(" / ")
+  )
+  const variable = toPMVariables(request.requestVariables)
+
+  return {
+    name: request.name,
+    request: {
+      method: request.method.toUpperCase(),
+      url: getURL(request),
+      header: getHeaders(request, inheritedHeaders),
+      ...(auth && { auth }),
+      ...(body && { body }),
+    },
+    response: getResponses(request.responses ?? {}),
+    ...(event && { event }),
+    ...(variable && { variable }),
+  }
+}
+
+const getItemGroup = (
+  ctx: ExportContext,
+  collection: HoppCollection,
+  parentNames: string[],
+  inheritedHeaders: HoppRESTHeader[]
+): PMItemGroup => {
+  const names = [...parentNames, collection.name]
+  const headers = [
+    ...inheritedHeaders,
+    ...(collection.headers as HoppRESTHeader[]),
+  ]
+
+  const auth = getAuth(collection.auth as HoppRESTAuth)
+  const event = getEvents(
+    ctx,
+    collection.preRequestScript,
+    collection.testScript,
+    names.join(" / ")
+  )
+  const variable = toPMVariables(collection.variables)
+
+  return {
+    name: collection.name,
+    item: [
+      ...collection.folders.map((folder) =>
+        getItemGroup(ctx, folder, names, headers)
+      ),
+      ...(collection.requests as HoppRESTRequest[]).map((request) =>
+        getItem(ctx, request, names, headers)
+      ),
+    ],
+    ...(auth && { auth }),
+    ...(event && { event }),
+    ...(variable && { variable }),
+  }
+}
+
+/**
+ * Generates a Postman Collection v2.1 from REST collections.
+ * A single collection is exported as is, while multiple collections are
+ * exported as the folders of a collection grouping them.
+ * The variables are templated as `{{variable}}` and the Hoppscotch APIs of the
+ * scripts are translated to the Postman ones where possible
+ * @param collections The collections to export
+ * @returns The collection, as a JSON string, along with the scripts using APIs
+ * which couldn't be translated
+ */
+export const postmanExporter = (collections: HoppCollection[]) => {
+  const ctx: ExportContext = { warnings: [] }
+
+  const { name, ...root } =
+    collections.length === 1
+      ? getItemGroup(ctx, collections[0], [], [])
+      : {
+          name: "Hoppscotch Collections",
+          item: collections.map((collection) =>
+            getItemGroup(ctx, collection, [], [])
+          ),
+        }
+
+  const collection: PMCollection = {
+    info: { name, schema: POSTMAN_SCHEMA },
+    ...root,
+  }
+
+  return {
+    collection: JSON.stringify(collection, null, 2),
+    warnings: ctx.warnings,
+  }
+}
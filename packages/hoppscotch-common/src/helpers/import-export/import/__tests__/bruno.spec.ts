@@ -0,0 +1,470 @@
+import { describe, expect, test } from "vitest"
+import * as E from "fp-ts/Either"
+import { HoppRESTRequest } from "@hoppscotch/data"
+import { hoppBrunoFolderImporter, hoppBrunoImporter } from "../bruno"
+import { brunoEnvImporter } from "../brunoEnv"
+
+const importBruno = async (content: string) => {
+  const result = await hoppBrunoImporter(content)()
+
+  if (E.isLeft(result)) throw new Error(result.left)
+
+  return result.right
+}
+
+const makeRequest = (request: Record<string, unknown>) => ({
+  url: "",
+  method: "GET",
+  headers: [],
+  params: [],
+  body: { mode: "none", formUrlEncoded: [], multipartForm: [] },
+  auth: { mode: "inherit" },
+  vars: { req: [] },
+  ...request,
+})
+
+const brunoExport = {
+  version: "1",
+  name: "Users API",
+  root: {
+    request: {
+      headers: [{ name: "X-Tenant", value: "{{tenant}}", enabled: true }],
+      auth: { mode: "bearer", bearer: { token: "{{token}}" } },
+      vars: { req: [{ name: "version", value: "v1", enabled: true }] },
+    },
+  },
+  items: [
+    {
+      type: "folder",
+      name: "Users",
+      items: [
+        {
+          type: "http-request",
+          name: "Create user",
+          seq: 2,
+          request: makeRequest({
+            url: "{{baseUrl}}/users",
+            method: "POST",
+            body: {
+              mode: "json",
+              json: '{ "name": "{{$randomFirstName}}" }',
+              formUrlEncoded: [],
+              multipartForm: [],
+            },
+          }),
+        },
+        {
+          type: "http-request",
+          name: "Get user",
+          seq: 1,
+          request: makeRequest({
+            url: "{{baseUrl}}/users/:id?fields=name",
+            params: [
+              { name: "fields", value: "name", type: "query", enabled: true },
+              { name: "page", value: "2", type: "query", enabled: false },
+              { name: "id", value: "1", type: "path", enabled: true },
+            ],
+            headers: [{ name: "Accept", value: "application/json" }],
+            auth: {
+              mode: "apikey",
+              apikey: { key: "X-Key", value: "secret", placement: "header" },
+            },
+          }),
+        },
+      ],
+    },
+    {
+      type: "graphql-request",
+      name: "Users query",
+      request: makeRequest({ url: "{{baseUrl}}/graphql" }),
+    },
+    {
+      type: "http-request",
+      name: "Upload avatar",
+      request: makeRequest({
+        url: "{{process.env.API_URL}}/avatar",
+        method: "PUT",
+        body: {
+          mode: "multipartForm",
+          formUrlEncoded: [],
+          multipartForm: [
+            { type: "text", name: "caption", value: "Hi", enabled: true },
+            { type: "file", name: "avatar", value: ["./a.png"], enabled: true },
+          ],
+        },
+        auth: {
+          mode: "basic",
+          basic: { username: "{{user}}", password: "secret" },
+        },
+      }),
+    },
+  ],
+  environments: [
+    {
+      name: "Local",
+      variables: [
+        { name: "baseUrl", value: "http://localhost:3000", enabled: true },
+        { name: "token", value: "", enabled: true, secret: true },
+        { name: "unused", value: "x", enabled: false },
+      ],
+    },
+  ],
+}
+
+describe("hoppBrunoImporter", () => {
+  test("imports the folders and the requests of the collection exports", async () => {
+    const { collections } = await importBruno(JSON.stringify(brunoExport))
+
+    expect(collections).toHaveLength(1)
+
+    const [collection] = collections
+
+    expect(collection).toMatchObject({
+      name: "Users API",
+      headers: [{ key: "X-Tenant", value: "<<tenant>>", active: true }],
+      auth: { authType: "bearer", authActive: true, token: "<<token>>" },
+      variables: [{ key: "version", value: "v1", active: true }],
+    })
+
+    // The GraphQL requests are left out
+    expect(
+      (collection.requests as HoppRESTRequest[]).map(({ name }) => name)
+    ).toEqual(["Upload avatar"])
+
+    expect(collection.folders[0].name).toBe("Users")
+    expect(collection.folders[0].auth).toEqual({
+      authType: "inherit",
+      authActive: true,
+    })
+
+    const [getUser, createUser] = collection.folders[0]
+      .requests as HoppRESTRequest[]
+
+    expect(getUser).toMatchObject({
+      name: "Get user",
+      method: "GET",
+      endpoint: "<<baseUrl>>/users/<<id>>",
+      params: [
+        { key: "fields", value: "name", active: true },
+        { key: "page", value: "2", active: false },
+      ],
+      headers: [{ key: "Accept", value: "application/json", active: true }],
+      auth: {
+        authType: "api-key",
+        key: "X-Key",
+        value: "secret",
+        addTo: "Headers",
+      },
+      requestVariables: [{ key: "id", value: "1", active: true }],
+    })
+
+    expect(createUser).toMatchObject({
+      name: "Create user",
+      method: "POST",
+      auth: { authType: "inherit", authActive: true },
+      body: {
+        contentType: "application/json",
+        body: '{ "name": "<<$randomFirstName>>" }',
+      },
+    })
+  })
+
+  test("imports the multipart bodies, leaving the files to be picked again", async () => {
+    const { collections } = await importBruno(JSON.stringify(brunoExport))
+
+    expect(collections[0].requests[0]).toMatchObject({
+      endpoint: "<<API_URL>>/avatar",
+      auth: { authType: "basic", username: "<<user>>", password: "secret" },
+      body: {
+        contentType: "multipart/form-data",
+        body: [
+          { key: "caption", value: "Hi", isFile: false, active: true },
+          { key: "avatar", value: [], isFile: true, active: true },
+        ],
+      },
+    })
+  })
+
+  test("imports the environments of the collection exports", async () => {
+    const { environments } = await importBruno(JSON.stringify(brunoExport))
+
+    expect(environments).toMatchObject([
+      {
+        v: 1,
+        name: "Local",
+        variables: [
+          { key: "baseUrl", value: "http://localhost:3000", secret: false },
+          { key: "token", secret: true },
+        ],
+      },
+    ])
+  })
+
+  test("imports a single .bru request file", async () => {
+    const { collections, environments } = await importBruno(
+      [
+        "meta {",
+        "  name: Login",
+        "  type: http",
+        "  seq: 1",
+        "}",
+        "",
+        "post {",
+        "  url: {{baseUrl}}/login",
+        "  body: formUrlEncoded",
+        "  auth: oauth2",
+        "}",
+        "",
+        "headers {",
+        "  X-Client: web",
+        "  ~X-Debug: true",
+        "}",
+        "",
+        "auth:oauth2 {",
+        "  grant_type: client_credentials",
+        "  access_token_url: {{baseUrl}}/token",
+        "  client_id: {{clientId}}",
+        "  client_secret: secret",
+        "  scope: read",
+        "  credentials_placement: basic_auth_header",
+        "}",
+        "",
+        "body:form-urlencoded {",
+        "  username: alice",
+        "  ~remember: true",
+        "}",
+        "",
+        "vars:pre-request {",
+        "  attempt: 1",
+        "}",
+      ].join("\n")
+    )
+
+    expect(environments).toEqual([])
+    expect(collections[0].requests[0]).toMatchObject({
+      name: "Login",
+      method: "POST",
+      endpoint: "<<baseUrl>>/login",
+      headers: [
+        { key: "X-Client", value: "web", active: true },
+        { key: "X-Debug", value: "true", active: false },
+      ],
+      auth: {
+        authType: "oauth-2",
+        grantType: "client_credentials",
+        accessTokenURL: "<<baseUrl>>/token",
+        clientID: "<<clientId>>",
+        clientSecret: "secret",
+        scope: "read",
+        clientAuthentication: "header",
+      },
+      body: {
+        contentType: "application/x-www-form-urlencoded",
+        body: "username: alice",
+      },
+      requestVariables: [{ key: "attempt", value: "1", active: true }],
+    })
+  })
+
+  test("imports the raw bodies of the .bru request files", async () => {
+    const { collections } = await importBruno(
+      [
+        "meta {",
+        "  name: Create user",
+        "}",
+        "",
+        "post {",
+        "  url: https://api.example.com/users",
+        "  body: json",
+        "}",
+        "",
+        "body:json {",
+        "  {",
+        '    "name": "{{name}}"',
+        "  }",
+        "}",
+      ].join("\n")
+    )
+
+    expect(collections[0].requests[0]).toMatchObject({
+      auth: { authType: "none", authActive: true },
+      body: {
+        contentType: "application/json",
+        body: '{\n  "name": "<<name>>"\n}',
+      },
+    })
+  })
+
+  test("fails for files which aren't Bruno collections or requests", async () => {
+    expect(await hoppBrunoImporter("{}")()).toEqual(
+      E.left("importer_invalid_file_format")
+    )
+    expect(await hoppBrunoImporter("meta {\n  name: x\n}")()).toEqual(
+      E.left("importer_invalid_file_format")
+    )
+  })
+})
+
+describe("hoppBrunoFolderImporter", () => {
+  const bru = (...lines: string[]) => lines.join("\n")
+
+  const brunoFolder = [
+    {
+      path: "users-api/bruno.json",
+      content: JSON.stringify({ version: "1", name: "Users API" }),
+    },
+    {
+      path: "users-api/collection.bru",
+      content: bru(
+        "headers {",
+        "  X-Tenant: {{tenant}}",
+        "}",
+        "",
+        "auth {",
+        "  mode: bearer",
+        "}",
+        "",
+        "auth:bearer {",
+        "  token: {{token}}",
+        "}",
+        "",
+        "vars:pre-request {",
+        "  version: v1",
+        "}"
+      ),
+    },
+    {
+      path: "users-api/users/folder.bru",
+      content: bru(
+        "meta {",
+        "  name: User accounts",
+        "  seq: 2",
+        "}",
+        "",
+        "auth {",
+        "  mode: basic",
+        "}",
+        "",
+        "auth:basic {",
+        "  username: {{user}}",
+        "  password: secret",
+        "}"
+      ),
+    },
+    {
+      path: "users-api/users/Get user.bru",
+      content: bru(
+        "meta {",
+        "  name: Get user",
+        "  seq: 1",
+        "}",
+        "",
+        "get {",
+        "  url: {{baseUrl}}/users/1",
+        "  body: none",
+        "  auth: inherit",
+        "}"
+      ),
+    },
+    {
+      path: "users-api/health/Ping.bru",
+      content: bru("get {", "  url: {{baseUrl}}/ping", "}"),
+    },
+    {
+      path: "users-api/environments/Local.bru",
+      content: bru(
+        "vars {",
+        "  baseUrl: http://localhost:3000",
+        "}",
+        "vars:secret [",
+        "  token",
+        "]"
+      ),
+    },
+  ]
+
+  test("rebuilds the folders of the collection from the paths of the files", async () => {
+    const result = await hoppBrunoFolderImporter(brunoFolder)()
+
+    if (E.isLeft(result)) throw new Error(result.left)
+
+    const [collection] = result.right.collections
+
+    expect(collection).toMatchObject({
+      name: "Users API",
+      auth: { authType: "bearer", token: "<<token>>" },
+      headers: [{ key: "X-Tenant", value: "<<tenant>>", active: true }],
+      variables: [{ key: "version", value: "v1", active: true }],
+      requests: [],
+    })
+
+    expect(collection.folders).toMatchObject([
+      {
+        name: "User accounts",
+        auth: {
+          authType: "basic",
+          username: "<<user>>",
+          password: "secret",
+        },
+        requests: [
+          {
+            name: "Get user",
+            endpoint: "<<baseUrl>>/users/1",
+            auth: { authType: "inherit" },
+          },
+        ],
+      },
+      {
+        name: "health",
+        auth: { authType: "inherit" },
+        requests: [{ name: "Untitled", endpoint: "<<baseUrl>>/ping" }],
+      },
+    ])
+
+    expect(result.right.environments).toMatchObject([
+      {
+        name: "Local",
+        variables: [
+          { key: "baseUrl", value: "http://localhost:3000", secret: false },
+          { key: "token", secret: true },
+        ],
+      },
+    ])
+  })
+
+  test("fails for folders which aren't Bruno collections", async () => {
+    expect(
+      await hoppBrunoFolderImporter(
+        brunoFolder.filter(({ path }) => !path.endsWith("bruno.json"))
+      )()
+    ).toEqual(E.left("importer_invalid_file_format"))
+  })
+})
+
+describe("brunoEnvImporter", () => {
+  test("imports the variables and the secret variables of the environment files", async () => {
+    const result = await brunoEnvImporter(
+      [
+        "vars {",
+        "  baseUrl: https://{{host}}",
+        "  ~unused: x",
+        "}",
+        "vars:secret [",
+        "  token,",
+        "  ~password",
+        "]",
+      ].join("\n"),
+      "Staging"
+    )()
+
+    expect(result).toMatchObject(
+      E.right({
+        name: "Staging",
+        variables: [
+          { key: "baseUrl", value: "https://<<host>>", secret: false },
+          { key: "token", secret: true },
+        ],
+      })
+    )
+  })
+})
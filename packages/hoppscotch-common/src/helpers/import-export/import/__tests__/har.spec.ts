@@ -0,0 +1,238 @@
+import { describe, expect, test } from "vitest"
+import * as E from "fp-ts/Either"
+import { HoppCollection, HoppRESTRequest } from "@hoppscotch/data"
+import { HARImportOptions, hoppHARImporter } from "../har"
+
+const makeEntry = (
+  request: Record<string, unknown>,
+  response: Record<string, unknown> = {}
+) => ({
+  startedDateTime: "2024-01-01T00:00:00.000Z",
+  time: 100,
+  request: {
+    method: "GET",
+    httpVersion: "HTTP/1.1",
+    headers: [],
+    queryString: [],
+    cookies: [],
+    headersSize: -1,
+    bodySize: -1,
+    ...request,
+  },
+  response: {
+    status: 200,
+    statusText: "OK",
+    httpVersion: "HTTP/1.1",
+    headers: [{ name: "Content-Type", value: "application/json" }],
+    cookies: [],
+    content: { size: 11, mimeType: "application/json", text: '{ "id": 1 }' },
+    redirectURL: "",
+    headersSize: -1,
+    bodySize: -1,
+    ...response,
+  },
+  cache: {},
+  timings: { send: 0, wait: 100, receive: 0 },
+})
+
+const makeHAR = (entries: unknown[]) =>
+  JSON.stringify({
+    log: {
+      version: "1.2",
+      creator: { name: "Browser", version: "1" },
+      pages: [{ title: "https://app.example.com" }],
+      entries,
+    },
+  })
+
+const importHAR = async (
+  entries: unknown[],
+  options?: Partial<HARImportOptions>
+) => {
+  const result = await hoppHARImporter(makeHAR(entries), options)()
+
+  if (E.isLeft(result)) throw new Error(result.left)
+
+  return result.right[0]
+}
+
+const getRequests = (collection: HoppCollection) =>
+  collection.folders.flatMap((folder) => folder.requests as HoppRESTRequest[])
+
+describe("hoppHARImporter", () => {
+  test("imports the entries in a folder for each host", async () => {
+    const collection = await importHAR([
+      makeEntry({ url: "https://api.example.com/users?page=2&sort=name" }),
+      makeEntry({ url: "https://cdn.example.com/app.js" }),
+      makeEntry({ url: "data:image/png;base64,AAAA" }),
+    ])
+
+    expect(collection.name).toBe("https://app.example.com")
+    expect(collection.folders.map(({ name }) => name)).toEqual([
+      "api.example.com",
+      "cdn.example.com",
+    ])
+
+    expect(collection.folders[0].requests[0]).toMatchObject({
+      name: "GET /users",
+      method: "GET",
+      endpoint: "https://api.example.com/users",
+      params: [
+        { key: "page", value: "2", active: true },
+        { key: "sort", value: "name", active: true },
+      ],
+      auth: { authType: "inherit", authActive: true },
+      responses: {
+        "200 OK": {
+          code: 200,
+          status: "OK",
+          headers: [{ key: "Content-Type", value: "application/json" }],
+          body: '{ "id": 1 }',
+        },
+      },
+    })
+  })
+
+  test("imports the headers, leaving out the pseudo-headers and the computed ones", async () => {
+    const collection = await importHAR([
+      makeEntry({
+        url: "https://api.example.com/users",
+        headers: [
+          { name: ":authority", value: "api.example.com" },
+          { name: "Host", value: "api.example.com" },
+          { name: "Content-Length", value: "0" },
+          { name: "Authorization", value: "Bearer token" },
+        ],
+      }),
+    ])
+
+    expect(getRequests(collection)[0].headers).toEqual([
+      { key: "Authorization", value: "Bearer token", active: true },
+    ])
+  })
+
+  test("imports the bodies", async () => {
+    const collection = await importHAR([
+      makeEntry({
+        method: "POST",
+        url: "https://api.example.com/json",
+        headers: [{ name: "Content-Type", value: "application/json" }],
+        postData: { mimeType: "application/json", text: '{ "id": 1 }' },
+      }),
+      makeEntry({
+        method: "POST",
+        url: "https://api.example.com/form",
+        postData: {
+          mimeType: "application/x-www-form-urlencoded",
+          text: "name=Alice&age=30",
+        },
+      }),
+      makeEntry({
+        method: "POST",
+        url: "https://api.example.com/upload",
+        postData: {
+          mimeType: "multipart/form-data; boundary=x",
+          params: [
+            { name: "caption", value: "Hi" },
+            { name: "avatar", fileName: "avatar.png" },
+          ],
+        },
+      }),
+    ])
+
+    const [json, form, upload] = getRequests(collection)
+
+    expect(json.headers).toEqual([])
+    expect(json.body).toEqual({
+      contentType: "application/json",
+      body: '{ "id": 1 }',
+    })
+
+    expect(form.body).toEqual({
+      contentType: "application/x-www-form-urlencoded",
+      body: "name: Alice\nage: 30",
+    })
+
+    expect(upload.body).toEqual({
+      contentType: "multipart/form-data",
+      body: [
+        { key: "caption", value: "Hi", isFile: false, active: true },
+        { key: "avatar", value: [], isFile: true, active: true },
+      ],
+    })
+  })
+
+  test("decodes the base64 encoded response bodies as UTF-8", async () => {
+    const text = '{ "name": "Zoë ✓" }'
+
+    const collection = await importHAR([
+      makeEntry(
+        { url: "https://api.example.com/users" },
+        {
+          content: {
+            size: text.length,
+            mimeType: "application/json",
+            text: Buffer.from(text).toString("base64"),
+            encoding: "base64",
+          },
+        }
+      ),
+    ])
+
+    expect(getRequests(collection)[0]).toMatchObject({
+      responses: { "200 OK": { body: text } },
+    })
+  })
+
+  test("filters the entries by domain and response content type", async () => {
+    const entries = [
+      makeEntry({ url: "https://api.example.com/users" }),
+      makeEntry({ url: "https://example.com/" }),
+      makeEntry({ url: "https://analytics.other.com/collect" }),
+      makeEntry(
+        { url: "https://api.example.com/logo.png" },
+        { content: { size: 0, mimeType: "image/png" } }
+      ),
+    ]
+
+    const byDomain = await importHAR(entries, { domains: ["example.com"] })
+
+    expect(getRequests(byDomain).map(({ endpoint }) => endpoint)).toEqual([
+      "https://api.example.com/users",
+      "https://api.example.com/logo.png",
+      "https://example.com/",
+    ])
+
+    const byContentType = await importHAR(entries, {
+      domains: ["api.example.com"],
+      contentTypes: ["application/json"],
+    })
+
+    expect(getRequests(byContentType).map(({ endpoint }) => endpoint)).toEqual([
+      "https://api.example.com/users",
+    ])
+  })
+
+  test("deduplicates the identical requests", async () => {
+    const entries = [
+      makeEntry({ url: "https://api.example.com/users" }),
+      makeEntry({ url: "https://api.example.com/users" }),
+      makeEntry({ method: "POST", url: "https://api.example.com/users" }),
+      makeEntry({ url: "https://api.example.com/users?page=2" }),
+    ]
+
+    expect(getRequests(await importHAR(entries))).toHaveLength(4)
+    expect(
+      getRequests(await importHAR(entries, { deduplicate: true }))
+    ).toHaveLength(3)
+  })
+
+  test("fails for files which aren't HAR files", async () => {
+    expect(await hoppHARImporter("{}")()).toEqual(
+      E.left("importer_invalid_file_format")
+    )
+    expect(await hoppHARImporter("not json")()).toEqual(
+      E.left("importer_invalid_file_format")
+    )
+  })
+})
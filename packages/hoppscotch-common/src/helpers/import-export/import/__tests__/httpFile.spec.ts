@@ -0,0 +1,243 @@
+import { describe, expect, test } from "vitest"
+import * as E from "fp-ts/Either"
+import { HoppRESTRequest } from "@hoppscotch/data"
+import { hoppHTTPFileImporter } from "../httpFile"
+
+const importHTTPFile = async (content: string) => {
+  const result = await hoppHTTPFileImporter(content)()
+
+  if (E.isLeft(result)) throw new Error(result.left)
+
+  const { collection, environment } = result.right
+
+  return {
+    collection,
+    requests: collection.requests as HoppRESTRequest[],
+    environment,
+  }
+}
+
+describe("hoppHTTPFileImporter", () => {
+  test("imports the requests separated by ###, named after the separators or the @name comments", async () => {
+    const { collection, requests } = await importHTTPFile(
+      [
+        "### List users",
+        "GET https://api.example.com/users HTTP/1.1",
+        "",
+        "###",
+        "# @name createUser",
+        "// Creates a user",
+        "POST https://api.example.com/users",
+        "",
+        "###",
+        "https://api.example.com/health",
+      ].join("\n")
+    )
+
+    expect(collection.name).toBe("HTTP Requests")
+    expect(
+      requests.map(({ name, method, endpoint }) => ({
+        name,
+        method,
+        endpoint,
+      }))
+    ).toEqual([
+      {
+        name: "List users",
+        method: "GET",
+        endpoint: "https://api.example.com/users",
+      },
+      {
+        name: "createUser",
+        method: "POST",
+        endpoint: "https://api.example.com/users",
+      },
+      {
+        name: "GET https://api.example.com/health",
+        method: "GET",
+        endpoint: "https://api.example.com/health",
+      },
+    ])
+  })
+
+  test("imports the variable declarations as an environment and replaces the templating", async () => {
+    const { requests, environment } = await importHTTPFile(
+      [
+        "@host = api.example.com",
+        "@baseURL = https://{{host}}",
+        "",
+        "GET {{baseURL}}/users/{{ id }}",
+        "X-Request-ID: {{$uuid}}",
+        "X-Random: {{$randomInt 1 10}}",
+      ].join("\n")
+    )
+
+    expect(environment).toMatchObject({
+      name: "HTTP Requests",
+      variables: [
+        { key: "host", value: "api.example.com", secret: false },
+        { key: "baseURL", value: "https://<<host>>", secret: false },
+      ],
+    })
+
+    expect(requests[0]).toMatchObject({
+      endpoint: "<<baseURL>>/users/<<id>>",
+      headers: [
+        { key: "X-Request-ID", value: "<<$randomUUID>>", active: true },
+        { key: "X-Random", value: "<<$randomInt>>", active: true },
+      ],
+    })
+  })
+
+  test("doesn't create an environment without variable declarations", async () => {
+    const { environment } = await importHTTPFile("GET https://example.com")
+
+    expect(environment).toBeNull()
+  })
+
+  test("imports the query, including the lines following the request line", async () => {
+    const { requests } = await importHTTPFile(
+      [
+        "GET https://example.com/users?sort=name",
+        "    &page=2",
+        "    &flag",
+      ].join("\n")
+    )
+
+    expect(requests[0]).toMatchObject({
+      endpoint: "https://example.com/users",
+      params: [
+        { key: "sort", value: "name", active: true },
+        { key: "page", value: "2", active: true },
+        { key: "flag", value: "", active: true },
+      ],
+    })
+  })
+
+  test("imports the headers and the bodies, leaving out the response handlers", async () => {
+    const { requests } = await importHTTPFile(
+      [
+        "POST https://example.com/users",
+        "Content-Type: application/json",
+        "Accept: application/json",
+        "",
+        "{",
+        '  "name": "{{name}}"',
+        "}",
+        "",
+        "> {%",
+        '  client.global.set("id", response.body.id)',
+        "%}",
+        "<> ./response.json",
+        "",
+        "###",
+        "POST https://example.com/login",
+        "Content-Type: application/x-www-form-urlencoded",
+        "",
+        "username=alice",
+        "&password={{password}}",
+        "",
+        "###",
+        "POST https://example.com/upload",
+        "Content-Type: multipart/form-data; boundary=boundary",
+        "",
+        "--boundary",
+        'Content-Disposition: form-data; name="caption"',
+        "",
+        "Hello",
+        "--boundary",
+        'Content-Disposition: form-data; name="avatar"; filename="avatar.png"',
+        "",
+        "< ./avatar.png",
+        "--boundary--",
+        "",
+        "###",
+        "POST https://example.com/graphql",
+        "Content-Type: application/graphql",
+        "",
+        "{ users { id } }",
+      ].join("\n")
+    )
+
+    const [json, urlencoded, multipart, unknown] = requests
+
+    expect(json.headers).toEqual([
+      { key: "Accept", value: "application/json", active: true },
+    ])
+    expect(json.body).toEqual({
+      contentType: "application/json",
+      body: '{\n  "name": "<<name>>"\n}',
+    })
+
+    expect(urlencoded.body).toEqual({
+      contentType: "application/x-www-form-urlencoded",
+      body: "username: alice\npassword: <<password>>",
+    })
+
+    expect(multipart.headers).toEqual([])
+    expect(multipart.body).toEqual({
+      contentType: "multipart/form-data",
+      body: [
+        { key: "caption", value: "Hello", isFile: false, active: true },
+        { key: "avatar", value: [], isFile: true, active: true },
+      ],
+    })
+
+    // Content types Hoppscotch doesn't recognise are kept as headers
+    expect(unknown.headers).toEqual([
+      { key: "Content-Type", value: "application/graphql", active: true },
+    ])
+    expect(unknown.body).toEqual({
+      contentType: "text/plain",
+      body: "{ users { id } }",
+    })
+  })
+
+  test("maps the basic and bearer Authorization headers to the auth", async () => {
+    const { requests } = await importHTTPFile(
+      [
+        "GET https://example.com",
+        "Authorization: Basic {{username}} {{password}}",
+        "",
+        "###",
+        "GET https://example.com",
+        `Authorization: Basic ${btoa("alice:secret")}`,
+        "",
+        "###",
+        "GET https://example.com",
+        "Authorization: Bearer {{token}}",
+        "",
+        "###",
+        "GET https://example.com",
+        "Authorization: Digest username=alice",
+      ].join("\n")
+    )
+
+    expect(requests.map(({ auth }) => auth)).toEqual([
+      {
+        authType: "basic",
+        authActive: true,
+        username: "<<username>>",
+        password: "<<password>>",
+      },
+      {
+        authType: "basic",
+        authActive: true,
+        username: "alice",
+        password: "secret",
+      },
+      { authType: "bearer", authActive: true, token: "<<token>>" },
+      { authType: "inherit", authActive: true },
+    ])
+
+    expect(requests[3].headers).toEqual([
+      { key: "Authorization", value: "Digest username=alice", active: true },
+    ])
+  })
+
+  test("fails for files without requests", async () => {
+    const result = await hoppHTTPFileImporter("# Just a comment\n@host = x")()
+
+    expect(result).toEqual(E.left("importer_invalid_file_format"))
+  })
+})
@@ -0,0 +1,239 @@
+import { describe, expect, test } from "vitest"
+import * as E from "fp-ts/Either"
+import { HoppRESTRequest } from "@hoppscotch/data"
+import { hoppThunderClientImporter } from "../thunderClient"
+import { thunderClientEnvImporter } from "../thunderClientEnv"
+
+const makeRequest = (request: Record<string, unknown>) => ({
+  _id: "request",
+  colId: "collection",
+  containerId: "",
+  method: "GET",
+  sortNum: 10000,
+  headers: [],
+  params: [],
+  tests: [],
+  ...request,
+})
+
+const thunderClientExport = {
+  clientName: "Thunder Client",
+  collectionName: "Users API",
+  collectionId: "collection",
+  dateExported: "2024-01-01T00:00:00.000Z",
+  version: "1.2",
+  folders: [
+    {
+      _id: "users",
+      name: "Users",
+      containerId: "",
+      sortNum: 10000,
+      settings: {
+        headers: [{ name: "X-Tenant", value: "{{tenant}}" }],
+        auth: {
+          type: "basic",
+          basic: { username: "admin", password: "{{pw}}" },
+        },
+      },
+    },
+    { _id: "admins", name: "Admins", containerId: "users", sortNum: 10000 },
+  ],
+  requests: [
+    makeRequest({
+      name: "Create user",
+      containerId: "users",
+      url: "{{baseUrl}}/users",
+      method: "POST",
+      sortNum: 20000,
+      headers: [
+        { name: "X-Request-Id", value: "{{#guid}}" },
+        { name: "X-Debug", value: "true", isDisabled: true },
+      ],
+      body: {
+        type: "json",
+        raw: '{ "name": "{{name | upper}}", "age": "{{#number}}" }',
+        form: [],
+      },
+    }),
+    makeRequest({
+      name: "Get user",
+      containerId: "users",
+      url: "{{baseUrl}}/users/{id}?fields=name",
+      params: [
+        { name: "fields", value: "name" },
+        { name: "page", value: "2", isDisabled: true },
+        { name: "id", value: "1", isPath: true },
+      ],
+      auth: { type: "none" },
+    }),
+    makeRequest({
+      name: "Upload avatar",
+      containerId: "admins",
+      url: "https://api.example.com/avatar",
+      method: "PUT",
+      body: {
+        type: "formdata",
+        raw: "",
+        form: [{ name: "caption", value: "Hi" }],
+        files: [{ name: "avatar", value: "/home/alice/a.png" }],
+      },
+      auth: {
+        type: "oauth2",
+        oauth2: {
+          grantType: "client_credentials",
+          tokenUrl: "https://auth.example.com/token",
+          clientId: "{{clientId}}",
+          clientSecret: "secret",
+          scope: "write",
+        },
+      },
+    }),
+    makeRequest({
+      name: "Health",
+      url: "https://api.example.com/health",
+      auth: { type: "bearer", bearer: "{{token}}" },
+    }),
+  ],
+  settings: {
+    auth: { type: "bearer", bearer: "{{token}}" },
+  },
+}
+
+const importThunderClient = async () => {
+  const result = await hoppThunderClientImporter(
+    JSON.stringify(thunderClientExport)
+  )()
+
+  if (E.isLeft(result)) throw new Error(result.left)
+
+  return result.right[0]
+}
+
+describe("hoppThunderClientImporter", () => {
+  test("imports the folder tree of the collection exports", async () => {
+    const collection = await importThunderClient()
+
+    expect(collection).toMatchObject({
+      name: "Users API",
+      auth: { authType: "bearer", authActive: true, token: "<<token>>" },
+    })
+    expect(
+      (collection.requests as HoppRESTRequest[]).map(({ name }) => name)
+    ).toEqual(["Health"])
+
+    const [users] = collection.folders
+
+    expect(users).toMatchObject({
+      name: "Users",
+      headers: [{ key: "X-Tenant", value: "<<tenant>>", active: true }],
+      auth: { authType: "basic", username: "admin", password: "<<pw>>" },
+    })
+    expect(
+      (users.requests as HoppRESTRequest[]).map(({ name }) => name)
+    ).toEqual(["Get user", "Create user"])
+
+    expect(users.folders[0]).toMatchObject({
+      name: "Admins",
+      auth: { authType: "inherit", authActive: true },
+    })
+    expect(users.folders[0].requests[0]).toMatchObject({
+      name: "Upload avatar",
+      auth: {
+        authType: "oauth-2",
+        grantType: "client_credentials",
+        accessTokenURL: "https://auth.example.com/token",
+        clientID: "<<clientId>>",
+        clientSecret: "secret",
+        scope: "write",
+      },
+      body: {
+        contentType: "multipart/form-data",
+        body: [
+          { key: "caption", value: "Hi", isFile: false, active: true },
+          { key: "avatar", value: [], isFile: true, active: true },
+        ],
+      },
+    })
+  })
+
+  test("imports the params, headers and bodies of the requests", async () => {
+    const collection = await importThunderClient()
+    const [getUser, createUser] = collection.folders[0]
+      .requests as HoppRESTRequest[]
+
+    expect(getUser).toMatchObject({
+      endpoint: "<<baseUrl>>/users/<<id>>",
+      params: [
+        { key: "fields", value: "name", active: true },
+        { key: "page", value: "2", active: false },
+      ],
+      requestVariables: [{ key: "id", value: "1", active: true }],
+      auth: { authType: "none", authActive: true },
+    })
+
+    expect(createUser).toMatchObject({
+      method: "POST",
+      endpoint: "<<baseUrl>>/users",
+      headers: [
+        { key: "X-Request-Id", value: "<<$guid>>", active: true },
+        { key: "X-Debug", value: "true", active: false },
+      ],
+      auth: { authType: "inherit", authActive: true },
+      body: {
+        contentType: "application/json",
+        body: '{ "name": "<<name>>", "age": "<<$randomInt>>" }',
+      },
+    })
+  })
+
+  test("fails for files which aren't Thunder Client collections", async () => {
+    expect(await hoppThunderClientImporter("{}")()).toEqual(
+      E.left("importer_invalid_file_format")
+    )
+    expect(await hoppThunderClientImporter("not json")()).toEqual(
+      E.left("importer_invalid_file_format")
+    )
+  })
+})
+
+describe("thunderClientEnvImporter", () => {
+  test("imports the environment exports and the environments database file", async () => {
+    const exported = await thunderClientEnvImporter(
+      JSON.stringify({
+        client: "Thunder Client",
+        environmentName: "Local",
+        variables: [
+          { name: "baseUrl", value: "http://localhost:3000" },
+          { name: "apiUrl", value: "{{baseUrl}}/api" },
+        ],
+      })
+    )()
+
+    expect(exported).toMatchObject(
+      E.right([
+        {
+          name: "Local",
+          variables: [
+            { key: "baseUrl", value: "http://localhost:3000", secret: false },
+            { key: "apiUrl", value: "<<baseUrl>>/api", secret: false },
+          ],
+        },
+      ])
+    )
+
+    const database = await thunderClientEnvImporter(
+      JSON.stringify([
+        { _id: "1", name: "Staging", data: [{ name: "retries", value: 3 }] },
+      ])
+    )()
+
+    expect(database).toMatchObject(
+      E.right([
+        {
+          name: "Staging",
+          variables: [{ key: "retries", value: "3", secret: false }],
+        },
+      ])
+    )
+  })
+})
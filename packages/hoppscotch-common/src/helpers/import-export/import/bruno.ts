@@ -0,0 +1,833 @@
+import * as TE from "fp-ts/TaskEither"
+import * as O from "fp-ts/Option"
+import {
+  Environment,
+  FormDataKeyValue,
+  HoppCollection,
+  HoppRESTAuth,
+  HoppRESTAuthOAuth2GrantType,
+  HoppRESTHeader,
+  HoppRESTParam,
+  HoppRESTReqBody,
+  HoppRESTRequest,
+  HoppRESTRequestVariables,
+  getDefaultRESTRequestSettings,
+  makeCollection,
+  makeRESTRequest,
+} from "@hoppscotch/data"
+import { camelCase, sortBy, uniq, uniqueId } from "lodash-es"
+import { z } from "zod"
+import { IMPORTER_INVALID_FILE_FORMAT } from "."
+import { safeParseJSON } from "~/helpers/functional/json"
+
+/*
+  Bruno stores the collections as a folder tree of `.bru` files, one for each
+  request, along with a `bruno.json` file naming the collection. The headers,
+  auth and variables shared by the requests are written in the
+  `collection.bru` and `folder.bru` files, and the environments in the
+  `environments` folder. The folder tree can be imported as it is, or as the
+  single JSON file Bruno exports it to (Collection settings > Export), along
+  with its environments. A single `.bru` request can be imported as well:
+
+  meta {
+    name: Get user
+    type: http
+    seq: 1
+  }
+
+  get {
+    url: {{baseUrl}}/users/:id
+    body: none
+    auth: bearer
+  }
+
+  params:path {
+    id: 1
+  }
+
+  auth:bearer {
+    token: {{token}}
+  }
+*/
+
+const brunoKeyValueSchema = z.object({
+  name: z.string(),
+  value: z.string().catch(""),
+  enabled: z.boolean().catch(true),
+})
+
+// The configuration of the auth is under the key of its mode
+// (`{ mode: "basic", basic: { username, password } }`)
+const brunoAuthSchema = z.object({ mode: z.string() }).passthrough()
+
+const brunoRequestSchema = z.object({
+  url: z.string().catch(""),
+  method: z.string().catch("GET"),
+  headers: z.array(brunoKeyValueSchema).catch([]),
+  params: z
+    .array(
+      brunoKeyValueSchema.extend({
+        type: z.enum(["query", "path"]).catch("query"),
+      })
+    )
+    .catch([]),
+  body: z
+    .object({
+      mode: z.string().catch("none"),
+      json: z.string().nullish(),
+      text: z.string().nullish(),
+      xml: z.string().nullish(),
+      sparql: z.string().nullish(),
+      formUrlEncoded: z.array(brunoKeyValueSchema).catch([]),
+      multipartForm: z
+        .array(
+          brunoKeyValueSchema.extend({
+            type: z.enum(["text", "file"]).catch("text"),
+            // The file fields hold the paths of the files
+            value: z.union([z.string(), z.array(z.string())]).catch(""),
+          })
+        )
+        .catch([]),
+    })
+    .catch({ mode: "none", formUrlEncoded: [], multipartForm: [] }),
+  auth: brunoAuthSchema.catch({ mode: "none" }),
+  vars: z
+    .object({ req: z.array(brunoKeyValueSchema).catch([]) })
+    .catch({ req: [] }),
+})
+
+// The headers, auth and variables shared by the requests of a folder or of
+// the collection
+const brunoRootSchema = z.object({
+  request: z
+    .object({
+      headers: z.array(brunoKeyValueSchema).catch([]),
+      auth: brunoAuthSchema.optional(),
+      vars: z
+        .object({ req: z.array(brunoKeyValueSchema).catch([]) })
+        .catch({ req: [] }),
+    })
+    .optional(),
+})
+
+type BrunoKeyValue = z.infer<typeof brunoKeyValueSchema>
+type BrunoAuth = z.infer<typeof brunoAuthSchema>
+type BrunoRequest = z.infer<typeof brunoRequestSchema>
+type BrunoRoot = z.infer<typeof brunoRootSchema>
+
+type BrunoItem = {
+  type: string
+  name: string
+  seq?: number
+  request?: BrunoRequest
+  items?: BrunoItem[]
+  root?: BrunoRoot
+}
+
+const brunoItemSchema: z.ZodType<BrunoItem, z.ZodTypeDef, unknown> = z.lazy(
+  () =>
+    z.object({
+      type: z.string(),
+      name: z.string(),
+      seq: z.number().optional(),
+      request: brunoRequestSchema.optional(),
+      items: z.array(brunoItemSchema).optional(),
+      root: brunoRootSchema.optional(),
+    })
+)
+
+const brunoCollectionSchema = z.object({
+  name: z.string(),
+  items: z.array(brunoItemSchema),
+  root: brunoRootSchema.optional(),
+  environments: z
+    .array(
+      z.object({
+        name: z.string(),
+        variables: z
+          .array(
+            brunoKeyValueSchema.extend({ secret: z.boolean().catch(false) })
+          )
+          .catch([]),
+      })
+    )
+    .catch([]),
+})
+
+const BRU_METHODS = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "head",
+  "options",
+  "connect",
+  "trace",
+]
+
+// Replaces the Bruno Templating ({{ ? }} and {{process.env.?}}) to the
+// Hoppscotch one (<< ? >>). The dynamic variables (`{{$randomUUID}}`) share
+// their names with the Hoppscotch ones
+export const replaceBrunoTemplating = (str: string) =>
+  str.replace(/\{\{\s*(?:process\.env\.)?([^}\s]+)\s*\}\}/g, "<<$1>>")
+
+/**
+ * Splits a `.bru` file into its blocks, the dictionary (`headers { ... }`),
+ * text (`body:json { ... }`) and list (`vars:secret [ ... ]`) ones, with the
+ * indentation of their contents removed
+ * @param content The contents of the `.bru` file
+ * @returns The lines of the blocks, by their tags
+ */
+export const parseBruBlocks = (content: string) => {
+  const blocks: Record<string, string[]> = {}
+
+  let tag: string | null = null
+  let closingLine = "}"
+
+  for (const line of content.split(/\r?\n/)) {
+    if (tag === null) {
+      const match = line.match(/^([\w:-]+)\s*([{[])\s*$/)
+
+      if (match) {
+        tag = match[1]
+        closingLine = match[2] === "{" ? "}" : "]"
+        blocks[tag] = []
+      }
+    } else if (line.trimEnd() === closingLine) {
+      tag = null
+    } else {
+      blocks[tag].push(line.replace(/^ {2}/, ""))
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * Parses the `key: value` entries of a dictionary block, where the disabled
+ * entries are prefixed with `~`
+ */
+export const parseBruDictionary = (lines: string[] = []): BrunoKeyValue[] =>
+  lines.flatMap((line) => {
+    const match = line.trim().match(/^(~?)([^:]+):\s*(.*)$/)
+
+    return match
+      ? [{ name: match[2].trim(), value: match[3], enabled: match[1] === "" }]
+      : []
+  })
+
+/**
+ * Parses the entries of a list block (`vars:secret [ token, password ]`)
+ */
+export const parseBruList = (lines: string[] = []) =>
+  lines
+    .map((line) => line.trim().replace(/,$/, ""))
+    .filter((line) => line !== "")
+
+const parseBruText = (lines: string[] = []) => lines.join("\n").trim()
+
+const getBruRecord = (lines: string[] = []) =>
+  Object.fromEntries(
+    parseBruDictionary(lines).map(({ name, value }) => [name, value])
+  )
+
+/**
+ * Parses the auth block of the given mode, whose configuration is written in
+ * snake case (`access_token_url`)
+ */
+const parseBruAuth = (
+  blocks: Record<string, string[]>,
+  mode: string
+): BrunoAuth => ({
+  mode,
+  [mode]: Object.fromEntries(
+    parseBruDictionary(blocks[`auth:${mode}`]).map(({ name, value }) => [
+      camelCase(name),
+      value,
+    ])
+  ),
+})
+
+/**
+ * Parses a `.bru` request file into the shape of the requests in the Bruno
+ * collection exports
+ */
+const parseBruRequest = (content: string): BrunoItem | null => {
+  const blocks = parseBruBlocks(content)
+
+  const meta = getBruRecord(blocks.meta)
+  const method = BRU_METHODS.find((method) => method in blocks)
+
+  if (!method) return null
+
+  const http = getBruRecord(blocks[method])
+  const authMode = http.auth ?? "none"
+
+  const params = [
+    // Older versions of Bruno wrote the query params in a `query` block
+    ...parseBruDictionary(blocks["params:query"] ?? blocks.query).map(
+      (param) => ({ ...param, type: "query" as const })
+    ),
+    ...parseBruDictionary(blocks["params:path"]).map((param) => ({
+      ...param,
+      type: "path" as const,
+    })),
+  ]
+
+  const multipartForm = parseBruDictionary(blocks["body:multipart-form"]).map(
+    (field) => {
+      const file = field.value.match(/^@file\((.*)\)$/)
+
+      return file
+        ? { ...field, type: "file" as const, value: file[1].split("|") }
+        : { ...field, type: "text" as const }
+    }
+  )
+
+  return {
+    type: meta.type === "graphql" ? "graphql-request" : "http-request",
+    name: meta.name ?? "Untitled",
+    seq: meta.seq ? Number(meta.seq) : undefined,
+    request: {
+      url: http.url ?? "",
+      method: method.toUpperCase(),
+      headers: parseBruDictionary(blocks.headers),
+      params,
+      body: {
+        mode: http.body ?? "none",
+        json: parseBruText(blocks["body:json"]),
+        text: parseBruText(blocks["body:text"]),
+        xml: parseBruText(blocks["body:xml"]),
+        sparql: parseBruText(blocks["body:sparql"]),
+        formUrlEncoded: parseBruDictionary(blocks["body:form-urlencoded"]),
+        multipartForm,
+      },
+      auth: parseBruAuth(blocks, authMode),
+      vars: { req: parseBruDictionary(blocks["vars:pre-request"]) },
+    },
+  }
+}
+
+/**
+ * Parses the headers, auth and variables of a `collection.bru` or a
+ * `folder.bru` file into the shape of the ones in the Bruno collection exports
+ */
+const parseBruRoot = (content: string): BrunoRoot => {
+  const blocks = parseBruBlocks(content)
+  const authMode = getBruRecord(blocks.auth).mode
+
+  return {
+    request: {
+      headers: parseBruDictionary(blocks.headers),
+      auth: authMode ? parseBruAuth(blocks, authMode) : undefined,
+      vars: { req: parseBruDictionary(blocks["vars:pre-request"]) },
+    },
+  }
+}
+
+/**
+ * Parses the variables of a Bruno environment file (`environments/<name>.bru`)
+ * @returns The environment, or `null` if the file has no variables blocks
+ */
+export const parseBruEnvironment = (
+  content: string,
+  name: string
+): Environment | null => {
+  const blocks = parseBruBlocks(content)
+
+  if (!blocks.vars && !blocks["vars:secret"]) return null
+
+  const variables = parseBruDictionary(blocks.vars).map((variable) => ({
+    ...variable,
+    secret: false,
+  }))
+
+  // The secret variables are only listed by their names
+  const secretVariables = parseBruList(blocks["vars:secret"]).map(
+    (variable) => ({
+      name: variable.replace(/^~/, ""),
+      value: "",
+      enabled: !variable.startsWith("~"),
+      secret: true,
+    })
+  )
+
+  return getHoppBrunoEnvironment(name, [...variables, ...secretVariables])
+}
+
+const getHoppOAuth2GrantType = (
+  grantType: string
+): HoppRESTAuthOAuth2GrantType => {
+  switch (grantType) {
+    case "client_credentials":
+      return "client_credentials"
+    case "password":
+      return "password"
+    case "implicit":
+      return "implicit"
+    default:
+      return "authorization_code"
+  }
+}
+
+const getHoppAuth = (auth: BrunoAuth): HoppRESTAuth => {
+  const config = (auth[auth.mode] ?? {}) as Record<string, unknown>
+
+  const getValue = (key: string) =>
+    typeof config[key] === "string"
+      ? replaceBrunoTemplating(config[key] as string)
+      : ""
+
+  switch (auth.mode) {
+    case "inherit":
+      return { authType: "inherit", authActive: true }
+    case "basic":
+      return {
+        authType: "basic",
+        authActive: true,
+        username: getValue("username"),
+        password: getValue("password"),
+      }
+    case "bearer":
+      return { authType: "bearer", authActive: true, token: getValue("token") }
+    case "apikey":
+      return {
+        authType: "api-key",
+        authActive: true,
+        key: getValue("key"),
+        value: getValue("value"),
+        addTo: config.placement === "queryparams" ? "Query params" : "Headers",
+      }
+    case "digest":
+      return {
+        authType: "digest",
+        authActive: true,
+        username: getValue("username"),
+        password: getValue("password"),
+        realm: "",
+        nonce: "",
+        algorithm: "MD5",
+        qop: "auth",
+        nc: "",
+        cnonce: "",
+        opaque: "",
+        disableRetry: false,
+      }
+    case "awsv4":
+      return {
+        authType: "aws-signature",
+        authActive: true,
+        accessKey: getValue("accessKeyId"),
+        secretKey: getValue("secretAccessKey"),
+        sessionToken: getValue("sessionToken"),
+        region: getValue("region"),
+        serviceName: getValue("service"),
+        addTo: "Headers",
+      }
+    case "oauth2":
+      return {
+        authType: "oauth-2",
+        authActive: true,
+        grantType: getHoppOAuth2GrantType(getValue("grantType")),
+        authURL: getValue("authorizationUrl"),
+        accessTokenURL: getValue("accessTokenUrl"),
+        clientID: getValue("clientId"),
+        clientSecret: getValue("clientSecret"),
+        scope: getValue("scope"),
+        username: getValue("username"),
+        password: getValue("password"),
+        clientAuthentication:
+          config.credentialsPlacement === "basic_auth_header"
+            ? "header"
+            : "body",
+        token: "",
+        oidcDiscoveryURL: "",
+        refreshToken: "",
+        tokenExpiresAt: null,
+      }
+    default:
+      return { authType: "none", authActive: true }
+  }
+}
+
+const getHoppHeaders = (headers: BrunoKeyValue[]): HoppRESTHeader[] =>
+  headers.map(({ name, value, enabled }) => ({
+    key: replaceBrunoTemplating(name),
+    value: replaceBrunoTemplating(value),
+    active: enabled,
+  }))
+
+const getHoppVariables = (vars: BrunoKeyValue[]): HoppRESTRequestVariables =>
+  vars.map(({ name, value, enabled }) => ({
+    key: name,
+    value: replaceBrunoTemplating(value),
+    active: enabled,
+  }))
+
+const getHoppReqBody = (body: BrunoRequest["body"]): HoppRESTReqBody => {
+  switch (body.mode) {
+    case "json":
+      return {
+        contentType: "application/json",
+        body: replaceBrunoTemplating(body.json ?? ""),
+      }
+    case "xml":
+      return {
+        contentType: "application/xml",
+        body: replaceBrunoTemplating(body.xml ?? ""),
+      }
+    case "text":
+    case "sparql":
+      return {
+        contentType: "text/plain",
+        body: replaceBrunoTemplating(body[body.mode] ?? ""),
+      }
+    case "formUrlEncoded":
+      return {
+        contentType: "application/x-www-form-urlencoded",
+        body: body.formUrlEncoded
+          .filter(({ enabled }) => enabled)
+          .map(({ name, value }) => replaceBrunoTemplating(`${name}: ${value}`))
+          .join("\n"),
+      }
+    case "multipartForm":
+      return {
+        contentType: "multipart/form-data",
+        body: body.multipartForm.map(
+          ({ name, value, enabled, type }): FormDataKeyValue =>
+            // The files are referenced by their paths, they're left to be
+            // picked again
+            type === "file"
+              ? {
+                  key: replaceBrunoTemplating(name),
+                  value: [],
+                  isFile: true,
+                  active: enabled,
+                }
+              : {
+                  key: replaceBrunoTemplating(name),
+                  value: replaceBrunoTemplating(
+                    Array.isArray(value) ? value.join("") : value
+                  ),
+                  isFile: false,
+                  active: enabled,
+                }
+        ),
+      }
+    default:
+      return { contentType: null, body: null }
+  }
+}
+
+const getHoppRequest = (
+  name: string,
+  request: BrunoRequest
+): HoppRESTRequest => {
+  const [url, query = ""] = request.url.split(/\?(.*)/s)
+
+  const pathParams = request.params.filter(({ type }) => type === "path")
+  let queryParams = request.params.filter(({ type }) => type === "query")
+
+  // The query params are listed along with the URL in the exports, which is
+  // all there is for the hand written `.bru` files
+  if (queryParams.length === 0 && query !== "") {
+    queryParams = query.split("&").map((param) => {
+      const [key, value = ""] = param.split(/=(.*)/s)
+      return { name: key, value, enabled: true, type: "query" }
+    })
+  }
+
+  // The path params (`/users/:id`) are mapped to request variables
+  const endpoint = url.replace(/\/:([\w.-]+)/g, (match, param: string) =>
+    pathParams.some(({ name }) => name === param) ? `/<<${param}>>` : match
+  )
+
+  const params: HoppRESTParam[] = queryParams.map(
+    ({ name, value, enabled }) => ({
+      key: replaceBrunoTemplating(name),
+      value: replaceBrunoTemplating(value),
+      active: enabled,
+    })
+  )
+
+  return makeRESTRequest({
+    name,
+    endpoint: replaceBrunoTemplating(endpoint),
+    method: request.method.toUpperCase(),
+    headers: getHoppHeaders(request.headers),
+    params,
+    auth: getHoppAuth(request.auth),
+    body: getHoppReqBody(request.body),
+    preRequestScript: "",
+    testScript: "",
+    requestVariables: [
+      ...getHoppVariables(
+        pathParams.map(({ name, value, enabled }) => ({ name, value, enabled }))
+      ),
+      ...getHoppVariables(request.vars.req),
+    ],
+    responses: {},
+    settings: getDefaultRESTRequestSettings(),
+  })
+}
+
+const getHoppCollection = (
+  name: string,
+  items: BrunoItem[],
+  root: BrunoRoot | undefined,
+  defaultAuth: HoppRESTAuth
+): HoppCollection => {
+  const rootRequest = root?.request
+
+  return makeCollection({
+    name,
+    folders: items
+      .filter(({ type }) => type === "folder")
+      .map((folder) =>
+        getHoppCollection(folder.name, folder.items ?? [], folder.root, {
+          authType: "inherit",
+          authActive: true,
+        })
+      ),
+    // The GraphQL requests are left out, as they can't be a part of the REST
+    // collections
+    requests: sortBy(
+      items.filter(({ type }) => type === "http-request"),
+      ({ seq }) => seq ?? Infinity
+    ).flatMap(({ name, request }) =>
+      request ? [getHoppRequest(name, request)] : []
+    ),
+    auth: rootRequest?.auth ? getHoppAuth(rootRequest.auth) : defaultAuth,
+    headers: getHoppHeaders(rootRequest?.headers ?? []),
+    preRequestScript: "",
+    testScript: "",
+    variables: getHoppVariables(rootRequest?.vars.req ?? []),
+  })
+}
+
+/**
+ * Maps the variables of a Bruno environment, the values of the secret
+ * variables are left to be filled in as they aren't a part of the exports
+ */
+export const getHoppBrunoEnvironment = (
+  name: string,
+  variables: Array<BrunoKeyValue & { secret: boolean }>
+): Environment => ({
+  id: uniqueId(),
+  v: 1,
+  name,
+  variables: variables
+    .filter(({ enabled }) => enabled)
+    .map(({ name, value, secret }) =>
+      secret
+        ? { key: name, secret: true }
+        : { key: name, value: replaceBrunoTemplating(value), secret: false }
+    ),
+})
+
+/**
+ * Imports a Bruno collection export, along with its environments, or a
+ * single `.bru` request file
+ * @param content The contents of the file
+ */
+export const hoppBrunoImporter = (
+  content: string
+): TE.TaskEither<
+  typeof IMPORTER_INVALID_FILE_FORMAT,
+  { collections: HoppCollection[]; environments: Environment[] }
+> => {
+  const parsedContent = safeParseJSON(content)
+
+  if (O.isNone(parsedContent)) {
+    const item = parseBruRequest(content)
+
+    if (!item || item.type !== "http-request") {
+      return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+    }
+
+    return TE.right({
+      collections: [
+        getHoppCollection("Bruno", [item], undefined, {
+          authType: "none",
+          authActive: true,
+        }),
+      ],
+      environments: [],
+    })
+  }
+
+  const validationResult = brunoCollectionSchema.safeParse(parsedContent.value)
+
+  if (!validationResult.success) {
+    return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+  }
+
+  const { name, items, root, environments } = validationResult.data
+
+  return TE.right({
+    collections: [
+      getHoppCollection(name, items, root, {
+        authType: "none",
+        authActive: true,
+      }),
+    ],
+    environments: environments.map((environment) =>
+      getHoppBrunoEnvironment(environment.name, environment.variables)
+    ),
+  })
+}
+
+/**
+ * A file of a Bruno collection folder, by its path relative to the folder
+ * picked to import it from (`users-api/users/Get user.bru`)
+ */
+export type BrunoFile = {
+  path: string
+  content: string
+}
+
+// The files of a folder, by their path segments relative to the folder
+type BrunoFolderFile = {
+  segments: string[]
+  content: string
+}
+
+const BRU_ROOT_FILES = ["collection.bru", "folder.bru"]
+
+/**
+ * Rebuilds the folders and the requests of a Bruno collection folder, the
+ * way they're listed in the Bruno collection exports
+ */
+const getBrunoFolderItems = (files: BrunoFolderFile[]): BrunoItem[] => {
+  const requests = files
+    .filter(
+      ({ segments }) =>
+        segments.length === 1 && !BRU_ROOT_FILES.includes(segments[0])
+    )
+    .flatMap(({ content }) => {
+      const item = parseBruRequest(content)
+      return item ? [item] : []
+    })
+
+  const folderNames = uniq(
+    files
+      .filter(({ segments }) => segments.length > 1)
+      .map(({ segments }) => segments[0])
+  ).sort()
+
+  const folders = folderNames.flatMap((folderName): BrunoItem[] => {
+    const folderFiles = files
+      .filter(
+        ({ segments }) => segments.length > 1 && segments[0] === folderName
+      )
+      .map(({ segments, content }) => ({
+        segments: segments.slice(1),
+        content,
+      }))
+
+    const folderBru = folderFiles.find(
+      ({ segments }) => segments.length === 1 && segments[0] === "folder.bru"
+    )
+
+    const items = getBrunoFolderItems(folderFiles)
+
+    if (!folderBru && items.length === 0) return []
+
+    // The folders are named and ordered by the `meta` block of `folder.bru`
+    const meta = folderBru
+      ? getBruRecord(parseBruBlocks(folderBru.content).meta)
+      : {}
+
+    return [
+      {
+        type: "folder",
+        name: meta.name ?? folderName,
+        seq: meta.seq ? Number(meta.seq) : undefined,
+        items,
+        root: folderBru ? parseBruRoot(folderBru.content) : undefined,
+      },
+    ]
+  })
+
+  return [...sortBy(folders, ({ seq }) => seq ?? Infinity), ...requests]
+}
+
+/**
+ * Imports the folder of a Bruno collection, along with its environments
+ * @param files The `.bru` files of the folder, along with its `bruno.json`
+ */
+export const hoppBrunoFolderImporter = (
+  files: BrunoFile[]
+): TE.TaskEither<
+  typeof IMPORTER_INVALID_FILE_FORMAT,
+  { collections: HoppCollection[]; environments: Environment[] }
+> => {
+  const getSegments = (path: string) =>
+    path.split(/[\\/]/).filter((segment) => segment !== "")
+
+  // The collection is rooted at the `bruno.json` file closest to the folder
+  // picked to import it from
+  const brunoConfig = sortBy(
+    files.filter(({ path }) => getSegments(path).pop() === "bruno.json"),
+    ({ path }) => getSegments(path).length
+  )[0]
+
+  if (!brunoConfig) return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+
+  const rootSegments = getSegments(brunoConfig.path).slice(0, -1)
+
+  const collectionFiles = files.flatMap(({ path, content }) => {
+    const segments = getSegments(path)
+
+    return segments.length > rootSegments.length &&
+      rootSegments.every((segment, i) => segments[i] === segment) &&
+      segments[segments.length - 1].endsWith(".bru")
+      ? [{ segments: segments.slice(rootSegments.length), content }]
+      : []
+  })
+
+  const config = safeParseJSON(brunoConfig.content)
+  const configName = O.isSome(config)
+    ? z.object({ name: z.string() }).safeParse(config.value)
+    : null
+
+  const name = configName?.success
+    ? configName.data.name
+    : rootSegments[rootSegments.length - 1] ?? "Bruno"
+
+  const collectionBru = collectionFiles.find(
+    ({ segments }) => segments.length === 1 && segments[0] === "collection.bru"
+  )
+
+  const isEnvironmentFile = ({ segments }: BrunoFolderFile) =>
+    segments.length === 2 && segments[0] === "environments"
+
+  // Bruno names the environments after their files
+  const environments = collectionFiles
+    .filter(isEnvironmentFile)
+    .flatMap(({ segments, content }) => {
+      const environment = parseBruEnvironment(
+        content,
+        segments[1].replace(/\.bru$/, "")
+      )
+
+      return environment ? [environment] : []
+    })
+
+  return TE.right({
+    collections: [
+      getHoppCollection(
+        name,
+        getBrunoFolderItems(
+          collectionFiles.filter(
+            (file) => file !== collectionBru && !isEnvironmentFile(file)
+          )
+        ),
+        collectionBru ? parseBruRoot(collectionBru.content) : undefined,
+        { authType: "none", authActive: true }
+      ),
+    ],
+    environments,
+  })
+}
@@ -0,0 +1,18 @@
+import * as TE from "fp-ts/TaskEither"
+
+import { IMPORTER_INVALID_FILE_FORMAT } from "."
+
+import { parseBruEnvironment } from "./bruno"
+
+/**
+ * Imports a Bruno environment file (`environments/<name>.bru`)
+ * @param content The contents of the file
+ * @param name The name of the environment, which Bruno takes from the file name
+ */
+export const brunoEnvImporter = (content: string, name = "Bruno") => {
+  const environment = parseBruEnvironment(content, name)
+
+  return environment
+    ? TE.right(environment)
+    : TE.left(IMPORTER_INVALID_FILE_FORMAT)
+}
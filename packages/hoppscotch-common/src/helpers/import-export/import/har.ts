@@ -0,0 +1,339 @@
+import * as TE from "fp-ts/TaskEither"
+import * as O from "fp-ts/Option"
+import {
+  FormDataKeyValue,
+  HoppCollection,
+  HoppRESTHeader,
+  HoppRESTParam,
+  HoppRESTReqBody,
+  HoppRESTRequest,
+  HoppRESTRequestResponses,
+  getDefaultRESTRequestSettings,
+  knownContentTypes,
+  makeCollection,
+  makeRESTRequest,
+  ValidContentTypes,
+} from "@hoppscotch/data"
+import { z } from "zod"
+import { IMPORTER_INVALID_FILE_FORMAT } from "."
+import { safeParseJSON } from "~/helpers/functional/json"
+
+// Hoppscotch support HAR Spec 1.2
+// For more info on the spec: http://www.softwareishard.com/blog/har-12-spec/
+
+const harNameValueSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+})
+
+const harEntrySchema = z.object({
+  request: z.object({
+    method: z.string(),
+    url: z.string(),
+    headers: z.array(harNameValueSchema).catch([]),
+    postData: z
+      .object({
+        mimeType: z.string().catch(""),
+        text: z.string().optional(),
+        params: z
+          .array(
+            z.object({
+              name: z.string(),
+              value: z.string().optional(),
+              fileName: z.string().optional(),
+            })
+          )
+          .optional(),
+      })
+      .optional(),
+  }),
+  response: z
+    .object({
+      status: z.number(),
+      statusText: z.string().catch(""),
+      headers: z.array(harNameValueSchema).catch([]),
+      content: z
+        .object({
+          mimeType: z.string().catch(""),
+          text: z.string().optional(),
+          encoding: z.string().optional(),
+        })
+        .catch({ mimeType: "" }),
+    })
+    .optional(),
+})
+
+const harSchema = z.object({
+  log: z.object({
+    pages: z.array(z.object({ title: z.string() })).optional(),
+    entries: z.array(harEntrySchema),
+  }),
+})
+
+type HAREntry = z.infer<typeof harEntrySchema>
+
+export type HARImportOptions = {
+  /**
+   * Domains to import the requests to, including their subdomains.
+   * Requests to any domain are imported if empty
+   */
+  domains: string[]
+  /**
+   * Content types of the responses to import the requests of, matched by
+   * prefix (`image/` matches `image/png`).
+   * Requests with any response are imported if empty
+   */
+  contentTypes: string[]
+  /**
+   * Whether to import a single request out of the ones with the same method,
+   * URL and body
+   */
+  deduplicate: boolean
+}
+
+const DEFAULT_HAR_IMPORT_OPTIONS: HARImportOptions = {
+  domains: [],
+  contentTypes: [],
+  deduplicate: false,
+}
+
+// Headers set by the browsers, HTTP/2 pseudo-headers (`:authority`) and the
+// ones computed while sending the requests
+const IGNORED_HEADERS = ["host", "content-length", "connection"]
+
+const getMimeType = (contentType: string) =>
+  contentType.split(";")[0].trim().toLowerCase()
+
+const safeParseURL = (url: string) => O.tryCatch(() => new URL(url))
+
+const matchesDomains = (url: URL, domains: string[]) =>
+  domains.length === 0 ||
+  domains.some((domain) => {
+    const normalizedDomain = domain.trim().toLowerCase().replace(/^\./, "")
+
+    return (
+      url.hostname === normalizedDomain ||
+      url.hostname.endsWith(`.${normalizedDomain}`)
+    )
+  })
+
+const matchesContentTypes = (entry: HAREntry, contentTypes: string[]) =>
+  contentTypes.length === 0 ||
+  (!!entry.response &&
+    contentTypes.some((contentType) =>
+      getMimeType(entry.response!.content.mimeType).startsWith(
+        contentType.trim().toLowerCase()
+      )
+    ))
+
+const getEntryKey = ({ request }: HAREntry) =>
+  JSON.stringify([
+    request.method.toUpperCase(),
+    request.url,
+    request.postData?.text ?? request.postData?.params ?? null,
+  ])
+
+const getHoppReqParams = (url: URL): HoppRESTParam[] =>
+  Array.from(url.searchParams.entries(), ([key, value]) => ({
+    key,
+    value,
+    active: true,
+  }))
+
+const getHoppReqBody = (
+  postData: HAREntry["request"]["postData"]
+): HoppRESTReqBody => {
+  if (!postData) return { contentType: null, body: null }
+
+  const mimeType = getMimeType(postData.mimeType)
+
+  if (mimeType === "multipart/form-data") {
+    return {
+      contentType: "multipart/form-data",
+      body: (postData.params ?? []).map(
+        ({ name, value, fileName }): FormDataKeyValue =>
+          // The contents of the files aren't a part of the HAR files
+          fileName !== undefined
+            ? { key: name, value: [], isFile: true, active: true }
+            : { key: name, value: value ?? "", isFile: false, active: true }
+      ),
+    }
+  }
+
+  if (mimeType === "application/x-www-form-urlencoded") {
+    const params = postData.params?.length
+      ? postData.params.map(({ name, value }) => [name, value ?? ""])
+      : Array.from(new URLSearchParams(postData.text ?? "").entries())
+
+    return {
+      contentType: "application/x-www-form-urlencoded",
+      body: params.map(([key, value]) => `${key}: ${value}`).join("\n"),
+    }
+  }
+
+  if (mimeType === "application/octet-stream") {
+    return { contentType: mimeType, body: null, fileContentType: "" }
+  }
+
+  if (!postData.text) return { contentType: null, body: null }
+
+  return {
+    contentType:
+      mimeType in knownContentTypes
+        ? (mimeType as Exclude<
+            ValidContentTypes,
+            | "multipart/form-data"
+            | "application/x-www-form-urlencoded"
+            | "application/octet-stream"
+          >)
+        : "text/plain",
+    body: postData.text,
+  }
+}
+
+const getHoppReqHeaders = (
+  entry: HAREntry,
+  body: HoppRESTReqBody
+): HoppRESTHeader[] =>
+  entry.request.headers
+    .filter(({ name, value }) => {
+      const key = name.toLowerCase()
+
+      // The content type is set from the body, unless it's one Hoppscotch
+      // doesn't recognise
+      return (
+        !key.startsWith(":") &&
+        !IGNORED_HEADERS.includes(key) &&
+        !(key === "content-type" && getMimeType(value) === body.contentType)
+      )
+    })
+    .map(({ name, value }) => ({ key: name, value, active: true }))
+
+const getHoppReqResponses = (entry: HAREntry): HoppRESTRequestResponses => {
+  const { response } = entry
+
+  // Responses not received (blocked or cancelled) are recorded with status 0
+  if (!response || response.status === 0) return {}
+
+  const body =
+    response.content.encoding === "base64"
+      ? O.getOrElse(() => "")(
+          O.tryCatch(() =>
+            new TextDecoder("utf-8").decode(
+              Uint8Array.from(atob(response.content.text!), (char) =>
+                char.charCodeAt(0)
+              )
+            )
+          )
+        )
+      : response.content.text ?? ""
+
+  return {
+    [`${response.status} ${response.statusText}`.trim()]: {
+      code: response.status,
+      status: response.statusText,
+      headers: response.headers
+        .filter(({ name }) => !name.startsWith(":"))
+        .map(({ name, value }) => ({ key: name, value })),
+      body,
+    },
+  }
+}
+
+const getHoppRequest = (entry: HAREntry, url: URL): HoppRESTRequest => {
+  const body = getHoppReqBody(entry.request.postData)
+
+  return makeRESTRequest({
+    name: `${entry.request.method.toUpperCase()} ${url.pathname}`,
+    endpoint: `${url.origin}${url.pathname}`,
+    method: entry.request.method.toUpperCase(),
+    headers: getHoppReqHeaders(entry, body),
+    params: getHoppReqParams(url),
+    auth: { authType: "inherit", authActive: true },
+    body,
+    preRequestScript: "",
+    testScript: "",
+    requestVariables: [],
+    responses: getHoppReqResponses(entry),
+    settings: getDefaultRESTRequestSettings(),
+  })
+}
+
+/**
+ * Imports the entries of a HAR file (as exported from the network panel of
+ * the browser devtools) as a collection, with a folder for each host.
+ * The responses of the entries are kept as the saved examples of the requests
+ * @param content The contents of the file
+ * @param options Options to filter and deduplicate the entries
+ */
+export const hoppHARImporter = (
+  content: string,
+  options: Partial<HARImportOptions> = {}
+): TE.TaskEither<typeof IMPORTER_INVALID_FILE_FORMAT, HoppCollection[]> => {
+  const { domains, contentTypes, deduplicate } = {
+    ...DEFAULT_HAR_IMPORT_OPTIONS,
+    ...options,
+  }
+
+  const parsedContent = safeParseJSON(content)
+
+  if (O.isNone(parsedContent)) return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+
+  const result = harSchema.safeParse(parsedContent.value)
+
+  if (!result.success) return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+
+  const { pages, entries } = result.data.log
+
+  const importedKeys = new Set<string>()
+  const requestsByHost = new Map<string, HoppRESTRequest[]>()
+
+  for (const entry of entries) {
+    const url = safeParseURL(entry.request.url)
+
+    // Entries of the `data:` and `chrome-extension:` URLs are left out as well
+    if (O.isNone(url) || !/^https?:$/.test(url.value.protocol)) continue
+
+    if (
+      !matchesDomains(url.value, domains) ||
+      !matchesContentTypes(entry, contentTypes)
+    ) {
+      continue
+    }
+
+    if (deduplicate) {
+      const key = getEntryKey(entry)
+
+      if (importedKeys.has(key)) continue
+      importedKeys.add(key)
+    }
+
+    const requests = requestsByHost.get(url.value.host) ?? []
+    requests.push(getHoppRequest(entry, url.value))
+    requestsByHost.set(url.value.host, requests)
+  }
+
+  return TE.right([
+    makeCollection({
+      name: pages?.[0]?.title || "HAR Import",
+      folders: Array.from(requestsByHost, ([host, requests]) =>
+        makeCollection({
+          name: host,
+          folders: [],
+          requests,
+          auth: { authType: "inherit", authActive: true },
+          headers: [],
+          preRequestScript: "",
+          testScript: "",
+          variables: [],
+        })
+      ),
+      requests: [],
+      auth: { authType: "none", authActive: true },
+      headers: [],
+      preRequestScript: "",
+      testScript: "",
+      variables: [],
+    }),
+  ])
+}
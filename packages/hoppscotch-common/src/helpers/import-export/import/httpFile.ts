@@ -0,0 +1,420 @@
+import * as TE from "fp-ts/TaskEither"
+import {
+  Environment,
+  FormDataKeyValue,
+  HoppCollection,
+  HoppRESTAuth,
+  HoppRESTHeader,
+  HoppRESTParam,
+  HoppRESTReqBody,
+  HoppRESTRequest,
+  getDefaultRESTRequestSettings,
+  knownContentTypes,
+  makeCollection,
+  makeRESTRequest,
+  ValidContentTypes,
+} from "@hoppscotch/data"
+import { uniqueId } from "lodash-es"
+import { IMPORTER_INVALID_FILE_FORMAT } from "."
+
+/*
+  Parses the request files of the JetBrains HTTP Client and the VS Code REST
+  Client (.http / .rest), where the requests are separated by `###` lines:
+
+  @baseURL = https://api.example.com
+
+  ### Create user
+  # @name createUser
+  POST {{baseURL}}/users?notify=true
+  Content-Type: application/json
+
+  { "name": "Alice" }
+*/
+
+type HTTPFileRequest = {
+  name: string | null
+  method: string
+  url: string
+  headers: Array<{ key: string; value: string }>
+  body: string
+}
+
+const REQUEST_LINE_REGEX =
+  /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|TRACE|CONNECT)\s+(.+?)(?:\s+HTTP\/[\d.]+)?$/i
+
+const VARIABLE_DECLARATION_REGEX = /^@([\w.-]+)\s*=\s*(.*)$/
+
+const NAME_COMMENT_REGEX = /^(?:#|\/\/)\s*@name\s+(.+)$/
+
+// The dynamic variables of the clients named differently than the Hoppscotch
+// ones, their arguments (`{{$randomInt 1 10}}`) are dropped
+const DYNAMIC_VARIABLES: Record<string, string> = {
+  $uuid: "$randomUUID",
+  "$random.uuid": "$randomUUID",
+  "$random.integer": "$randomInt",
+  $datetime: "$isoTimestamp",
+  $localDatetime: "$isoTimestamp",
+}
+
+const isComment = (line: string) => /^\s*(#|\/\/)/.test(line)
+
+// Replaces the client Templating ({{ ? }}) to the Hoppscotch one (<< ? >>)
+const replaceHTTPFileTemplating = (str: string) =>
+  str.replace(/\{\{\s*([^}\s]+)[^}]*\}\}/g, (_, name: string) =>
+    name.startsWith("$")
+      ? `<<${DYNAMIC_VARIABLES[name] ?? name}>>`
+      : `<<${name}>>`
+  )
+
+/**
+ * Removes the response handlers (`> {% ... %}` and `> ./handler.js`) and
+ * the response references (`<> ./response.json`) following the body
+ */
+const stripResponseHandlers = (lines: string[]) => {
+  const bodyLines: string[] = []
+  let inHandlerScript = false
+
+  for (const line of lines) {
+    if (inHandlerScript) {
+      inHandlerScript = !line.includes("%}")
+    } else if (/^>\s*\{%/.test(line)) {
+      inHandlerScript = !line.includes("%}")
+    } else if (!/^(>|<>)\s/.test(line)) {
+      bodyLines.push(line)
+    }
+  }
+
+  return bodyLines
+}
+
+const parseRequestBlock = (
+  blockName: string,
+  lines: string[],
+  variables: Array<{ key: string; value: string }>
+): HTTPFileRequest | null => {
+  let name: string | null = blockName || null
+  let i = 0
+
+  // The request line is preceded by the variable declarations and comments
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim()
+
+    const nameComment = line.match(NAME_COMMENT_REGEX)
+    const declaration = line.match(VARIABLE_DECLARATION_REGEX)
+
+    if (nameComment) {
+      name = nameComment[1].trim()
+    } else if (declaration) {
+      variables.push({ key: declaration[1], value: declaration[2].trim() })
+    } else if (line !== "" && !isComment(line)) {
+      break
+    }
+  }
+
+  if (i === lines.length) return null
+
+  const requestLine = lines[i].trim()
+  const match = requestLine.match(REQUEST_LINE_REGEX)
+
+  // The method can be left out for GET requests
+  const method = match ? match[1].toUpperCase() : "GET"
+  let url = match ? match[2] : requestLine.replace(/\s+HTTP\/[\d.]+$/, "")
+
+  // The query can be split across the lines following the request line
+  for (i++; i < lines.length && /^\s+[?&]/.test(lines[i]); i++) {
+    url += lines[i].trim()
+  }
+
+  const headers: HTTPFileRequest["headers"] = []
+
+  for (; i < lines.length && lines[i].trim() !== ""; i++) {
+    if (isComment(lines[i])) continue
+
+    const separatorIndex = lines[i].indexOf(":")
+
+    if (separatorIndex !== -1) {
+      headers.push({
+        key: lines[i].slice(0, separatorIndex).trim(),
+        value: lines[i].slice(separatorIndex + 1).trim(),
+      })
+    }
+  }
+
+  const body = stripResponseHandlers(lines.slice(i + 1))
+    .join("\n")
+    .trim()
+
+  return { name, method, url, headers, body }
+}
+
+const parseHTTPFile = (content: string) => {
+  const variables: Array<{ key: string; value: string }> = []
+  const requests: HTTPFileRequest[] = []
+
+  let blockName = ""
+  let blockLines: string[] = []
+
+  const addBlock = () => {
+    const request = parseRequestBlock(blockName, blockLines, variables)
+    if (request) requests.push(request)
+  }
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith("###")) {
+      addBlock()
+
+      blockName = line.replace(/^#+/, "").trim()
+      blockLines = []
+    } else {
+      blockLines.push(line)
+    }
+  }
+
+  addBlock()
+
+  return { variables, requests }
+}
+
+const getHoppReqParams = (
+  url: string
+): { endpoint: string; params: HoppRESTParam[] } => {
+  const [endpoint, query] = url.split(/\?(.*)/s)
+
+  const params = (query ?? "")
+    .split("&")
+    .filter((param) => param !== "")
+    .map((param) => {
+      const [key, value = ""] = param.split(/=(.*)/s)
+
+      return {
+        key: replaceHTTPFileTemplating(key),
+        value: replaceHTTPFileTemplating(value),
+        active: true,
+      }
+    })
+
+  return { endpoint: replaceHTTPFileTemplating(endpoint), params }
+}
+
+/**
+ * Maps the basic and bearer `Authorization` headers to the request auth.
+ * Basic credentials can be written encoded or as `username password` and
+ * `username:password` in the files
+ */
+const getHoppReqAuth = (authorization: string): HoppRESTAuth | null => {
+  const [scheme, ...credentials] = authorization.trim().split(/\s+/)
+
+  if (scheme.toLowerCase() === "bearer" && credentials.length === 1) {
+    return {
+      authType: "bearer",
+      authActive: true,
+      token: replaceHTTPFileTemplating(credentials[0]),
+    }
+  }
+
+  if (scheme.toLowerCase() !== "basic" || credentials.length === 0) {
+    return null
+  }
+
+  let [username, password] = credentials
+
+  if (credentials.length === 1) {
+    let decoded = credentials[0]
+
+    if (!decoded.includes(":")) {
+      try {
+        decoded = atob(decoded)
+      } catch (_) {
+        return null
+      }
+    }
+
+    ;[username, password] = decoded.split(/:(.*)/s)
+  }
+
+  return {
+    authType: "basic",
+    authActive: true,
+    username: replaceHTTPFileTemplating(username),
+    password: replaceHTTPFileTemplating(password ?? ""),
+  }
+}
+
+const getMultipartFormData = (
+  body: string,
+  boundary: string
+): FormDataKeyValue[] =>
+  body
+    .split(`--${boundary}`)
+    .map((part) => part.replace(/^\r?\n/, ""))
+    .filter((part) => part.trim() !== "" && !part.startsWith("--"))
+    .flatMap((part) => {
+      const [partHeaders, ...value] = part.split(/\r?\n\r?\n/)
+
+      const disposition = partHeaders.match(/name="([^"]*)"(.*)/i)
+      if (!disposition) return []
+
+      // The files are referenced as `< ./path`, they're left to be picked
+      // again as the contents aren't part of the request file
+      const isFile = /filename=/i.test(disposition[2])
+      const key = replaceHTTPFileTemplating(disposition[1])
+
+      return [
+        isFile
+          ? { key, value: [], isFile: true, active: true }
+          : {
+              key,
+              value: replaceHTTPFileTemplating(value.join("\n\n").trim()),
+              isFile: false,
+              active: true,
+            },
+      ]
+    })
+
+const getHoppReqBody = (
+  body: string,
+  contentTypeHeader: string | undefined
+): HoppRESTReqBody => {
+  if (body === "") return { contentType: null, body: null }
+
+  const contentType = (contentTypeHeader ?? "text/plain")
+    .split(";")[0]
+    .trim()
+    .toLowerCase()
+
+  if (contentType === "multipart/form-data") {
+    const boundary = contentTypeHeader!.match(/boundary="?([^";]+)"?/i)?.[1]
+
+    return {
+      contentType: "multipart/form-data",
+      body: boundary ? getMultipartFormData(body, boundary) : [],
+    }
+  }
+
+  if (contentType === "application/x-www-form-urlencoded") {
+    return {
+      contentType: "application/x-www-form-urlencoded",
+      body: body
+        .replace(/\r?\n\s*/g, "")
+        .split("&")
+        .filter((entry) => entry !== "")
+        .map((entry) => {
+          const [key, value = ""] = entry.split(/=(.*)/s)
+          return replaceHTTPFileTemplating(`${key}: ${value}`)
+        })
+        .join("\n"),
+    }
+  }
+
+  // Binary bodies reference files, which aren't part of the request file
+  if (contentType === "application/octet-stream") {
+    return { contentType, body: null, fileContentType: "" }
+  }
+
+  return {
+    contentType:
+      contentType in knownContentTypes
+        ? (contentType as Exclude<
+            ValidContentTypes,
+            | "multipart/form-data"
+            | "application/x-www-form-urlencoded"
+            | "application/octet-stream"
+          >)
+        : "text/plain",
+    body: replaceHTTPFileTemplating(body),
+  }
+}
+
+const getHoppRequest = (request: HTTPFileRequest): HoppRESTRequest => {
+  const { endpoint, params } = getHoppReqParams(request.url)
+
+  const contentTypeHeader = request.headers.find(
+    ({ key }) => key.toLowerCase() === "content-type"
+  )
+  const authorizationHeader = request.headers.find(
+    ({ key }) => key.toLowerCase() === "authorization"
+  )
+
+  const body = getHoppReqBody(request.body, contentTypeHeader?.value)
+  const auth = authorizationHeader
+    ? getHoppReqAuth(authorizationHeader.value)
+    : null
+
+  const headers: HoppRESTHeader[] = request.headers
+    .filter(
+      (header) =>
+        // The headers mapped to the body and the auth are left out, the
+        // content type is kept for the ones Hoppscotch doesn't recognise
+        !(auth && header === authorizationHeader) &&
+        !(
+          header === contentTypeHeader &&
+          body.contentType !== null &&
+          header.value.toLowerCase().startsWith(body.contentType)
+        )
+    )
+    .map(({ key, value }) => ({
+      key: replaceHTTPFileTemplating(key),
+      value: replaceHTTPFileTemplating(value),
+      active: true,
+    }))
+
+  return makeRESTRequest({
+    name: request.name ?? `${request.method} ${endpoint}`,
+    endpoint,
+    method: request.method,
+    headers,
+    params,
+    auth: auth ?? { authType: "inherit", authActive: true },
+    body,
+    preRequestScript: "",
+    testScript: "",
+    requestVariables: [],
+    responses: {},
+    settings: getDefaultRESTRequestSettings(),
+  })
+}
+
+/**
+ * Imports the requests of a `.http` / `.rest` file as a collection, along with
+ * an environment for the variables declared with `@variable = value`
+ * @param content The contents of the file
+ * @param name The name of the collection and the environment
+ */
+export const hoppHTTPFileImporter = (
+  content: string,
+  name = "HTTP Requests"
+): TE.TaskEither<
+  typeof IMPORTER_INVALID_FILE_FORMAT,
+  { collection: HoppCollection; environment: Environment | null }
+> => {
+  const { variables, requests } = parseHTTPFile(content)
+
+  if (requests.length === 0) return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+
+  const collection = makeCollection({
+    name,
+    folders: [],
+    requests: requests.map(getHoppRequest),
+    auth: { authType: "none", authActive: true },
+    headers: [],
+    preRequestScript: "",
+    testScript: "",
+    variables: [],
+  })
+
+  const environment: Environment | null =
+    variables.length > 0
+      ? {
+          id: uniqueId(),
+          v: 1,
+          name,
+          variables: variables.map(({ key, value }) => ({
+            key,
+            value: replaceHTTPFileTemplating(value),
+            secret: false,
+          })),
+        }
+      : null
+
+  return TE.right({ collection, environment })
+}
@@ -0,0 +1,19 @@
+import BrunoImportVue from "~/components/importExport/ImportExportSteps/BrunoImport.vue"
+import { defineStep } from "~/composables/step-components"
+import { BrunoFile } from "../bruno"
+
+import { v4 as uuidv4 } from "uuid"
+
+export function BrunoSource(metadata: {
+  caption: string
+  onImportFromFile: (content: string) => any | Promise<any>
+  onImportFromFolder: (files: BrunoFile[]) => any | Promise<any>
+}) {
+  const stepID = uuidv4()
+
+  return defineStep(stepID, BrunoImportVue, () => ({
+    caption: metadata.caption,
+    onImportFromFile: metadata.onImportFromFile,
+    onImportFromFolder: metadata.onImportFromFolder,
+  }))
+}
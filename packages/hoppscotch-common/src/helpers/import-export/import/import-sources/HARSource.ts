@@ -0,0 +1,20 @@
+import HARImportVue from "~/components/importExport/ImportExportSteps/HARImport.vue"
+import { defineStep } from "~/composables/step-components"
+import { HARImportOptions } from "../har"
+
+import { v4 as uuidv4 } from "uuid"
+
+export function HARSource(metadata: {
+  caption: string
+  onImportFromFile: (
+    content: string,
+    options: HARImportOptions
+  ) => any | Promise<any>
+}) {
+  const stepID = uuidv4()
+
+  return defineStep(stepID, HARImportVue, () => ({
+    caption: metadata.caption,
+    onImportFromFile: metadata.onImportFromFile,
+  }))
+}
@@ -2,4 +2,8 @@ export { hoppRESTImporter } from "./hopp"
 export { hoppOpenAPIImporter } from "./openapi"
 export { hoppPostmanImporter } from "./postman"
 export { hoppInsomniaImporter } from "./insomnia"
+export { hoppHTTPFileImporter } from "./httpFile"
+export { hoppHARImporter } from "./har"
+export { hoppBrunoImporter, hoppBrunoFolderImporter } from "./bruno"
+export { hoppThunderClientImporter } from "./thunderClient"
 export { toTeamsImporter } from "./myCollections"
@@ -8,6 +8,7 @@ import {
   HoppRESTRequest,
   knownContentTypes,
   makeRESTRequest,
+  getDefaultRESTRequestSettings,
   HoppCollection,
   makeCollection,
 } from "@hoppscotch/data"
@@ -71,7 +72,16 @@ type InsoReqAuth =
       accessTokenUrl?: string
       authorizationUrl?: string
       clientId?: string
+      clientSecret?: string
       scope?: string
+      grantType?:
+        | "authorization_code"
+        | "client_credentials"
+        | "password"
+        | "implicit"
+      username?: string
+      password?: string
+      credentialsInBody?: boolean
     }
   | {
       type: "bearer"
@@ -95,12 +105,20 @@ const getHoppReqAuth = (req: InsomniaRequestResource): HoppRESTAuth => {
     return {
       authType: "oauth-2",
       authActive: !(auth.disabled ?? false),
+      grantType: auth.grantType ?? "authorization_code",
       accessTokenURL: replaceVarTemplating(auth.accessTokenUrl ?? ""),
       authURL: replaceVarTemplating(auth.authorizationUrl ?? ""),
       clientID: replaceVarTemplating(auth.clientId ?? ""),
+      clientSecret: replaceVarTemplating(auth.clientSecret ?? ""),
       oidcDiscoveryURL: "",
       scope: replaceVarTemplating(auth.scope ?? ""),
       token: "",
+      username: replaceVarTemplating(auth.username ?? ""),
+      password: replaceVarTemplating(auth.password ?? ""),
+      clientAuthentication:
+        auth.credentialsInBody === false ? "header" : "body",
+      refreshToken: "",
+      tokenExpiresAt: null,
     }
   else if (auth.type === "bearer")
     return {
@@ -184,6 +202,8 @@ const getHoppRequest = (req: InsomniaRequestResource): HoppRESTRequest =>
     body: getHoppReqBody(req),
     headers: getHoppReqHeaders(req),
     params: getHoppReqParams(req),
+    settings: getDefaultRESTRequestSettings(),
+    requestVariables: [],
 
     preRequestScript: "",
     testScript: "",
@@ -201,6 +221,9 @@ const getHoppFolder = (
     requests: getRequestsIn(folderRes, resources).map(getHoppRequest),
     auth: { authType: "inherit", authActive: true },
     headers: [],
+    preRequestScript: "",
+    testScript: "",
+    variables: [],
   })
 
 const getHoppCollections = (doc: InsomniaDoc) =>
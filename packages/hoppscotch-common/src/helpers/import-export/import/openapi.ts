@@ -14,6 +14,7 @@ import {
   HoppRESTReqBody,
   knownContentTypes,
   makeRESTRequest,
+  getDefaultRESTRequestSettings,
   HoppCollection,
   makeCollection,
 } from "@hoppscotch/data"
@@ -255,67 +256,109 @@ const resolveOpenAPIV3SecurityObj = (
       return {
         authType: "oauth-2",
         authActive: true,
+        grantType: "authorization_code",
         accessTokenURL: scheme.flows.authorizationCode.tokenUrl ?? "",
         authURL: scheme.flows.authorizationCode.authorizationUrl ?? "",
         clientID: "",
         oidcDiscoveryURL: "",
         scope: _schemeData.join(" "),
         token: "",
+        clientSecret: "",
+        username: "",
+        password: "",
+        clientAuthentication: "body",
+        refreshToken: "",
+        tokenExpiresAt: null,
       }
     } else if (scheme.flows.implicit) {
       return {
         authType: "oauth-2",
         authActive: true,
+        grantType: "implicit",
         authURL: scheme.flows.implicit.authorizationUrl ?? "",
         accessTokenURL: "",
         clientID: "",
         oidcDiscoveryURL: "",
         scope: _schemeData.join(" "),
         token: "",
+        clientSecret: "",
+        username: "",
+        password: "",
+        clientAuthentication: "body",
+        refreshToken: "",
+        tokenExpiresAt: null,
       }
     } else if (scheme.flows.password) {
       return {
         authType: "oauth-2",
         authActive: true,
+        grantType: "password",
         authURL: "",
         accessTokenURL: scheme.flows.password.tokenUrl ?? "",
         clientID: "",
         oidcDiscoveryURL: "",
         scope: _schemeData.join(" "),
         token: "",
+        clientSecret: "",
+        username: "",
+        password: "",
+        clientAuthentication: "body",
+        refreshToken: "",
+        tokenExpiresAt: null,
       }
     } else if (scheme.flows.clientCredentials) {
       return {
         authType: "oauth-2",
         authActive: true,
+        grantType: "client_credentials",
         accessTokenURL: scheme.flows.clientCredentials.tokenUrl ?? "",
         authURL: "",
         clientID: "",
         oidcDiscoveryURL: "",
         scope: _schemeData.join(" "),
         token: "",
+        clientSecret: "",
+        username: "",
+        password: "",
+        clientAuthentication: "body",
+        refreshToken: "",
+        tokenExpiresAt: null,
       }
     }
     return {
       authType: "oauth-2",
       authActive: true,
+      grantType: "authorization_code",
       accessTokenURL: "",
       authURL: "",
       clientID: "",
       oidcDiscoveryURL: "",
       scope: _schemeData.join(" "),
       token: "",
+      clientSecret: "",
+      username: "",
+      password: "",
+      clientAuthentication: "body",
+      refreshToken: "",
+      tokenExpiresAt: null,
     }
   } else if (scheme.type === "openIdConnect") {
     return {
       authType: "oauth-2",
       authActive: true,
+      grantType: "authorization_code",
       accessTokenURL: "",
       authURL: "",
       clientID: "",
       oidcDiscoveryURL: scheme.openIdConnectUrl ?? "",
       scope: _schemeData.join(" "),
       token: "",
+      clientSecret: "",
+      username: "",
+      password: "",
+      clientAuthentication: "body",
+      refreshToken: "",
+      tokenExpiresAt: null,
     }
   }
 
@@ -392,56 +435,91 @@ const resolveOpenAPIV2SecurityScheme = (
       return {
         authType: "oauth-2",
         authActive: true,
+        grantType: "authorization_code",
         accessTokenURL: scheme.tokenUrl ?? "",
         authURL: scheme.authorizationUrl ?? "",
         clientID: "",
         oidcDiscoveryURL: "",
         scope: _schemeData.join(" "),
         token: "",
+        clientSecret: "",
+        username: "",
+        password: "",
+        clientAuthentication: "body",
+        refreshToken: "",
+        tokenExpiresAt: null,
       }
     } else if (scheme.flow === "implicit") {
       return {
         authType: "oauth-2",
         authActive: true,
+        grantType: "implicit",
         accessTokenURL: "",
         authURL: scheme.authorizationUrl ?? "",
         clientID: "",
         oidcDiscoveryURL: "",
         scope: _schemeData.join(" "),
         token: "",
+        clientSecret: "",
+        username: "",
+        password: "",
+        clientAuthentication: "body",
+        refreshToken: "",
+        tokenExpiresAt: null,
       }
     } else if (scheme.flow === "application") {
       return {
         authType: "oauth-2",
         authActive: true,
+        grantType: "client_credentials",
         accessTokenURL: scheme.tokenUrl ?? "",
         authURL: "",
         clientID: "",
         oidcDiscoveryURL: "",
         scope: _schemeData.join(" "),
         token: "",
+        clientSecret: "",
+        username: "",
+        password: "",
+        clientAuthentication: "body",
+        refreshToken: "",
+        tokenExpiresAt: null,
       }
     } else if (scheme.flow === "password") {
       return {
         authType: "oauth-2",
         authActive: true,
+        grantType: "password",
         accessTokenURL: scheme.tokenUrl ?? "",
         authURL: "",
         clientID: "",
         oidcDiscoveryURL: "",
         scope: _schemeData.join(" "),
         token: "",
+        clientSecret: "",
+        username: "",
+        password: "",
+        clientAuthentication: "body",
+        refreshToken: "",
+        tokenExpiresAt: null,
       }
     }
     return {
       authType: "oauth-2",
       authActive: true,
+      grantType: "authorization_code",
       accessTokenURL: "",
       authURL: "",
       clientID: "",
       oidcDiscoveryURL: "",
       scope: _schemeData.join(" "),
       token: "",
+      clientSecret: "",
+      username: "",
+      password: "",
+      clientAuthentication: "body",
+      refreshToken: "",
+      tokenExpiresAt: null,
     }
   }
 
@@ -575,6 +653,9 @@ const convertPathToHoppReqs = (
 
         body: parseOpenAPIBody(doc, info),
 
+        settings: getDefaultRESTRequestSettings(),
+        requestVariables: [],
+
         preRequestScript: "",
         testScript: "",
       })
@@ -600,6 +681,9 @@ const convertOpenApiDocToHopp = (
       requests: paths,
       auth: { authType: "inherit", authActive: true },
       headers: [],
+      preRequestScript: "",
+      testScript: "",
+      variables: [],
     }),
   ])
 }
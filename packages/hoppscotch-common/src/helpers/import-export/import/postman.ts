@@ -8,11 +8,14 @@ import {
 } from "postman-collection"
 import {
   HoppRESTAuth,
+  HoppRESTAuthOAuth2GrantType,
   HoppRESTHeader,
   HoppRESTParam,
   HoppRESTReqBody,
   HoppRESTRequest,
+  HoppRESTRequestResponses,
   makeRESTRequest,
+  getDefaultRESTRequestSettings,
   HoppCollection,
   makeCollection,
   ValidContentTypes,
@@ -98,6 +101,21 @@ type PMRequestAuthDef<
 const getVariableValue = (defs: VariableDefinition[], key: string) =>
   defs.find((param) => param.key === key)?.value as string | undefined
 
+const getPMOAuth2GrantType = (
+  grantType: string | undefined
+): HoppRESTAuthOAuth2GrantType => {
+  switch (grantType) {
+    case "client_credentials":
+      return "client_credentials"
+    case "password_credentials":
+      return "password"
+    case "implicit":
+      return "implicit"
+    default:
+      return "authorization_code"
+  }
+}
+
 const getHoppReqAuth = (item: Item): HoppRESTAuth => {
   if (!item.request.auth) return { authType: "none", authActive: true }
 
@@ -140,6 +158,9 @@ const getHoppReqAuth = (item: Item): HoppRESTAuth => {
     return {
       authType: "oauth-2",
       authActive: true,
+      grantType: getPMOAuth2GrantType(
+        getVariableValue(auth.oauth2, "grant_type")
+      ),
       accessTokenURL: replacePMVarTemplating(
         getVariableValue(auth.oauth2, "accessTokenUrl") ?? ""
       ),
@@ -149,6 +170,9 @@ const getHoppReqAuth = (item: Item): HoppRESTAuth => {
       clientID: replacePMVarTemplating(
         getVariableValue(auth.oauth2, "clientId") ?? ""
       ),
+      clientSecret: replacePMVarTemplating(
+        getVariableValue(auth.oauth2, "clientSecret") ?? ""
+      ),
       scope: replacePMVarTemplating(
         getVariableValue(auth.oauth2, "scope") ?? ""
       ),
@@ -156,6 +180,18 @@ const getHoppReqAuth = (item: Item): HoppRESTAuth => {
         getVariableValue(auth.oauth2, "accessToken") ?? ""
       ),
       oidcDiscoveryURL: "",
+      username: replacePMVarTemplating(
+        getVariableValue(auth.oauth2, "username") ?? ""
+      ),
+      password: replacePMVarTemplating(
+        getVariableValue(auth.oauth2, "password") ?? ""
+      ),
+      clientAuthentication:
+        getVariableValue(auth.oauth2, "client_authentication") === "header"
+          ? "header"
+          : "body",
+      refreshToken: "",
+      tokenExpiresAt: null,
     }
   }
 
@@ -267,6 +303,27 @@ const getHoppReqURL = (item: Item): string =>
     replacePMVarTemplating
   )
 
+const getHoppReqResponses = (item: Item): HoppRESTRequestResponses =>
+  pipe(
+    item.responses.all(),
+    A.map(
+      (response) =>
+        [
+          response.name || `${response.code} ${response.status}`,
+          {
+            code: response.code,
+            status: response.status ?? "",
+            headers: response.headers.all().map((header) => ({
+              key: header.key,
+              value: header.value,
+            })),
+            body: response.text() ?? "",
+          },
+        ] as const
+    ),
+    Object.fromEntries
+  )
+
 const getHoppRequest = (item: Item): HoppRESTRequest => {
   return makeRESTRequest({
     name: item.name,
@@ -276,6 +333,9 @@ const getHoppRequest = (item: Item): HoppRESTRequest => {
     params: getHoppReqParams(item),
     auth: getHoppReqAuth(item),
     body: getHoppReqBody(item),
+    responses: getHoppReqResponses(item),
+    settings: getDefaultRESTRequestSettings(),
+    requestVariables: [],
 
     // TODO: Decide about this
     preRequestScript: "",
@@ -294,6 +354,9 @@ const getHoppFolder = (ig: ItemGroup<Item>): HoppCollection =>
     requests: pipe(ig.items.all(), A.filter(isPMItem), A.map(getHoppRequest)),
     auth: { authType: "inherit", authActive: true },
     headers: [],
+    preRequestScript: "",
+    testScript: "",
+    variables: [],
   })
 
 export const getHoppCollection = (coll: PMCollection) => getHoppFolder(coll)
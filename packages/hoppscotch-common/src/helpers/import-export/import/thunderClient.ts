@@ -0,0 +1,376 @@
+import * as TE from "fp-ts/TaskEither"
+import * as O from "fp-ts/Option"
+import {
+  HoppCollection,
+  HoppRESTAuth,
+  HoppRESTAuthOAuth2GrantType,
+  HoppRESTHeader,
+  HoppRESTParam,
+  HoppRESTReqBody,
+  HoppRESTRequest,
+  getDefaultRESTRequestSettings,
+  makeCollection,
+  makeRESTRequest,
+} from "@hoppscotch/data"
+import { sortBy } from "lodash-es"
+import { z } from "zod"
+import { IMPORTER_INVALID_FILE_FORMAT } from "."
+import { safeParseJSON } from "~/helpers/functional/json"
+
+// Imports the collection exports of the Thunder Client VS Code extension
+// (Collections > Export), where the folders and the requests are listed flat
+// and refer to their parent folders by `containerId`
+
+const thunderKeyValueSchema = z.object({
+  name: z.string(),
+  value: z.string().catch(""),
+  isDisabled: z.boolean().catch(false),
+})
+
+const thunderAuthSchema = z.object({
+  type: z.string(),
+  basic: z
+    .object({
+      username: z.string().catch(""),
+      password: z.string().catch(""),
+    })
+    .optional(),
+  bearer: z.string().optional(),
+  oauth2: z.record(z.unknown()).optional(),
+  aws: z.record(z.unknown()).optional(),
+})
+
+const thunderSettingsSchema = z.object({
+  headers: z.array(thunderKeyValueSchema).catch([]),
+  auth: thunderAuthSchema.optional(),
+})
+
+const thunderFolderSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  containerId: z.string().catch(""),
+  sortNum: z.number().catch(0),
+  settings: thunderSettingsSchema.optional(),
+})
+
+const thunderRequestSchema = z.object({
+  name: z.string(),
+  url: z.string().catch(""),
+  method: z.string().catch("GET"),
+  containerId: z.string().catch(""),
+  sortNum: z.number().catch(0),
+  headers: z.array(thunderKeyValueSchema).catch([]),
+  params: z
+    .array(thunderKeyValueSchema.extend({ isPath: z.boolean().catch(false) }))
+    .catch([]),
+  body: z
+    .object({
+      type: z.string().catch("none"),
+      raw: z.string().catch(""),
+      form: z.array(thunderKeyValueSchema).catch([]),
+      files: z.array(thunderKeyValueSchema).catch([]),
+    })
+    .optional(),
+  auth: thunderAuthSchema.optional(),
+})
+
+const thunderCollectionSchema = z.object({
+  collectionName: z.string(),
+  folders: z.array(thunderFolderSchema).catch([]),
+  requests: z.array(thunderRequestSchema),
+  settings: thunderSettingsSchema.optional(),
+})
+
+type ThunderKeyValue = z.infer<typeof thunderKeyValueSchema>
+type ThunderAuth = z.infer<typeof thunderAuthSchema>
+type ThunderSettings = z.infer<typeof thunderSettingsSchema>
+type ThunderFolder = z.infer<typeof thunderFolderSchema>
+type ThunderRequest = z.infer<typeof thunderRequestSchema>
+
+// The system variables of Thunder Client (`{{#guid}}`) with a Hoppscotch
+// counterpart, the rest are left as they are
+const SYSTEM_VARIABLES: Record<string, string> = {
+  "#guid": "$guid",
+  "#timestamp": "$timestamp",
+  "#dateISO": "$isoTimestamp",
+  "#number": "$randomInt",
+  "#email": "$randomEmail",
+  "#name": "$randomFullName",
+}
+
+// Replaces the Thunder Client Templating ({{ ? }}) to the Hoppscotch one
+// (<< ? >>), dropping the filters (`{{name | upper}}`)
+export const replaceThunderClientTemplating = (str: string) =>
+  str.replace(/\{\{\s*([^}|\s]+)[^}]*\}\}/g, (match, name: string) => {
+    if (!name.startsWith("#")) return `<<${name}>>`
+
+    return name in SYSTEM_VARIABLES ? `<<${SYSTEM_VARIABLES[name]}>>` : match
+  })
+
+const getHoppOAuth2GrantType = (
+  grantType: unknown
+): HoppRESTAuthOAuth2GrantType => {
+  switch (grantType) {
+    case "client_credentials":
+      return "client_credentials"
+    case "password":
+      return "password"
+    case "implicit":
+      return "implicit"
+    default:
+      return "authorization_code"
+  }
+}
+
+const getHoppAuth = (auth: ThunderAuth): HoppRESTAuth => {
+  const getValue = (
+    config: Record<string, unknown> | undefined,
+    key: string
+  ) =>
+    typeof config?.[key] === "string"
+      ? replaceThunderClientTemplating(config[key] as string)
+      : ""
+
+  switch (auth.type) {
+    case "inherit":
+      return { authType: "inherit", authActive: true }
+    case "basic":
+      return {
+        authType: "basic",
+        authActive: true,
+        username: replaceThunderClientTemplating(auth.basic?.username ?? ""),
+        password: replaceThunderClientTemplating(auth.basic?.password ?? ""),
+      }
+    case "bearer":
+      return {
+        authType: "bearer",
+        authActive: true,
+        token: replaceThunderClientTemplating(auth.bearer ?? ""),
+      }
+    case "aws":
+      return {
+        authType: "aws-signature",
+        authActive: true,
+        accessKey: getValue(auth.aws, "accessKeyId"),
+        secretKey: getValue(auth.aws, "secretAccessKey"),
+        sessionToken: getValue(auth.aws, "sessionToken"),
+        region: getValue(auth.aws, "region"),
+        serviceName: getValue(auth.aws, "service"),
+        addTo: "Headers",
+      }
+    case "oauth2":
+      return {
+        authType: "oauth-2",
+        authActive: true,
+        grantType: getHoppOAuth2GrantType(auth.oauth2?.grantType),
+        authURL: getValue(auth.oauth2, "authUrl"),
+        accessTokenURL: getValue(auth.oauth2, "tokenUrl"),
+        clientID: getValue(auth.oauth2, "clientId"),
+        clientSecret: getValue(auth.oauth2, "clientSecret"),
+        scope: getValue(auth.oauth2, "scope"),
+        username: getValue(auth.oauth2, "username"),
+        password: getValue(auth.oauth2, "password"),
+        clientAuthentication:
+          auth.oauth2?.clientAuth === "in-header" ? "header" : "body",
+        token: "",
+        oidcDiscoveryURL: "",
+        refreshToken: "",
+        tokenExpiresAt: null,
+      }
+    default:
+      return { authType: "none", authActive: true }
+  }
+}
+
+const getHoppHeaders = (headers: ThunderKeyValue[]): HoppRESTHeader[] =>
+  headers.map(({ name, value, isDisabled }) => ({
+    key: replaceThunderClientTemplating(name),
+    value: replaceThunderClientTemplating(value),
+    active: !isDisabled,
+  }))
+
+const getHoppReqBody = (body: ThunderRequest["body"]): HoppRESTReqBody => {
+  switch (body?.type) {
+    case "json":
+      return {
+        contentType: "application/json",
+        body: replaceThunderClientTemplating(body.raw),
+      }
+    case "xml":
+      return {
+        contentType: "application/xml",
+        body: replaceThunderClientTemplating(body.raw),
+      }
+    case "text":
+      return {
+        contentType: "text/plain",
+        body: replaceThunderClientTemplating(body.raw),
+      }
+    case "formencoded":
+      return {
+        contentType: "application/x-www-form-urlencoded",
+        body: body.form
+          .filter(({ isDisabled }) => !isDisabled)
+          .map(({ name, value }) =>
+            replaceThunderClientTemplating(`${name}: ${value}`)
+          )
+          .join("\n"),
+      }
+    case "formdata":
+      return {
+        contentType: "multipart/form-data",
+        body: [
+          ...body.form.map(({ name, value, isDisabled }) => ({
+            key: replaceThunderClientTemplating(name),
+            value: replaceThunderClientTemplating(value),
+            isFile: false as const,
+            active: !isDisabled,
+          })),
+          // The files are referenced by their paths, they're left to be
+          // picked again
+          ...body.files.map(({ name, isDisabled }) => ({
+            key: replaceThunderClientTemplating(name),
+            value: [],
+            isFile: true as const,
+            active: !isDisabled,
+          })),
+        ],
+      }
+    case "binary":
+      return {
+        contentType: "application/octet-stream",
+        body: null,
+        fileContentType: "",
+      }
+    default:
+      return { contentType: null, body: null }
+  }
+}
+
+const getHoppRequest = (request: ThunderRequest): HoppRESTRequest => {
+  const [url, query = ""] = request.url.split(/\?(.*)/s)
+
+  const pathParams = request.params.filter(({ isPath }) => isPath)
+  let queryParams: ThunderKeyValue[] = request.params.filter(
+    ({ isPath }) => !isPath
+  )
+
+  if (queryParams.length === 0 && query !== "") {
+    queryParams = query.split("&").map((param) => {
+      const [name, value = ""] = param.split(/=(.*)/s)
+      return { name, value, isDisabled: false }
+    })
+  }
+
+  // The path params (`/users/{id}` or `/users/:id`) are mapped to request
+  // variables
+  const endpoint = replaceThunderClientTemplating(url).replace(
+    /\{([\w.-]+)\}|\/:([\w.-]+)/g,
+    (match, braced?: string, prefixed?: string) => {
+      const param = braced ?? prefixed!
+
+      if (!pathParams.some(({ name }) => name === param)) return match
+
+      return braced ? `<<${param}>>` : `/<<${param}>>`
+    }
+  )
+
+  const params: HoppRESTParam[] = queryParams.map(
+    ({ name, value, isDisabled }) => ({
+      key: replaceThunderClientTemplating(name),
+      value: replaceThunderClientTemplating(value),
+      active: !isDisabled,
+    })
+  )
+
+  return makeRESTRequest({
+    name: request.name,
+    endpoint,
+    method: request.method.toUpperCase(),
+    headers: getHoppHeaders(request.headers),
+    params,
+    // The requests without an auth inherit the one of their parents
+    auth: request.auth
+      ? getHoppAuth(request.auth)
+      : { authType: "inherit", authActive: true },
+    body: getHoppReqBody(request.body),
+    preRequestScript: "",
+    testScript: "",
+    requestVariables: pathParams.map(({ name, value, isDisabled }) => ({
+      key: name,
+      value: replaceThunderClientTemplating(value),
+      active: !isDisabled,
+    })),
+    responses: {},
+    settings: getDefaultRESTRequestSettings(),
+  })
+}
+
+const getHoppCollection = (
+  name: string,
+  containerId: string,
+  settings: ThunderSettings | undefined,
+  defaultAuth: HoppRESTAuth,
+  folders: ThunderFolder[],
+  requests: ThunderRequest[]
+): HoppCollection =>
+  makeCollection({
+    name,
+    folders: sortBy(
+      folders.filter((folder) => folder.containerId === containerId),
+      "sortNum"
+    ).map((folder) =>
+      getHoppCollection(
+        folder.name,
+        folder._id,
+        folder.settings,
+        { authType: "inherit", authActive: true },
+        folders,
+        requests
+      )
+    ),
+    requests: sortBy(
+      requests.filter((request) => request.containerId === containerId),
+      "sortNum"
+    ).map(getHoppRequest),
+    auth: settings?.auth ? getHoppAuth(settings.auth) : defaultAuth,
+    headers: getHoppHeaders(settings?.headers ?? []),
+    preRequestScript: "",
+    testScript: "",
+    variables: [],
+  })
+
+/**
+ * Imports a Thunder Client collection export
+ * @param content The contents of the file
+ */
+export const hoppThunderClientImporter = (
+  content: string
+): TE.TaskEither<typeof IMPORTER_INVALID_FILE_FORMAT, HoppCollection[]> => {
+  const parsedContent = safeParseJSON(content)
+
+  if (O.isNone(parsedContent)) {
+    return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+  }
+
+  const validationResult = thunderCollectionSchema.safeParse(
+    parsedContent.value
+  )
+
+  if (!validationResult.success) {
+    return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+  }
+
+  const { collectionName, settings, folders, requests } = validationResult.data
+
+  return TE.right([
+    getHoppCollection(
+      collectionName,
+      "",
+      settings,
+      { authType: "none", authActive: true },
+      folders,
+      requests
+    ),
+  ])
+}
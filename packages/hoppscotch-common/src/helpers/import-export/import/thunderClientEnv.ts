@@ -0,0 +1,69 @@
+import * as TE from "fp-ts/TaskEither"
+import * as O from "fp-ts/Option"
+
+import { IMPORTER_INVALID_FILE_FORMAT } from "."
+import { safeParseJSON } from "~/helpers/functional/json"
+
+import { z } from "zod"
+import { Environment } from "@hoppscotch/data"
+import { uniqueId } from "lodash-es"
+import { replaceThunderClientTemplating } from "./thunderClient"
+
+const thunderClientVariablesSchema = z.array(
+  z.object({
+    name: z.string(),
+    value: z.coerce.string().catch(""),
+  })
+)
+
+// The environment exports (Env > Export) and the environments of the
+// `thunderEnvironment.json` database file of the extension
+const thunderClientEnvSchema = z.union([
+  z
+    .object({
+      environmentName: z.string(),
+      variables: thunderClientVariablesSchema,
+    })
+    .transform(({ environmentName, variables }) => ({
+      name: environmentName,
+      variables,
+    })),
+  z
+    .object({ name: z.string(), data: thunderClientVariablesSchema })
+    .transform(({ name, data }) => ({ name, variables: data })),
+])
+
+export const thunderClientEnvImporter = (content: string) => {
+  const parsedContent = safeParseJSON(content)
+
+  if (O.isNone(parsedContent)) {
+    return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+  }
+
+  const validationResult = z
+    .union([thunderClientEnvSchema, z.array(thunderClientEnvSchema)])
+    .safeParse(parsedContent.value)
+
+  if (!validationResult.success) {
+    return TE.left(IMPORTER_INVALID_FILE_FORMAT)
+  }
+
+  const thunderClientEnvs = Array.isArray(validationResult.data)
+    ? validationResult.data
+    : [validationResult.data]
+
+  const environments: Environment[] = thunderClientEnvs.map(
+    ({ name, variables }) => ({
+      id: uniqueId(),
+      v: 1,
+      name,
+      variables: variables.map(({ name, value }) => ({
+        key: name,
+        value: replaceThunderClientTemplating(value),
+        secret: false,
+      })),
+    })
+  )
+
+  return TE.right(environments)
+}
@@ -1,12 +1,22 @@
-import { AxiosRequestConfig } from "axios"
+import { AxiosRequestConfig, Method } from "axios"
 import { BehaviorSubject, Observable } from "rxjs"
 import { cloneDeep } from "lodash-es"
 import * as E from "fp-ts/Either"
 import * as TE from "fp-ts/TaskEither"
+import { SendRequestHandler } from "@hoppscotch/js-sandbox"
+import {
+  HoppRESTAuthDigest,
+  generateDigestAuthHeader,
+  parseDigestChallenge,
+} from "@hoppscotch/data"
 import { HoppRESTResponse } from "./types/HoppRESTResponse"
-import { EffectiveHoppRESTRequest } from "./utils/EffectiveURL"
+import {
+  EffectiveHoppRESTRequest,
+  appendQueryParams,
+} from "./utils/EffectiveURL"
 import { getService } from "~/modules/dioc"
 import {
+  InterceptorRequest,
   InterceptorService,
   NetworkResponse,
 } from "~/services/interceptor.service"
@@ -46,6 +56,48 @@ function processResponse(
   }
 }
 
+/**
+ * Computes the `Authorization` header responding to the Digest challenge
+ * the server sent along with a 401 response
+ * @param res The response to the request without the Digest authorization
+ * @param req The request to authorize
+ * @param auth The Digest auth config with the environment variables applied
+ * @returns The value of the header, null if there's no challenge to respond to
+ */
+function getDigestAuthRetryHeader(
+  res: NetworkResponse,
+  req: EffectiveHoppRESTRequest,
+  auth: HoppRESTAuthDigest
+) {
+  if (res.status !== 401) return null
+
+  const wwwAuthenticate = Object.entries(res.headers).find(
+    ([key]) => key.toLowerCase() === "www-authenticate"
+  )?.[1]
+
+  const challenge =
+    typeof wwwAuthenticate === "string"
+      ? parseDigestChallenge(wwwAuthenticate)
+      : null
+
+  if (!challenge) return null
+
+  return generateDigestAuthHeader(
+    { ...auth, ...challenge },
+    {
+      method: req.method,
+      url: appendQueryParams(
+        req.effectiveFinalURL.trim(),
+        req.effectiveFinalParams
+      ),
+      body:
+        typeof req.effectiveFinalBody === "string"
+          ? req.effectiveFinalBody
+          : null,
+    }
+  )
+}
+
 export function createRESTNetworkRequestStream(
   request: EffectiveHoppRESTRequest
 ): [Observable<HoppRESTResponse>, () => void] {
@@ -69,15 +121,43 @@ export function createRESTNetworkRequestStream(
 
   const service = getService(InterceptorService)
 
-  const res = service.runRequest({
+  const requestConfig: InterceptorRequest = {
     method: req.method as any,
     url: req.effectiveFinalURL.trim(),
     headers,
     params,
     data: req.effectiveFinalBody,
+    settings: req.settings,
+  }
+
+  let runningRequest = service.runRequest(requestConfig)
+
+  // Digest auth takes a round trip, the request is retried with the
+  // `Authorization` header responding to the challenge of the server
+  const result = runningRequest.response.then((res) => {
+    const authorization =
+      req.effectiveFinalDigestAuth && E.isRight(res)
+        ? getDigestAuthRetryHeader(res.right, req, req.effectiveFinalDigestAuth)
+        : null
+
+    if (!authorization) return res
+
+    runningRequest = service.runRequest({
+      ...requestConfig,
+      headers: {
+        ...Object.fromEntries(
+          Object.entries(headers).filter(
+            ([key]) => key.toLowerCase() !== "authorization"
+          )
+        ),
+        Authorization: authorization,
+      },
+    })
+
+    return runningRequest.response
   })
 
-  res.response.then((res) => {
+  result.then((res) => {
     const backupTimeEnd = Date.now()
 
     if (E.isRight(res)) {
@@ -103,5 +183,49 @@ export function createRESTNetworkRequestStream(
     response.complete()
   })
 
-  return [response, () => res.cancel()]
+  return [response, () => runningRequest.cancel()]
+}
+
+/**
+ * Runs the requests made from the pre-request and test scripts with
+ * `pw.sendRequest` through the currently selected interceptor
+ * @param request The request made from the script
+ * @returns The response with the body decoded as text, rejects if the request fails
+ */
+export const sendScriptRequest: SendRequestHandler = async (request) => {
+  const service = getService(InterceptorService)
+
+  const res = await service.runRequest({
+    method: request.method as Method,
+    url: request.url.trim(),
+    headers: request.headers.reduce((acc, { key, value }) => {
+      return Object.assign(acc, { [key]: value })
+    }, {}),
+    data: request.body ?? undefined,
+  }).response
+
+  if (E.isLeft(res)) {
+    throw new Error(
+      res.left === "cancellation"
+        ? "The request was cancelled"
+        : `The request to ${request.url} failed`
+    )
+  }
+
+  const { status, statusText, headers, data } = res.right
+
+  return {
+    status,
+    statusText,
+    headers: Object.keys(headers).map((key) => ({
+      key,
+      value: headers[key],
+    })),
+    body:
+      data instanceof ArrayBuffer
+        ? new TextDecoder("utf-8").decode(data)
+        : typeof data === "string"
+          ? data
+          : JSON.stringify(data ?? ""),
+  }
 }
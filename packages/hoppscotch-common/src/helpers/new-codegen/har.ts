@@ -98,6 +98,17 @@ const buildHarPostData = (req: HoppRESTRequest): Har.PostData | undefined => {
     }
   }
 
+  // The contents of the file can't be a part of the generated code
+  if (req.body.contentType === "application/octet-stream") {
+    return {
+      mimeType:
+        req.body.fileContentType ||
+        req.body.body?.type ||
+        "application/octet-stream",
+      text: "",
+    }
+  }
+
   return {
     mimeType: req.body.contentType, // Let's assume by default content type is JSON
     text: req.body.body,
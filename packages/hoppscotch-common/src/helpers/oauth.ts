@@ -6,6 +6,12 @@ import { z } from "zod"
 import { InterceptorService } from "~/services/interceptor.service"
 
 import { AxiosRequestConfig } from "axios"
+import {
+  HoppRESTAuthOAuth2,
+  HoppRESTAuthOAuth2GrantType,
+  parseTemplateString,
+} from "@hoppscotch/data"
+import { getCombinedEnvVariables } from "./preRequest"
 
 const redirectUri = `${window.location.origin}/oauth`
 
@@ -125,100 +131,365 @@ const pkceChallengeFromVerifier = async (v: string) => {
 
 type TokenRequestParams = {
   oidcDiscoveryUrl: string
-  grantType: string
+  grantType: HoppRESTAuthOAuth2GrantType
   authUrl: string
   accessTokenUrl: string
   clientId: string
   clientSecret: string
   scope: string
+  username: string
+  password: string
+  clientAuthentication: HoppRESTAuthOAuth2["clientAuthentication"]
 }
 
 /**
- * Initiates PKCE Auth Code flow when requested
+ * Resolves the authorization and token endpoints, from the
+ * OpenID Discovery endpoint if one is given
  *
  * @param {Object} - The necessary params
- * @returns {Void}
+ * @returns {Promise<Object>}
  */
 
-const tokenRequest = async ({
+const resolveEndpoints = async ({
   oidcDiscoveryUrl,
-  grantType,
   authUrl,
   accessTokenUrl,
-  clientId,
-  clientSecret,
-  scope,
 }: TokenRequestParams) => {
-  if (oidcDiscoveryUrl) {
-    const res = await getTokenConfiguration(oidcDiscoveryUrl)
+  if (!oidcDiscoveryUrl) {
+    return E.right({ authUrl, accessTokenUrl })
+  }
 
-    const OIDCConfigurationSchema = z.object({
-      authorization_endpoint: z.string(),
-      token_endpoint: z.string(),
-    })
+  const res = await getTokenConfiguration(oidcDiscoveryUrl)
 
-    if (E.isLeft(res)) {
-      return E.left("OIDC_DISCOVERY_FAILED" as const)
-    }
+  const OIDCConfigurationSchema = z.object({
+    authorization_endpoint: z.string().optional(),
+    token_endpoint: z.string(),
+  })
 
-    const parsedOIDCConfiguration = OIDCConfigurationSchema.safeParse(res.right)
+  if (E.isLeft(res)) {
+    return E.left("OIDC_DISCOVERY_FAILED" as const)
+  }
 
-    if (!parsedOIDCConfiguration.success) {
-      return E.left("OIDC_DISCOVERY_FAILED" as const)
-    }
+  const parsedOIDCConfiguration = OIDCConfigurationSchema.safeParse(res.right)
+
+  if (!parsedOIDCConfiguration.success) {
+    return E.left("OIDC_DISCOVERY_FAILED" as const)
+  }
+
+  return E.right({
+    authUrl: parsedOIDCConfiguration.data.authorization_endpoint ?? authUrl,
+    accessTokenUrl: parsedOIDCConfiguration.data.token_endpoint,
+  })
+}
+
+const OAuth2TokenResponse = z.object({
+  access_token: z.string(),
+  refresh_token: z.string().optional().catch(undefined),
+  expires_in: z.coerce.number().optional().catch(undefined),
+})
+
+type OAuth2TokenResponse = z.infer<typeof OAuth2TokenResponse>
+
+/**
+ * Gets the fields of the OAuth 2.0 authorization to update from a token response
+ *
+ * @param {Object} tokenResponse - The response of the token endpoint
+ * @param {String} refreshToken - The refresh token to keep if the response doesn't include a new one
+ * @returns {Object}
+ */
+
+const getOAuth2TokenFields = (
+  tokenResponse: OAuth2TokenResponse,
+  refreshToken = ""
+): Pick<HoppRESTAuthOAuth2, "token" | "refreshToken" | "tokenExpiresAt"> => ({
+  token: tokenResponse.access_token,
+  refreshToken: tokenResponse.refresh_token ?? refreshToken,
+  tokenExpiresAt:
+    tokenResponse.expires_in !== undefined
+      ? Date.now() + tokenResponse.expires_in * 1000
+      : null,
+})
+
+// Tokens expiring within this margin (in millis) are taken as expired, so they
+// don't expire on the way to the server or due to a clock skew
+const OAUTH2_TOKEN_EXPIRY_BUFFER_MS = 30 * 1000
+
+/**
+ * Checks whether the access token of the OAuth 2.0 authorization has expired
+ * (or is about to)
+ *
+ * @param {Object} auth - The OAuth 2.0 authorization
+ * @returns {Boolean}
+ */
+
+const isOAuth2TokenExpired = (
+  auth: Pick<HoppRESTAuthOAuth2, "token" | "tokenExpiresAt">
+) =>
+  !!auth.token &&
+  auth.tokenExpiresAt !== null &&
+  auth.tokenExpiresAt - OAUTH2_TOKEN_EXPIRY_BUFFER_MS <= Date.now()
+
+/**
+ * Requests an access token from the token endpoint, sending the client
+ * credentials as a basic auth header or as part of the body
+ *
+ * @param {String} tokenEndpoint - The token endpoint
+ * @param {URLSearchParams} data - The grant specific params of the request
+ * @param {Object} - The client credentials and how to send them
+ * @returns {Promise<Object>}
+ */
+
+const requestAccessToken = async (
+  tokenEndpoint: string,
+  data: URLSearchParams,
+  {
+    clientId,
+    clientSecret,
+    clientAuthentication,
+  }: Pick<
+    TokenRequestParams,
+    "clientId" | "clientSecret" | "clientAuthentication"
+  >
+) => {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  }
+
+  if (clientAuthentication === "header") {
+    headers.Authorization = `Basic ${btoa(
+      `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`
+    )}`
+  } else {
+    data.append("client_id", clientId)
 
-    authUrl = parsedOIDCConfiguration.data.authorization_endpoint
-    accessTokenUrl = parsedOIDCConfiguration.data.token_endpoint
+    if (clientSecret) data.append("client_secret", clientSecret)
   }
+
+  const tokenResponse = await runRequestThroughInterceptor({
+    url: tokenEndpoint,
+    data: data.toString(),
+    method: "POST",
+    headers,
+  })
+
+  if (E.isLeft(tokenResponse)) {
+    return E.left("AUTH_TOKEN_REQUEST_FAILED" as const)
+  }
+
+  try {
+    const parsedTokenResponse = OAuth2TokenResponse.safeParse(
+      JSON.parse(tokenResponse.right)
+    )
+
+    return parsedTokenResponse.success
+      ? E.right(parsedTokenResponse.data)
+      : E.left("AUTH_TOKEN_REQUEST_INVALID_RESPONSE" as const)
+  } catch (e) {
+    return E.left("AUTH_TOKEN_REQUEST_INVALID_RESPONSE" as const)
+  }
+}
+
+/**
+ * Initiates the Auth Code (with PKCE) or the Implicit flow when requested,
+ * by redirecting to the authorization server
+ *
+ * @param {Object} - The necessary params
+ * @returns {Void}
+ */
+
+const tokenRequest = async (params: TokenRequestParams) => {
+  const endpoints = await resolveEndpoints(params)
+
+  if (E.isLeft(endpoints)) {
+    return endpoints
+  }
+
+  const { authUrl, accessTokenUrl } = endpoints.right
+  const { grantType, clientId, clientSecret, clientAuthentication, scope } =
+    params
+
   // Store oauth information
   persistenceService.setLocalConfig("tokenEndpoint", accessTokenUrl)
   persistenceService.setLocalConfig("client_id", clientId)
   persistenceService.setLocalConfig("client_secret", clientSecret)
+  persistenceService.setLocalConfig(
+    "client_authentication",
+    clientAuthentication
+  )
 
   // Create and store a random state value
   const state = generateRandomString()
   persistenceService.setLocalConfig("pkce_state", state)
 
-  // Create and store a new PKCE codeVerifier (the plaintext random secret)
-  const codeVerifier = generateRandomString()
-  persistenceService.setLocalConfig("pkce_codeVerifier", codeVerifier)
-
-  // Hash and base64-urlencode the secret to use as the challenge
-  const codeChallenge = await pkceChallengeFromVerifier(codeVerifier)
-
-  // Build the authorization URL
-  const buildUrl = () =>
-    `${authUrl + `?response_type=${grantType}`}&client_id=${encodeURIComponent(
-      clientId
-    )}&state=${encodeURIComponent(state)}&scope=${encodeURIComponent(
-      scope
-    )}&redirect_uri=${encodeURIComponent(
-      redirectUri
-    )}&code_challenge=${encodeURIComponent(
-      codeChallenge
-    )}&code_challenge_method=S256`
+  const authorizationParams = new URLSearchParams({
+    response_type: grantType === "implicit" ? "token" : "code",
+    client_id: clientId,
+    state,
+    scope,
+    redirect_uri: redirectUri,
+  })
+
+  if (grantType === "authorization_code") {
+    // Create and store a new PKCE codeVerifier (the plaintext random secret)
+    const codeVerifier = generateRandomString()
+    persistenceService.setLocalConfig("pkce_codeVerifier", codeVerifier)
+
+    // Hash and base64-urlencode the secret to use as the challenge
+    const codeChallenge = await pkceChallengeFromVerifier(codeVerifier)
+
+    authorizationParams.append("code_challenge", codeChallenge)
+    authorizationParams.append("code_challenge_method", "S256")
+  }
 
   // Redirect to the authorization server
-  window.location.assign(buildUrl())
+  window.location.assign(`${authUrl}?${authorizationParams.toString()}`)
+}
+
+/**
+ * Gets an access token directly from the token endpoint
+ * with the Client Credentials or the Password grant
+ *
+ * @param {Object} - The necessary params
+ * @returns {Promise<Object>}
+ */
+
+const fetchAccessToken = async (params: TokenRequestParams) => {
+  const endpoints = await resolveEndpoints(params)
+
+  if (E.isLeft(endpoints)) {
+    return endpoints
+  }
+
+  if (!endpoints.right.accessTokenUrl) {
+    return E.left("NO_TOKEN_ENDPOINT" as const)
+  }
+
+  const data = new URLSearchParams({ grant_type: params.grantType })
+
+  if (params.scope) data.append("scope", params.scope)
+
+  if (params.grantType === "password") {
+    data.append("username", params.username)
+    data.append("password", params.password)
+  }
+
+  return requestAccessToken(endpoints.right.accessTokenUrl, data, params)
+}
+
+/**
+ * Gets a new access token from the token endpoint with the Refresh Token grant
+ *
+ * @param {Object} - The necessary params
+ * @param {String} refreshToken - The refresh token to exchange
+ * @returns {Promise<Object>}
+ */
+
+const refreshAccessToken = async (
+  params: TokenRequestParams,
+  refreshToken: string
+) => {
+  const endpoints = await resolveEndpoints(params)
+
+  if (E.isLeft(endpoints)) {
+    return endpoints
+  }
+
+  if (!endpoints.right.accessTokenUrl) {
+    return E.left("NO_TOKEN_ENDPOINT" as const)
+  }
+
+  const data = new URLSearchParams({
+    grant_type: "refresh_token",
+    refresh_token: refreshToken,
+  })
+
+  if (params.scope) data.append("scope", params.scope)
+
+  return requestAccessToken(endpoints.right.accessTokenUrl, data, params)
+}
+
+/**
+ * Refreshes the access token of the OAuth 2.0 authorization, if it has expired
+ * and there is a refresh token to get a new one with
+ *
+ * @param {Object} auth - The OAuth 2.0 authorization
+ * @returns {Promise<Object>} The authorization with the new token, or the same
+ * one if it didn't need to be refreshed
+ */
+
+const refreshExpiredOAuth2Token = async <Auth extends HoppRESTAuthOAuth2>(
+  auth: Auth
+) => {
+  if (!isOAuth2TokenExpired(auth) || !auth.refreshToken) {
+    return E.right(auth)
+  }
+
+  const envs = getCombinedEnvVariables()
+  const envVars = [...envs.selected, ...envs.global]
+
+  const res = await refreshAccessToken(
+    {
+      grantType: auth.grantType,
+      oidcDiscoveryUrl: parseTemplateString(auth.oidcDiscoveryURL, envVars),
+      authUrl: parseTemplateString(auth.authURL, envVars),
+      accessTokenUrl: parseTemplateString(auth.accessTokenURL, envVars),
+      clientId: parseTemplateString(auth.clientID, envVars),
+      clientSecret: parseTemplateString(auth.clientSecret, envVars),
+      scope: parseTemplateString(auth.scope, envVars),
+      username: parseTemplateString(auth.username, envVars),
+      password: parseTemplateString(auth.password, envVars),
+      clientAuthentication: auth.clientAuthentication,
+    },
+    auth.refreshToken
+  )
+
+  if (E.isLeft(res)) {
+    return res
+  }
+
+  return E.right({
+    ...auth,
+    ...getOAuth2TokenFields(res.right, auth.refreshToken),
+  })
 }
 
 // OAUTH REDIRECT HANDLING
 
 /**
- * Handle the redirect back from the authorization server and
- * get an access token from the token endpoint
+ * Handle the redirect back from the authorization server and get an
+ * access token from the token endpoint, or from the redirect itself
+ * for the implicit flow
  *
  * @returns {Promise<any | void>}
  */
 
 const handleOAuthRedirect = async () => {
   const queryParams = parseQueryString(window.location.search.substring(1))
+  const hashParams = parseQueryString(window.location.hash.substring(1))
 
   // Check if the server returned an error string
-  if (queryParams.error) {
+  if (queryParams.error || hashParams.error) {
     return E.left("AUTH_SERVER_RETURNED_ERROR" as const)
   }
 
+  // The implicit flow returns the access token in the URL fragment
+  if (hashParams.access_token) {
+    const isStateValid =
+      persistenceService.getLocalConfig("pkce_state") === hashParams.state
+
+    clearPKCEState()
+
+    return isStateValid
+      ? E.right(
+          OAuth2TokenResponse.parse({
+            access_token: decodeURIComponent(hashParams.access_token),
+            expires_in: hashParams.expires_in,
+          })
+        )
+      : E.left("INVALID_STATE" as const)
+  }
+
   if (!queryParams.code) {
     return E.left("NO_AUTH_CODE" as const)
   }
@@ -233,6 +504,10 @@ const handleOAuthRedirect = async () => {
   const clientID = persistenceService.getLocalConfig("client_id")
   const clientSecret = persistenceService.getLocalConfig("client_secret")
   const codeVerifier = persistenceService.getLocalConfig("pkce_codeVerifier")
+  const clientAuthentication =
+    persistenceService.getLocalConfig("client_authentication") === "header"
+      ? "header"
+      : "body"
 
   if (!tokenEndpoint) {
     return E.left("NO_TOKEN_ENDPOINT" as const)
@@ -253,40 +528,21 @@ const handleOAuthRedirect = async () => {
   const data = new URLSearchParams({
     grant_type: "authorization_code",
     code: queryParams.code,
-    client_id: clientID,
-    client_secret: clientSecret,
     redirect_uri: redirectUri,
     code_verifier: codeVerifier,
   })
 
   // Exchange the authorization code for an access token
-  const tokenResponse = await runRequestThroughInterceptor({
-    url: tokenEndpoint,
-    data: data.toString(),
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
+  const tokenResponse = await requestAccessToken(tokenEndpoint, data, {
+    clientId: clientID,
+    clientSecret,
+    clientAuthentication,
   })
 
   // Clean these up since we don't need them anymore
   clearPKCEState()
 
-  if (E.isLeft(tokenResponse)) {
-    return E.left("AUTH_TOKEN_REQUEST_FAILED" as const)
-  }
-
-  const withAccessTokenSchema = z.object({
-    access_token: z.string(),
-  })
-
-  const parsedTokenResponse = withAccessTokenSchema.safeParse(
-    JSON.parse(tokenResponse.right)
-  )
-
-  return parsedTokenResponse.success
-    ? E.right(parsedTokenResponse.data)
-    : E.left("AUTH_TOKEN_REQUEST_INVALID_RESPONSE" as const)
+  return tokenResponse
 }
 
 const clearPKCEState = () => {
@@ -295,6 +551,7 @@ const clearPKCEState = () => {
   persistenceService.removeLocalConfig("tokenEndpoint")
   persistenceService.removeLocalConfig("client_id")
   persistenceService.removeLocalConfig("client_secret")
+  persistenceService.removeLocalConfig("client_authentication")
 }
 
 async function runRequestThroughInterceptor(config: AxiosRequestConfig) {
@@ -313,4 +570,11 @@ async function runRequestThroughInterceptor(config: AxiosRequestConfig) {
   return E.right(data)
 }
 
-export { tokenRequest, handleOAuthRedirect }
+export {
+  tokenRequest,
+  fetchAccessToken,
+  handleOAuthRedirect,
+  getOAuth2TokenFields,
+  isOAuth2TokenExpired,
+  refreshExpiredOAuth2Token,
+}
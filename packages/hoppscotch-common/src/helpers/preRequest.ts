@@ -1,15 +1,16 @@
 import * as E from "fp-ts/Either"
 import { runPreRequestScript } from "@hoppscotch/js-sandbox/web"
-import { Environment } from "@hoppscotch/data"
+import { Environment, HoppRESTRequest } from "@hoppscotch/data"
 import { cloneDeep } from "lodash-es"
 
 import {
   getCurrentEnvironment,
   getGlobalVariables,
 } from "~/newstore/environments"
-import { TestResult } from "@hoppscotch/js-sandbox"
+import { PreRequestResult } from "@hoppscotch/js-sandbox"
 import { getService } from "~/modules/dioc"
 import { SecretEnvironmentService } from "~/services/secret-environment.service"
+import { sendScriptRequest } from "./network"
 
 const secretEnvironmentService = getService(SecretEnvironmentService)
 
@@ -79,6 +80,14 @@ export const getFinalEnvsFromPreRequest = (
   envs: {
     global: Environment["variables"]
     selected: Environment["variables"]
-  }
-): Promise<E.Either<string, TestResult["envs"]>> =>
-  runPreRequestScript(script, envs)
+  },
+  request: HoppRESTRequest
+): Promise<E.Either<string, PreRequestResult>> =>
+  runPreRequestScript(
+    script,
+    envs,
+    undefined,
+    sendScriptRequest,
+    // The request is posted to the web worker, which can't receive reactive proxies
+    cloneDeep(request)
+  )
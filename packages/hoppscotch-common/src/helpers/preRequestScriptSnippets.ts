@@ -18,4 +18,9 @@ const max = 1000
 const randomArbitrary = Math.random() * (max - min) + min
 pw.env.set("randomNumber", randomArbitrary.toString());`,
   },
+  {
+    name: "Request: Set a request header",
+    script: `\n\n// Set a header on the request being sent
+pw.request.setHeader("X-Request-Time", Date.now().toString());`,
+  },
 ]
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "vitest"
+import {
+  getResponseExample,
+  parseExampleHeaders,
+  stringifyExampleHeaders,
+} from "../examples"
+
+describe("getResponseExample", () => {
+  test("creates an example from a response", () => {
+    expect(
+      getResponseExample({
+        type: "success",
+        headers: [{ key: "content-type", value: "application/json" }],
+        body: new TextEncoder().encode('{"ok":true}').buffer,
+        statusCode: 201,
+        statusText: "Created",
+        meta: { responseSize: 11, responseDuration: 10 },
+        req: {} as never,
+      })
+    ).toEqual({
+      code: 201,
+      status: "Created",
+      headers: [{ key: "content-type", value: "application/json" }],
+      body: '{"ok":true}',
+    })
+  })
+})
+
+describe("parseExampleHeaders", () => {
+  test("parses raw header lines", () => {
+    expect(
+      parseExampleHeaders("content-type: text/plain\n\nx-time: 10:30\nx-empty")
+    ).toEqual([
+      { key: "content-type", value: "text/plain" },
+      { key: "x-time", value: "10:30" },
+      { key: "x-empty", value: "" },
+    ])
+  })
+
+  test("round trips headers stringified with stringifyExampleHeaders", () => {
+    const headers = [
+      { key: "content-type", value: "application/json" },
+      { key: "x-id", value: "1" },
+    ]
+
+    expect(parseExampleHeaders(stringifyExampleHeaders(headers))).toEqual(
+      headers
+    )
+  })
+})
@@ -1,4 +1,8 @@
-import { HoppRESTRequest, RESTReqSchemaVersion } from "@hoppscotch/data"
+import {
+  HoppRESTRequest,
+  RESTReqSchemaVersion,
+  getDefaultRESTRequestSettings,
+} from "@hoppscotch/data"
 
 export const getDefaultRESTRequest = (): HoppRESTRequest => ({
   v: RESTReqSchemaVersion,
@@ -17,4 +21,6 @@ export const getDefaultRESTRequest = (): HoppRESTRequest => ({
     contentType: null,
     body: null,
   },
+  settings: getDefaultRESTRequestSettings(),
+  requestVariables: [],
 })
@@ -0,0 +1,51 @@
+import { HoppRESTRequestResponse } from "@hoppscotch/data"
+import { HoppRESTResponse } from "../types/HoppRESTResponse"
+
+/**
+ * Creates a saved example out of a response received for a request
+ * @param response The (successful or failed) response to save
+ * @returns The example to store against the request
+ */
+export function getResponseExample(
+  response: HoppRESTResponse & { type: "success" | "fail" }
+): HoppRESTRequestResponse {
+  return {
+    code: response.statusCode,
+    status: response.statusText,
+    headers: response.headers.map(({ key, value }) => ({ key, value })),
+    body: new TextDecoder("utf-8").decode(response.body).replaceAll("\x00", ""),
+  }
+}
+
+/**
+ * Converts the headers of an example into raw `key: value` lines for editing
+ * @param headers The headers of the example
+ */
+export function stringifyExampleHeaders(
+  headers: HoppRESTRequestResponse["headers"]
+) {
+  return headers.map(({ key, value }) => `${key}: ${value}`).join("\n")
+}
+
+/**
+ * Parses raw `key: value` lines back into the headers of an example,
+ * lines without a key are dropped
+ * @param raw The raw header lines
+ */
+export function parseExampleHeaders(
+  raw: string
+): HoppRESTRequestResponse["headers"] {
+  return raw
+    .split("\n")
+    .map((line) => {
+      const separatorIndex = line.indexOf(":")
+
+      return separatorIndex === -1
+        ? { key: line.trim(), value: "" }
+        : {
+            key: line.slice(0, separatorIndex).trim(),
+            value: line.slice(separatorIndex + 1).trim(),
+          }
+    })
+    .filter(({ key }) => key !== "")
+}
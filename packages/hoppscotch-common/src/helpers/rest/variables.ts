@@ -0,0 +1,67 @@
+import { HoppRESTRequest } from "@hoppscotch/data"
+import { HoppInheritedProperty } from "../types/HoppInheritedProperties"
+
+/**
+ * A request or collection variable, in the format of the environment variables
+ * (tagged with the name of the request or collection it's defined in)
+ */
+export type ScopedVariable = {
+  key: string
+  value: string
+  secret: false
+  sourceEnv: string
+}
+
+/**
+ * Returns the active variables defined in a request
+ * @param request The request to get the variables of
+ * @returns The variables, in the order they're defined in the request
+ */
+export const getRequestVariables = (
+  request: HoppRESTRequest
+): ScopedVariable[] =>
+  // Requests saved before the variables were introduced don't have them
+  (request.requestVariables ?? [])
+    .filter((variable) => variable.active && variable.key !== "")
+    .map(({ key, value }) => ({
+      key,
+      value,
+      secret: false,
+      sourceEnv: request.name,
+    }))
+
+/**
+ * Returns the active variables a request inherits from its parent collections
+ * @param inheritedProperties The properties inherited by the request
+ * @returns The variables, the ones of the innermost folder first
+ */
+export const getInheritedVariables = (
+  inheritedProperties?: HoppInheritedProperty
+): ScopedVariable[] =>
+  [...(inheritedProperties?.variables ?? [])]
+    .reverse()
+    .flatMap(({ parentName, inheritedVariables }) =>
+      inheritedVariables
+        .filter((variable) => variable.active && variable.key !== "")
+        .map(({ key, value }) => ({
+          key,
+          value,
+          secret: false as const,
+          sourceEnv: parentName,
+        }))
+    )
+
+/**
+ * Returns the variables scoped to a request, in the order of their precedence
+ * (the request variables, followed by the ones of its innermost folder, up to
+ * the ones of its collection)
+ * @param request The request to get the variables of
+ * @param inheritedProperties The properties inherited by the request
+ */
+export const getScopedVariables = (
+  request: HoppRESTRequest,
+  inheritedProperties?: HoppInheritedProperty
+): ScopedVariable[] => [
+  ...getRequestVariables(request),
+  ...getInheritedVariables(inheritedProperties),
+]
@@ -61,6 +61,34 @@ const transitionRuleset = [
       body: null,
     }),
   }),
+  rule({
+    from: ANY_TYPE,
+    to: "application/octet-stream",
+    definition: () => ({
+      contentType: "application/octet-stream",
+      body: null,
+      fileContentType: "",
+    }),
+  }),
+  rule({
+    from: "application/octet-stream",
+    to: "multipart/form-data",
+    definition: () => ({
+      contentType: "multipart/form-data",
+      body: [],
+    }),
+  }),
+  rule({
+    from: "application/octet-stream",
+    to: ANY_TYPE,
+    definition: (_, target) => ({
+      contentType: target as Exclude<
+        ValidContentTypes,
+        "multipart/form-data" | "application/octet-stream"
+      >,
+      body: "",
+    }),
+  }),
   rule({
     from: null,
     to: ANY_TYPE,
@@ -68,7 +96,7 @@ const transitionRuleset = [
       contentType: targetType as unknown as Exclude<
         // This is guaranteed by the above rules, we just can't tell TS this
         ValidContentTypes,
-        "multipart/form-data"
+        "multipart/form-data" | "application/octet-stream"
       >,
       body: "",
     }),
@@ -124,7 +152,10 @@ const transitionRuleset = [
     from: "multipart/form-data",
     to: ANY_TYPE,
     definition: (_, target) => ({
-      contentType: target as Exclude<ValidContentTypes, "multipart/form-data">,
+      contentType: target as Exclude<
+        ValidContentTypes,
+        "multipart/form-data" | "application/octet-stream"
+      >,
       body: "",
     }),
   }),
@@ -132,7 +163,10 @@ const transitionRuleset = [
     from: "application/x-www-form-urlencoded",
     to: ANY_TYPE,
     definition: (_, target) => ({
-      contentType: target as Exclude<ValidContentTypes, "multipart/form-data">,
+      contentType: target as Exclude<
+        ValidContentTypes,
+        "multipart/form-data" | "application/octet-stream"
+      >,
       body: "",
     }),
   }),
@@ -151,14 +185,18 @@ const transitionRuleset = [
       contentType: targetType as Exclude<
         // Above rules ensure this will be the case
         ValidContentTypes,
-        "multipart/form-data" | "application/x-www-form-urlencoded"
+        | "multipart/form-data"
+        | "application/x-www-form-urlencoded"
+        | "application/octet-stream"
       >,
       // Again, above rules ensure this will be the case, can't convince TS tho
       body: (
         curr as HoppRESTReqBody & {
           contentType: Exclude<
             ValidContentTypes,
-            "multipart/form-data" | "application/x-www-form-urlencoded"
+            | "multipart/form-data"
+            | "application/x-www-form-urlencoded"
+            | "application/octet-stream"
           >
         }
       ).body,
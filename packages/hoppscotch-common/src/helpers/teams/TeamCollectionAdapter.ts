@@ -3,6 +3,7 @@ import { BehaviorSubject, Subscription } from "rxjs"
 import {
   HoppRESTAuth,
   HoppRESTHeader,
+  HoppRESTRequestVariables,
   translateToNewRequest,
 } from "@hoppscotch/data"
 import { pull, remove } from "lodash-es"
@@ -1037,7 +1038,7 @@ export default class NewTeamCollectionAdapter {
   /**
    * Used to obtain the inherited auth and headers for a given folder path, used for both REST and GraphQL team collections
    * @param folderPath the path of the folder to cascade the auth from
-   * @returns the inherited auth and headers for the given folder path
+   * @returns the inherited auth, headers, scripts and variables for the given folder path
    */
   public cascadeParentCollectionForHeaderAuth(folderPath: string) {
     let auth: HoppInheritedProperty["auth"] = {
@@ -1049,15 +1050,17 @@ export default class NewTeamCollectionAdapter {
       },
     }
     const headers: HoppInheritedProperty["headers"] = []
+    const scripts: NonNullable<HoppInheritedProperty["scripts"]> = []
+    const variables: NonNullable<HoppInheritedProperty["variables"]> = []
 
-    if (!folderPath) return { auth, headers }
+    if (!folderPath) return { auth, headers, scripts, variables }
 
     const path = folderPath.split("/")
 
     // Check if the path is empty or invalid
     if (!path || path.length === 0) {
       console.error("Invalid path:", folderPath)
-      return { auth, headers }
+      return { auth, headers, scripts, variables }
     }
 
     // Loop through the path and get the last parent folder with authType other than 'inherit'
@@ -1067,12 +1070,15 @@ export default class NewTeamCollectionAdapter {
       // Check if parentFolder is undefined or null
       if (!parentFolder) {
         console.error("Parent folder not found for path:", path)
-        return { auth, headers }
+        return { auth, headers, scripts, variables }
       }
 
       const data: {
         auth: HoppRESTAuth
         headers: HoppRESTHeader[]
+        preRequestScript?: string
+        testScript?: string
+        variables?: HoppRESTRequestVariables
       } = parentFolder.data
         ? JSON.parse(parentFolder.data)
         : {
@@ -1137,8 +1143,21 @@ export default class NewTeamCollectionAdapter {
           }
         })
       }
+
+      scripts.push({
+        parentID: path.slice(0, i + 1).join("/"),
+        parentName: parentFolder.title,
+        preRequestScript: data.preRequestScript ?? "",
+        testScript: data.testScript ?? "",
+      })
+
+      variables.push({
+        parentID: path.slice(0, i + 1).join("/"),
+        parentName: parentFolder.title,
+        inheritedVariables: data.variables ?? [],
+      })
     }
 
-    return { auth, headers }
+    return { auth, headers, scripts, variables }
   }
 }
@@ -16,6 +16,19 @@ pw.test("Status code is 200", ()=> {
     script: `\n\n// Check JSON response property
 pw.test("Check JSON response property", ()=> {
     pw.expect(pw.response.body.method).toBe("GET");
+});`,
+  },
+  {
+    name: "Response: Body matches JSON Schema",
+    script: `\n\n// Check JSON response body against a JSON Schema
+pw.test("Response body matches the schema", ()=> {
+    pw.expect(pw.response.body).toMatchSchema({
+        type: "object",
+        required: ["method"],
+        properties: {
+            method: { type: "string" },
+        },
+    });
 });`,
   },
   {
@@ -3,6 +3,7 @@ import {
   HoppGQLAuth,
   HoppRESTHeader,
   HoppRESTAuth,
+  HoppRESTRequestVariables,
 } from "@hoppscotch/data"
 
 export type HoppInheritedProperty = {
@@ -16,4 +17,23 @@ export type HoppInheritedProperty = {
     parentName: string
     inheritedHeader: HoppRESTHeader | GQLHeader
   }[]
+  /**
+   * Scripts of the parent collections (and folders), outermost first.
+   * Optional as the tabs persisted before the scripts were added don't have them
+   */
+  scripts?: {
+    parentID: string
+    parentName: string
+    preRequestScript: string
+    testScript: string
+  }[]
+  /**
+   * Variables of the parent collections (and folders), outermost first.
+   * Optional as the tabs persisted before the variables were added don't have them
+   */
+  variables?: {
+    parentID: string
+    parentName: string
+    inheritedVariables: HoppRESTRequestVariables
+  }[]
 }
@@ -16,13 +16,22 @@ import {
   Environment,
   HoppRESTHeader,
   HoppRESTParam,
+  HoppGQLAuth,
+  HoppRESTAuthAWSSignature,
+  HoppRESTAuthDigest,
+  HoppRESTAuthHawk,
+  generateAWSSignature,
+  generateDigestAuthHeader,
+  generateHawkAuthHeader,
   parseRawKeyValueEntriesE,
   parseTemplateStringE,
+  resolveDynamicVariables,
 } from "@hoppscotch/data"
 import { arrayFlatMap, arraySort } from "../functional/array"
 import { toFormData } from "../functional/formData"
 import { tupleWithSameKeysToRecord } from "../functional/record"
 import { getGlobalVariables } from "~/newstore/environments"
+import { getRequestVariables } from "../rest/variables"
 
 export interface EffectiveHoppRESTRequest extends HoppRESTRequest {
   /**
@@ -33,20 +42,152 @@ export interface EffectiveHoppRESTRequest extends HoppRESTRequest {
   effectiveFinalURL: string
   effectiveFinalHeaders: { key: string; value: string }[]
   effectiveFinalParams: { key: string; value: string }[]
-  effectiveFinalBody: FormData | string | null
+  effectiveFinalBody: FormData | Blob | string | null
+  /**
+   * The Digest auth config with the environment variables applied,
+   * present if the request is to be retried with the challenge of the server
+   */
+  effectiveFinalDigestAuth?: HoppRESTAuthDigest
+}
+
+/**
+ * Joins the endpoint with the query params, the way the request is sent
+ * @param endpoint The endpoint of the request
+ * @param params The query params to append
+ * @returns The final URL of the request
+ */
+export const appendQueryParams = (
+  endpoint: string,
+  params: { key: string; value: string }[]
+) => {
+  const query = new URLSearchParams(
+    params.map(({ key, value }) => [key, value])
+  ).toString()
+
+  return query
+    ? `${endpoint}${endpoint.includes("?") ? "&" : "?"}${query}`
+    : endpoint
 }
 
+/**
+ * Returns the parts of the request covered by the auth schemes signing it
+ * (AWS Signature, Digest and Hawk), with the environment variables applied
+ * @param req The request to sign
+ * @param envVars Currently active environment variables
+ * @param finalURL The URL the request is sent to, if already computed
+ * @param finalBody The body the request is sent with, if already computed
+ */
+const getRequestToSign = (
+  req: HoppRESTRequest,
+  envVars: Environment["variables"],
+  finalURL = parseTemplateString(req.endpoint, envVars),
+  finalBody = getFinalBodyFromRequest(req, envVars)
+) => ({
+  method: req.method,
+  url: appendQueryParams(
+    finalURL,
+    req.params
+      .filter((x) => x.active && x.key !== "")
+      .map((x) => ({
+        key: parseTemplateString(x.key, envVars),
+        value: parseTemplateString(x.value, envVars),
+      }))
+  ),
+  // Multipart and binary bodies can't be read while signing, so they aren't
+  // covered by the signatures (AWS signatures leave the payload unsigned)
+  body: typeof finalBody === "string" ? finalBody : null,
+  unsignedPayload: finalBody !== null && typeof finalBody !== "string",
+  contentType: req.body.contentType,
+})
+
+type RequestToSign = ReturnType<typeof getRequestToSign>
+
+/**
+ * Signs the request with AWS Signature Version 4.
+ * The signature always covers the values with the environment variables applied
+ * @param auth The AWS signature config to sign the request with
+ * @param req The request to sign
+ * @param envVars Currently active environment variables
+ * @returns The headers or params (based on the config) carrying the signature
+ */
+const getComputedAWSSignature = (
+  auth: HoppRESTAuthAWSSignature,
+  req: RequestToSign,
+  envVars: Environment["variables"]
+) =>
+  generateAWSSignature(
+    {
+      accessKey: parseTemplateString(auth.accessKey, envVars),
+      secretKey: parseTemplateString(auth.secretKey, envVars),
+      sessionToken: parseTemplateString(auth.sessionToken, envVars),
+      region: parseTemplateString(auth.region, envVars),
+      serviceName: parseTemplateString(auth.serviceName, envVars),
+    },
+    req,
+    auth.addTo
+  )
+
+/**
+ * Applies the environment variables to the Digest auth config
+ * @param auth The Digest auth config
+ * @param envVars Currently active environment variables
+ * @returns The Digest auth config with the environment variables applied
+ */
+const getEffectiveDigestAuth = (
+  auth: HoppRESTAuthDigest,
+  envVars: Environment["variables"]
+): HoppRESTAuthDigest => ({
+  ...auth,
+  username: parseTemplateString(auth.username, envVars),
+  password: parseTemplateString(auth.password, envVars),
+  realm: parseTemplateString(auth.realm, envVars),
+  nonce: parseTemplateString(auth.nonce, envVars),
+  nc: parseTemplateString(auth.nc, envVars),
+  cnonce: parseTemplateString(auth.cnonce, envVars),
+  opaque: parseTemplateString(auth.opaque, envVars),
+})
+
+/**
+ * Computes the Hawk authorization header of the request
+ * @param auth The Hawk auth config
+ * @param req The request to authorize
+ * @param envVars Currently active environment variables
+ * @returns The value of the header, null if the URL of the request isn't valid
+ */
+const getComputedHawkAuthHeader = (
+  auth: HoppRESTAuthHawk,
+  req: RequestToSign,
+  envVars: Environment["variables"]
+) =>
+  generateHawkAuthHeader(
+    {
+      authId: parseTemplateString(auth.authId, envVars),
+      authKey: parseTemplateString(auth.authKey, envVars),
+      algorithm: auth.algorithm,
+      includePayloadHash: auth.includePayloadHash,
+      nonce: parseTemplateString(auth.nonce, envVars),
+      timestamp: parseTemplateString(auth.timestamp, envVars),
+      ext: parseTemplateString(auth.ext, envVars),
+      app: parseTemplateString(auth.app, envVars),
+      dlg: parseTemplateString(auth.dlg, envVars),
+    },
+    req
+  )
+
 /**
  * Get headers that can be generated by authorization config of the request
  * @param req Request to check
  * @param envVars Currently active environment variables
+ * @param requestToSign The parts of the request covered by the signatures,
+ * computed from the request if not given
  * @returns The list of headers
  */
 export const getComputedAuthHeaders = (
   envVars: Environment["variables"],
   req?: HoppRESTRequest,
-  auth?: HoppRESTRequest["auth"],
-  parse = true
+  auth?: HoppRESTRequest["auth"] | HoppGQLAuth,
+  parse = true,
+  requestToSign?: RequestToSign
 ) => {
   const request = auth ? { auth: auth ?? { authActive: false } } : req
   // If Authorization header is also being user-defined, that takes priority
@@ -97,6 +238,41 @@ export const getComputedAuthHeaders = (
           : request.auth.value ?? "",
       })
     }
+  } else if (request.auth.authType === "aws-signature") {
+    // The signature covers the request, so it can only be computed along with it
+    if (request.auth.addTo === "Headers" && req) {
+      headers.push(
+        ...getComputedAWSSignature(
+          request.auth,
+          requestToSign ?? getRequestToSign(req, envVars),
+          envVars
+        ).map(({ key, value }) => ({ active: true, key, value }))
+      )
+    }
+  } else if (request.auth.authType === "digest") {
+    // Without a nonce, the header is computed once the server sends its challenge
+    if (request.auth.nonce && req) {
+      headers.push({
+        active: true,
+        key: "Authorization",
+        value: generateDigestAuthHeader(
+          getEffectiveDigestAuth(request.auth, envVars),
+          requestToSign ?? getRequestToSign(req, envVars)
+        ),
+      })
+    }
+  } else if (request.auth.authType === "hawk") {
+    const value = req
+      ? getComputedHawkAuthHeader(
+          request.auth,
+          requestToSign ?? getRequestToSign(req, envVars),
+          envVars
+        )
+      : null
+
+    if (value) {
+      headers.push({ active: true, key: "Authorization", value })
+    }
   }
 
   return headers
@@ -121,6 +297,20 @@ export const getComputedBodyHeaders = (
   // Body should have a non-null content-type
   if (req.body.contentType === null) return []
 
+  // Files are sent with the content type chosen for them, or their own type
+  if (req.body.contentType === "application/octet-stream") {
+    return [
+      {
+        active: true,
+        key: "content-type",
+        value:
+          req.body.fileContentType ||
+          req.body.body?.type ||
+          "application/octet-stream",
+      },
+    ]
+  }
+
   return [
     {
       active: true,
@@ -140,15 +330,24 @@ export type ComputedHeader = {
  * For e.g, Authorization headers maybe added if an Auth Mode is defined on REST
  * @param req The request to check
  * @param envVars The environment variables active
+ * @param requestToSign The parts of the request covered by the signatures,
+ * computed from the request if not given
  * @returns The headers that are generated along with the source of that header
  */
 export const getComputedHeaders = (
   req: HoppRESTRequest,
   envVars: Environment["variables"],
-  parse = true
+  parse = true,
+  requestToSign?: RequestToSign
 ): ComputedHeader[] => {
   return [
-    ...getComputedAuthHeaders(envVars, req, undefined, parse).map((header) => ({
+    ...getComputedAuthHeaders(
+      envVars,
+      req,
+      undefined,
+      parse,
+      requestToSign
+    ).map((header) => ({
       source: "auth" as const,
       header,
     })),
@@ -169,15 +368,32 @@ export type ComputedParam = {
  * For e.g, Authorization params (like API-key) maybe added if an Auth Mode is defined on REST
  * @param req The request to check
  * @param envVars The environment variables active
+ * @param requestToSign The parts of the request covered by the signatures,
+ * computed from the request if not given
  * @returns The params that are generated along with the source of that header
  */
 export const getComputedParams = (
   req: HoppRESTRequest,
-  envVars: Environment["variables"]
+  envVars: Environment["variables"],
+  requestToSign?: RequestToSign
 ): ComputedParam[] => {
   // When this gets complex, its best to split this function off (like with getComputedHeaders)
-  // API-key auth can be added to query params
+  // API-key auth and AWS signatures can be added to query params
   if (!req.auth || !req.auth.authActive) return []
+
+  if (req.auth.authType === "aws-signature") {
+    if (req.auth.addTo !== "Query params") return []
+
+    return getComputedAWSSignature(
+      req.auth,
+      requestToSign ?? getRequestToSign(req, envVars),
+      envVars
+    ).map(({ key, value }) => ({
+      source: "auth" as const,
+      param: { active: true, key, value },
+    }))
+  }
+
   if (req.auth.authType !== "api-key") return []
   if (req.auth.addTo !== "Query params") return []
 
@@ -198,7 +414,8 @@ export const resolvesEnvsInBody = (
   body: HoppRESTReqBody,
   env: Environment
 ): HoppRESTReqBody => {
-  if (!body.contentType) return body
+  if (!body.contentType || body.contentType === "application/octet-stream")
+    return body
 
   if (body.contentType === "multipart/form-data") {
     return {
@@ -226,9 +443,12 @@ export const resolvesEnvsInBody = (
 function getFinalBodyFromRequest(
   request: HoppRESTRequest,
   envVariables: Environment["variables"]
-): FormData | string | null {
+): FormData | Blob | string | null {
   if (request.body.contentType === null) return null
 
+  if (request.body.contentType === "application/octet-stream")
+    return request.body.body
+
   if (request.body.contentType === "application/x-www-form-urlencoded") {
     const parsedBodyRecord = pipe(
       request.body.body,
@@ -306,17 +526,42 @@ function getFinalBodyFromRequest(
  *
  * @param request The request to source from
  * @param environment The environment to apply
+ * @param inheritedVariables The variables inherited from the parent collections
+ * of the request, the ones of the innermost folder first
  *
  * @returns An object with extra fields defining a complete request
  */
 export function getEffectiveRESTRequest(
   request: HoppRESTRequest,
-  environment: Environment
+  environment: Environment,
+  inheritedVariables: Environment["variables"] = []
 ): EffectiveHoppRESTRequest {
-  const envVariables = [...environment.variables, ...getGlobalVariables()]
+  // The first variable with a matching key is used, so the variables are in the
+  // order of their precedence: request > folder > collection > environment > global.
+  // The dynamic variables are resolved once, for the signatures of the request
+  // to cover the values it's sent with
+  const envVariables = [
+    ...resolveDynamicVariables(),
+    ...getRequestVariables(request),
+    ...inheritedVariables,
+    ...environment.variables,
+    ...getGlobalVariables(),
+  ]
+
+  const effectiveFinalURL = parseTemplateString(request.endpoint, envVariables)
+  const effectiveFinalBody = getFinalBodyFromRequest(request, envVariables)
+
+  const requestToSign = getRequestToSign(
+    request,
+    envVariables,
+    effectiveFinalURL,
+    effectiveFinalBody
+  )
 
   const effectiveFinalHeaders = pipe(
-    getComputedHeaders(request, envVariables).map((h) => h.header),
+    getComputedHeaders(request, envVariables, true, requestToSign).map(
+      (h) => h.header
+    ),
     A.concat(request.headers),
     A.filter((x) => x.active && x.key !== ""),
     A.map((x) => ({
@@ -327,7 +572,7 @@ export function getEffectiveRESTRequest(
   )
 
   const effectiveFinalParams = pipe(
-    getComputedParams(request, envVariables).map((p) => p.param),
+    getComputedParams(request, envVariables, requestToSign).map((p) => p.param),
     A.concat(request.params),
     A.filter((x) => x.active && x.key !== ""),
     A.map((x) => ({
@@ -337,14 +582,18 @@ export function getEffectiveRESTRequest(
     }))
   )
 
-  const effectiveFinalBody = getFinalBodyFromRequest(request, envVariables)
-
   return {
     ...request,
-    effectiveFinalURL: parseTemplateString(request.endpoint, envVariables),
+    effectiveFinalURL,
     effectiveFinalHeaders,
     effectiveFinalParams,
     effectiveFinalBody,
+    effectiveFinalDigestAuth:
+      request.auth.authActive &&
+      request.auth.authType === "digest" &&
+      !request.auth.disableRetry
+        ? getEffectiveDigestAuth(request.auth, envVariables)
+        : undefined,
   }
 }
 
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, test, vi } from "vitest"
+import {
+  Environment,
+  generateAWSSignature,
+  generateHawkAuthHeader,
+  getDefaultRESTRequest,
+  HawkAuthParams,
+  HoppRESTRequest,
+} from "@hoppscotch/data"
+import { getEffectiveRESTRequest } from "../EffectiveURL"
+
+vi.mock("~/newstore/environments", () => ({
+  getGlobalVariables: () => [],
+}))
+
+const hawkParams: HawkAuthParams = {
+  authId: "id",
+  authKey: "key",
+  algorithm: "sha256",
+  includePayloadHash: true,
+  nonce: "nonce",
+  timestamp: "1700000000",
+  ext: "",
+  app: "",
+  dlg: "",
+}
+
+const environment: Environment = {
+  v: 1,
+  id: "env",
+  name: "Env",
+  variables: [],
+}
+
+const request: HoppRESTRequest = {
+  ...getDefaultRESTRequest(),
+  method: "POST",
+  endpoint: "https://example.com/users/<<$guid>>",
+  body: {
+    contentType: "application/json",
+    body: '{ "id": "<<$guid>>", "at": <<$timestamp>> }',
+  },
+  auth: { authType: "hawk", authActive: true, ...hawkParams },
+}
+
+describe("getEffectiveRESTRequest", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test("resolves each dynamic variable once per request", () => {
+    const { effectiveFinalURL, effectiveFinalBody } = getEffectiveRESTRequest(
+      request,
+      environment
+    )
+
+    const id = effectiveFinalURL.split("/").pop()
+
+    expect(id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(JSON.parse(effectiveFinalBody as string).id).toBe(id)
+  })
+
+  test("signs the URL and the body the request is sent with", () => {
+    const { effectiveFinalURL, effectiveFinalBody, effectiveFinalHeaders } =
+      getEffectiveRESTRequest(request, environment)
+
+    expect(effectiveFinalHeaders).toContainEqual({
+      active: true,
+      key: "Authorization",
+      value: generateHawkAuthHeader(hawkParams, {
+        method: "POST",
+        url: effectiveFinalURL,
+        body: effectiveFinalBody as string,
+        contentType: "application/json",
+      }),
+    })
+  })
+
+  test("leaves the binary bodies unsigned in the AWS signatures", () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"))
+
+    const credentials = {
+      accessKey: "AKID",
+      secretKey: "secret",
+      sessionToken: "",
+      region: "us-east-1",
+      serviceName: "s3",
+    }
+
+    const { effectiveFinalHeaders } = getEffectiveRESTRequest(
+      {
+        ...getDefaultRESTRequest(),
+        method: "PUT",
+        endpoint: "https://bucket.s3.amazonaws.com/avatar.png",
+        body: {
+          contentType: "application/octet-stream",
+          body: new Blob([new Uint8Array([1, 2, 3])]),
+          fileContentType: "image/png",
+        },
+        auth: {
+          authType: "aws-signature",
+          authActive: true,
+          addTo: "Headers",
+          ...credentials,
+        },
+      },
+      environment
+    )
+
+    const signature = generateAWSSignature(
+      credentials,
+      {
+        method: "PUT",
+        url: "https://bucket.s3.amazonaws.com/avatar.png",
+        body: null,
+        unsignedPayload: true,
+      },
+      "Headers"
+    )
+
+    expect(signature).toContainEqual({
+      key: "X-Amz-Content-Sha256",
+      value: "UNSIGNED-PAYLOAD",
+    })
+
+    for (const { key, value } of signature) {
+      expect(effectiveFinalHeaders).toContainEqual({ active: true, key, value })
+    }
+  })
+})
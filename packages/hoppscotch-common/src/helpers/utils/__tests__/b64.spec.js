@@ -1,5 +1,8 @@
 import { describe, expect, test } from "vitest"
-import { decodeB64StringToArrayBuffer } from "../b64"
+import {
+  decodeB64StringToArrayBuffer,
+  encodeArrayBufferToB64String,
+} from "../b64"
 
 describe("decodeB64StringToArrayBuffer", () => {
   test("decodes content correctly", () => {
@@ -10,3 +13,19 @@ describe("decodeB64StringToArrayBuffer", () => {
 
   // TODO : More tests for binary data ?
 })
+
+describe("encodeArrayBufferToB64String", () => {
+  test("encodes content correctly", () => {
+    expect(
+      encodeArrayBufferToB64String(
+        new TextEncoder().encode("hoppscotch is awesome!").buffer
+      )
+    ).toEqual("aG9wcHNjb3RjaCBpcyBhd2Vzb21lIQ==")
+  })
+
+  test("encodes binary data correctly", () => {
+    expect(
+      encodeArrayBufferToB64String(new Uint8Array([0, 127, 128, 255]).buffer)
+    ).toEqual("AH+A/w==")
+  })
+})
@@ -30,3 +30,14 @@ export function decodeB64StringToArrayBuffer(input: string): ArrayBuffer {
 
   return ab
 }
+
+export function encodeArrayBufferToB64String(input: ArrayBuffer): string {
+  const bytes = new Uint8Array(input)
+  let binary = ""
+
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+
+  return btoa(binary)
+}
@@ -1,6 +1,6 @@
 import { ValidContentTypes } from "@hoppscotch/data"
 
-export type Content = "json" | "xml" | "multipart" | "html" | "plain"
+export type Content = "json" | "xml" | "multipart" | "binary" | "html" | "plain"
 
 export const knownContentTypes: Record<ValidContentTypes, Content> = {
   "application/json": "json",
@@ -10,6 +10,7 @@ export const knownContentTypes: Record<ValidContentTypes, Content> = {
   "application/xml": "xml",
   "application/x-www-form-urlencoded": "multipart",
   "multipart/form-data": "multipart",
+  "application/octet-stream": "binary",
   "text/html": "html",
   "text/plain": "plain",
 }
@@ -41,7 +42,7 @@ export const segmentedContentTypes: SegmentedContentType[] = [
   },
   {
     title: "request.content_type_titles.others",
-    contentTypes: ["text/html", "text/plain"],
+    contentTypes: ["text/html", "text/plain", "application/octet-stream"],
   },
 ]
 
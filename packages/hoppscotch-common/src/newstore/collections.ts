@@ -27,6 +27,9 @@ const defaultRESTCollectionState = {
         authActive: false,
       },
       headers: [],
+      preRequestScript: "",
+      testScript: "",
+      variables: [],
     }),
   ],
 }
@@ -42,6 +45,9 @@ const defaultGraphqlCollectionState = {
         authActive: false,
       },
       headers: [],
+      preRequestScript: "",
+      testScript: "",
+      variables: [],
     }),
   ],
 }
@@ -71,7 +77,7 @@ export function navigateToFolderWithIndexPath(
  * Used to obtain the inherited auth and headers for a given folder path, used for both REST and GraphQL personal collections
  * @param folderPath the path of the folder to cascade the auth from
  * @param type the type of collection
- * @returns the inherited auth and headers for the given folder path
+ * @returns the inherited auth, headers, scripts and variables for the given folder path
  */
 export function cascadeParentCollectionForHeaderAuth(
   folderPath: string | undefined,
@@ -89,15 +95,17 @@ export function cascadeParentCollectionForHeaderAuth(
     },
   }
   const headers: HoppInheritedProperty["headers"] = []
+  const scripts: NonNullable<HoppInheritedProperty["scripts"]> = []
+  const variables: NonNullable<HoppInheritedProperty["variables"]> = []
 
-  if (!folderPath) return { auth, headers }
+  if (!folderPath) return { auth, headers, scripts, variables }
 
   const path = folderPath.split("/").map((i) => parseInt(i))
 
   // Check if the path is empty or invalid
   if (!path || path.length === 0) {
     console.error("Invalid path:", folderPath)
-    return { auth, headers }
+    return { auth, headers, scripts, variables }
   }
 
   // Loop through the path and get the last parent folder with authType other than 'inherit'
@@ -110,7 +118,7 @@ export function cascadeParentCollectionForHeaderAuth(
     // Check if parentFolder is undefined or null
     if (!parentFolder) {
       console.error("Parent folder not found for path:", path)
-      return { auth, headers }
+      return { auth, headers, scripts, variables }
     }
 
     const parentFolderAuth = parentFolder.auth as HoppRESTAuth | HoppGQLAuth
@@ -162,9 +170,22 @@ export function cascadeParentCollectionForHeaderAuth(
         }
       })
     }
+
+    scripts.push({
+      parentID: [...path.slice(0, i + 1)].join("/"),
+      parentName: parentFolder.name,
+      preRequestScript: parentFolder.preRequestScript ?? "",
+      testScript: parentFolder.testScript ?? "",
+    })
+
+    variables.push({
+      parentID: [...path.slice(0, i + 1)].join("/"),
+      parentName: parentFolder.name,
+      inheritedVariables: parentFolder.variables ?? [],
+    })
   }
 
-  return { auth, headers }
+  return { auth, headers, scripts, variables }
 }
 
 function reorderItems(array: unknown[], from: number, to: number) {
@@ -252,6 +273,9 @@ const restCollectionDispatchers = defineDispatchers({
         authActive: true,
       },
       headers: [],
+      preRequestScript: "",
+      testScript: "",
+      variables: [],
     })
 
     const newState = state
@@ -815,6 +839,9 @@ const gqlCollectionDispatchers = defineDispatchers({
         authActive: true,
       },
       headers: [],
+      preRequestScript: "",
+      testScript: "",
+      variables: [],
     })
     const newState = state
     const indexPaths = path.split("/").map((x) => parseInt(x))
@@ -353,6 +353,8 @@ executedResponses$.subscribe((res) => {
         params: res.req.params,
         preRequestScript: res.req.preRequestScript,
         testScript: res.req.testScript,
+        settings: res.req.settings,
+        requestVariables: res.req.requestVariables,
         v: res.req.v,
       },
       responseMeta: {
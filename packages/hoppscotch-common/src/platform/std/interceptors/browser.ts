@@ -2,15 +2,16 @@ import * as E from "fp-ts/Either"
 import {
   Interceptor,
   InterceptorError,
+  InterceptorRequest,
   NetworkResponse,
   RequestRunResult,
 } from "../../../services/interceptor.service"
-import axios, { AxiosRequestConfig, CancelToken } from "axios"
+import axios, { CancelToken } from "axios"
 import { cloneDeep } from "lodash-es"
 
 export const preProcessRequest = (
-  req: AxiosRequestConfig
-): AxiosRequestConfig => {
+  req: InterceptorRequest
+): InterceptorRequest => {
   const reqClone = cloneDeep(req)
 
   // If the parameters are URLSearchParams, inject them to URL instead
@@ -36,16 +37,18 @@ export const preProcessRequest = (
 }
 
 async function runRequest(
-  req: AxiosRequestConfig,
+  req: InterceptorRequest,
   cancelToken: CancelToken
 ): RequestRunResult["response"] {
   const timeStart = Date.now()
 
-  const processedReq = preProcessRequest(req)
+  const { settings, ...processedReq } = preProcessRequest(req)
 
   try {
     const res = await axios({
       ...processedReq,
+      // Redirects and TLS verification are left to the browser
+      timeout: settings?.timeout ?? undefined,
       cancelToken,
       responseType: "arraybuffer",
     })
@@ -91,6 +94,7 @@ export const browserInterceptor: Interceptor = {
   interceptorID: "browser",
   name: (t) => t("state.none"),
   selectable: { type: "selectable" },
+  supportedRequestSettings: ["timeout"],
   runRequest(req) {
     const cancelToken = axios.CancelToken.source()
 
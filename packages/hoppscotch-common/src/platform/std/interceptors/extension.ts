@@ -231,6 +231,9 @@ export class ExtensionInterceptorService
     try {
       const result = await extensionHook.sendRequest({
         ...req,
+        // Files are passed on to the extension as their contents
+        data:
+          req.data instanceof Blob ? await req.data.arrayBuffer() : req.data,
         wantsBinary: true,
       })
 
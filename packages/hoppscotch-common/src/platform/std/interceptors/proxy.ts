@@ -1,4 +1,8 @@
-import { Interceptor, RequestRunResult } from "~/services/interceptor.service"
+import {
+  Interceptor,
+  InterceptorRequest,
+  RequestRunResult,
+} from "~/services/interceptor.service"
 import { AxiosRequestConfig, CancelToken } from "axios"
 import * as E from "fp-ts/Either"
 import { preProcessRequest } from "./browser"
@@ -14,10 +18,13 @@ type ProxyHeaders = {
 
 type ProxyPayloadType =
   | FormData
-  | (AxiosRequestConfig & { wantsBinary: true; accessToken: string })
+  | (AxiosRequestConfig & {
+      wantsBinary: true
+      accessToken: string
+    })
 
 const getProxyPayload = (
-  req: AxiosRequestConfig,
+  { settings, ...req }: InterceptorRequest,
   multipartKey: string | null
 ) => {
   let payload: ProxyPayloadType = {
@@ -26,6 +33,15 @@ const getProxyPayload = (
     accessToken: import.meta.env.VITE_PROXYSCOTCH_ACCESS_TOKEN ?? "",
   }
 
+  // The proxy only gets the timeout of the per-request settings, which is
+  // also enforced on the request made to the proxy
+  if (settings) {
+    payload = {
+      ...payload,
+      timeout: settings.timeout ?? undefined,
+    }
+  }
+
   if (payload.data instanceof FormData) {
     const formData = payload.data
     payload.data = ""
@@ -37,7 +53,7 @@ const getProxyPayload = (
 }
 
 async function runRequest(
-  req: AxiosRequestConfig,
+  req: InterceptorRequest,
   cancelToken: CancelToken
 ): RequestRunResult["response"] {
   const multipartKey =
@@ -50,9 +66,20 @@ async function runRequest(
         }
       : <ProxyHeaders>{}
 
-  const payload = getProxyPayload(req, multipartKey)
+  // The payload is sent to the proxy as JSON, which has no way to carry
+  // the contents of a binary body
+  if (req.data instanceof Blob) {
+    return E.left({
+      humanMessage: {
+        heading: (t) => t("error.network_fail"),
+        description: (t) => t("error.proxy_binary_body_not_supported"),
+      },
+    })
+  }
 
   try {
+    const payload = getProxyPayload(req, multipartKey)
+
     // TODO: Validation for the proxy result
     const { data } = await axios.post(
       settingsStore.value.PROXY_URL ?? "https://proxy.hoppscotch.io",
@@ -60,6 +87,9 @@ async function runRequest(
       {
         headers,
         cancelToken,
+        // The request is aborted on this side as well, in case the proxy
+        // doesn't respond in time
+        timeout: req.settings?.timeout ?? undefined,
       }
     )
 
@@ -95,6 +125,7 @@ export const proxyInterceptor: Interceptor = {
   interceptorID: "proxy",
   name: (t) => t("settings.proxy"),
   selectable: { type: "selectable" },
+  supportedRequestSettings: ["timeout"],
   settingsPageEntry: {
     entryTitle: (t) => t("settings.proxy"),
     component: SettingsProxy,
@@ -0,0 +1,293 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from "vitest"
+import { TestContainer } from "dioc/testing"
+import * as E from "fp-ts/Either"
+import { Cookie, CookieJarService } from "../cookie-jar.service"
+
+const NOW = new Date("2024-01-01T00:00:00.000Z").getTime()
+
+const getCookieNames = (cookies: Cookie[]) => cookies.map(({ name }) => name)
+
+describe("CookieJarService", () => {
+  let service: CookieJarService
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+
+    const container = new TestContainer()
+    service = container.bind(CookieJarService)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe("parseSetCookieString", () => {
+    it("parses the attributes of a cookie", () => {
+      const result = service.parseSetCookieString(
+        "session=abc123; Domain=.Example.com; Path=/api; Secure; HttpOnly; SameSite=strict; Max-Age=60",
+        new URL("https://app.example.com/api/login")
+      )
+
+      expect(result).toEqual(
+        E.right({
+          name: "session",
+          value: "abc123",
+          domain: "example.com",
+          path: "/api",
+          expires: NOW + 60 * 1000,
+          secure: true,
+          httpOnly: true,
+          sameSite: "Strict",
+          hostOnly: false,
+          creationTime: NOW,
+        })
+      )
+    })
+
+    it("treats cookies without the domain attribute as host-only with the default path", () => {
+      const result = service.parseSetCookieString(
+        "theme=dark",
+        new URL("https://app.example.com/docs/page")
+      )
+
+      expect(result).toMatchObject(
+        E.right({
+          domain: "app.example.com",
+          path: "/docs",
+          hostOnly: true,
+          expires: null,
+        })
+      )
+    })
+
+    it("gives precedence to Max-Age over Expires", () => {
+      const result = service.parseSetCookieString(
+        "theme=dark; Expires=Wed, 21 Oct 2099 07:28:00 GMT; Max-Age=10",
+        new URL("https://example.com")
+      )
+
+      expect(result).toMatchObject(E.right({ expires: NOW + 10 * 1000 }))
+    })
+
+    it("refuses cookies for domains the URL doesn't domain-match", () => {
+      expect(
+        service.parseSetCookieString(
+          "theme=dark; Domain=other.com",
+          new URL("https://example.com")
+        )
+      ).toEqual(E.left("domain_mismatch"))
+    })
+
+    it("refuses cookies for public suffixes other than the host itself", () => {
+      expect(
+        service.parseSetCookieString(
+          "theme=dark; Domain=com",
+          new URL("https://a.com")
+        )
+      ).toEqual(E.left("public_suffix"))
+
+      expect(
+        service.parseSetCookieString(
+          "theme=dark; Domain=localhost",
+          new URL("http://localhost:3000")
+        )
+      ).toMatchObject(E.right({ domain: "localhost", hostOnly: true }))
+    })
+
+    it("refuses secure cookies set by insecure origins", () => {
+      expect(
+        service.parseSetCookieString(
+          "theme=dark; Secure",
+          new URL("http://example.com")
+        )
+      ).toEqual(E.left("insecure_origin"))
+    })
+
+    it("refuses cookies with SameSite=None which aren't secure", () => {
+      expect(
+        service.parseSetCookieString(
+          "theme=dark; SameSite=None",
+          new URL("https://example.com")
+        )
+      ).toEqual(E.left("insecure_same_site_none"))
+    })
+
+    it("refuses HttpOnly cookies not set through an HTTP API", () => {
+      expect(
+        service.parseSetCookieString(
+          "theme=dark; HttpOnly",
+          new URL("https://example.com"),
+          false
+        )
+      ).toEqual(E.left("http_only"))
+    })
+
+    it("refuses __Host- cookies which aren't secure, host-only and set for the root path", () => {
+      expect(
+        service.parseSetCookieString(
+          "__Host-id=1; Secure; Path=/; Domain=example.com",
+          new URL("https://example.com")
+        )
+      ).toEqual(E.left("invalid_prefix"))
+    })
+  })
+
+  describe("setCookie", () => {
+    it("replaces the cookie with the same name, domain and path retaining its creation time", () => {
+      const url = new URL("https://example.com")
+
+      service.setCookie("theme=dark", url)
+
+      vi.setSystemTime(NOW + 1000)
+      service.setCookie("theme=light", url)
+
+      expect(service.cookieJar.value.get("example.com")).toEqual([
+        expect.objectContaining({
+          name: "theme",
+          value: "light",
+          creationTime: NOW,
+        }),
+      ])
+    })
+
+    it("removes the existing cookie if the new one is expired", () => {
+      const url = new URL("https://example.com")
+
+      service.setCookie("theme=dark", url)
+      service.setCookie("theme=dark; Max-Age=0", url)
+
+      expect(service.cookieJar.value.get("example.com")).toEqual([])
+    })
+  })
+
+  describe("captureSetCookieHeaders", () => {
+    it("stores the cookies of the headers, splitting the joined ones", () => {
+      service.captureSetCookieHeaders(
+        [
+          "a=1; Path=/",
+          "b=2; Expires=Wed, 21 Oct 2099 07:28:00 GMT, c=3; Secure",
+        ],
+        new URL("https://example.com")
+      )
+
+      expect(
+        getCookieNames(service.cookieJar.value.get("example.com")!)
+      ).toEqual(["a", "b", "c"])
+    })
+  })
+
+  describe("getCookiesForURL", () => {
+    it("returns the cookies matching the domain, path and security of the URL", () => {
+      const url = new URL("https://app.example.com/api/users")
+
+      service.setCookie("hostOnly=1", new URL("https://example.com"))
+      service.setCookie("shared=1; Domain=example.com; Path=/", url)
+      service.setCookie("api=1; Path=/api", url)
+      service.setCookie("apiv2=1; Path=/api/v2", url)
+      service.setCookie("apiPrefix=1; Path=/ap", url)
+      service.setCookie("secure=1; Path=/; Secure", url)
+
+      expect(getCookieNames(service.getCookiesForURL(url))).toEqual([
+        "api",
+        "shared",
+        "secure",
+      ])
+
+      expect(
+        getCookieNames(
+          service.getCookiesForURL(new URL("http://app.example.com/api"))
+        )
+      ).toEqual(["api", "shared"])
+    })
+
+    it("orders the cookies with longer paths first", () => {
+      const url = new URL("https://example.com/a/b")
+
+      service.setCookie("root=1; Path=/", url)
+      service.setCookie("nested=1; Path=/a/b", url)
+      service.setCookie("parent=1; Path=/a", url)
+
+      expect(getCookieNames(service.getCookiesForURL(url))).toEqual([
+        "nested",
+        "parent",
+        "root",
+      ])
+    })
+
+    it("evicts the expired cookies", () => {
+      const url = new URL("https://example.com")
+
+      service.setCookie("shortLived=1; Max-Age=10", url)
+      service.setCookie("session=1", url)
+
+      vi.setSystemTime(NOW + 11 * 1000)
+
+      expect(getCookieNames(service.getCookiesForURL(url))).toEqual(["session"])
+      expect(
+        getCookieNames(service.cookieJar.value.get("example.com")!)
+      ).toEqual(["session"])
+    })
+  })
+
+  describe("getCookieHeaderForURL", () => {
+    it("joins the cookies to be sent with the URL", () => {
+      const url = new URL("https://example.com")
+
+      service.setCookie("a=1", url)
+      service.setCookie("b=2", url)
+
+      expect(service.getCookieHeaderForURL(url)).toBe("a=1; b=2")
+    })
+
+    it("returns null if there are no cookies to be sent", () => {
+      expect(
+        service.getCookieHeaderForURL(new URL("https://example.com"))
+      ).toBeNull()
+    })
+  })
+
+  describe("Netscape cookies.txt", () => {
+    const COOKIES_TXT = [
+      "# Netscape HTTP Cookie File",
+      "",
+      ".example.com\tTRUE\t/\tTRUE\t4102444800\tshared\tvalue",
+      "#HttpOnly_api.example.com\tFALSE\t/v1\tFALSE\t0\tsession\tabc",
+      "",
+    ].join("\n")
+
+    it("imports the cookies of a file", () => {
+      expect(service.importNetscapeCookies(COOKIES_TXT)).toBe(2)
+
+      expect(service.cookieJar.value.get("example.com")).toEqual([
+        expect.objectContaining({
+          name: "shared",
+          value: "value",
+          path: "/",
+          secure: true,
+          httpOnly: false,
+          hostOnly: false,
+          expires: 4102444800 * 1000,
+        }),
+      ])
+
+      expect(service.cookieJar.value.get("api.example.com")).toEqual([
+        expect.objectContaining({
+          name: "session",
+          value: "abc",
+          path: "/v1",
+          secure: false,
+          httpOnly: true,
+          hostOnly: true,
+          expires: null,
+        }),
+      ])
+    })
+
+    it("exports the cookies in the jar", () => {
+      service.importNetscapeCookies(COOKIES_TXT)
+
+      expect(service.exportNetscapeCookies()).toBe(COOKIES_TXT)
+    })
+  })
+})
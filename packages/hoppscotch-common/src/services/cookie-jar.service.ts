@@ -1,13 +1,175 @@
 import { Service } from "dioc"
-import { ref } from "vue"
-import { parseString as setCookieParse } from "set-cookie-parser-es"
+import { computed, ref } from "vue"
+import * as E from "fp-ts/Either"
+import {
+  parseString as setCookieParse,
+  splitCookiesString,
+} from "set-cookie-parser-es"
 
-export type CookieDef = {
+/**
+ * A cookie stored in the cookie jar, following the storage model of RFC 6265
+ */
+export type Cookie = {
   name: string
   value: string
+  /**
+   * The canonicalized (lowercase, without the leading dot) domain of the cookie
+   */
   domain: string
   path: string
-  expires: string
+  /**
+   * Expiry time of the cookie as a UNIX timestamp in milliseconds,
+   * null for session cookies
+   */
+  expires: number | null
+  secure: boolean
+  httpOnly: boolean
+  sameSite: "Strict" | "Lax" | "None" | null
+  /**
+   * Whether the cookie is only sent to the exact domain it was set by
+   * (cookies set without the `Domain` attribute)
+   */
+  hostOnly: boolean
+  creationTime: number
+}
+
+/**
+ * The reasons a cookie is refused to be stored for
+ */
+export type CookieRejectionReason =
+  | "invalid_cookie"
+  | "domain_mismatch"
+  | "public_suffix"
+  | "insecure_origin"
+  | "insecure_same_site_none"
+  | "http_only"
+  | "invalid_prefix"
+
+const NETSCAPE_COOKIE_FILE_HEADER = "# Netscape HTTP Cookie File"
+const NETSCAPE_HTTP_ONLY_PREFIX = "#HttpOnly_"
+
+/**
+ * Canonicalizes a domain (or a host), for comparisons and storage
+ */
+const canonicalizeDomain = (domain: string) =>
+  domain.trim().toLowerCase().replace(/^\./, "")
+
+const isIPAddress = (host: string) =>
+  /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":")
+
+/**
+ * Checks whether a domain is a public suffix, which cookies can't be set for.
+ * Without a public suffix list, only the single-label domains (`com`) are
+ * recognized as ones
+ */
+const isPublicSuffix = (domain: string) => !domain.includes(".")
+
+/**
+ * Checks whether a host domain-matches a cookie domain (RFC 6265 5.1.3)
+ */
+const domainMatches = (host: string, domain: string) =>
+  host === domain || (host.endsWith(`.${domain}`) && !isIPAddress(host))
+
+/**
+ * Returns the default path of a cookie set by a request to the given URL
+ * (RFC 6265 5.1.4)
+ */
+const getDefaultPath = (url: URL) => {
+  const { pathname } = url
+
+  if (!pathname.startsWith("/") || pathname.lastIndexOf("/") === 0) return "/"
+
+  return pathname.slice(0, pathname.lastIndexOf("/"))
+}
+
+/**
+ * Checks whether a request path path-matches a cookie path (RFC 6265 5.1.4)
+ */
+const pathMatches = (requestPath: string, cookiePath: string) =>
+  requestPath === cookiePath ||
+  (requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/"))
+
+const parseSameSite = (sameSite: unknown): Cookie["sameSite"] => {
+  if (typeof sameSite !== "string") return null
+
+  switch (sameSite.trim().toLowerCase()) {
+    case "strict":
+      return "Strict"
+    case "lax":
+      return "Lax"
+    case "none":
+      return "None"
+    default:
+      return null
+  }
+}
+
+/**
+ * Serializes a cookie back to the `Set-Cookie` header it could be set with
+ * @param cookie The cookie to serialize
+ */
+export const serializeCookie = (cookie: Cookie) =>
+  [
+    `${cookie.name}=${cookie.value}`,
+    ...(cookie.hostOnly ? [] : [`Domain=${cookie.domain}`]),
+    `Path=${cookie.path}`,
+    ...(cookie.expires !== null
+      ? [`Expires=${new Date(cookie.expires).toUTCString()}`]
+      : []),
+    ...(cookie.secure ? ["Secure"] : []),
+    ...(cookie.httpOnly ? ["HttpOnly"] : []),
+    ...(cookie.sameSite ? [`SameSite=${cookie.sameSite}`] : []),
+  ].join("; ")
+
+/**
+ * Parses the cookies of a Netscape `cookies.txt` file, skipping the malformed
+ * lines
+ * @param contents The contents of the file
+ */
+export const parseNetscapeCookies = (contents: string): Cookie[] => {
+  const now = Date.now()
+
+  return contents.split(/\r?\n/).flatMap((rawLine, lineIndex) => {
+    let line = rawLine.trim()
+    let httpOnly = false
+
+    if (line.startsWith(NETSCAPE_HTTP_ONLY_PREFIX)) {
+      line = line.slice(NETSCAPE_HTTP_ONLY_PREFIX.length)
+      httpOnly = true
+    }
+
+    if (line === "" || line.startsWith("#")) return []
+
+    const fields = line.split("\t")
+
+    if (fields.length < 7) return []
+
+    const [rawDomain, includeSubdomains, path, secure, expiry, name] = fields
+    const value = fields.slice(6).join("\t")
+
+    const domain = canonicalizeDomain(rawDomain)
+    const expirySeconds = Number(expiry)
+
+    if (domain === "" || Number.isNaN(expirySeconds)) return []
+
+    return [
+      {
+        name,
+        value,
+        domain,
+        path: path.startsWith("/") ? path : "/",
+        // Session cookies are written with an expiry of 0
+        expires: expirySeconds === 0 ? null : expirySeconds * 1000,
+        secure: secure.toUpperCase() === "TRUE",
+        httpOnly,
+        sameSite: null,
+        hostOnly: includeSubdomains.toUpperCase() !== "TRUE",
+        // Keeps the order of the cookies in the file
+        creationTime: now + lineIndex,
+      },
+    ]
+  })
 }
 
 export class CookieJarService extends Service {
@@ -16,54 +178,295 @@ export class CookieJarService extends Service {
   /**
    * The cookie jar that stores all relevant cookie info.
    * The keys correspond to the domain of the cookie.
-   * The cookie strings are stored as an array of strings corresponding to the domain
+   * The cookies set for the domain are stored as an array corresponding to it
+   */
+  public cookieJar = ref(new Map<string, Cookie[]>())
+
+  /**
+   * The cookies in the jar in a format suitable for persistence
    */
-  public cookieJar = ref(new Map<string, string[]>())
+  public persistableCookieJar = computed(() =>
+    Object.fromEntries(this.cookieJar.value.entries())
+  )
 
   constructor() {
     super()
   }
 
-  public parseSetCookieString(setCookieString: string) {
-    return setCookieParse(setCookieString)
+  /**
+   * Parses a `Set-Cookie` header received from (or a cookie string set for)
+   * a URL into a cookie, following the storage model of RFC 6265
+   * @param setCookieString The value of the `Set-Cookie` header
+   * @param url The URL the cookie is set by
+   * @param fromHTTP Whether the cookie is set through an HTTP API, cookies
+   * marked `HttpOnly` are refused otherwise
+   * @returns The cookie, or the reason the cookie is to be refused
+   */
+  public parseSetCookieString(
+    setCookieString: string,
+    url: URL,
+    fromHTTP = true
+  ): E.Either<CookieRejectionReason, Cookie> {
+    if (setCookieString.trim() === "") return E.left("invalid_cookie")
+
+    const parsed = setCookieParse(setCookieString, { decodeValues: false })
+
+    const name = parsed.name?.trim() ?? ""
+    const value = parsed.value.trim()
+
+    if (name === "" && value === "") return E.left("invalid_cookie")
+
+    const host = canonicalizeDomain(url.hostname)
+    const isSecureOrigin = url.protocol === "https:"
+
+    let domainAttribute = canonicalizeDomain(parsed.domain ?? "")
+
+    // A cookie for a public suffix is only kept as a host-only cookie of the
+    // host being the public suffix itself (RFC 6265 5.3 step 5)
+    if (domainAttribute !== "" && isPublicSuffix(domainAttribute)) {
+      if (domainAttribute !== host) return E.left("public_suffix")
+
+      domainAttribute = ""
+    }
+
+    const hostOnly = domainAttribute === ""
+
+    if (!hostOnly && !domainMatches(host, domainAttribute))
+      return E.left("domain_mismatch")
+
+    const pathAttribute = parsed.path?.trim() ?? ""
+    const path = pathAttribute.startsWith("/")
+      ? pathAttribute
+      : getDefaultPath(url)
+
+    const now = Date.now()
+
+    // Max-Age takes precedence over Expires
+    let expires: number | null = null
+
+    if (parsed.maxAge !== undefined && !Number.isNaN(parsed.maxAge)) {
+      expires = parsed.maxAge <= 0 ? 0 : now + parsed.maxAge * 1000
+    } else if (parsed.expires && !Number.isNaN(parsed.expires.getTime())) {
+      expires = parsed.expires.getTime()
+    }
+
+    const secure = !!parsed.secure
+    const httpOnly = !!parsed.httpOnly
+    const sameSite = parseSameSite(parsed.sameSite)
+
+    if (secure && !isSecureOrigin) return E.left("insecure_origin")
+
+    if (httpOnly && !fromHTTP) return E.left("http_only")
+
+    if (sameSite === "None" && !secure) return E.left("insecure_same_site_none")
+
+    if (name.startsWith("__Secure-") && !secure) return E.left("invalid_prefix")
+
+    if (name.startsWith("__Host-") && (!secure || !hostOnly || path !== "/"))
+      return E.left("invalid_prefix")
+
+    return E.right({
+      name,
+      value,
+      domain: hostOnly ? host : domainAttribute,
+      path,
+      expires,
+      secure,
+      httpOnly,
+      sameSite,
+      hostOnly,
+      creationTime: now,
+    })
+  }
+
+  /**
+   * Stores a cookie in the jar, replacing the one with the same name, domain
+   * and path (or removing it if the new cookie is already expired)
+   * @param cookie The cookie to store
+   */
+  public storeCookie(cookie: Cookie) {
+    const domainEntries = this.cookieJar.value.get(cookie.domain) ?? []
+
+    const existingCookie = domainEntries.find(
+      (entry) => entry.name === cookie.name && entry.path === cookie.path
+    )
+
+    const otherEntries = domainEntries.filter(
+      (entry) => entry !== existingCookie
+    )
+
+    const isExpired = cookie.expires !== null && cookie.expires <= Date.now()
+
+    this.cookieJar.value.set(
+      cookie.domain,
+      isExpired
+        ? otherEntries
+        : [
+            ...otherEntries,
+            {
+              ...cookie,
+              creationTime: existingCookie?.creationTime ?? cookie.creationTime,
+            },
+          ]
+    )
   }
 
+  /**
+   * Parses and stores a cookie set by a URL
+   * @param setCookieString The value of the `Set-Cookie` header
+   * @param url The URL the cookie is set by
+   * @param fromHTTP Whether the cookie is set through an HTTP API
+   * @returns The stored cookie, or the reason the cookie was refused
+   */
+  public setCookie(setCookieString: string, url: URL, fromHTTP = true) {
+    const result = this.parseSetCookieString(setCookieString, url, fromHTTP)
+
+    if (E.isRight(result)) this.storeCookie(result.right)
+
+    return result
+  }
+
+  /**
+   * Stores the cookies set by the `Set-Cookie` headers of a response
+   * @param setCookieHeaders The values of the `Set-Cookie` headers, headers
+   * joined into a single value are split back into the cookies
+   * @param url The URL of the request the response is for
+   */
+  public captureSetCookieHeaders(setCookieHeaders: string[], url: URL) {
+    setCookieHeaders
+      .flatMap((header) => splitCookiesString(header))
+      .forEach((setCookieString) => this.setCookie(setCookieString, url))
+  }
+
+  /**
+   * Stores the cookies of the given domain, replacing the existing ones
+   * with the same name and path
+   * @param cookies The `Set-Cookie` strings of the cookies
+   * @param domain The domain the cookies are set by
+   * @returns The cookie strings which were refused
+   */
   public bulkApplyCookiesToDomain(cookies: string[], domain: string) {
-    const existingDomainEntries = this.cookieJar.value.get(domain) ?? []
-    existingDomainEntries.push(...cookies)
+    const url = new URL(`https://${canonicalizeDomain(domain)}/`)
 
-    this.cookieJar.value.set(domain, existingDomainEntries)
+    if (!this.cookieJar.value.has(url.hostname)) {
+      this.cookieJar.value.set(url.hostname, [])
+    }
+
+    return cookies.filter((cookie) => E.isLeft(this.setCookie(cookie, url)))
   }
 
+  /**
+   * Removes the expired cookies from the jar
+   */
+  public evictExpiredCookies() {
+    const now = Date.now()
+
+    this.cookieJar.value.forEach((cookies, domain) => {
+      const liveCookies = cookies.filter(
+        (cookie) => cookie.expires === null || cookie.expires > now
+      )
+
+      if (liveCookies.length !== cookies.length) {
+        this.cookieJar.value.set(domain, liveCookies)
+      }
+    })
+  }
+
+  /**
+   * Returns the cookies to be sent with a request to the given URL
+   * (RFC 6265 5.4)
+   * @param url The URL of the request
+   * @returns The cookies, the ones with longer paths first, followed by the
+   * order of their creation
+   */
   public getCookiesForURL(url: URL) {
-    const relevantDomains = Array.from(this.cookieJar.value.keys()).filter(
-      (domain) => url.hostname.endsWith(domain)
-    )
+    this.evictExpiredCookies()
+
+    const host = canonicalizeDomain(url.hostname)
+    const isSecureOrigin = url.protocol === "https:"
+
+    return Array.from(this.cookieJar.value.values())
+      .flat()
+      .filter((cookie) => {
+        const passesDomainCheck = cookie.hostOnly
+          ? host === cookie.domain
+          : domainMatches(host, cookie.domain)
 
-    return relevantDomains
-      .flatMap((domain) => {
-        // Assemble the list of cookie entries from all the relevant domains
+        const passesPathCheck = pathMatches(url.pathname || "/", cookie.path)
 
-        const cookieStrings = this.cookieJar.value.get(domain)! // We know not nullable from how we filter above
+        const passesSecureCheck = !cookie.secure || isSecureOrigin
 
-        return cookieStrings.map((cookieString) =>
-          this.parseSetCookieString(cookieString)
-        )
+        return passesDomainCheck && passesPathCheck && passesSecureCheck
       })
-      .filter((cookie) => {
-        // Perform the required checks on the cookies
+      .sort(
+        (a, b) =>
+          b.path.length - a.path.length || a.creationTime - b.creationTime
+      )
+  }
 
-        const passesPathCheck = url.pathname.startsWith(cookie.path ?? "/")
+  /**
+   * Returns the value of the `Cookie` header for a request to the given URL
+   * @param url The URL of the request
+   * @returns The header value, or null if there are no cookies to be sent
+   */
+  public getCookieHeaderForURL(url: URL) {
+    const cookies = this.getCookiesForURL(url)
 
-        const passesExpiresCheck = !cookie.expires
-          ? true
-          : cookie.expires.getTime() >= new Date().getTime()
+    if (cookies.length === 0) return null
 
-        const passesSecureCheck = !cookie.secure
-          ? true
-          : url.protocol === "https:"
+    return cookies
+      .map((cookie) =>
+        cookie.name === "" ? cookie.value : `${cookie.name}=${cookie.value}`
+      )
+      .join("; ")
+  }
 
-        return passesPathCheck && passesExpiresCheck && passesSecureCheck
-      })
+  /**
+   * Replaces the cookie jar with the persisted state
+   * @param cookieJar The persisted cookies, keyed by their domains
+   */
+  public loadCookieJarFromPersistedState(cookieJar: Record<string, Cookie[]>) {
+    this.cookieJar.value = new Map(Object.entries(cookieJar))
+    this.evictExpiredCookies()
+  }
+
+  /**
+   * Imports the cookies from a Netscape `cookies.txt` file, replacing the
+   * existing ones with the same name, domain and path
+   * @param contents The contents of the file
+   * @returns The number of cookies imported
+   */
+  public importNetscapeCookies(contents: string) {
+    const cookies = parseNetscapeCookies(contents)
+
+    cookies.forEach((cookie) => this.storeCookie(cookie))
+
+    return cookies.length
+  }
+
+  /**
+   * Exports the cookies in the jar in the Netscape `cookies.txt` format
+   * @returns The contents of the file
+   */
+  public exportNetscapeCookies() {
+    this.evictExpiredCookies()
+
+    const lines = Array.from(this.cookieJar.value.values())
+      .flat()
+      .map((cookie) =>
+        [
+          `${cookie.httpOnly ? NETSCAPE_HTTP_ONLY_PREFIX : ""}${
+            cookie.hostOnly ? "" : "."
+          }${cookie.domain}`,
+          cookie.hostOnly ? "FALSE" : "TRUE",
+          cookie.path,
+          cookie.secure ? "TRUE" : "FALSE",
+          cookie.expires === null ? 0 : Math.floor(cookie.expires / 1000),
+          cookie.name,
+          cookie.value,
+        ].join("\t")
+      )
+
+    return [NETSCAPE_COOKIE_FILE_HEADER, "", ...lines, ""].join("\n")
   }
 }
@@ -1,4 +1,4 @@
-import { HoppRESTRequest } from "@hoppscotch/data"
+import { HoppRESTRequest, HoppRESTRequestSettings } from "@hoppscotch/data"
 import { refDebounced } from "@vueuse/core"
 import { Service } from "dioc"
 import { computed, markRaw, reactive } from "vue"
@@ -44,6 +44,10 @@ export type InspectorLocation =
   | {
       type: "response"
     }
+  | {
+      type: "settings"
+      setting: keyof HoppRESTRequestSettings
+    }
 
 /**
  * Defines info about an inspector result so the UI can render it
@@ -87,6 +87,37 @@ describe("EnvironmentInspectorService", () => {
       expect(result.value).toHaveLength(0)
     })
 
+    it("should not return an inspector result when the URL contains request variables", () => {
+      const container = new TestContainer()
+      const envInspector = container.bind(EnvironmentInspectorService)
+
+      const req = ref({
+        ...getDefaultRESTRequest(),
+        endpoint: "<<REQUEST_VAR>>",
+        requestVariables: [
+          { key: "REQUEST_VAR", value: "test_value", active: true },
+        ],
+      })
+
+      const result = envInspector.getInspections(req)
+
+      expect(result.value).toHaveLength(0)
+    })
+
+    it("should not return an inspector result when the URL contains dynamic variables", () => {
+      const container = new TestContainer()
+      const envInspector = container.bind(EnvironmentInspectorService)
+
+      const req = ref({
+        ...getDefaultRESTRequest(),
+        endpoint: "http://example.com/<<$randomUUID>>?t=<<$timestamp>>",
+      })
+
+      const result = envInspector.getInspections(req)
+
+      expect(result.value).toHaveLength(0)
+    })
+
     it("should return an inspector result when the headers contain undefined environment variables", () => {
       const container = new TestContainer()
       const envInspector = container.bind(EnvironmentInspectorService)
@@ -188,6 +219,23 @@ describe("EnvironmentInspectorService", () => {
       expect(result.value).toHaveLength(1)
     })
 
+    it("should not return an inspector result when an environment variable with empty value is overridden by a request variable", () => {
+      const container = new TestContainer()
+      const envInspector = container.bind(EnvironmentInspectorService)
+
+      const req = ref({
+        ...getDefaultRESTRequest(),
+        endpoint: "<<EXISTING_ENV_VAR_2>>",
+        requestVariables: [
+          { key: "EXISTING_ENV_VAR_2", value: "test_value", active: true },
+        ],
+      })
+
+      const result = envInspector.getInspections(req)
+
+      expect(result.value).toHaveLength(0)
+    })
+
     it("should not return an inspector result when the URL contains non empty value in a environemnt variable", () => {
       const container = new TestContainer()
       const envInspector = container.bind(EnvironmentInspectorService)
@@ -0,0 +1,118 @@
+import { TestContainer } from "dioc/testing"
+import { describe, expect, it, vi } from "vitest"
+import { RequestSettingsInspectorService } from "../request-settings.inspector"
+import { InspectionService } from "../../index"
+import { getDefaultRESTRequest } from "~/helpers/rest/default"
+import { ref } from "vue"
+import { InterceptorService } from "~/services/interceptor.service"
+
+vi.mock("~/modules/i18n", () => ({
+  __esModule: true,
+  getI18n: () => (x: string) => x,
+}))
+
+describe("RequestSettingsInspectorService", () => {
+  it("registers with the inspection service upon initialization", () => {
+    const container = new TestContainer()
+
+    const registerInspectorFn = vi.fn()
+
+    container.bindMock(InspectionService, {
+      registerInspector: registerInspectorFn,
+    })
+
+    const settingsInspector = container.bind(RequestSettingsInspectorService)
+
+    expect(registerInspectorFn).toHaveBeenCalledOnce()
+    expect(registerInspectorFn).toHaveBeenCalledWith(settingsInspector)
+  })
+
+  describe("getInspectorFor", () => {
+    it("should return an empty array when the settings are left at their defaults", () => {
+      const container = new TestContainer()
+
+      container.bindMock(InterceptorService, {
+        currentInterceptor: ref({ name: () => "Browser" }) as any,
+      })
+
+      const settingsInspector = container.bind(RequestSettingsInspectorService)
+
+      const req = ref(getDefaultRESTRequest())
+
+      const result = settingsInspector.getInspections(req)
+
+      expect(result.value).toHaveLength(0)
+    })
+
+    it("should return an inspector result for each changed setting the current interceptor doesn't support", () => {
+      const container = new TestContainer()
+
+      container.bindMock(InterceptorService, {
+        currentInterceptor: ref({
+          name: () => "Browser",
+          supportedRequestSettings: ["timeout"],
+        }) as any,
+      })
+
+      const settingsInspector = container.bind(RequestSettingsInspectorService)
+
+      const req = ref({
+        ...getDefaultRESTRequest(),
+        settings: {
+          timeout: 5000,
+          followRedirects: false,
+          maxRedirects: 10,
+          verifyTLS: false,
+        },
+      })
+
+      const result = settingsInspector.getInspections(req)
+
+      expect(result.value).toHaveLength(2)
+      expect(result.value).toEqual([
+        expect.objectContaining({
+          id: "request-settings",
+          isApplicable: true,
+          locations: { type: "settings", setting: "followRedirects" },
+        }),
+        expect.objectContaining({
+          id: "request-settings",
+          isApplicable: true,
+          locations: { type: "settings", setting: "verifyTLS" },
+        }),
+      ])
+    })
+
+    it("should return an empty array when the current interceptor supports the changed settings", () => {
+      const container = new TestContainer()
+
+      container.bindMock(InterceptorService, {
+        currentInterceptor: ref({
+          name: () => "Agent",
+          supportedRequestSettings: [
+            "timeout",
+            "followRedirects",
+            "maxRedirects",
+            "verifyTLS",
+          ],
+        }) as any,
+      })
+
+      const settingsInspector = container.bind(RequestSettingsInspectorService)
+
+      const req = ref({
+        ...getDefaultRESTRequest(),
+        settings: {
+          timeout: 5000,
+          followRedirects: false,
+          maxRedirects: 2,
+          verifyTLS: false,
+        },
+      })
+
+      const result = settingsInspector.getInspections(req)
+
+      expect(result.value).toHaveLength(0)
+    })
+  })
+})
@@ -8,7 +8,7 @@ import {
 import { Service } from "dioc"
 import { Ref, markRaw } from "vue"
 import IconPlusCircle from "~icons/lucide/plus-circle"
-import { HoppRESTRequest } from "@hoppscotch/data"
+import { HoppRESTRequest, getDynamicVariable } from "@hoppscotch/data"
 import {
   aggregateEnvsWithSecrets$,
   getCurrentEnvironment,
@@ -18,8 +18,10 @@ import { invokeAction } from "~/helpers/actions"
 import { computed } from "vue"
 import { useStreamStatic } from "~/composables/stream"
 import { SecretEnvironmentService } from "~/services/secret-environment.service"
+import { RESTTabService } from "~/services/tab/rest"
+import { getScopedVariables } from "~/helpers/rest/variables"
 
-const HOPP_ENVIRONMENT_REGEX = /(<<[a-zA-Z0-9-_]+>>)/g
+const HOPP_ENVIRONMENT_REGEX = /(<<\$?[a-zA-Z0-9-_]+>>)/g
 
 const isENVInString = (str: string) => {
   return HOPP_ENVIRONMENT_REGEX.test(str)
@@ -41,6 +43,7 @@ export class EnvironmentInspectorService extends Service implements Inspector {
 
   private readonly inspection = this.bind(InspectionService)
   private readonly secretEnvs = this.bind(SecretEnvironmentService)
+  private readonly restTab = this.bind(RESTTabService)
 
   private aggregateEnvsWithSecrets = useStreamStatic(
     aggregateEnvsWithSecrets$,
@@ -60,15 +63,20 @@ export class EnvironmentInspectorService extends Service implements Inspector {
    * Validates the environment variables in the target array
    * @param target The target array to validate
    * @param locations The location where results are to be displayed
+   * @param scopedVariableKeys The keys of the request and collection variables
    * @returns The results array containing the results of the validation
    */
   private validateEnvironmentVariables = (
     target: any[],
-    locations: InspectorLocation
+    locations: Exclude<InspectorLocation, { type: "settings" }>,
+    scopedVariableKeys: string[]
   ) => {
     const newErrors: InspectorResult[] = []
 
-    const envKeys = this.aggregateEnvsWithSecrets.value.map((e) => e.key)
+    const envKeys = [
+      ...scopedVariableKeys,
+      ...this.aggregateEnvsWithSecrets.value.map((e) => e.key),
+    ]
 
     target.forEach((element, index) => {
       if (isENVInString(element)) {
@@ -88,7 +96,11 @@ export class EnvironmentInspectorService extends Service implements Inspector {
               index: index,
               key: element,
             }
-            if (!envKeys.includes(formattedExEnv)) {
+            // Dynamic variables are always defined
+            if (
+              !envKeys.includes(formattedExEnv) &&
+              !getDynamicVariable(formattedExEnv)
+            ) {
               newErrors.push({
                 id: `environment-not-found-${newErrors.length}`,
                 text: {
@@ -128,11 +140,14 @@ export class EnvironmentInspectorService extends Service implements Inspector {
    * Checks if the environment variables in the target array are empty
    * @param target The target array to validate
    * @param locations The location where results are to be displayed
+   * @param scopedVariableKeys The keys of the request and collection variables,
+   * which take precedence over the environment variables
    * @returns The results array containing the results of the validation
    */
   private validateEmptyEnvironmentVariables = (
     target: any[],
-    locations: InspectorLocation
+    locations: Exclude<InspectorLocation, { type: "settings" }>,
+    scopedVariableKeys: string[]
   ) => {
     const newErrors: InspectorResult[] = []
 
@@ -143,6 +158,9 @@ export class EnvironmentInspectorService extends Service implements Inspector {
         if (extractedEnv) {
           extractedEnv.forEach((exEnv: string) => {
             const formattedExEnv = exEnv.slice(2, -2)
+
+            if (scopedVariableKeys.includes(formattedExEnv)) return
+
             const currentSelectedEnvironment = getCurrentEnvironment()
 
             this.aggregateEnvsWithSecrets.value.forEach((env) => {
@@ -232,6 +250,11 @@ export class EnvironmentInspectorService extends Service implements Inspector {
     return computed(() => {
       const results: InspectorResult[] = []
 
+      const scopedVariableKeys = getScopedVariables(
+        req.value,
+        this.restTab.currentActiveTab.value.document.inheritedProperties
+      ).map((variable) => variable.key)
+
       const headers = req.value.headers
 
       const params = req.value.params
@@ -242,14 +265,22 @@ export class EnvironmentInspectorService extends Service implements Inspector {
       const url = req.value.endpoint
 
       results.push(
-        ...this.validateEnvironmentVariables([url], {
-          type: "url",
-        })
+        ...this.validateEnvironmentVariables(
+          [url],
+          {
+            type: "url",
+          },
+          scopedVariableKeys
+        )
       )
       results.push(
-        ...this.validateEmptyEnvironmentVariables([url], {
-          type: "url",
-        })
+        ...this.validateEmptyEnvironmentVariables(
+          [url],
+          {
+            type: "url",
+          },
+          scopedVariableKeys
+        )
       )
 
       /**
@@ -258,31 +289,47 @@ export class EnvironmentInspectorService extends Service implements Inspector {
       const headerKeys = Object.values(headers).map((header) => header.key)
 
       results.push(
-        ...this.validateEnvironmentVariables(headerKeys, {
-          type: "header",
-          position: "key",
-        })
+        ...this.validateEnvironmentVariables(
+          headerKeys,
+          {
+            type: "header",
+            position: "key",
+          },
+          scopedVariableKeys
+        )
       )
       results.push(
-        ...this.validateEmptyEnvironmentVariables(headerKeys, {
-          type: "header",
-          position: "key",
-        })
+        ...this.validateEmptyEnvironmentVariables(
+          headerKeys,
+          {
+            type: "header",
+            position: "key",
+          },
+          scopedVariableKeys
+        )
       )
 
       const headerValues = Object.values(headers).map((header) => header.value)
 
       results.push(
-        ...this.validateEnvironmentVariables(headerValues, {
-          type: "header",
-          position: "value",
-        })
+        ...this.validateEnvironmentVariables(
+          headerValues,
+          {
+            type: "header",
+            position: "value",
+          },
+          scopedVariableKeys
+        )
       )
       results.push(
-        ...this.validateEmptyEnvironmentVariables(headerValues, {
-          type: "header",
-          position: "value",
-        })
+        ...this.validateEmptyEnvironmentVariables(
+          headerValues,
+          {
+            type: "header",
+            position: "value",
+          },
+          scopedVariableKeys
+        )
       )
 
       /**
@@ -291,32 +338,48 @@ export class EnvironmentInspectorService extends Service implements Inspector {
       const paramsKeys = Object.values(params).map((param) => param.key)
 
       results.push(
-        ...this.validateEnvironmentVariables(paramsKeys, {
-          type: "parameter",
-          position: "key",
-        })
+        ...this.validateEnvironmentVariables(
+          paramsKeys,
+          {
+            type: "parameter",
+            position: "key",
+          },
+          scopedVariableKeys
+        )
       )
       results.push(
-        ...this.validateEmptyEnvironmentVariables(paramsKeys, {
-          type: "parameter",
-          position: "key",
-        })
+        ...this.validateEmptyEnvironmentVariables(
+          paramsKeys,
+          {
+            type: "parameter",
+            position: "key",
+          },
+          scopedVariableKeys
+        )
       )
 
       const paramsValues = Object.values(params).map((param) => param.value)
 
       results.push(
-        ...this.validateEnvironmentVariables(paramsValues, {
-          type: "parameter",
-          position: "value",
-        })
+        ...this.validateEnvironmentVariables(
+          paramsValues,
+          {
+            type: "parameter",
+            position: "value",
+          },
+          scopedVariableKeys
+        )
       )
 
       results.push(
-        ...this.validateEmptyEnvironmentVariables(paramsValues, {
-          type: "parameter",
-          position: "value",
-        })
+        ...this.validateEmptyEnvironmentVariables(
+          paramsValues,
+          {
+            type: "parameter",
+            position: "value",
+          },
+          scopedVariableKeys
+        )
       )
 
       return results
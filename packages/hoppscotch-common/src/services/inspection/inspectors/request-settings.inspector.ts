@@ -0,0 +1,85 @@
+import { Service } from "dioc"
+import { InspectionService, Inspector, InspectorResult } from ".."
+import { getI18n } from "~/modules/i18n"
+import {
+  HoppRESTRequest,
+  HoppRESTRequestSettings,
+  getDefaultRESTRequestSettings,
+} from "@hoppscotch/data"
+import { Ref, computed, markRaw, unref } from "vue"
+import IconAlertTriangle from "~icons/lucide/alert-triangle"
+import { InterceptorService } from "~/services/interceptor.service"
+
+/**
+ * This inspector is responsible for inspecting the settings of a request.
+ * It checks if the settings changed from their defaults can be honored
+ * by the current interceptor.
+ *
+ * NOTE: Initializing this service registers it as a inspector with the Inspection Service.
+ */
+export class RequestSettingsInspectorService
+  extends Service
+  implements Inspector
+{
+  public static readonly ID = "REQUEST_SETTINGS_INSPECTOR_SERVICE"
+
+  private t = getI18n()
+
+  public readonly inspectorID = "request-settings"
+
+  private readonly inspection = this.bind(InspectionService)
+  private readonly interceptorService = this.bind(InterceptorService)
+
+  constructor() {
+    super()
+
+    this.inspection.registerInspector(this)
+  }
+
+  getInspections(req: Readonly<Ref<HoppRESTRequest>>) {
+    return computed(() => {
+      const results: InspectorResult[] = []
+
+      const interceptor = this.interceptorService.currentInterceptor.value
+
+      const supportedSettings = interceptor?.supportedRequestSettings ?? []
+
+      const defaultSettings = getDefaultRESTRequestSettings()
+
+      const settingKeys = Object.keys(
+        defaultSettings
+      ) as (keyof HoppRESTRequestSettings)[]
+
+      settingKeys.forEach((key) => {
+        if (
+          req.value.settings[key] === defaultSettings[key] ||
+          supportedSettings.includes(key)
+        )
+          return
+
+        results.push({
+          id: "request-settings",
+          icon: markRaw(IconAlertTriangle),
+          text: {
+            type: "text",
+            text: this.t("inspections.settings.not_supported", {
+              interceptor: interceptor ? unref(interceptor.name(this.t)) : "",
+            }),
+          },
+          severity: 2,
+          isApplicable: true,
+          locations: {
+            type: "settings",
+            setting: key,
+          },
+          doc: {
+            text: this.t("action.learn_more"),
+            link: "https://docs.hoppscotch.io/documentation/features/interceptor",
+          },
+        })
+      })
+
+      return results
+    })
+  }
+}
@@ -2,6 +2,7 @@ import * as E from "fp-ts/Either"
 import { Service } from "dioc"
 import { MaybeRef, refWithControl } from "@vueuse/core"
 import { AxiosRequestConfig, AxiosResponse } from "axios"
+import { HoppRESTRequestSettings } from "@hoppscotch/data"
 import type { getI18n } from "~/modules/i18n"
 import { throwError } from "~/helpers/functional/error"
 import { Component, Ref, computed, reactive, watch, unref, markRaw } from "vue"
@@ -18,6 +19,14 @@ export type NetworkResponse = AxiosResponse<unknown> & {
   }
 }
 
+/**
+ * Defines the request an interceptor runs, along with the per-request
+ * settings (timeout, redirects, TLS verification) of the request if any.
+ */
+export type InterceptorRequest = AxiosRequestConfig & {
+  settings?: HoppRESTRequestSettings
+}
+
 /**
  * Defines the errors that can occur during interceptor request run.
  */
@@ -92,6 +101,13 @@ export type Interceptor<Err extends InterceptorError = InterceptorError> = {
    */
   supportsCookies?: boolean
 
+  /**
+   * Defines which of the per-request settings the interceptor honors,
+   * the rest of the settings are ignored when running requests.
+   * If this field is undefined, it is assumed as not honoring any of them.
+   */
+  supportedRequestSettings?: Array<keyof HoppRESTRequestSettings>
+
   /**
    * Defines what to render in the Interceptor section of the Settings page.
    * Use this space to define interceptor specific settings.
@@ -124,7 +140,7 @@ export type Interceptor<Err extends InterceptorError = InterceptorError> = {
    * NOTE: Make sure this function doesn't throw, instead when an error occurs, return a Left Either with the error.
    * @param request The request to run the interceptor on.
    */
-  runRequest: (request: AxiosRequestConfig) => RequestRunResult<Err>
+  runRequest: (request: InterceptorRequest) => RequestRunResult<Err>
 }
 
 /**
@@ -219,7 +235,7 @@ export class InterceptorService extends Service {
    * @param req The request to run
    * @throws If no interceptor is selected
    */
-  public runRequest(req: AxiosRequestConfig): RequestRunResult {
+  public runRequest(req: InterceptorRequest): RequestRunResult {
     if (!this.currentInterceptorID.value) {
       throw new Error("No interceptor selected")
     }
@@ -4,6 +4,7 @@ import { HoppGQLDocument } from "~/helpers/graphql/document"
 import { HoppRESTDocument } from "~/helpers/rest/document"
 import { GQLHistoryEntry, RESTHistoryEntry } from "~/newstore/history"
 import { SettingsDef, getDefaultSettings } from "~/newstore/settings"
+import { Cookie } from "~/services/cookie-jar.service"
 import { SecretVariable } from "~/services/secret-environment.service"
 import { PersistableTabState } from "~/services/tab"
 
@@ -20,12 +21,12 @@ const DEFAULT_SETTINGS = getDefaultSettings()
 
 export const REST_COLLECTIONS_MOCK: HoppCollection[] = [
   {
-    v: 2,
+    v: 4,
     name: "Echo",
     folders: [],
     requests: [
       {
-        v: "1",
+        v: "9",
         endpoint: "https://echo.hoppscotch.io",
         name: "Echo test",
         params: [],
@@ -35,16 +36,26 @@ export const REST_COLLECTIONS_MOCK: HoppCollection[] = [
         preRequestScript: "",
         testScript: "",
         body: { contentType: null, body: null },
+        settings: {
+          timeout: null,
+          followRedirects: true,
+          maxRedirects: 10,
+          verifyTLS: true,
+        },
+        requestVariables: [],
       },
     ],
     auth: { authType: "none", authActive: true },
     headers: [],
+    preRequestScript: "",
+    testScript: "",
+    variables: [],
   },
 ]
 
 export const GQL_COLLECTIONS_MOCK: HoppCollection[] = [
   {
-    v: 2,
+    v: 4,
     name: "Echo",
     folders: [],
     requests: [
@@ -60,6 +71,9 @@ export const GQL_COLLECTIONS_MOCK: HoppCollection[] = [
     ],
     auth: { authType: "none", authActive: true },
     headers: [],
+    preRequestScript: "",
+    testScript: "",
+    variables: [],
   },
 ]
 
@@ -135,8 +149,15 @@ export const REST_HISTORY_MOCK: RESTHistoryEntry[] = [
       name: "Untitled",
       params: [],
       preRequestScript: "",
+      requestVariables: [],
+      settings: {
+        timeout: null,
+        followRedirects: true,
+        maxRedirects: 10,
+        verifyTLS: true,
+      },
       testScript: "",
-      v: "1",
+      v: "9",
     },
     responseMeta: { duration: 807, statusCode: 200 },
     star: false,
@@ -192,7 +213,7 @@ export const REST_TAB_STATE_MOCK: PersistableTabState<HoppRESTDocument> = {
       tabID: "e6e8d800-caa8-44a2-a6a6-b4765a3167aa",
       doc: {
         request: {
-          v: "1",
+          v: "9",
           endpoint: "https://echo.hoppscotch.io",
           name: "Echo test",
           params: [],
@@ -202,6 +223,13 @@ export const REST_TAB_STATE_MOCK: PersistableTabState<HoppRESTDocument> = {
           preRequestScript: "",
           testScript: "",
           body: { contentType: null, body: null },
+          settings: {
+            timeout: null,
+            followRedirects: true,
+            maxRedirects: 10,
+            verifyTLS: true,
+          },
+          requestVariables: [],
         },
         isDirty: false,
         saveContext: {
@@ -222,3 +250,20 @@ export const SECRET_ENVIRONMENTS_MOCK: Record<string, SecretVariable> = {
     varIndex: 1,
   },
 }
+
+export const COOKIE_JAR_MOCK: Record<string, Cookie[]> = {
+  "example.com": [
+    {
+      name: "session",
+      value: "abc123",
+      domain: "example.com",
+      path: "/",
+      expires: null,
+      secure: true,
+      httpOnly: true,
+      sameSite: "Lax",
+      hostOnly: true,
+      creationTime: 1700000000000,
+    },
+  ],
+}
@@ -47,6 +47,7 @@ import { GQLTabService } from "~/services/tab/graphql"
 import { RESTTabService } from "~/services/tab/rest"
 import { PersistenceService } from "../../persistence"
 import {
+  COOKIE_JAR_MOCK,
   ENVIRONMENTS_MOCK,
   GLOBAL_ENV_MOCK,
   GQL_COLLECTIONS_MOCK,
@@ -64,6 +65,7 @@ import {
   WEBSOCKET_REQUEST_MOCK,
 } from "./__mocks__"
 import { SecretEnvironmentService } from "~/services/secret-environment.service"
+import { CookieJarService } from "~/services/cookie-jar.service"
 
 vi.mock("~/modules/i18n", () => {
   return {
@@ -125,11 +127,13 @@ const bindPersistenceService = ({
   mockGQLTabService = false,
   mockRESTTabService = false,
   mockSecretEnvironmentsService = false,
+  mockCookieJarService = false,
   mock = {},
 }: {
   mockGQLTabService?: boolean
   mockRESTTabService?: boolean
   mockSecretEnvironmentsService?: boolean
+  mockCookieJarService?: boolean
   mock?: Record<string, unknown>
 } = {}) => {
   const container = new TestContainer()
@@ -146,6 +150,10 @@ const bindPersistenceService = ({
     container.bindMock(SecretEnvironmentService, mock)
   }
 
+  if (mockCookieJarService) {
+    container.bindMock(CookieJarService, mock)
+  }
+
   container.bind(PersistenceService)
 
   const service = container.bind(PersistenceService)
@@ -1170,6 +1178,106 @@ describe("PersistenceService", () => {
       })
     })
 
+    describe("Setup cookie jar persistence", () => {
+      // Key read from localStorage across test cases
+      const cookieJarKey = "cookieJar"
+
+      const loadCookieJarFromPersistedStateFn = vi.fn()
+      const mock = {
+        loadCookieJarFromPersistedState: loadCookieJarFromPersistedStateFn,
+      }
+
+      it(`shows an error and sets the entry as a backup in localStorage if "${cookieJarKey}" read from localStorage doesn't match the schema`, () => {
+        // Invalid shape for `cookieJar`
+        const cookieJar = {
+          "example.com": ["session=abc123; Path=/"],
+        }
+
+        window.localStorage.setItem(cookieJarKey, JSON.stringify(cookieJar))
+
+        const getItemSpy = spyOnGetItem()
+        const setItemSpy = spyOnSetItem()
+
+        invokeSetupLocalPersistence()
+
+        expect(getItemSpy).toHaveBeenCalledWith(cookieJarKey)
+
+        expect(toastErrorFn).toHaveBeenCalledWith(
+          expect.stringContaining(cookieJarKey)
+        )
+        expect(setItemSpy).toHaveBeenCalledWith(
+          `${cookieJarKey}-backup`,
+          JSON.stringify(cookieJar)
+        )
+      })
+
+      it("loads the cookie jar from the state persisted in localStorage and sets watcher for `persistableCookieJar`", () => {
+        window.localStorage.setItem(
+          cookieJarKey,
+          JSON.stringify(COOKIE_JAR_MOCK)
+        )
+
+        const getItemSpy = spyOnGetItem()
+
+        invokeSetupLocalPersistence({
+          mockCookieJarService: true,
+          mock,
+        })
+
+        expect(getItemSpy).toHaveBeenCalledWith(cookieJarKey)
+
+        expect(toastErrorFn).not.toHaveBeenCalledWith(cookieJarKey)
+
+        expect(loadCookieJarFromPersistedStateFn).toHaveBeenCalledWith(
+          COOKIE_JAR_MOCK
+        )
+        expect(watchDebounced).toHaveBeenCalledWith(
+          expect.any(Object),
+          expect.any(Function),
+          { debounce: 500 }
+        )
+      })
+
+      it(`skips schema parsing and the loading of the persisted cookie jar if there is no "${cookieJarKey}" key present in localStorage`, () => {
+        window.localStorage.removeItem(cookieJarKey)
+
+        const getItemSpy = spyOnGetItem()
+        const setItemSpy = spyOnSetItem()
+
+        invokeSetupLocalPersistence({
+          mockCookieJarService: true,
+          mock,
+        })
+
+        expect(getItemSpy).toHaveBeenCalledWith(cookieJarKey)
+
+        expect(toastErrorFn).not.toHaveBeenCalledWith(cookieJarKey)
+        expect(setItemSpy).not.toHaveBeenCalled()
+
+        expect(watchDebounced).toHaveBeenCalled()
+      })
+
+      it("logs an error to the console on failing to parse the persisted cookie jar", () => {
+        window.localStorage.setItem(cookieJarKey, "invalid-json")
+
+        console.error = vi.fn()
+        const getItemSpy = spyOnGetItem()
+        const setItemSpy = spyOnSetItem()
+
+        invokeSetupLocalPersistence()
+
+        expect(getItemSpy).toHaveBeenCalledWith(cookieJarKey)
+
+        expect(toastErrorFn).not.toHaveBeenCalledWith(cookieJarKey)
+        expect(setItemSpy).not.toHaveBeenCalled()
+
+        expect(console.error).toHaveBeenCalledWith(
+          `Failed parsing persisted cookie jar, state:`,
+          window.localStorage.getItem(cookieJarKey)
+        )
+      })
+    })
+
     describe("setup WebSocket persistence", () => {
       // Key read from localStorage across test cases
       const wsRequestKey = "WebsocketRequest"
@@ -1693,6 +1801,35 @@ describe("PersistenceService", () => {
         )
       })
 
+      it("loads the persisted tabs with any of the request option tabs selected", () => {
+        const [tab] = REST_TAB_STATE_MOCK.orderedDocs
+
+        const tabState: typeof REST_TAB_STATE_MOCK = {
+          ...REST_TAB_STATE_MOCK,
+          orderedDocs: [
+            {
+              ...tab,
+              doc: { ...tab.doc, optionTabPreference: "examples" },
+            },
+            {
+              ...tab,
+              tabID: "0f5a4d5e-3a6b-4d4e-9b8f-2c1d5e7a9b3c",
+              doc: { ...tab.doc, optionTabPreference: "settings" },
+            },
+          ],
+        }
+        window.localStorage.setItem(restTabStateKey, JSON.stringify(tabState))
+
+        const setItemSpy = spyOnSetItem()
+
+        invokeSetupLocalPersistence({ mockRESTTabService: true, mock })
+
+        expect(toastErrorFn).not.toHaveBeenCalledWith(restTabStateKey)
+        expect(setItemSpy).not.toHaveBeenCalled()
+
+        expect(loadTabsFromPersistedStateFn).toHaveBeenCalledWith(tabState)
+      })
+
       it("logs an error to the console on failing to parse persisted tab state", () => {
         window.localStorage.setItem(restTabStateKey, "invalid-json")
 
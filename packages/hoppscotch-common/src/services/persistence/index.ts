@@ -52,6 +52,7 @@ import {
   settingsStore,
 } from "../../newstore/settings"
 import {
+  COOKIE_JAR_SCHEMA,
   ENVIRONMENTS_SCHEMA,
   GLOBAL_ENV_SCHEMA,
   GQL_COLLECTION_SCHEMA,
@@ -73,6 +74,7 @@ import {
   WEBSOCKET_REQUEST_SCHEMA,
 } from "./validation-schemas"
 import { SecretEnvironmentService } from "../secret-environment.service"
+import { CookieJarService } from "../cookie-jar.service"
 
 /**
  * This service compiles persistence logic across the codebase
@@ -87,6 +89,8 @@ export class PersistenceService extends Service {
     SecretEnvironmentService
   )
 
+  private readonly cookieJarService = this.bind(CookieJarService)
+
   public hoppLocalConfigStorage: StorageLike = localStorage
 
   constructor() {
@@ -497,6 +501,49 @@ export class PersistenceService extends Service {
     )
   }
 
+  private setupCookieJarPersistence() {
+    const cookieJarKey = "cookieJar"
+    const cookieJarData = window.localStorage.getItem(cookieJarKey)
+
+    try {
+      if (cookieJarData) {
+        let parsedCookieJarData = JSON.parse(cookieJarData)
+
+        // Validate data read from localStorage
+        const result = COOKIE_JAR_SCHEMA.safeParse(parsedCookieJarData)
+
+        if (result.success) {
+          parsedCookieJarData = result.data
+        } else {
+          this.showErrorToast(cookieJarKey)
+          window.localStorage.setItem(
+            `${cookieJarKey}-backup`,
+            JSON.stringify(parsedCookieJarData)
+          )
+        }
+
+        this.cookieJarService.loadCookieJarFromPersistedState(
+          parsedCookieJarData
+        )
+      }
+    } catch (e) {
+      console.error(
+        `Failed parsing persisted cookie jar, state:`,
+        cookieJarData
+      )
+    }
+
+    watchDebounced(
+      this.cookieJarService.persistableCookieJar,
+      (newCookieJar) => {
+        window.localStorage.setItem(cookieJarKey, JSON.stringify(newCookieJar))
+      },
+      {
+        debounce: 500,
+      }
+    )
+  }
+
   private setupSelectedEnvPersistence() {
     const selectedEnvIndexKey = "selectedEnvIndex"
     let selectedEnvIndexValue = JSON.parse(
@@ -758,6 +805,7 @@ export class PersistenceService extends Service {
     this.setupMQTTPersistence()
 
     this.setupSecretEnvironmentsPersistence()
+    this.setupCookieJarPersistence()
   }
 
   /**
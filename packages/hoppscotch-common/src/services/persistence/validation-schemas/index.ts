@@ -6,6 +6,7 @@ import {
   HoppRESTAuth,
   HoppRESTRequest,
   HoppRESTHeaders,
+  HoppRESTRequestVariables,
 } from "@hoppscotch/data"
 import { entityReference } from "verzod"
 import { z } from "zod"
@@ -87,6 +88,11 @@ const HoppRESTCollectionSchema = HoppCollectionSchemaCommonProps.extend({
 
   auth: z.optional(HoppRESTAuth),
   headers: z.optional(HoppRESTHeaders),
+
+  preRequestScript: z.optional(z.string()),
+  testScript: z.optional(z.string()),
+
+  variables: z.optional(HoppRESTRequestVariables),
 }).strict()
 
 // @ts-expect-error recursive schema
@@ -96,6 +102,11 @@ const HoppGQLCollectionSchema = HoppCollectionSchemaCommonProps.extend({
 
   auth: z.optional(HoppGQLAuth),
   headers: z.optional(z.array(GQLHeader)),
+
+  preRequestScript: z.optional(z.string()),
+  testScript: z.optional(z.string()),
+
+  variables: z.optional(HoppRESTRequestVariables),
 }).strict()
 
 export const VUEX_SCHEMA = z.object({
@@ -320,6 +331,25 @@ const HoppInheritedPropertySchema = z
         inheritedHeader: z.union([HoppRESTHeaders, GQLHeader]),
       })
     ),
+    scripts: z.optional(
+      z.array(
+        z.object({
+          parentID: z.string(),
+          parentName: z.string(),
+          preRequestScript: z.string(),
+          testScript: z.string(),
+        })
+      )
+    ),
+    variables: z.optional(
+      z.array(
+        z.object({
+          parentID: z.string(),
+          parentName: z.string(),
+          inheritedVariables: HoppRESTRequestVariables,
+        })
+      )
+    ),
   })
   .strict()
 
@@ -381,6 +411,26 @@ export const SECRET_ENVIRONMENT_VARIABLE_SCHEMA = z.union([
   ),
 ])
 
+export const COOKIE_JAR_SCHEMA = z.record(
+  z.string(),
+  z.array(
+    z
+      .object({
+        name: z.string(),
+        value: z.string(),
+        domain: z.string(),
+        path: z.string(),
+        expires: z.nullable(z.number()),
+        secure: z.boolean(),
+        httpOnly: z.boolean(),
+        sameSite: z.nullable(z.enum(["Strict", "Lax", "None"])),
+        hostOnly: z.boolean(),
+        creationTime: z.number(),
+      })
+      .strict()
+  )
+)
+
 const HoppTestResultSchema = z
   .object({
     tests: z.array(HoppTestDataSchema),
@@ -514,6 +564,9 @@ const validRestOperations = [
   "authorization",
   "preRequestScript",
   "tests",
+  "requestVariables",
+  "settings",
+  "examples",
 ] as const
 
 export const REST_TAB_STATE_SCHEMA = z
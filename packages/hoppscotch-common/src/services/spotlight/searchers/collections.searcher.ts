@@ -305,10 +305,8 @@ export class CollectionsSpotlightSearcherService
 
         if (!req) return
 
-        const { auth, headers } = cascadeParentCollectionForHeaderAuth(
-          folderPath.join("/"),
-          "rest"
-        )
+        const { auth, headers, scripts, variables } =
+          cascadeParentCollectionForHeaderAuth(folderPath.join("/"), "rest")
 
         this.restTab.createNewTab(
           {
@@ -322,6 +320,8 @@ export class CollectionsSpotlightSearcherService
             inheritedProperties: {
               auth,
               headers,
+              scripts,
+              variables,
             },
           },
           true
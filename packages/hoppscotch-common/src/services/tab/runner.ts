@@ -0,0 +1,66 @@
+import { nextTick } from "vue"
+import { HoppCollectionRunnerDocument } from "~/helpers/collection/runner"
+import { runCollection } from "~/helpers/RequestRunner"
+import { TabService } from "./tab"
+
+/**
+ * Manages the tabs showing the runs of collections.
+ * Unlike the request tabs, these aren't persisted and
+ * there need not be any of them open.
+ */
+export class CollectionRunnerTabService extends TabService<HoppCollectionRunnerDocument> {
+  public static readonly ID = "COLLECTION_RUNNER_TAB_SERVICE"
+
+  private cancelRunFuncs = new Map<string, () => void>()
+
+  constructor() {
+    super()
+
+    this.tabOrdering.value = []
+  }
+
+  /**
+   * Runs the collection of the tab, stopping the ongoing run (if any)
+   * @param tabID ID of the tab to run the collection of
+   */
+  public runCollection(tabID: string) {
+    this.cancelRun(tabID)
+
+    this.cancelRunFuncs.set(tabID, runCollection(this.getTabRef(tabID)))
+  }
+
+  /**
+   * Stops the ongoing run of the collection of the tab (if any)
+   * @param tabID ID of the tab to stop the run of
+   */
+  public cancelRun(tabID: string) {
+    this.cancelRunFuncs.get(tabID)?.()
+    this.cancelRunFuncs.delete(tabID)
+  }
+
+  public override closeTab(tabID: string) {
+    if (!this.tabMap.has(tabID)) {
+      console.warn(
+        `Tried to close a tab which does not exist (tab id: ${tabID})`
+      )
+      return
+    }
+
+    this.cancelRun(tabID)
+
+    this.tabOrdering.value.splice(this.tabOrdering.value.indexOf(tabID), 1)
+
+    if (
+      this.currentTabID.value === tabID &&
+      this.tabOrdering.value.length > 0
+    ) {
+      this.setActiveTab(
+        this.tabOrdering.value[this.tabOrdering.value.length - 1]
+      )
+    }
+
+    nextTick(() => {
+      this.tabMap.delete(tabID)
+    })
+  }
+}
@@ -2,6 +2,8 @@ import { InferredEntity, createVersionedEntity } from "verzod"
 
 import V1_VERSION from "./v/1"
 import V2_VERSION from "./v/2"
+import V3_VERSION from "./v/3"
+import V4_VERSION from "./v/4"
 
 import { z } from "zod"
 import { translateToNewRequest } from "../rest"
@@ -13,10 +15,12 @@ const versionedObject = z.object({
 })
 
 export const HoppCollection = createVersionedEntity({
-  latestVersion: 2,
+  latestVersion: 4,
   versionMap: {
     1: V1_VERSION,
     2: V2_VERSION,
+    3: V3_VERSION,
+    4: V4_VERSION,
   },
   getVersion(data) {
     const versionCheck = versionedObject.safeParse(data)
@@ -32,7 +36,7 @@ export const HoppCollection = createVersionedEntity({
 
 export type HoppCollection = InferredEntity<typeof HoppCollection>
 
-export const CollectionSchemaVersion = 2
+export const CollectionSchemaVersion = 4
 
 /**
  * Generates a Collection object. This ignores the version number object
@@ -62,12 +66,20 @@ export function translateToNewRESTCollection(x: any): HoppCollection {
   const auth = x.auth ?? { authType: "inherit", authActive: true }
   const headers = x.headers ?? []
 
+  const preRequestScript = x.preRequestScript ?? ""
+  const testScript = x.testScript ?? ""
+
+  const variables = x.variables ?? []
+
   const obj = makeCollection({
     name,
     folders,
     requests,
     auth,
     headers,
+    preRequestScript,
+    testScript,
+    variables,
   })
 
   if (x.id) obj.id = x.id
@@ -91,12 +103,20 @@ export function translateToNewGQLCollection(x: any): HoppCollection {
   const auth = x.auth ?? { authType: "inherit", authActive: true }
   const headers = x.headers ?? []
 
+  const preRequestScript = x.preRequestScript ?? ""
+  const testScript = x.testScript ?? ""
+
+  const variables = x.variables ?? []
+
   const obj = makeCollection({
     name,
     folders,
     requests,
     auth,
     headers,
+    preRequestScript,
+    testScript,
+    variables,
   })
 
   if (x.id) obj.id = x.id
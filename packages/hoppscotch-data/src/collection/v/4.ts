@@ -0,0 +1,62 @@
+import { defineVersion, entityReference } from "verzod"
+import { z } from "zod"
+import { HoppRESTRequest, HoppRESTAuth } from "../../rest"
+import { HoppGQLRequest, HoppGQLAuth, GQLHeader } from "../../graphql"
+import { V3_SCHEMA } from "./3"
+import { HoppRESTHeaders } from "../../rest/v/1"
+import { HoppRESTRequestVariables } from "../../rest/v/9"
+
+const baseCollectionSchema = z.object({
+  v: z.literal(4),
+  id: z.optional(z.string()), // For Firestore ID data
+
+  name: z.string(),
+  requests: z.array(
+    z.lazy(() =>
+      z.union([
+        entityReference(HoppRESTRequest),
+        entityReference(HoppGQLRequest),
+      ])
+    )
+  ),
+
+  auth: z.union([HoppRESTAuth, HoppGQLAuth]),
+  headers: z.union([HoppRESTHeaders, z.array(GQLHeader)]),
+
+  // Run around the scripts of every request in the collection (and its folders)
+  preRequestScript: z.string().catch(""),
+  testScript: z.string().catch(""),
+
+  // Available to every request in the collection (and its folders), the ones
+  // of the innermost folder taking precedence
+  variables: HoppRESTRequestVariables.catch([]),
+})
+
+type Input = z.input<typeof baseCollectionSchema> & {
+  folders: Input[]
+}
+
+type Output = z.output<typeof baseCollectionSchema> & {
+  folders: Output[]
+}
+
+export const V4_SCHEMA: z.ZodType<Output, z.ZodTypeDef, Input> = baseCollectionSchema.extend({
+  folders: z.lazy(() => z.array(V4_SCHEMA)),
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V4_SCHEMA,
+  up(old: z.infer<typeof V3_SCHEMA>) {
+    // @ts-expect-error
+    const result: z.infer<typeof V4_SCHEMA> = {
+      ...old,
+      v: 4,
+      variables: [],
+    }
+
+    if (old.id) result.id = old.id
+
+    return result
+  },
+})
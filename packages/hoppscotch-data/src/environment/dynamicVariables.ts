@@ -0,0 +1,162 @@
+import { getRandomBytes } from "../utils/hash"
+
+/**
+ * A variable that is generated while it's being resolved, so every
+ * reference gets a value of its own, unless it's resolved up front
+ * (see `resolveDynamicVariables`)
+ */
+export type DynamicVariable = {
+  /**
+   * Key the variable is referenced with, reserved by the `$` prefix
+   */
+  key: `$${string}`
+  description: string
+  getValue: () => string
+}
+
+const FIRST_NAMES = [
+  "Alex",
+  "Amara",
+  "Ben",
+  "Chen",
+  "Diego",
+  "Elena",
+  "Farah",
+  "Hiro",
+  "Isla",
+  "Jonas",
+  "Kofi",
+  "Lena",
+  "Mateo",
+  "Nina",
+  "Omar",
+  "Priya",
+  "Ravi",
+  "Sofia",
+  "Tariq",
+  "Zoe",
+]
+
+const LAST_NAMES = [
+  "Anderson",
+  "Bauer",
+  "Costa",
+  "Dubois",
+  "Evans",
+  "Fischer",
+  "Garcia",
+  "Hansen",
+  "Ivanova",
+  "Kim",
+  "Larsen",
+  "Mensah",
+  "Nakamura",
+  "Okafor",
+  "Patel",
+  "Rossi",
+  "Silva",
+  "Tanaka",
+  "Walker",
+  "Zhang",
+]
+
+const getRandomInt = (min: number, max: number) =>
+  min + Math.floor(Math.random() * (max - min + 1))
+
+const getRandomItem = <T>(items: T[]) =>
+  items[getRandomInt(0, items.length - 1)]
+
+const getRandomUUID = () => {
+  const bytes = getRandomBytes(16)
+
+  // Version 4 and RFC 4122 variant bits
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+
+  return [
+    hex.slice(0, 4),
+    hex.slice(4, 6),
+    hex.slice(6, 8),
+    hex.slice(8, 10),
+    hex.slice(10),
+  ]
+    .map((group) => group.join(""))
+    .join("-")
+}
+
+export const DYNAMIC_VARIABLES: DynamicVariable[] = [
+  {
+    key: "$guid",
+    description: "A random v4 UUID",
+    getValue: getRandomUUID,
+  },
+  {
+    key: "$randomUUID",
+    description: "A random v4 UUID",
+    getValue: getRandomUUID,
+  },
+  {
+    key: "$timestamp",
+    description: "The current UNIX timestamp in seconds",
+    getValue: () => Math.floor(Date.now() / 1000).toString(),
+  },
+  {
+    key: "$isoTimestamp",
+    description: "The current time in the ISO 8601 format",
+    getValue: () => new Date().toISOString(),
+  },
+  {
+    key: "$randomInt",
+    description: "A random integer between 0 and 1000",
+    getValue: () => getRandomInt(0, 1000).toString(),
+  },
+  {
+    key: "$randomFirstName",
+    description: "A random first name",
+    getValue: () => getRandomItem(FIRST_NAMES),
+  },
+  {
+    key: "$randomLastName",
+    description: "A random last name",
+    getValue: () => getRandomItem(LAST_NAMES),
+  },
+  {
+    key: "$randomFullName",
+    description: "A random first and last name",
+    getValue: () =>
+      `${getRandomItem(FIRST_NAMES)} ${getRandomItem(LAST_NAMES)}`,
+  },
+  {
+    key: "$randomEmail",
+    description: "A random email address",
+    getValue: () => {
+      const firstName = getRandomItem(FIRST_NAMES).toLowerCase()
+      const lastName = getRandomItem(LAST_NAMES).toLowerCase()
+
+      return `${firstName}.${lastName}${getRandomInt(0, 99)}@example.com`
+    },
+  },
+]
+
+/**
+ * Finds the dynamic variable referenced with the given key
+ * @param key Key of the variable (including the `$` prefix)
+ * @returns The dynamic variable, or undefined if there's none with the key
+ */
+export const getDynamicVariable = (key: string) =>
+  DYNAMIC_VARIABLES.find((variable) => variable.key === key)
+
+/**
+ * Generates a value for each of the dynamic variables, for all the references
+ * to a variable (like the ones in a request and in its signature) to share it
+ * @returns The dynamic variables along with their values, to be looked up
+ * along with the environment variables
+ */
+export const resolveDynamicVariables = () =>
+  DYNAMIC_VARIABLES.map(({ key, getValue }) => ({
+    key,
+    value: getValue(),
+    secret: false as const,
+  }))
@@ -6,6 +6,9 @@ import { z } from "zod"
 
 import V0_VERSION from "./v/0"
 import V1_VERSION from "./v/1"
+import { getDynamicVariable } from "./dynamicVariables"
+
+export * from "./dynamicVariables"
 
 const versionedObject = z.object({
   v: z.number(),
@@ -65,6 +68,13 @@ export function parseBodyEnvVariablesE(
       if (found && "value" in found) {
         return found.value
       }
+
+      const dynamicVariable = getDynamicVariable(key.replace(/[<>]/g, ""))
+
+      if (dynamicVariable) {
+        return dynamicVariable.getValue()
+      }
+
       return key
     })
 
@@ -104,6 +114,8 @@ export function parseTemplateStringE(
 
   while (result.match(REGEX_ENV_VAR) != null && depth <= ENV_MAX_EXPAND_LIMIT) {
     result = decodeURI(encodeURI(result)).replace(REGEX_ENV_VAR, (_, p1) => {
+      // Dynamic variables are only found among the variables when resolved
+      // up front, otherwise they get a value of their own
       const variable = variables.find((x) => x && x.key === p1)
 
       if (variable && "value" in variable) {
@@ -117,6 +129,12 @@ export function parseTemplateStringE(
         return variable.value
       }
 
+      const dynamicVariable = getDynamicVariable(p1)
+
+      if (dynamicVariable) {
+        return dynamicVariable.getValue()
+      }
+
       return ""
     })
     depth++
@@ -0,0 +1,191 @@
+import { hmac, sha256, toHex, utf8 } from "../utils/hash"
+import { HoppRESTAuthAWSSignature } from "./v/4"
+
+/**
+ * The parts of a request covered by an AWS Signature Version 4
+ */
+export type AWSSignatureRequest = {
+  method: string
+  /**
+   * The final URL of the request, including the query string
+   */
+  url: string
+  /**
+   * The body of the request (or its bytes), null if the request has no body
+   */
+  body: string | Uint8Array | null
+  /**
+   * Whether the body can't be read while signing (like the files picked in the
+   * browser), so the payload is left unsigned
+   */
+  unsignedPayload?: boolean
+}
+
+export type AWSSignatureCredentials = Pick<
+  HoppRESTAuthAWSSignature,
+  "accessKey" | "secretKey" | "sessionToken" | "region" | "serviceName"
+>
+
+const SIGNING_ALGORITHM = "AWS4-HMAC-SHA256"
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD"
+
+// Lifetime (in seconds) of the signature when it is added to the query params
+const QUERY_SIGNATURE_EXPIRY = 86400
+
+// encodeURIComponent leaves a few reserved characters alone, AWS expects them encoded
+const encodeRFC3986 = (str: string) =>
+  encodeURIComponent(str).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+
+const safeDecodeURIComponent = (str: string) => {
+  try {
+    return decodeURIComponent(str)
+  } catch (_) {
+    return str
+  }
+}
+
+const getCanonicalURI = (pathname: string, serviceName: string) => {
+  if (!pathname || pathname === "/") return "/"
+
+  // Every service but S3 expects the path segments to be encoded twice
+  const encodeSegment = (segment: string) => {
+    const encoded = encodeRFC3986(safeDecodeURIComponent(segment))
+    return serviceName === "s3" ? encoded : encodeRFC3986(encoded)
+  }
+
+  return pathname.split("/").map(encodeSegment).join("/")
+}
+
+const getCanonicalQueryString = (params: [string, string][]) =>
+  params
+    .map(([key, value]) => [encodeRFC3986(key), encodeRFC3986(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA === keyB ? (valueA < valueB ? -1 : 1) : keyA < keyB ? -1 : 1
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&")
+
+/**
+ * Signs a request with AWS Signature Version 4
+ * @param credentials The credentials and the scope to sign the request with
+ * @param request The request to sign
+ * @param addTo Whether the signature is sent as headers or as query params
+ * @param date The time of signing, defaults to now
+ * @returns The headers or query params (based on `addTo`) to add to the request,
+ * an empty list if the URL of the request isn't valid
+ */
+export function generateAWSSignature(
+  credentials: AWSSignatureCredentials,
+  request: AWSSignatureRequest,
+  addTo: HoppRESTAuthAWSSignature["addTo"],
+  date: Date = new Date()
+): { key: string; value: string }[] {
+  let url: URL
+
+  try {
+    url = new URL(request.url)
+  } catch (_) {
+    return []
+  }
+
+  const { accessKey, secretKey, sessionToken, region, serviceName } =
+    credentials
+
+  // 20240101T000000Z
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "")
+  const dateStamp = amzDate.slice(0, 8)
+
+  const credentialScope = `${dateStamp}/${region}/${serviceName}/aws4_request`
+
+  const signedHeaders: [string, string][] = [
+    ["host", url.host],
+    ...(addTo === "Headers"
+      ? ([["x-amz-date", amzDate]] as [string, string][])
+      : []),
+  ]
+
+  const params: [string, string][] = Array.from(url.searchParams.entries())
+  const authParams: [string, string][] = []
+
+  const body = request.body ?? ""
+
+  let payloadHash = request.unsignedPayload
+    ? UNSIGNED_PAYLOAD
+    : toHex(sha256(typeof body === "string" ? utf8(body) : body))
+
+  if (addTo === "Headers") {
+    if (sessionToken) signedHeaders.push(["x-amz-security-token", sessionToken])
+
+    // S3 requires the payload hash to be sent along, the other services
+    // have to be told the payload is unsigned
+    if (serviceName === "s3" || payloadHash === UNSIGNED_PAYLOAD)
+      signedHeaders.push(["x-amz-content-sha256", payloadHash])
+  } else {
+    authParams.push(
+      ["X-Amz-Algorithm", SIGNING_ALGORITHM],
+      ["X-Amz-Credential", `${accessKey}/${credentialScope}`],
+      ["X-Amz-Date", amzDate],
+      ["X-Amz-Expires", `${QUERY_SIGNATURE_EXPIRY}`],
+      ["X-Amz-SignedHeaders", "host"]
+    )
+
+    if (sessionToken) authParams.push(["X-Amz-Security-Token", sessionToken])
+
+    // Presigned S3 URLs don't cover the payload
+    if (serviceName === "s3") payloadHash = UNSIGNED_PAYLOAD
+  }
+
+  signedHeaders.sort(([a], [b]) => (a < b ? -1 : 1))
+
+  const signedHeaderNames = signedHeaders.map(([name]) => name).join(";")
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    getCanonicalURI(url.pathname, serviceName),
+    getCanonicalQueryString([...params, ...authParams]),
+    signedHeaders.map(([name, value]) => `${name}:${value.trim()}\n`).join(""),
+    signedHeaderNames,
+    payloadHash,
+  ].join("\n")
+
+  const stringToSign = [
+    SIGNING_ALGORITHM,
+    amzDate,
+    credentialScope,
+    toHex(sha256(utf8(canonicalRequest))),
+  ].join("\n")
+
+  const signingKey = [dateStamp, region, serviceName, "aws4_request"].reduce(
+    (key, part) => hmac(sha256, key, utf8(part)),
+    utf8(`AWS4${secretKey}`)
+  )
+
+  const signature = toHex(hmac(sha256, signingKey, utf8(stringToSign)))
+
+  if (addTo === "Query params") {
+    return [...authParams, ["X-Amz-Signature", signature]].map(
+      ([key, value]) => ({ key, value })
+    )
+  }
+
+  return [
+    {
+      key: "Authorization",
+      value: `${SIGNING_ALGORITHM} Credential=${accessKey}/${credentialScope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`,
+    },
+    ...signedHeaders
+      .filter(([name]) => name !== "host")
+      .map(([name, value]) => ({
+        // Send the headers with their conventional casing
+        key: name.replace(
+          /(^|-)([a-z])/g,
+          (_, dash, char) => `${dash}${char.toUpperCase()}`
+        ),
+        value,
+      })),
+  ]
+}
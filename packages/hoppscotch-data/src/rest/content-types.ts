@@ -6,6 +6,7 @@ export const knownContentTypes = {
   "application/xml": "xml",
   "application/x-www-form-urlencoded": "multipart",
   "multipart/form-data": "multipart",
+  "application/octet-stream": "binary",
   "text/html": "html",
   "text/plain": "plain",
 }
@@ -0,0 +1,139 @@
+import { md5, randomHex, sha256, toHex, utf8 } from "../utils/hash"
+import { HoppRESTAuthDigest } from "./v/5"
+
+/**
+ * The parameters of a Digest challenge sent by the server
+ * in the `WWW-Authenticate` header
+ */
+export type DigestChallenge = Pick<
+  HoppRESTAuthDigest,
+  "realm" | "nonce" | "opaque" | "algorithm"
+> & {
+  /**
+   * The quality of protection to respond with, null if the server
+   * uses the legacy (RFC 2069) scheme without it
+   */
+  qop: HoppRESTAuthDigest["qop"] | null
+}
+
+export type DigestAuthParams = Pick<
+  HoppRESTAuthDigest,
+  "username" | "password" | "nc" | "cnonce"
+> &
+  DigestChallenge
+
+/**
+ * The parts of a request covered by the Digest response
+ */
+export type DigestAuthRequest = {
+  method: string
+  /**
+   * The final URL of the request, including the query string
+   */
+  url: string
+  /**
+   * The body of the request, only covered with the `auth-int` quality of protection
+   */
+  body: string | null
+}
+
+const DIGEST_ALGORITHMS: HoppRESTAuthDigest["algorithm"][] = [
+  "MD5",
+  "MD5-sess",
+  "SHA-256",
+  "SHA-256-sess",
+]
+
+/**
+ * Parses the Digest challenge out of the `WWW-Authenticate` header of a response
+ * @param header The value of the `WWW-Authenticate` header
+ * @returns The challenge, null if the header doesn't have a (supported) Digest challenge
+ */
+export function parseDigestChallenge(header: string): DigestChallenge | null {
+  const challenge = header.match(/(?:^|[\s,])Digest\s+(.*)$/i)
+
+  if (!challenge) return null
+
+  const params: Record<string, string> = {}
+
+  for (const [, key, quotedValue, value] of challenge[1].matchAll(
+    /([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]*))/g
+  )) {
+    params[key.toLowerCase()] = quotedValue ?? value
+  }
+
+  const algorithm = DIGEST_ALGORITHMS.find(
+    (x) => x.toLowerCase() === (params.algorithm ?? "MD5").toLowerCase()
+  )
+
+  if (!params.nonce || !algorithm) return null
+
+  // The server may offer multiple ones, `auth` is preferred as it doesn't need the body
+  const qopOptions = (params.qop ?? "").split(",").map((x) => x.trim())
+
+  return {
+    realm: params.realm ?? "",
+    nonce: params.nonce,
+    opaque: params.opaque ?? "",
+    algorithm,
+    qop: qopOptions.includes("auth")
+      ? "auth"
+      : qopOptions.includes("auth-int")
+        ? "auth-int"
+        : null,
+  }
+}
+
+/**
+ * Computes the `Authorization` header responding to a Digest challenge
+ * @param params The credentials and the challenge to respond to
+ * @param request The request to authorize
+ * @returns The value of the `Authorization` header
+ */
+export function generateDigestAuthHeader(
+  params: DigestAuthParams,
+  request: DigestAuthRequest
+): string {
+  const { username, password, realm, nonce, algorithm, qop, opaque } = params
+
+  let uri: string
+
+  try {
+    const url = new URL(request.url)
+    uri = `${url.pathname}${url.search}`
+  } catch (_) {
+    uri = request.url
+  }
+
+  const hash = algorithm.startsWith("SHA-256") ? sha256 : md5
+  const H = (data: string) => toHex(hash(utf8(data)))
+
+  const method = request.method.toUpperCase()
+  const nc = params.nc || "00000001"
+  const cnonce = params.cnonce || randomHex(16)
+
+  const credentialsHash = H(`${username}:${realm}:${password}`)
+  const HA1 = algorithm.endsWith("-sess")
+    ? H(`${credentialsHash}:${nonce}:${cnonce}`)
+    : credentialsHash
+
+  const HA2 =
+    qop === "auth-int"
+      ? H(`${method}:${uri}:${H(request.body ?? "")}`)
+      : H(`${method}:${uri}`)
+
+  const response = qop
+    ? H(`${HA1}:${nonce}:${nc}:${cnonce}:${qop}:${HA2}`)
+    : H(`${HA1}:${nonce}:${HA2}`)
+
+  return [
+    `Digest username="${username}"`,
+    `realm="${realm}"`,
+    `nonce="${nonce}"`,
+    `uri="${uri}"`,
+    `algorithm=${algorithm}`,
+    ...(qop ? [`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`] : []),
+    `response="${response}"`,
+    ...(opaque ? [`opaque="${opaque}"`] : []),
+  ].join(", ")
+}
@@ -0,0 +1,92 @@
+import { hmac, randomHex, sha1, sha256, toBase64, utf8 } from "../utils/hash"
+import { HoppRESTAuthHawk } from "./v/5"
+
+export type HawkAuthParams = Omit<HoppRESTAuthHawk, "authType">
+
+/**
+ * The parts of a request covered by the Hawk MAC
+ */
+export type HawkAuthRequest = {
+  method: string
+  /**
+   * The final URL of the request, including the query string
+   */
+  url: string
+  /**
+   * The body of the request, only covered if the payload hash is included
+   */
+  body: string | null
+  contentType: string | null
+}
+
+/**
+ * Computes the Hawk `Authorization` header of a request
+ * @param params The credentials and the options to compute the MAC with
+ * @param request The request to authorize
+ * @returns The value of the `Authorization` header, null if the URL of the request isn't valid
+ */
+export function generateHawkAuthHeader(
+  params: HawkAuthParams,
+  request: HawkAuthRequest
+): string | null {
+  let url: URL
+
+  try {
+    url = new URL(request.url)
+  } catch (_) {
+    return null
+  }
+
+  const { authId, authKey, algorithm, includePayloadHash, ext, app, dlg } =
+    params
+
+  const hash = algorithm === "sha1" ? sha1 : sha256
+
+  const ts = params.timestamp || `${Math.floor(Date.now() / 1000)}`
+  const nonce = params.nonce || randomHex(6)
+
+  const port = url.port || (url.protocol === "https:" ? "443" : "80")
+
+  // The content type is covered without its parameters (like the charset)
+  const payloadHash = includePayloadHash
+    ? toBase64(
+        hash(
+          utf8(
+            `hawk.1.payload\n${(request.contentType ?? "")
+              .split(";")[0]
+              .trim()
+              .toLowerCase()}\n${request.body ?? ""}\n`
+          )
+        )
+      )
+    : ""
+
+  const normalized = [
+    "hawk.1.header",
+    ts,
+    nonce,
+    request.method.toUpperCase(),
+    `${url.pathname}${url.search}`,
+    url.hostname.toLowerCase(),
+    port,
+    payloadHash,
+    ext.replace(/\\/g, "\\\\").replace(/\n/g, "\\n"),
+    ...(app ? [app, dlg] : []),
+    "",
+  ].join("\n")
+
+  const mac = toBase64(hmac(hash, utf8(authKey), utf8(normalized)))
+
+  // The quotes (and backslashes) of the ext would end its value in the header
+  const escapedExt = ext.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
+
+  return [
+    `Hawk id="${authId}"`,
+    `ts="${ts}"`,
+    `nonce="${nonce}"`,
+    ...(payloadHash ? [`hash="${payloadHash}"`] : []),
+    ...(ext ? [`ext="${escapedExt}"`] : []),
+    `mac="${mac}"`,
+    ...(app ? [`app="${app}"`, ...(dlg ? [`dlg="${dlg}"`] : [])] : []),
+  ].join(", ")
+}
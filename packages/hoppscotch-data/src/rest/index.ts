@@ -3,30 +3,45 @@ import * as S from "fp-ts/string"
 import cloneDeep from "lodash/cloneDeep"
 import V0_VERSION from "./v/0"
 import V1_VERSION from "./v/1"
+import V2_VERSION from "./v/2"
+import V3_VERSION from "./v/3"
+import V4_VERSION from "./v/4"
+import V5_VERSION from "./v/5"
+import V6_VERSION from "./v/6"
+import V7_VERSION from "./v/7"
+import V8_VERSION from "./v/8"
+import V9_VERSION from "./v/9"
 import { createVersionedEntity, InferredEntity } from "verzod"
 import { lodashIsEqualEq, mapThenEq, undefinedEq } from "../utils/eq"
-import {
-  HoppRESTAuth,
-  HoppRESTReqBody,
-  HoppRESTHeaders,
-  HoppRESTParams,
-} from "./v/1"
+import { HoppRESTHeaders, HoppRESTParams } from "./v/1"
+import { HoppRESTAuth } from "./v/5"
+import { HoppRESTReqBody } from "./v/6"
+import { HoppRESTRequestSettings } from "./v/8"
+import { HoppRESTRequestVariables } from "./v/9"
 import { z } from "zod"
 
 export * from "./content-types"
+export * from "./aws-signature"
+export * from "./digest"
+export * from "./hawk"
 export {
   FormDataKeyValue,
   HoppRESTReqBodyFormData,
-  HoppRESTAuth,
   HoppRESTAuthAPIKey,
   HoppRESTAuthBasic,
   HoppRESTAuthInherit,
   HoppRESTAuthBearer,
   HoppRESTAuthNone,
-  HoppRESTAuthOAuth2,
-  HoppRESTReqBody,
   HoppRESTHeaders,
 } from "./v/1"
+export { HoppRESTAuthOAuth2GrantType } from "./v/2"
+export { HoppRESTAuthOAuth2 } from "./v/3"
+export { HoppRESTAuthAWSSignature } from "./v/4"
+export { HoppRESTAuth, HoppRESTAuthDigest, HoppRESTAuthHawk } from "./v/5"
+export { HoppRESTReqBody, HoppRESTReqBodyBinary } from "./v/6"
+export { HoppRESTRequestResponse, HoppRESTRequestResponses } from "./v/7"
+export { HoppRESTRequestSettings } from "./v/8"
+export { HoppRESTRequestVariables } from "./v/9"
 
 const versionedObject = z.object({
   // v is a stringified number
@@ -34,10 +49,18 @@ const versionedObject = z.object({
 })
 
 export const HoppRESTRequest = createVersionedEntity({
-  latestVersion: 1,
+  latestVersion: 9,
   versionMap: {
     0: V0_VERSION,
     1: V1_VERSION,
+    2: V2_VERSION,
+    3: V3_VERSION,
+    4: V4_VERSION,
+    5: V5_VERSION,
+    6: V6_VERSION,
+    7: V7_VERSION,
+    8: V8_VERSION,
+    9: V9_VERSION,
   },
   getVersion(data) {
     // For V1 onwards we have the v string storing the number
@@ -73,9 +96,12 @@ const HoppRESTRequestEq = Eq.struct<HoppRESTRequest>({
   name: S.Eq,
   preRequestScript: S.Eq,
   testScript: S.Eq,
+  responses: lodashIsEqualEq,
+  settings: lodashIsEqualEq,
+  requestVariables: lodashIsEqualEq,
 })
 
-export const RESTReqSchemaVersion = "1"
+export const RESTReqSchemaVersion = "9"
 
 export type HoppRESTParam = HoppRESTRequest["params"][number]
 export type HoppRESTHeader = HoppRESTRequest["headers"][number]
@@ -144,6 +170,22 @@ export function safelyExtractRESTRequest(
         req.headers = result.data
       }
     }
+
+    if ("settings" in x) {
+      const result = HoppRESTRequestSettings.safeParse(x.settings)
+
+      if (result.success) {
+        req.settings = result.data
+      }
+    }
+
+    if ("requestVariables" in x) {
+      const result = HoppRESTRequestVariables.safeParse(x.requestVariables)
+
+      if (result.success) {
+        req.requestVariables = result.data
+      }
+    }
   }
 
   return req
@@ -158,9 +200,18 @@ export function makeRESTRequest(
   }
 }
 
+export function getDefaultRESTRequestSettings(): HoppRESTRequestSettings {
+  return {
+    timeout: null,
+    followRedirects: true,
+    maxRedirects: 10,
+    verifyTLS: true,
+  }
+}
+
 export function getDefaultRESTRequest(): HoppRESTRequest {
   return {
-    v: "1",
+    v: "9",
     endpoint: "https://echo.hoppscotch.io",
     name: "Untitled",
     params: [],
@@ -176,6 +227,8 @@ export function getDefaultRESTRequest(): HoppRESTRequest {
       contentType: null,
       body: null,
     },
+    settings: getDefaultRESTRequestSettings(),
+    requestVariables: [],
   }
 }
 
@@ -0,0 +1,89 @@
+import { defineVersion } from "verzod"
+import { z } from "zod"
+
+import {
+  HoppRESTAuthAPIKey,
+  HoppRESTAuthBasic,
+  HoppRESTAuthBearer,
+  HoppRESTAuthInherit,
+  HoppRESTAuthNone,
+  V1_SCHEMA,
+} from "./1"
+
+export const HoppRESTAuthOAuth2GrantType = z.enum([
+  "authorization_code",
+  "client_credentials",
+  "password",
+  "implicit",
+])
+
+export type HoppRESTAuthOAuth2GrantType = z.infer<
+  typeof HoppRESTAuthOAuth2GrantType
+>
+
+export const HoppRESTAuthOAuth2 = z.object({
+  authType: z.literal("oauth-2"),
+  grantType: HoppRESTAuthOAuth2GrantType.catch("authorization_code"),
+  token: z.string().catch(""),
+  oidcDiscoveryURL: z.string().catch(""),
+  authURL: z.string().catch(""),
+  accessTokenURL: z.string().catch(""),
+  clientID: z.string().catch(""),
+  clientSecret: z.string().catch(""),
+  scope: z.string().catch(""),
+  // Resource owner credentials, only used by the password grant
+  username: z.string().catch(""),
+  password: z.string().catch(""),
+  // Whether the client credentials are sent to the token endpoint
+  // as a basic auth header or as part of the request body
+  clientAuthentication: z.enum(["header", "body"]).catch("body"),
+})
+
+export type HoppRESTAuthOAuth2 = z.infer<typeof HoppRESTAuthOAuth2>
+
+export const HoppRESTAuth = z
+  .discriminatedUnion("authType", [
+    HoppRESTAuthNone,
+    HoppRESTAuthInherit,
+    HoppRESTAuthBasic,
+    HoppRESTAuthBearer,
+    HoppRESTAuthOAuth2,
+    HoppRESTAuthAPIKey,
+  ])
+  .and(
+    z.object({
+      authActive: z.boolean(),
+    })
+  )
+
+export type HoppRESTAuth = z.infer<typeof HoppRESTAuth>
+
+export const V2_SCHEMA = V1_SCHEMA.extend({
+  v: z.literal("2"),
+  auth: HoppRESTAuth,
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V2_SCHEMA,
+  up(old: z.infer<typeof V1_SCHEMA>) {
+    const auth: z.infer<typeof V2_SCHEMA>["auth"] =
+      old.auth.authType === "oauth-2"
+        ? {
+            ...old.auth,
+            grantType: "authorization_code",
+            clientSecret: "",
+            username: "",
+            password: "",
+            clientAuthentication: "body",
+          }
+        : old.auth
+
+    return {
+      ...old,
+      v: "2" as const,
+      auth,
+    }
+  },
+})
+
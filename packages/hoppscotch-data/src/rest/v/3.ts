@@ -0,0 +1,63 @@
+import { defineVersion } from "verzod"
+import { z } from "zod"
+
+import {
+  HoppRESTAuthAPIKey,
+  HoppRESTAuthBasic,
+  HoppRESTAuthBearer,
+  HoppRESTAuthInherit,
+  HoppRESTAuthNone,
+} from "./1"
+import { HoppRESTAuthOAuth2 as V2_HoppRESTAuthOAuth2, V2_SCHEMA } from "./2"
+
+export const HoppRESTAuthOAuth2 = V2_HoppRESTAuthOAuth2.extend({
+  refreshToken: z.string().catch(""),
+  // Epoch time (in milliseconds) the token expires at, derived from the
+  // `expires_in` of the token response. Null if the expiry isn't known
+  tokenExpiresAt: z.number().nullable().catch(null),
+})
+
+export type HoppRESTAuthOAuth2 = z.infer<typeof HoppRESTAuthOAuth2>
+
+export const HoppRESTAuth = z
+  .discriminatedUnion("authType", [
+    HoppRESTAuthNone,
+    HoppRESTAuthInherit,
+    HoppRESTAuthBasic,
+    HoppRESTAuthBearer,
+    HoppRESTAuthOAuth2,
+    HoppRESTAuthAPIKey,
+  ])
+  .and(
+    z.object({
+      authActive: z.boolean(),
+    })
+  )
+
+export type HoppRESTAuth = z.infer<typeof HoppRESTAuth>
+
+export const V3_SCHEMA = V2_SCHEMA.extend({
+  v: z.literal("3"),
+  auth: HoppRESTAuth,
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V3_SCHEMA,
+  up(old: z.infer<typeof V2_SCHEMA>) {
+    const auth: z.infer<typeof V3_SCHEMA>["auth"] =
+      old.auth.authType === "oauth-2"
+        ? {
+            ...old.auth,
+            refreshToken: "",
+            tokenExpiresAt: null,
+          }
+        : old.auth
+
+    return {
+      ...old,
+      v: "3" as const,
+      auth,
+    }
+  },
+})
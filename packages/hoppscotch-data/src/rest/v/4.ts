@@ -0,0 +1,58 @@
+import { defineVersion } from "verzod"
+import { z } from "zod"
+
+import {
+  HoppRESTAuthAPIKey,
+  HoppRESTAuthBasic,
+  HoppRESTAuthBearer,
+  HoppRESTAuthInherit,
+  HoppRESTAuthNone,
+} from "./1"
+import { HoppRESTAuthOAuth2, V3_SCHEMA } from "./3"
+
+export const HoppRESTAuthAWSSignature = z.object({
+  authType: z.literal("aws-signature"),
+  accessKey: z.string().catch(""),
+  secretKey: z.string().catch(""),
+  // Only needed for temporary security credentials
+  sessionToken: z.string().catch(""),
+  region: z.string().catch(""),
+  serviceName: z.string().catch(""),
+  addTo: z.enum(["Headers", "Query params"]).catch("Headers"),
+})
+
+export type HoppRESTAuthAWSSignature = z.infer<typeof HoppRESTAuthAWSSignature>
+
+export const HoppRESTAuth = z
+  .discriminatedUnion("authType", [
+    HoppRESTAuthNone,
+    HoppRESTAuthInherit,
+    HoppRESTAuthBasic,
+    HoppRESTAuthBearer,
+    HoppRESTAuthOAuth2,
+    HoppRESTAuthAPIKey,
+    HoppRESTAuthAWSSignature,
+  ])
+  .and(
+    z.object({
+      authActive: z.boolean(),
+    })
+  )
+
+export type HoppRESTAuth = z.infer<typeof HoppRESTAuth>
+
+export const V4_SCHEMA = V3_SCHEMA.extend({
+  v: z.literal("4"),
+  auth: HoppRESTAuth,
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V4_SCHEMA,
+  up(old: z.infer<typeof V3_SCHEMA>) {
+    return {
+      ...old,
+      v: "4" as const,
+    }
+  },
+})
@@ -0,0 +1,83 @@
+import { defineVersion } from "verzod"
+import { z } from "zod"
+
+import {
+  HoppRESTAuthAPIKey,
+  HoppRESTAuthBasic,
+  HoppRESTAuthBearer,
+  HoppRESTAuthInherit,
+  HoppRESTAuthNone,
+} from "./1"
+import { HoppRESTAuthOAuth2 } from "./3"
+import { HoppRESTAuthAWSSignature, V4_SCHEMA } from "./4"
+
+export const HoppRESTAuthDigest = z.object({
+  authType: z.literal("digest"),
+  username: z.string().catch(""),
+  password: z.string().catch(""),
+  // The challenge parameters, picked up from the `WWW-Authenticate` header
+  // of the server response, unless specified
+  realm: z.string().catch(""),
+  nonce: z.string().catch(""),
+  algorithm: z.enum(["MD5", "MD5-sess", "SHA-256", "SHA-256-sess"]).catch("MD5"),
+  qop: z.enum(["auth", "auth-int"]).catch("auth"),
+  nc: z.string().catch(""),
+  cnonce: z.string().catch(""),
+  opaque: z.string().catch(""),
+  // Whether to skip retrying the request with the challenge of the server
+  disableRetry: z.boolean().catch(false),
+})
+
+export type HoppRESTAuthDigest = z.infer<typeof HoppRESTAuthDigest>
+
+export const HoppRESTAuthHawk = z.object({
+  authType: z.literal("hawk"),
+  authId: z.string().catch(""),
+  authKey: z.string().catch(""),
+  algorithm: z.enum(["sha256", "sha1"]).catch("sha256"),
+  includePayloadHash: z.boolean().catch(false),
+  // Generated for every request, unless specified
+  nonce: z.string().catch(""),
+  timestamp: z.string().catch(""),
+  ext: z.string().catch(""),
+  app: z.string().catch(""),
+  dlg: z.string().catch(""),
+})
+
+export type HoppRESTAuthHawk = z.infer<typeof HoppRESTAuthHawk>
+
+export const HoppRESTAuth = z
+  .discriminatedUnion("authType", [
+    HoppRESTAuthNone,
+    HoppRESTAuthInherit,
+    HoppRESTAuthBasic,
+    HoppRESTAuthBearer,
+    HoppRESTAuthOAuth2,
+    HoppRESTAuthAPIKey,
+    HoppRESTAuthAWSSignature,
+    HoppRESTAuthDigest,
+    HoppRESTAuthHawk,
+  ])
+  .and(
+    z.object({
+      authActive: z.boolean(),
+    })
+  )
+
+export type HoppRESTAuth = z.infer<typeof HoppRESTAuth>
+
+export const V5_SCHEMA = V4_SCHEMA.extend({
+  v: z.literal("5"),
+  auth: HoppRESTAuth,
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V5_SCHEMA,
+  up(old: z.infer<typeof V4_SCHEMA>) {
+    return {
+      ...old,
+      v: "5" as const,
+    }
+  },
+})
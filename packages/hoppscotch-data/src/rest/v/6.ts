@@ -0,0 +1,59 @@
+import { defineVersion } from "verzod"
+import { z } from "zod"
+
+import { FormDataKeyValue } from "./1"
+import { V5_SCHEMA } from "./5"
+
+export const HoppRESTReqBodyBinary = z.object({
+  contentType: z.literal("application/octet-stream"),
+  // Files aren't persisted, so they're reset to null once restored
+  body: z.instanceof(Blob).nullable().catch(null),
+  // The content type the file is sent with, the type of the file
+  // (or `application/octet-stream`) is used if left empty
+  fileContentType: z.string().catch(""),
+})
+
+export type HoppRESTReqBodyBinary = z.infer<typeof HoppRESTReqBodyBinary>
+
+export const HoppRESTReqBody = z.union([
+  z.object({
+    contentType: z.literal(null),
+    body: z.literal(null).catch(null),
+  }),
+  z.object({
+    contentType: z.literal("multipart/form-data"),
+    body: z.array(FormDataKeyValue).catch([]),
+  }),
+  HoppRESTReqBodyBinary,
+  z.object({
+    contentType: z.union([
+      z.literal("application/json"),
+      z.literal("application/ld+json"),
+      z.literal("application/hal+json"),
+      z.literal("application/vnd.api+json"),
+      z.literal("application/xml"),
+      z.literal("application/x-www-form-urlencoded"),
+      z.literal("text/html"),
+      z.literal("text/plain"),
+    ]),
+    body: z.string().catch(""),
+  }),
+])
+
+export type HoppRESTReqBody = z.infer<typeof HoppRESTReqBody>
+
+export const V6_SCHEMA = V5_SCHEMA.extend({
+  v: z.literal("6"),
+  body: HoppRESTReqBody,
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V6_SCHEMA,
+  up(old: z.infer<typeof V5_SCHEMA>) {
+    return {
+      ...old,
+      v: "6" as const,
+    }
+  },
+})
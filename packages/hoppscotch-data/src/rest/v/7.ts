@@ -0,0 +1,50 @@
+import { defineVersion } from "verzod"
+import { z } from "zod"
+
+import { V6_SCHEMA } from "./6"
+
+/**
+ * A response saved against a request as a named example
+ */
+export const HoppRESTRequestResponse = z.object({
+  code: z.number().int().catch(200),
+  status: z.string().catch(""),
+  headers: z
+    .array(
+      z.object({
+        key: z.string(),
+        value: z.string(),
+      })
+    )
+    .catch([]),
+  // The response body, decoded as text
+  body: z.string().catch(""),
+})
+
+export type HoppRESTRequestResponse = z.infer<typeof HoppRESTRequestResponse>
+
+/**
+ * The saved examples of a request, keyed by their name
+ */
+export const HoppRESTRequestResponses = z.record(
+  z.string(),
+  HoppRESTRequestResponse
+)
+
+export type HoppRESTRequestResponses = z.infer<typeof HoppRESTRequestResponses>
+
+export const V7_SCHEMA = V6_SCHEMA.extend({
+  v: z.literal("7"),
+  responses: HoppRESTRequestResponses.optional(),
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V7_SCHEMA,
+  up(old: z.infer<typeof V6_SCHEMA>) {
+    return {
+      ...old,
+      v: "7" as const,
+    }
+  },
+})
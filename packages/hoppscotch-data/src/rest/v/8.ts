@@ -0,0 +1,40 @@
+import { defineVersion } from "verzod"
+import { z } from "zod"
+
+import { V7_SCHEMA } from "./7"
+
+/**
+ * The transport options of a request, interceptors that can't honor
+ * some of them ignore those
+ */
+export const HoppRESTRequestSettings = z.object({
+  // The time in ms after which the request is aborted, no timeout if null
+  timeout: z.number().int().nonnegative().nullable().catch(null),
+  followRedirects: z.boolean().catch(true),
+  maxRedirects: z.number().int().nonnegative().catch(10),
+  verifyTLS: z.boolean().catch(true),
+})
+
+export type HoppRESTRequestSettings = z.infer<typeof HoppRESTRequestSettings>
+
+export const V8_SCHEMA = V7_SCHEMA.extend({
+  v: z.literal("8"),
+  settings: HoppRESTRequestSettings,
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V8_SCHEMA,
+  up(old: z.infer<typeof V7_SCHEMA>) {
+    return {
+      ...old,
+      v: "8" as const,
+      settings: {
+        timeout: null,
+        followRedirects: true,
+        maxRedirects: 10,
+        verifyTLS: true,
+      },
+    }
+  },
+})
@@ -0,0 +1,35 @@
+import { defineVersion } from "verzod"
+import { z } from "zod"
+
+import { V8_SCHEMA } from "./8"
+
+/**
+ * Variables scoped to a request, they take precedence over the ones of its
+ * parent collections (and folders) and the ones of the environments
+ */
+export const HoppRESTRequestVariables = z.array(
+  z.object({
+    key: z.string(),
+    value: z.string(),
+    active: z.boolean(),
+  })
+)
+
+export type HoppRESTRequestVariables = z.infer<typeof HoppRESTRequestVariables>
+
+export const V9_SCHEMA = V8_SCHEMA.extend({
+  v: z.literal("9"),
+  requestVariables: HoppRESTRequestVariables,
+})
+
+export default defineVersion({
+  initial: false,
+  schema: V9_SCHEMA,
+  up(old: z.infer<typeof V8_SCHEMA>) {
+    return {
+      ...old,
+      v: "9" as const,
+      requestVariables: [],
+    }
+  },
+})
@@ -0,0 +1,291 @@
+/*
+ * Synchronous implementations of the hash functions needed to sign requests.
+ * Signatures are computed while the effective request is being built,
+ * which rules out SubtleCrypto
+ */
+
+export type HashFunction = (message: Uint8Array) => Uint8Array
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n))
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n))
+
+/**
+ * Pads the message to a multiple of 64 bytes with a 1 bit, zeroes and
+ * the 64 bit message length, as done by MD5 and the SHA family
+ */
+const padMessage = (message: Uint8Array, littleEndian: boolean) => {
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64
+  const padded = new Uint8Array(paddedLength)
+  padded.set(message)
+  padded[message.length] = 0x80
+
+  const view = new DataView(padded.buffer)
+  const bitLength = message.length * 8
+  const high = Math.floor(bitLength / 0x100000000)
+  const low = bitLength >>> 0
+
+  if (littleEndian) {
+    view.setUint32(paddedLength - 8, low, true)
+    view.setUint32(paddedLength - 4, high, true)
+  } else {
+    view.setUint32(paddedLength - 8, high)
+    view.setUint32(paddedLength - 4, low)
+  }
+
+  return view
+}
+
+const wordsToBytes = (words: Uint32Array, littleEndian: boolean) => {
+  const bytes = new Uint8Array(words.length * 4)
+  const view = new DataView(bytes.buffer)
+  words.forEach((word, i) => view.setUint32(i * 4, word, littleEndian))
+
+  return bytes
+}
+
+// MD5 per-round shift amounts and constants
+const MD5_S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21,
+]
+
+const MD5_K = new Uint32Array(
+  Array.from({ length: 64 }, (_, i) =>
+    Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000)
+  )
+)
+
+export const md5: HashFunction = (message) => {
+  const H = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476])
+  const view = padMessage(message, true)
+  const M = new Uint32Array(16)
+
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let i = 0; i < 16; i++) M[i] = view.getUint32(offset + i * 4, true)
+
+    let a = H[0]
+    let b = H[1]
+    let c = H[2]
+    let d = H[3]
+
+    for (let i = 0; i < 64; i++) {
+      let f: number
+      let g: number
+
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+
+      const temp = d
+      d = c
+      c = b
+      b = (b + rotl((a + f + MD5_K[i] + M[g]) >>> 0, MD5_S[i])) >>> 0
+      a = temp
+    }
+
+    H[0] += a
+    H[1] += b
+    H[2] += c
+    H[3] += d
+  }
+
+  return wordsToBytes(H, true)
+}
+
+export const sha1: HashFunction = (message) => {
+  const H = new Uint32Array([
+    0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0,
+  ])
+  const view = padMessage(message, false)
+  const W = new Uint32Array(80)
+
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let i = 0; i < 16; i++) W[i] = view.getUint32(offset + i * 4)
+    for (let i = 16; i < 80; i++)
+      W[i] = rotl(W[i - 3] ^ W[i - 8] ^ W[i - 14] ^ W[i - 16], 1)
+
+    let a = H[0]
+    let b = H[1]
+    let c = H[2]
+    let d = H[3]
+    let e = H[4]
+
+    for (let i = 0; i < 80; i++) {
+      let f: number
+      let k: number
+
+      if (i < 20) {
+        f = (b & c) | (~b & d)
+        k = 0x5a827999
+      } else if (i < 40) {
+        f = b ^ c ^ d
+        k = 0x6ed9eba1
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d)
+        k = 0x8f1bbcdc
+      } else {
+        f = b ^ c ^ d
+        k = 0xca62c1d6
+      }
+
+      const temp = (rotl(a, 5) + f + e + k + W[i]) >>> 0
+      e = d
+      d = c
+      c = rotl(b, 30) >>> 0
+      b = a
+      a = temp
+    }
+
+    H[0] += a
+    H[1] += b
+    H[2] += c
+    H[3] += d
+    H[4] += e
+  }
+
+  return wordsToBytes(H, false)
+}
+
+// SHA-256 round constants
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+])
+
+export const sha256: HashFunction = (message) => {
+  const H = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ])
+  const view = padMessage(message, false)
+  const W = new Uint32Array(64)
+
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let i = 0; i < 16; i++) W[i] = view.getUint32(offset + i * 4)
+
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(W[i - 15], 7) ^ rotr(W[i - 15], 18) ^ (W[i - 15] >>> 3)
+      const s1 = rotr(W[i - 2], 17) ^ rotr(W[i - 2], 19) ^ (W[i - 2] >>> 10)
+      W[i] = W[i - 16] + s0 + W[i - 7] + s1
+    }
+
+    let a = H[0]
+    let b = H[1]
+    let c = H[2]
+    let d = H[3]
+    let e = H[4]
+    let f = H[5]
+    let g = H[6]
+    let h = H[7]
+
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)
+      const ch = (e & f) ^ (~e & g)
+      const t1 = (h + S1 + ch + SHA256_K[i] + W[i]) >>> 0
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)
+      const maj = (a & b) ^ (a & c) ^ (b & c)
+      const t2 = (S0 + maj) >>> 0
+
+      h = g
+      g = f
+      f = e
+      e = (d + t1) >>> 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) >>> 0
+    }
+
+    H[0] += a
+    H[1] += b
+    H[2] += c
+    H[3] += d
+    H[4] += e
+    H[5] += f
+    H[6] += g
+    H[7] += h
+  }
+
+  return wordsToBytes(H, false)
+}
+
+/**
+ * Computes the HMAC of a message with a hash function working on 64 byte blocks
+ */
+export const hmac = (
+  hash: HashFunction,
+  key: Uint8Array,
+  message: Uint8Array
+): Uint8Array => {
+  const block = new Uint8Array(64)
+  block.set(key.length > 64 ? hash(key) : key)
+
+  const inner = new Uint8Array(64 + message.length)
+  const outerKey = new Uint8Array(64)
+
+  for (let i = 0; i < 64; i++) {
+    inner[i] = block[i] ^ 0x36
+    outerKey[i] = block[i] ^ 0x5c
+  }
+
+  inner.set(message, 64)
+
+  const innerHash = hash(inner)
+  const outer = new Uint8Array(64 + innerHash.length)
+  outer.set(outerKey)
+  outer.set(innerHash, 64)
+
+  return hash(outer)
+}
+
+export const utf8 = (str: string) => new TextEncoder().encode(str)
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+
+export const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""))
+
+/**
+ * Fills an array with random bytes, falling back to `Math.random` on the
+ * runtimes without the Web Crypto API
+ */
+export const getRandomBytes = (length: number) => {
+  const bytes = new Uint8Array(length)
+
+  if (globalThis.crypto?.getRandomValues) {
+    globalThis.crypto.getRandomValues(bytes)
+  } else {
+    for (let i = 0; i < length; i++) bytes[i] = Math.floor(Math.random() * 256)
+  }
+
+  return bytes
+}
+
+/**
+ * Generates a random hex string, used for client nonces
+ * @param length The number of characters of the string
+ */
+export const randomHex = (length: number) =>
+  toHex(getRandomBytes(Math.ceil(length / 2))).slice(0, length)
@@ -18,11 +18,13 @@ describe("runPreRequestScript", () => {
         }
       )()
     ).resolves.toEqualRight({
-      global: [],
-      selected: [
-        { key: "bob", value: "newbob", secret: false },
-        { key: "foo", value: "bar", secret: false },
-      ],
+      envs: {
+        global: [],
+        selected: [
+          { key: "bob", value: "newbob", secret: false },
+          { key: "foo", value: "bar", secret: false },
+        ],
+      },
     })
   })
 
@@ -86,8 +88,10 @@ describe("runPreRequestScript", () => {
         { selected: [], global: [] }
       )()
     ).resolves.toEqualRight({
-      global: [],
-      selected: [{ key: "foo", value: "bar", secret: false }],
+      envs: {
+        global: [],
+        selected: [{ key: "foo", value: "bar", secret: false }],
+      },
     })
   })
 })
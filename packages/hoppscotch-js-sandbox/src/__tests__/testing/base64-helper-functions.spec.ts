@@ -30,7 +30,9 @@ describe("Base64 helper functions", () => {
             selected: [],
           })()
         ).resolves.toEqualRight(
-          expect.objectContaining(scriptExpectations.atob.environment)
+          expect.objectContaining({
+            envs: expect.objectContaining(scriptExpectations.atob.environment),
+          })
         )
       })
     })
@@ -43,7 +45,9 @@ describe("Base64 helper functions", () => {
             selected: [],
           })()
         ).resolves.toEqualRight(
-          expect.objectContaining(scriptExpectations.btoa.environment)
+          expect.objectContaining({
+            envs: expect.objectContaining(scriptExpectations.btoa.environment),
+          })
         )
       })
     })
@@ -0,0 +1,129 @@
+import * as TE from "fp-ts/TaskEither"
+import { pipe } from "fp-ts/function"
+
+import { runTestScript } from "~/test-runner/node-vm"
+import { TestResponse } from "~/types"
+
+const fakeResponse: TestResponse = {
+  status: 200,
+  body: "hoi",
+  headers: [],
+}
+
+const func = (script: string, res: TestResponse) =>
+  pipe(
+    runTestScript(script, { global: [], selected: [] }, res),
+    TE.map((x) => x.tests)
+  )
+
+describe("toBeGreaterThan, toBeGreaterThanOrEqual, toBeLessThan and toBeLessThanOrEqual", () => {
+  test("asserts true for valid comparisons with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect(2).toBeGreaterThan(1)
+          pw.expect(2).toBeGreaterThanOrEqual(2)
+          pw.expect(1).toBeLessThan(2)
+          pw.expect(2).toBeLessThanOrEqual(2)
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          { status: "pass", message: "Expected '2' to be greater than '1'" },
+          {
+            status: "pass",
+            message: "Expected '2' to be greater than or equal to '2'",
+          },
+          { status: "pass", message: "Expected '1' to be less than '2'" },
+          {
+            status: "pass",
+            message: "Expected '2' to be less than or equal to '2'",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false for invalid comparisons with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect(1).toBeGreaterThan(1)
+          pw.expect(1).toBeGreaterThanOrEqual(2)
+          pw.expect(2).toBeLessThan(2)
+          pw.expect(3).toBeLessThanOrEqual(2)
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          { status: "fail", message: "Expected '1' to be greater than '1'" },
+          {
+            status: "fail",
+            message: "Expected '1' to be greater than or equal to '2'",
+          },
+          { status: "fail", message: "Expected '2' to be less than '2'" },
+          {
+            status: "fail",
+            message: "Expected '3' to be less than or equal to '2'",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false for valid comparisons with negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect(2).not.toBeGreaterThan(1)
+          pw.expect(1).not.toBeLessThan(2)
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message: "Expected '2' to not be greater than '1'",
+          },
+          { status: "fail", message: "Expected '1' to not be less than '2'" },
+        ],
+      }),
+    ])
+  })
+
+  test("gives error if called on a non-number value", () => {
+    return expect(
+      func(`pw.expect("2").toBeGreaterThan(1)`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "error",
+            message: "Expected toBeGreaterThan to be called for a number",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("gives error if the argument is not a number", () => {
+    return expect(
+      func(`pw.expect(2).toBeLessThanOrEqual(NaN)`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "error",
+            message: "Argument for toBeLessThanOrEqual should be a number",
+          },
+        ],
+      }),
+    ])
+  })
+})
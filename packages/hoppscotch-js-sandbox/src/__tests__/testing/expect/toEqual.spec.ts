@@ -0,0 +1,116 @@
+import * as TE from "fp-ts/TaskEither"
+import { pipe } from "fp-ts/function"
+
+import { runTestScript } from "~/test-runner/node-vm"
+import { TestResponse } from "~/types"
+
+const fakeResponse: TestResponse = {
+  status: 200,
+  body: { data: { items: [{ id: 1, tags: ["a"] }] } },
+  headers: [],
+}
+
+const func = (script: string, res: TestResponse) =>
+  pipe(
+    runTestScript(script, { global: [], selected: [] }, res),
+    TE.map((x) => x.tests)
+  )
+
+describe("toEqual", () => {
+  test("asserts true for deeply equal values with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect(pw.response.body).toEqual({ data: { items: [{ id: 1, tags: ["a"] }] } })
+          pw.expect(2).toEqual(2)
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "pass",
+            message:
+              'Expected {"data":{"items":[{"id":1,"tags":["a"]}]}} to equal {"data":{"items":[{"id":1,"tags":["a"]}]}}',
+          },
+          { status: "pass", message: "Expected 2 to equal 2" },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false with the path of the difference with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect(pw.response.body).toEqual({ data: { items: [{ id: 2, tags: ["a"] }] } })
+          pw.expect([1, 2]).toEqual([1, 2, 3])
+          pw.expect("1").toEqual(1)
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message:
+              'Expected {"data":{"items":[{"id":1,"tags":["a"]}]}} to equal {"data":{"items":[{"id":2,"tags":["a"]}]}} ($.data.items[0].id: expected 2, received 1)',
+          },
+          {
+            status: "fail",
+            message:
+              "Expected [1,2] to equal [1,2,3] ($.length: expected 3, received 2)",
+          },
+          { status: "fail", message: 'Expected "1" to equal 1' },
+        ],
+      }),
+    ])
+  })
+
+  test("treats keys with undefined values the same as missing keys", () => {
+    return expect(
+      func(
+        `pw.expect({ a: 1, b: undefined }).toEqual({ a: 1 })`,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          { status: "pass", message: 'Expected {"a":1} to equal {"a":1}' },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false for deeply equal values with negation", () => {
+    return expect(
+      func(`pw.expect({ a: [1] }).not.toEqual({ a: [1] })`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message: 'Expected {"a":[1]} to not equal {"a":[1]}',
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts true for differing values with negation", () => {
+    return expect(
+      func(`pw.expect({ a: [1] }).not.toEqual({ a: [2] })`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "pass",
+            message: 'Expected {"a":[1]} to not equal {"a":[2]}',
+          },
+        ],
+      }),
+    ])
+  })
+})
@@ -0,0 +1,110 @@
+import * as TE from "fp-ts/TaskEither"
+import { pipe } from "fp-ts/function"
+
+import { runTestScript } from "~/test-runner/node-vm"
+import { TestResponse } from "~/types"
+
+const fakeResponse: TestResponse = {
+  status: 200,
+  body: { data: { items: [{ id: 1, "content-type": "json" }] } },
+  headers: [],
+}
+
+const func = (script: string, res: TestResponse) =>
+  pipe(
+    runTestScript(script, { global: [], selected: [] }, res),
+    TE.map((x) => x.tests)
+  )
+
+const body = JSON.stringify(fakeResponse.body)
+
+describe("toHaveProperty", () => {
+  test("asserts true for existing properties with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect(pw.response.body).toHaveProperty("data.items[0].id")
+          pw.expect(pw.response.body).toHaveProperty("data.items.0.id", 1)
+          pw.expect(pw.response.body).toHaveProperty(["data", "items", 0, "content-type"])
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "pass",
+            message: `Expected ${body} to have property 'data.items[0].id'`,
+          },
+          {
+            status: "pass",
+            message: `Expected ${body} to have property 'data.items.0.id' with value 1`,
+          },
+          {
+            status: "pass",
+            message: `Expected ${body} to have property 'data.items.0.content-type'`,
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false with the missing path or received value with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect(pw.response.body).toHaveProperty("data.items[1].id")
+          pw.expect(pw.response.body).toHaveProperty("data.items[0].id", 2)
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message: `Expected ${body} to have property 'data.items[1].id' ($.data.items[1] not found)`,
+          },
+          {
+            status: "fail",
+            message: `Expected ${body} to have property 'data.items[0].id' with value 2 (received 1)`,
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false for existing properties with negation", () => {
+    return expect(
+      func(
+        `pw.expect({ a: { b: null } }).not.toHaveProperty("a.b")`,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message: 'Expected {"a":{"b":null}} to not have property \'a.b\'',
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("gives error if the path is invalid", () => {
+    return expect(
+      func(`pw.expect({}).toHaveProperty("")`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "error",
+            message:
+              "Argument for toHaveProperty should be a non-empty string or an array of keys",
+          },
+        ],
+      }),
+    ])
+  })
+})
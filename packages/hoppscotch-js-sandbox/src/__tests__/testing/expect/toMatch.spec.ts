@@ -0,0 +1,111 @@
+import * as TE from "fp-ts/TaskEither"
+import { pipe } from "fp-ts/function"
+
+import { runTestScript } from "~/test-runner/node-vm"
+import { TestResponse } from "~/types"
+
+const fakeResponse: TestResponse = {
+  status: 200,
+  body: "hoi",
+  headers: [],
+}
+
+const func = (script: string, res: TestResponse) =>
+  pipe(
+    runTestScript(script, { global: [], selected: [] }, res),
+    TE.map((x) => x.tests)
+  )
+
+describe("toMatch", () => {
+  test("asserts true for matching regular expressions and substrings with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect("order-1234").toMatch(/^order-\\d+$/)
+          pw.expect("order-1234").toMatch("123")
+          pw.expect("ORDER").toMatch(/order/gi)
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "pass",
+            message: "Expected 'order-1234' to match /^order-\\d+$/",
+          },
+          { status: "pass", message: "Expected 'order-1234' to match '123'" },
+          { status: "pass", message: "Expected 'ORDER' to match /order/gi" },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false for non-matching patterns with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect("order-abc").toMatch(/^order-\\d+$/)
+          pw.expect("order-abc").toMatch("123")
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message: "Expected 'order-abc' to match /^order-\\d+$/",
+          },
+          { status: "fail", message: "Expected 'order-abc' to match '123'" },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false for matching patterns with negation", () => {
+    return expect(
+      func(`pw.expect("order-1234").not.toMatch(/\\d+/)`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message: "Expected 'order-1234' to not match /\\d+/",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("gives error if called on a non-string value", () => {
+    return expect(
+      func(`pw.expect(5).toMatch(/5/)`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "error",
+            message: "Expected toMatch to be called for a string",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("gives error if the argument is neither a regular expression nor a string", () => {
+    return expect(
+      func(`pw.expect("5").toMatch(5)`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "error",
+            message:
+              "Argument for toMatch should be a regular expression or a string",
+          },
+        ],
+      }),
+    ])
+  })
+})
@@ -0,0 +1,168 @@
+import * as TE from "fp-ts/TaskEither"
+import { pipe } from "fp-ts/function"
+
+import { runTestScript } from "~/test-runner/node-vm"
+import { TestResponse } from "~/types"
+
+const fakeResponse: TestResponse = {
+  status: 200,
+  body: {
+    id: 1,
+    name: "hoppscotch",
+    tags: ["api", "testing"],
+    owner: { email: "admin@hoppscotch.io" },
+  },
+  headers: [],
+}
+
+const func = (script: string, res: TestResponse) =>
+  pipe(
+    runTestScript(script, { global: [], selected: [] }, res),
+    TE.map((x) => x.tests)
+  )
+
+const body = JSON.stringify(fakeResponse.body)
+
+const schema = `{
+  type: "object",
+  required: ["id", "name", "owner"],
+  properties: {
+    id: { type: "integer", minimum: 1 },
+    name: { type: "string", minLength: 3 },
+    tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+    owner: { $ref: "#/$defs/owner" },
+  },
+  additionalProperties: false,
+  $defs: {
+    owner: {
+      type: "object",
+      properties: { email: { type: "string", pattern: "@" } },
+      required: ["email"],
+    },
+  },
+}`
+
+describe("toMatchSchema", () => {
+  test("asserts true for values matching the schema with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect(pw.response.body).toMatchSchema(${schema})
+          pw.expect(null).toMatchSchema({ anyOf: [{ type: "null" }, { type: "string" }] })
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "pass",
+            message: `Expected ${body} to match the JSON Schema`,
+          },
+          {
+            status: "pass",
+            message: "Expected null to match the JSON Schema",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false with path-level errors with no negation", () => {
+    return expect(
+      func(
+        `
+          pw.expect({
+            id: "1",
+            name: "hoppscotch",
+            tags: ["api", "api"],
+            owner: { email: 1 },
+            extra: true,
+          }).toMatchSchema(${schema})
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message:
+              'Expected {"id":"1","name":"hoppscotch","tags":["api","api"],"owner":{"email":1},"extra":true} to match the JSON Schema, found 4 errors: ' +
+              "$.id: expected type 'integer', received 'string'; " +
+              "$.tags[1]: expected unique items; " +
+              "$.owner.email: expected type 'string', received 'number'; " +
+              "$.extra: additional property is not allowed",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("reports missing required properties", () => {
+    return expect(
+      func(`pw.expect({ name: "ab" }).toMatchSchema(${schema})`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message:
+              'Expected {"name":"ab"} to match the JSON Schema, found 3 errors: ' +
+              "$.id: required property is missing; " +
+              "$.owner: required property is missing; " +
+              "$.name: expected a string of at least 3 characters, received 2",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("asserts false for values matching the schema with negation", () => {
+    return expect(
+      func(`pw.expect(1).not.toMatchSchema({ type: "number" })`, fakeResponse)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "fail",
+            message: "Expected 1 to not match the JSON Schema",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("gives error for invalid schemas", () => {
+    return expect(
+      func(
+        `
+          pw.expect(1).toMatchSchema("number")
+          pw.expect(1).toMatchSchema({ type: "decimal" })
+          pw.expect(1).toMatchSchema({ $ref: "#/$defs/missing" })
+        `,
+        fakeResponse
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "error",
+            message:
+              "Argument for toMatchSchema should be a JSON Schema object or boolean",
+          },
+          {
+            status: "error",
+            message:
+              "Invalid JSON Schema: Unknown type 'decimal' in the schema",
+          },
+          {
+            status: "error",
+            message:
+              "Invalid JSON Schema: Unable to resolve the reference '#/$defs/missing'",
+          },
+        ],
+      }),
+    ])
+  })
+})
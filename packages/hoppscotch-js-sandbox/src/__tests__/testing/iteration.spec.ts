@@ -0,0 +1,102 @@
+import "@relmify/jest-fp-ts"
+import * as TE from "fp-ts/TaskEither"
+import { pipe } from "fp-ts/function"
+
+import { runPreRequestScript } from "~/pre-request/node-vm"
+import { runTestScript } from "~/test-runner/node-vm"
+import { IterationInfo, TestResponse } from "~/types"
+
+const fakeResponse: TestResponse = {
+  status: 200,
+  body: "hoi",
+  headers: [],
+}
+
+const func = (script: string, iteration?: IterationInfo) =>
+  pipe(
+    runTestScript(
+      script,
+      { global: [], selected: [] },
+      fakeResponse,
+      iteration
+    ),
+    TE.map((x) => x.tests)
+  )
+
+describe("pw.iteration", () => {
+  test("defaults to a single iteration without data if not supplied", () => {
+    return expect(
+      func(`
+        pw.expect(pw.iteration.index).toBe(0)
+        pw.expect(pw.iteration.count).toBe(1)
+        pw.expect(JSON.stringify(pw.iteration.data)).toBe("{}")
+      `)()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          { status: "pass", message: "Expected '0' to be '0'" },
+          { status: "pass", message: "Expected '1' to be '1'" },
+          { status: "pass", message: "Expected '{}' to be '{}'" },
+        ],
+      }),
+    ])
+  })
+
+  test("exposes the supplied iteration details to the test script", () => {
+    return expect(
+      func(
+        `
+          pw.expect(pw.iteration.index).toBe(2)
+          pw.expect(pw.iteration.count).toBe(3)
+          pw.expect(pw.iteration.data.username).toBe("bob")
+        `,
+        { index: 2, count: 3, data: { username: "bob" } }
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          { status: "pass", message: "Expected '2' to be '2'" },
+          { status: "pass", message: "Expected '3' to be '3'" },
+          { status: "pass", message: "Expected 'bob' to be 'bob'" },
+        ],
+      }),
+    ])
+  })
+
+  test("exposes the supplied iteration details to the pre-request script", () => {
+    return expect(
+      runPreRequestScript(
+        `
+          pw.env.set("user", pw.iteration.data.username + "-" + pw.iteration.index)
+        `,
+        { global: [], selected: [] },
+        { index: 1, count: 2, data: { username: "alice" } }
+      )()
+    ).resolves.toEqualRight({
+      envs: {
+        global: [],
+        selected: [{ key: "user", value: "alice-1", secret: false }],
+      },
+    })
+  })
+
+  test("iteration data cannot be modified from the script", () => {
+    const iteration = { index: 0, count: 1, data: { username: "bob" } }
+
+    return expect(
+      func(
+        `
+          pw.iteration.data.username = "alice"
+          pw.expect(pw.iteration.data.username).toBe("bob")
+        `,
+        iteration
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          { status: "pass", message: "Expected 'bob' to be 'bob'" },
+        ],
+      }),
+    ])
+  })
+})
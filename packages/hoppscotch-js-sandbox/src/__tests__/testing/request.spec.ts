@@ -0,0 +1,224 @@
+import { HoppRESTRequest, getDefaultRESTRequest } from "@hoppscotch/data"
+import "@relmify/jest-fp-ts"
+import * as TE from "fp-ts/TaskEither"
+import { pipe } from "fp-ts/function"
+
+import { runPreRequestScript } from "~/pre-request/node-vm"
+
+const request: HoppRESTRequest = {
+  ...getDefaultRESTRequest(),
+  endpoint: "<<baseURL>>/users",
+  method: "POST",
+  headers: [
+    { key: "X-Client", value: "hopp", active: true },
+    { key: "X-Debug", value: "1", active: false },
+  ],
+  params: [{ key: "page", value: "1", active: true }],
+  body: { contentType: "application/json", body: '{"name":"hopp"}' },
+}
+
+const func = (script: string, req: HoppRESTRequest = request) =>
+  pipe(
+    runPreRequestScript(
+      script,
+      { global: [], selected: [] },
+      undefined,
+      undefined,
+      req
+    ),
+    TE.map((x) => x.request)
+  )
+
+describe("pw.request", () => {
+  test("exposes the active fields of the request", () => {
+    return expect(
+      pipe(
+        runPreRequestScript(
+          `
+            pw.env.set("url", pw.request.url)
+            pw.env.set("method", pw.request.method)
+            pw.env.set("headers", JSON.stringify(pw.request.headers))
+            pw.env.set("params", JSON.stringify(pw.request.params))
+            pw.env.set("body", pw.request.body)
+          `,
+          { global: [], selected: [] },
+          undefined,
+          undefined,
+          request
+        ),
+        TE.map((x) => x.envs.selected.map(({ value }) => value))
+      )()
+    ).resolves.toEqualRight([
+      "<<baseURL>>/users",
+      "POST",
+      '[{"key":"X-Client","value":"hopp"}]',
+      '[{"key":"page","value":"1"}]',
+      '{"name":"hopp"}',
+    ])
+  })
+
+  test("returns the request as is if it isn't modified", () => {
+    return expect(func(`pw.env.set("a", "b")`)()).resolves.toEqualRight(request)
+  })
+
+  test("applies the changes made by the script to the request", () => {
+    return expect(
+      func(
+        `
+          pw.request.url = pw.request.url + "/1"
+          pw.request.method = "put"
+          pw.request.setHeader("x-client", "hopp-cli")
+          pw.request.setHeader("X-Signature", "abc")
+          pw.request.headers.push({ key: "X-Trace", value: "2" })
+          pw.request.removeParam("page")
+          pw.request.setParam("id", "1")
+        `
+      )()
+    ).resolves.toEqualRight({
+      ...request,
+      endpoint: "<<baseURL>>/users/1",
+      method: "PUT",
+      headers: [
+        { key: "X-Client", value: "hopp-cli", active: true },
+        { key: "X-Signature", value: "abc", active: true },
+        { key: "X-Trace", value: "2", active: true },
+        { key: "X-Debug", value: "1", active: false },
+      ],
+      params: [{ key: "id", value: "1", active: true }],
+    })
+  })
+
+  test("supports replacing the headers and params", () => {
+    return expect(
+      func(
+        `
+          pw.request.headers = [{ key: "Accept", value: "text/plain" }]
+          pw.request.params = []
+        `
+      )()
+    ).resolves.toEqualRight(
+      expect.objectContaining({
+        headers: [
+          { key: "Accept", value: "text/plain", active: true },
+          { key: "X-Debug", value: "1", active: false },
+        ],
+        params: [],
+      })
+    )
+  })
+
+  test("keeps the content type when the body is replaced with a string", () => {
+    return expect(
+      func(`pw.request.body = '{"name":"hoppscotch"}'`)()
+    ).resolves.toEqualRight(
+      expect.objectContaining({
+        body: {
+          contentType: "application/json",
+          body: '{"name":"hoppscotch"}',
+        },
+      })
+    )
+  })
+
+  test("sends objects assigned to the body as JSON", () => {
+    return expect(
+      func(`pw.request.body = { id: 1 }`, {
+        ...request,
+        body: { contentType: null, body: null },
+      })()
+    ).resolves.toEqualRight(
+      expect.objectContaining({
+        body: { contentType: "application/json", body: '{"id":1}' },
+      })
+    )
+  })
+
+  test("removes the body if it is set to null", () => {
+    return expect(func(`pw.request.body = null`)()).resolves.toEqualRight(
+      expect.objectContaining({
+        body: { contentType: null, body: null },
+      })
+    )
+  })
+
+  test("keeps multipart form-data bodies unless replaced", () => {
+    const multipartRequest: HoppRESTRequest = {
+      ...request,
+      body: {
+        contentType: "multipart/form-data",
+        body: [{ key: "a", value: "b", active: true, isFile: false }],
+      },
+    }
+
+    return expect(
+      func(
+        `pw.request.setHeader("X-Body", String(pw.request.body))`,
+        multipartRequest
+      )()
+    ).resolves.toEqualRight(
+      expect.objectContaining({ body: multipartRequest.body })
+    )
+  })
+
+  test("keeps binary bodies unless replaced", () => {
+    const binaryRequest: HoppRESTRequest = {
+      ...request,
+      body: {
+        contentType: "application/octet-stream",
+        body: new Blob(["hopp"]),
+        fileContentType: "image/png",
+      },
+    }
+
+    return Promise.all([
+      expect(
+        func(
+          `pw.request.setHeader("X-Body", String(pw.request.body))`,
+          binaryRequest
+        )()
+      ).resolves.toEqualRight(
+        expect.objectContaining({
+          body: binaryRequest.body,
+          headers: expect.arrayContaining([
+            { key: "X-Body", value: "null", active: true },
+          ]),
+        })
+      ),
+      expect(
+        func(`pw.request.body = "hopp"`, binaryRequest)()
+      ).resolves.toEqualRight(
+        expect.objectContaining({
+          body: { contentType: "text/plain", body: "hopp" },
+        })
+      ),
+    ])
+  })
+
+  test("fails if the script sets invalid values", () => {
+    return Promise.all([
+      expect(func(`pw.request.url = 10`)()).resolves.toEqualLeft(
+        "Script execution failed: Error: Expected request url to be a string"
+      ),
+      expect(
+        func(`pw.request.headers = [{ key: "a", value: 1 }]`)()
+      ).resolves.toEqualLeft(
+        "Script execution failed: Error: Expected request headers to be a list of key-value pairs with string values"
+      ),
+      expect(func(`pw.request.setParam("a", 1)`)()).resolves.toBeLeft(),
+    ])
+  })
+
+  test("is not available if no request is supplied", () => {
+    return expect(
+      runPreRequestScript(`pw.env.set("request", typeof pw.request)`, {
+        global: [],
+        selected: [],
+      })()
+    ).resolves.toEqualRight({
+      envs: {
+        global: [],
+        selected: [{ key: "request", value: "undefined", secret: false }],
+      },
+    })
+  })
+})
@@ -0,0 +1,213 @@
+import "@relmify/jest-fp-ts"
+import * as TE from "fp-ts/TaskEither"
+import { pipe } from "fp-ts/function"
+
+import { runPreRequestScript } from "~/pre-request/node-vm"
+import { runTestScript } from "~/test-runner/node-vm"
+import { ScriptRequest, SendRequestHandler, TestResponse } from "~/types"
+
+const fakeResponse: TestResponse = {
+  status: 200,
+  body: "hoi",
+  headers: [],
+}
+
+const jsonHandler: SendRequestHandler = async (request: ScriptRequest) => ({
+  status: 201,
+  statusText: "Created",
+  headers: [{ key: "content-type", value: "application/json; charset=utf-8" }],
+  body: JSON.stringify({ token: "secret", request }),
+})
+
+const func = (script: string, handler?: SendRequestHandler) =>
+  pipe(
+    runTestScript(
+      script,
+      { global: [], selected: [] },
+      fakeResponse,
+      undefined,
+      handler
+    ),
+    TE.map((x) => x.tests)
+  )
+
+describe("pw.sendRequest", () => {
+  test("resolves with the status, headers and parsed JSON body", () => {
+    return expect(
+      func(
+        `
+          const res = await pw.sendRequest("https://echo.hoppscotch.io/login")
+
+          pw.expect(res.status).toBe(201)
+          pw.expect(res.statusText).toBe("Created")
+          pw.expect(res.headers[0].key).toBe("content-type")
+          pw.expect(res.body.token).toBe("secret")
+        `,
+        jsonHandler
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          { status: "pass", message: "Expected '201' to be '201'" },
+          { status: "pass", message: "Expected 'Created' to be 'Created'" },
+          {
+            status: "pass",
+            message: "Expected 'content-type' to be 'content-type'",
+          },
+          { status: "pass", message: "Expected 'secret' to be 'secret'" },
+        ],
+      }),
+    ])
+  })
+
+  test("passes the request with the defaults applied to the handler", async () => {
+    const handler = jest.fn(jsonHandler)
+
+    await func(
+      `
+        await pw.sendRequest({
+          url: "https://echo.hoppscotch.io",
+          method: "post",
+          headers: { "X-Hopp": "1" },
+          body: { name: "hopp" },
+        })
+
+        await pw.sendRequest({
+          url: "https://echo.hoppscotch.io",
+          headers: [{ key: "Content-Type", value: "text/plain" }],
+          body: "hoi",
+        })
+      `,
+      handler
+    )()
+
+    expect(handler).toHaveBeenNthCalledWith(1, {
+      url: "https://echo.hoppscotch.io",
+      method: "POST",
+      headers: [
+        { key: "X-Hopp", value: "1" },
+        { key: "Content-Type", value: "application/json" },
+      ],
+      body: '{"name":"hopp"}',
+    })
+    expect(handler).toHaveBeenNthCalledWith(2, {
+      url: "https://echo.hoppscotch.io",
+      method: "GET",
+      headers: [{ key: "Content-Type", value: "text/plain" }],
+      body: "hoi",
+    })
+  })
+
+  test("exposes the body as text if it isn't JSON", () => {
+    return expect(
+      func(
+        `
+          const res = await pw.sendRequest("https://echo.hoppscotch.io")
+          pw.expect(res.body).toBe("plain text")
+        `,
+        async () => ({
+          status: 200,
+          statusText: "OK",
+          headers: [{ key: "Content-Type", value: "text/plain" }],
+          body: "plain text",
+        })
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "pass",
+            message: "Expected 'plain text' to be 'plain text'",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("waits for the pending requests before collecting the results", () => {
+    return expect(
+      func(
+        `
+          pw.sendRequest("https://echo.hoppscotch.io").then((res) => {
+            pw.env.set("token", res.body.token)
+
+            pw.sendRequest("https://echo.hoppscotch.io").then((res) => {
+              pw.expect(res.status).toBe(201)
+            })
+          })
+        `,
+        jsonHandler
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          { status: "pass", message: "Expected '201' to be '201'" },
+        ],
+      }),
+    ])
+  })
+
+  test("fails the script if an awaited request fails", () => {
+    return expect(
+      func(`await pw.sendRequest("https://echo.hoppscotch.io")`, async () => {
+        throw new Error("Network Error")
+      })()
+    ).resolves.toBeLeft()
+  })
+
+  test("rejects with an error for invalid requests", () => {
+    return expect(
+      func(
+        `
+          try {
+            await pw.sendRequest({ method: "GET" })
+          } catch (e) {
+            pw.expect(e.message).toBe("Expected the request to be a URL or an object with a url")
+          }
+        `,
+        jsonHandler
+      )()
+    ).resolves.toEqualRight([
+      expect.objectContaining({
+        expectResults: [
+          {
+            status: "pass",
+            message:
+              "Expected 'Expected the request to be a URL or an object with a url' to be 'Expected the request to be a URL or an object with a url'",
+          },
+        ],
+      }),
+    ])
+  })
+
+  test("rejects if the host doesn't support sending requests", () => {
+    return expect(
+      func(`await pw.sendRequest("https://echo.hoppscotch.io")`)()
+    ).resolves.toEqualLeft(
+      "Script execution failed: Error: pw.sendRequest is not supported in this environment"
+    )
+  })
+
+  test("updates the environment from the pre-request script", () => {
+    return expect(
+      runPreRequestScript(
+        `
+          const res = await pw.sendRequest({
+            url: "https://echo.hoppscotch.io/login",
+            method: "POST",
+          })
+
+          pw.env.set("token", res.body.token)
+        `,
+        { global: [], selected: [] },
+        undefined,
+        jsonHandler
+      )()
+    ).resolves.toEqualRight({
+      envs: {
+        global: [],
+        selected: [{ key: "token", value: "secret", secret: false }],
+      },
+    })
+  })
+})
@@ -1,4 +1,7 @@
-import { preventCyclicObjects } from "~/utils"
+import "@relmify/jest-fp-ts"
+
+import { runPreRequestScript } from "~/pre-request/node-vm"
+import { combineScripts, preventCyclicObjects } from "~/utils"
 
 describe("preventCyclicObjects", () => {
   test("succeeds with a simple object", () => {
@@ -20,3 +23,39 @@ describe("preventCyclicObjects", () => {
     expect(preventCyclicObjects(testObj)).toBeLeft()
   })
 })
+
+describe("combineScripts", () => {
+  test("combines the scripts in the given order, skipping empty ones", () => {
+    expect(combineScripts(["const a = 1", "  ", "const a = 2\n// done"])).toBe(
+      "{\nconst a = 1\n}\n{\nconst a = 2\n// done\n}"
+    )
+  })
+
+  test("returns a lone script as is", () => {
+    expect(combineScripts(["", "const a = 1"])).toBe("const a = 1")
+  })
+
+  test("returns an empty script if there are no scripts to combine", () => {
+    expect(combineScripts(["", ""])).toBe("")
+  })
+
+  test("runs the combined scripts with block scoped declarations", () => {
+    return expect(
+      runPreRequestScript(
+        combineScripts([
+          `const value = "collection"\npw.env.set("a", value)`,
+          `const value = "request"\npw.env.set("b", value)`,
+        ]),
+        { global: [], selected: [] }
+      )()
+    ).resolves.toEqualRight({
+      envs: {
+        global: [],
+        selected: [
+          { key: "a", value: "collection", secret: false },
+          { key: "b", value: "request", secret: false },
+        ],
+      },
+    })
+  })
+})
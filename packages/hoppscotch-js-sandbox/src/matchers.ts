@@ -0,0 +1,527 @@
+/**
+ * Helpers backing the matchers of `pw.expect`. Values compared here can come
+ * from different realms (the script context and the host), so type checks
+ * avoid `instanceof` and rely on `typeof`, `Array.isArray` and tags instead.
+ */
+
+/**
+ * Difference between the received and the expected values
+ */
+export type ValueDifference = {
+  /** Path to the differing value, `$` being the root value */
+  path: string
+  received: unknown
+  expected: unknown
+}
+
+/**
+ * A JSON Schema, which is either an object or a boolean
+ */
+export type JSONSchema = boolean | Record<string, unknown>
+
+/**
+ * Thrown on encountering a schema that can't be used for validation
+ */
+export class InvalidSchemaError extends Error {}
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/
+
+export const isPlainObject = (
+  value: unknown
+): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+export const isRegExp = (value: unknown): value is RegExp =>
+  Object.prototype.toString.call(value) === "[object RegExp]"
+
+/**
+ * Stringifies a value for use in the expectation messages
+ * @param value The value to be stringified
+ * @returns JSON representation of the value
+ */
+export const stringifyValue = (value: unknown): string => {
+  if (value === undefined) return "undefined"
+  if (typeof value === "number" && !Number.isFinite(value)) return `${value}`
+  if (isRegExp(value)) return `${value}`
+
+  try {
+    return JSON.stringify(value) ?? `${value}`
+  } catch (_) {
+    return `${value}`
+  }
+}
+
+/**
+ * Appends a key or an index to a path
+ * @param path The path to append to
+ * @param key The object key or the array index
+ * @returns The path to the value under the key
+ */
+export const appendPath = (path: string, key: string | number) => {
+  if (typeof key === "number") return `${path}[${key}]`
+
+  return IDENTIFIER_REGEX.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`
+}
+
+/**
+ * Finds the first difference between two values by deep comparison.
+ * Object keys with undefined values are treated the same as missing keys.
+ * @param received The value received
+ * @param expected The value expected
+ * @param path Path of the values being compared
+ * @returns The first difference found, null if the values are deeply equal
+ */
+export const findDifference = (
+  received: unknown,
+  expected: unknown,
+  path = "$"
+): ValueDifference | null => {
+  if (Array.isArray(received) && Array.isArray(expected)) {
+    const length = Math.min(received.length, expected.length)
+
+    for (let index = 0; index < length; index++) {
+      const difference = findDifference(
+        received[index],
+        expected[index],
+        appendPath(path, index)
+      )
+      if (difference) return difference
+    }
+
+    return received.length === expected.length
+      ? null
+      : {
+          path: appendPath(path, "length"),
+          received: received.length,
+          expected: expected.length,
+        }
+  }
+
+  if (isPlainObject(received) && isPlainObject(expected)) {
+    const keys = new Set([...Object.keys(received), ...Object.keys(expected)])
+
+    for (const key of keys) {
+      const difference = findDifference(
+        received[key],
+        expected[key],
+        appendPath(path, key)
+      )
+      if (difference) return difference
+    }
+
+    return null
+  }
+
+  if (isRegExp(received) && isRegExp(expected)) {
+    return `${received}` === `${expected}` ? null : { path, received, expected }
+  }
+
+  // `===` for treating 0 and -0 as equal, `Object.is` for NaN
+  return received === expected || Object.is(received, expected)
+    ? null
+    : { path, received, expected }
+}
+
+/**
+ * Parses a property path into the keys to be followed
+ * @param path Dotted path (`data.items[0].id` or `data.items.0.id`) or the list of keys
+ * @returns The keys in the path, null if the path is invalid
+ */
+export const parsePropertyPath = (path: unknown): string[] | null => {
+  if (Array.isArray(path)) {
+    return path.every(
+      (key) => typeof key === "string" || typeof key === "number"
+    )
+      ? path.map(String)
+      : null
+  }
+
+  if (typeof path !== "string" || path.length === 0) return null
+
+  return path.match(/[^.[\]]+/g)
+}
+
+/**
+ * Follows the keys of a property path on a value
+ * @param value The value to look up the property on
+ * @param keys The keys of the property path
+ * @returns The value of the property if found, else the path up to the key that is missing
+ */
+export const getProperty = (
+  value: unknown,
+  keys: string[]
+): { found: true; value: unknown } | { found: false; missingPath: string } => {
+  let current = value
+  let path = "$"
+
+  for (const key of keys) {
+    path = appendPath(
+      path,
+      Array.isArray(current) && /^\d+$/.test(key) ? Number(key) : key
+    )
+
+    if (
+      current === null ||
+      current === undefined ||
+      !Object.prototype.hasOwnProperty.call(Object(current), key)
+    ) {
+      return { found: false, missingPath: path }
+    }
+
+    current = (current as Record<string, unknown>)[key]
+  }
+
+  return { found: true, value: current }
+}
+
+const getJSONType = (value: unknown) => {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+const matchesType = (value: unknown, type: unknown) => {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value)
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+    case "null":
+    case "array":
+    case "object":
+    case "string":
+    case "boolean":
+      return getJSONType(value) === type
+    default:
+      throw new InvalidSchemaError(`Unknown type '${type}' in the schema`)
+  }
+}
+
+const createRegExp = (pattern: unknown) => {
+  try {
+    return new RegExp(pattern as string, "u")
+  } catch (_) {
+    throw new InvalidSchemaError(`Invalid pattern '${pattern}' in the schema`)
+  }
+}
+
+/**
+ * Resolves a local `$ref` (`#/definitions/...` or `#/$defs/...`) against the root schema
+ * @param ref The JSON pointer of the reference
+ * @param rootSchema The root schema
+ * @returns The referenced schema
+ */
+const resolveRef = (ref: unknown, rootSchema: JSONSchema): JSONSchema => {
+  if (typeof ref !== "string" || !ref.startsWith("#")) {
+    throw new InvalidSchemaError(
+      `Only local references are supported, found '${ref}'`
+    )
+  }
+
+  const keys = ref
+    .slice(1)
+    .split("/")
+    .filter((key) => key !== "")
+    .map((key) =>
+      decodeURIComponent(key).replace(/~1/g, "/").replace(/~0/g, "~")
+    )
+
+  const target = getProperty(rootSchema, keys)
+
+  if (
+    !target.found ||
+    !(typeof target.value === "boolean" || isPlainObject(target.value))
+  ) {
+    throw new InvalidSchemaError(`Unable to resolve the reference '${ref}'`)
+  }
+
+  return target.value as JSONSchema
+}
+
+/**
+ * Validates a value against a JSON Schema. Supports the commonly used
+ * validation keywords of the draft-07 and later specifications, with
+ * `format` being treated as an annotation.
+ * @param value The value to be validated
+ * @param schema The JSON Schema
+ * @param path Path of the value being validated
+ * @param rootSchema The root schema, used for resolving references
+ * @returns Messages describing each validation error, empty if the value is valid
+ * @throws InvalidSchemaError if the schema is invalid
+ */
+export const validateJSONSchema = (
+  value: unknown,
+  schema: JSONSchema,
+  path = "$",
+  rootSchema: JSONSchema = schema
+): string[] => {
+  if (schema === true) return []
+  if (schema === false) return [`${path}: no value is allowed`]
+
+  if (!isPlainObject(schema)) {
+    throw new InvalidSchemaError(
+      `Expected a schema object or boolean at ${path}`
+    )
+  }
+
+  const validate = (
+    subValue: unknown,
+    subSchema: unknown,
+    subPath: string
+  ): string[] => {
+    if (typeof subSchema !== "boolean" && !isPlainObject(subSchema)) {
+      throw new InvalidSchemaError(
+        `Expected a schema object or boolean at ${subPath}`
+      )
+    }
+
+    return validateJSONSchema(subValue, subSchema, subPath, rootSchema)
+  }
+
+  const errors: string[] = []
+
+  if (schema.$ref !== undefined) {
+    errors.push(...validate(value, resolveRef(schema.$ref, rootSchema), path))
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(
+        `${path}: expected type ${types
+          .map((type) => `'${type}'`)
+          .join(" or ")}, received '${getJSONType(value)}'`
+      )
+
+      // Rest of the keywords are irrelevant for a value of an unexpected type
+      return errors
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option) => findDifference(value, option) === null)
+  ) {
+    errors.push(
+      `${path}: expected one of ${stringifyValue(
+        schema.enum
+      )}, received ${stringifyValue(value)}`
+    )
+  }
+
+  if ("const" in schema && findDifference(value, schema.const) !== null) {
+    errors.push(
+      `${path}: expected ${stringifyValue(
+        schema.const
+      )}, received ${stringifyValue(value)}`
+    )
+  }
+
+  if (typeof value === "number") {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } =
+      schema
+
+    if (typeof minimum === "number" && value < minimum)
+      errors.push(`${path}: expected a number >= ${minimum}, received ${value}`)
+
+    if (typeof maximum === "number" && value > maximum)
+      errors.push(`${path}: expected a number <= ${maximum}, received ${value}`)
+
+    if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum)
+      errors.push(
+        `${path}: expected a number > ${exclusiveMinimum}, received ${value}`
+      )
+
+    if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum)
+      errors.push(
+        `${path}: expected a number < ${exclusiveMaximum}, received ${value}`
+      )
+
+    if (
+      typeof multipleOf === "number" &&
+      !Number.isInteger(Number((value / multipleOf).toPrecision(12)))
+    )
+      errors.push(
+        `${path}: expected a multiple of ${multipleOf}, received ${value}`
+      )
+  }
+
+  if (typeof value === "string") {
+    const { minLength, maxLength, pattern } = schema
+    // Lengths are counted in code points
+    const length = [...value].length
+
+    if (typeof minLength === "number" && length < minLength)
+      errors.push(
+        `${path}: expected a string of at least ${minLength} characters, received ${length}`
+      )
+
+    if (typeof maxLength === "number" && length > maxLength)
+      errors.push(
+        `${path}: expected a string of at most ${maxLength} characters, received ${length}`
+      )
+
+    if (pattern !== undefined && !createRegExp(pattern).test(value))
+      errors.push(
+        `${path}: expected a string matching /${pattern}/, received ${stringifyValue(
+          value
+        )}`
+      )
+  }
+
+  if (Array.isArray(value)) {
+    const { items, additionalItems, minItems, maxItems, uniqueItems } = schema
+    const prefixItems = Array.isArray(schema.prefixItems)
+      ? schema.prefixItems
+      : Array.isArray(items)
+      ? items
+      : []
+    // Schema for the items following the tuple items (if any)
+    const restItems = Array.isArray(schema.prefixItems)
+      ? items
+      : Array.isArray(items)
+      ? additionalItems
+      : items
+
+    value.forEach((item, index) => {
+      const itemSchema =
+        index < prefixItems.length ? prefixItems[index] : restItems
+
+      if (itemSchema !== undefined) {
+        errors.push(...validate(item, itemSchema, appendPath(path, index)))
+      }
+    })
+
+    if (typeof minItems === "number" && value.length < minItems)
+      errors.push(
+        `${path}: expected at least ${minItems} items, received ${value.length}`
+      )
+
+    if (typeof maxItems === "number" && value.length > maxItems)
+      errors.push(
+        `${path}: expected at most ${maxItems} items, received ${value.length}`
+      )
+
+    if (uniqueItems === true) {
+      const duplicateIndex = value.findIndex((item, index) =>
+        value
+          .slice(0, index)
+          .some((prevItem) => findDifference(item, prevItem) === null)
+      )
+
+      if (duplicateIndex !== -1)
+        errors.push(
+          `${appendPath(path, duplicateIndex)}: expected unique items`
+        )
+    }
+
+    if (
+      schema.contains !== undefined &&
+      !value.some(
+        (item, index) =>
+          validate(item, schema.contains, appendPath(path, index)).length === 0
+      )
+    )
+      errors.push(`${path}: expected an item matching the 'contains' schema`)
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties) ? schema.properties : {}
+    const patternProperties = isPlainObject(schema.patternProperties)
+      ? schema.patternProperties
+      : {}
+    const { required, additionalProperties, minProperties, maxProperties } =
+      schema
+
+    if (Array.isArray(required)) {
+      required
+        .filter(
+          (key) =>
+            typeof key === "string" &&
+            !Object.prototype.hasOwnProperty.call(value, key)
+        )
+        .forEach((key) =>
+          errors.push(`${appendPath(path, key)}: required property is missing`)
+        )
+    }
+
+    Object.entries(value).forEach(([key, propertyValue]) => {
+      const propertyPath = appendPath(path, key)
+      let isAdditional = true
+
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        isAdditional = false
+        errors.push(...validate(propertyValue, properties[key], propertyPath))
+      }
+
+      Object.entries(patternProperties).forEach(([pattern, patternSchema]) => {
+        if (createRegExp(pattern).test(key)) {
+          isAdditional = false
+          errors.push(...validate(propertyValue, patternSchema, propertyPath))
+        }
+      })
+
+      if (isAdditional && additionalProperties === false) {
+        errors.push(`${propertyPath}: additional property is not allowed`)
+      } else if (isAdditional && isPlainObject(additionalProperties)) {
+        errors.push(
+          ...validate(propertyValue, additionalProperties, propertyPath)
+        )
+      }
+    })
+
+    const propertyCount = Object.keys(value).length
+
+    if (typeof minProperties === "number" && propertyCount < minProperties)
+      errors.push(
+        `${path}: expected at least ${minProperties} properties, received ${propertyCount}`
+      )
+
+    if (typeof maxProperties === "number" && propertyCount > maxProperties)
+      errors.push(
+        `${path}: expected at most ${maxProperties} properties, received ${propertyCount}`
+      )
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((subSchema) =>
+      errors.push(...validate(value, subSchema, path))
+    )
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const results = schema.anyOf.map((subSchema) =>
+      validate(value, subSchema, path)
+    )
+
+    if (results.every((result) => result.length > 0))
+      errors.push(
+        `${path}: expected to match at least one of the 'anyOf' schemas (${results
+          .map((result) => result.join(", "))
+          .join(" | ")})`
+      )
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matchCount = schema.oneOf.filter(
+      (subSchema) => validate(value, subSchema, path).length === 0
+    ).length
+
+    if (matchCount !== 1)
+      errors.push(
+        `${path}: expected to match exactly one of the 'oneOf' schemas, matched ${matchCount}`
+      )
+  }
+
+  if (
+    schema.not !== undefined &&
+    validate(value, schema.not, path).length === 0
+  ) {
+    errors.push(`${path}: expected not to match the 'not' schema`)
+  }
+
+  return errors
+}
@@ -1,2 +1,3 @@
 export * from "./pre-request/node-vm"
 export * from "./test-runner/node-vm"
+export { combineScripts } from "./utils"
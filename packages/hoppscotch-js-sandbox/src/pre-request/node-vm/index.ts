@@ -1,14 +1,23 @@
+import { HoppRESTRequest } from "@hoppscotch/data"
 import { pipe } from "fp-ts/function"
 import * as TE from "fp-ts/lib/TaskEither"
 import { createContext, runInContext } from "vm"
 
-import { TestResult } from "~/types"
-import { getPreRequestScriptMethods } from "~/utils"
+import {
+  IterationInfo,
+  PreRequestResult,
+  SendRequestHandler,
+  TestResult,
+} from "~/types"
+import { getPreRequestScriptMethods, wrapAsyncScript } from "~/utils"
 
 export const runPreRequestScript = (
   preRequestScript: string,
-  envs: TestResult["envs"]
-): TE.TaskEither<string, TestResult["envs"]> =>
+  envs: TestResult["envs"],
+  iteration?: IterationInfo,
+  sendRequestHandler?: SendRequestHandler,
+  request?: HoppRESTRequest
+): TE.TaskEither<string, PreRequestResult> =>
   pipe(
     TE.tryCatch(
       async () => {
@@ -18,20 +27,28 @@ export const runPreRequestScript = (
     ),
     TE.chain((context) =>
       TE.tryCatch(
-        () =>
-          new Promise((resolve) => {
-            const { pw, updatedEnvs } = getPreRequestScriptMethods(envs)
+        async () => {
+          const { pw, updatedEnvs, waitForPendingRequests, getRequest } =
+            getPreRequestScriptMethods(
+              envs,
+              iteration,
+              sendRequestHandler,
+              request
+            )
 
-            // Expose pw to the context
-            context.pw = pw
-            context.atob = atob
-            context.btoa = btoa
+          // Expose pw to the context
+          context.pw = pw
+          context.atob = atob
+          context.btoa = btoa
 
-            // Run the pre-request script in the provided context
-            runInContext(preRequestScript, context)
+          // Run the pre-request script in the provided context
+          await runInContext(wrapAsyncScript(preRequestScript), context)
 
-            resolve(updatedEnvs)
-          }),
+          // Wait for the requests the script didn't wait for
+          await waitForPendingRequests()
+
+          return { envs: updatedEnvs, request: getRequest() }
+        },
         (reason) => `Script execution failed: ${reason}`
       )
     )
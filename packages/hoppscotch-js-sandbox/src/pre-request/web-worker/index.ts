@@ -1,24 +1,39 @@
+import { HoppRESTRequest } from "@hoppscotch/data"
 import * as E from "fp-ts/Either"
 
-import { TestResult } from "~/types"
+import { handleWorkerSendRequests } from "~/send-request/web-worker"
+import {
+  IterationInfo,
+  PreRequestResult,
+  SendRequestHandler,
+  TestResult,
+} from "~/types"
 
 import Worker from "./worker?worker&inline"
 
 export const runPreRequestScript = (
   preRequestScript: string,
-  envs: TestResult["envs"]
-): Promise<E.Either<string, TestResult["envs"]>> =>
+  envs: TestResult["envs"],
+  iteration?: IterationInfo,
+  sendRequestHandler?: SendRequestHandler,
+  request?: HoppRESTRequest
+): Promise<E.Either<string, PreRequestResult>> =>
   new Promise((resolve) => {
     const worker = new Worker()
 
+    // Run the requests made from the script on the main thread
+    handleWorkerSendRequests(worker, sendRequestHandler)
+
     // Listen for the results from the web worker
-    worker.addEventListener("message", (event: MessageEvent) =>
-      resolve(event.data.results)
-    )
+    worker.addEventListener("message", (event: MessageEvent) => {
+      if ("results" in event.data) resolve(event.data.results)
+    })
 
     // Send the script to the web worker
     worker.postMessage({
       preRequestScript,
       envs,
+      iteration,
+      request,
     })
   })
@@ -1,32 +1,50 @@
+import { HoppRESTRequest } from "@hoppscotch/data"
 import * as TE from "fp-ts/TaskEither"
 
-import { TestResult } from "~/types"
-import { getPreRequestScriptMethods } from "~/utils"
+import { createWorkerSendRequestHandler } from "~/send-request/web-worker"
+import { IterationInfo, PreRequestResult, TestResult } from "~/types"
+import { createAsyncScriptFunction, getPreRequestScriptMethods } from "~/utils"
+
+const sendRequestHandler = createWorkerSendRequestHandler()
 
 const executeScriptInContext = (
   preRequestScript: string,
-  envs: TestResult["envs"]
-): TE.TaskEither<string, TestResult["envs"]> => {
-  try {
-    const { pw, updatedEnvs } = getPreRequestScriptMethods(envs)
+  envs: TestResult["envs"],
+  iteration?: IterationInfo,
+  request?: HoppRESTRequest
+): TE.TaskEither<string, PreRequestResult> =>
+  TE.tryCatch(
+    async () => {
+      const { pw, updatedEnvs, waitForPendingRequests, getRequest } =
+        getPreRequestScriptMethods(envs, iteration, sendRequestHandler, request)
+
+      // Create an async function from the pre request script, allowing top level `await`
+      const executeScript = createAsyncScriptFunction(preRequestScript)
 
-    // Create a function from the pre request script using the `Function` constructor
-    const executeScript = new Function("pw", preRequestScript)
+      // Execute the script
+      await executeScript(pw)
 
-    // Execute the script
-    executeScript(pw)
+      // Wait for the requests the script didn't wait for
+      await waitForPendingRequests()
 
-    return TE.right(updatedEnvs)
-  } catch (error) {
-    return TE.left(`Script execution failed: ${(error as Error).message}`)
-  }
-}
+      return { envs: updatedEnvs, request: getRequest() }
+    },
+    (error) => `Script execution failed: ${(error as Error).message}`
+  )
 
 // Listen for messages from the main thread
 self.addEventListener("message", async (event) => {
-  const { preRequestScript, envs } = event.data
+  // Results of the requests made from the script are handled separately
+  if ("sendRequestResult" in event.data) return
+
+  const { preRequestScript, envs, iteration, request } = event.data
 
-  const results = await executeScriptInContext(preRequestScript, envs)()
+  const results = await executeScriptInContext(
+    preRequestScript,
+    envs,
+    iteration,
+    request
+  )()
 
   // Post the result back to the main thread
   self.postMessage({ results })
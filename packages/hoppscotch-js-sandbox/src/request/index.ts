@@ -0,0 +1,168 @@
+import { HoppRESTReqBody, HoppRESTRequest } from "@hoppscotch/data"
+
+import { PreRequestScriptRequest } from "~/types"
+
+type KeyValuePair = PreRequestScriptRequest["headers"][number]
+
+const getActiveEntries = (
+  entries: HoppRESTRequest["headers"] | HoppRESTRequest["params"]
+): KeyValuePair[] =>
+  entries
+    .filter(({ active }) => active)
+    .map(({ key, value }) => ({ key, value }))
+
+const hasRawBody = (
+  body: HoppRESTReqBody
+): body is Exclude<
+  HoppRESTReqBody,
+  { contentType: null | "multipart/form-data" | "application/octet-stream" }
+> =>
+  body.contentType !== null &&
+  body.contentType !== "multipart/form-data" &&
+  body.contentType !== "application/octet-stream"
+
+const getRawBody = (body: HoppRESTReqBody) =>
+  hasRawBody(body) ? body.body : null
+
+const assertString = (value: unknown, name: string) => {
+  if (typeof value !== "string") {
+    throw new Error(`Expected ${name} to be a string`)
+  }
+}
+
+const matchesKey = (entryKey: string, key: string, ignoreCase: boolean) =>
+  ignoreCase ? entryKey.toLowerCase() === key.toLowerCase() : entryKey === key
+
+/**
+ * Sets the value of the entry with the given key, adding it if not present
+ */
+const setEntry = (
+  entries: KeyValuePair[],
+  key: string,
+  value: string,
+  ignoreCase: boolean
+) => {
+  assertString(key, "key")
+  assertString(value, "value")
+
+  const entry = entries.find((entry) => matchesKey(entry.key, key, ignoreCase))
+
+  if (entry) {
+    entry.value = value
+  } else {
+    entries.push({ key, value })
+  }
+}
+
+/**
+ * Removes all the entries with the given key
+ */
+const removeEntry = (
+  entries: KeyValuePair[],
+  key: string,
+  ignoreCase: boolean
+) => {
+  assertString(key, "key")
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (matchesKey(entries[i].key, key, ignoreCase)) entries.splice(i, 1)
+  }
+}
+
+/**
+ * Creates the mutable request exposed to the pre-request scripts
+ * @param request The request the pre-request script is run for
+ * @returns The request object for `pw.request`
+ */
+export const createPreRequestScriptRequest = (
+  request: HoppRESTRequest
+): PreRequestScriptRequest => {
+  const scriptRequest: PreRequestScriptRequest = {
+    url: request.endpoint,
+    method: request.method,
+    headers: getActiveEntries(request.headers),
+    params: getActiveEntries(request.params),
+    body: getRawBody(request.body),
+
+    // Headers are case-insensitive, query parameters are not
+    setHeader: (key, value) =>
+      setEntry(scriptRequest.headers, key, value, true),
+    removeHeader: (key) => removeEntry(scriptRequest.headers, key, true),
+    setParam: (key, value) => setEntry(scriptRequest.params, key, value, false),
+    removeParam: (key) => removeEntry(scriptRequest.params, key, false),
+  }
+
+  return scriptRequest
+}
+
+const parseEntries = (entries: unknown, name: string) => {
+  if (
+    !Array.isArray(entries) ||
+    entries.some(
+      (entry) =>
+        typeof entry?.key !== "string" || typeof entry?.value !== "string"
+    )
+  ) {
+    throw new Error(
+      `Expected ${name} to be a list of key-value pairs with string values`
+    )
+  }
+
+  return entries.map(({ key, value }) => ({ key, value, active: true }))
+}
+
+/**
+ * Computes the body of the request from the body assigned by the script
+ */
+const parseBody = (
+  originalBody: HoppRESTReqBody,
+  body: unknown
+): HoppRESTReqBody => {
+  // Bodies not exposed to the script are kept unless replaced
+  if (body === getRawBody(originalBody)) return originalBody
+
+  if (body === null || body === undefined) {
+    return { contentType: null, body: null }
+  }
+
+  if (typeof body === "string") {
+    return {
+      contentType: hasRawBody(originalBody)
+        ? originalBody.contentType
+        : "text/plain",
+      body,
+    }
+  }
+
+  return { contentType: "application/json", body: JSON.stringify(body) }
+}
+
+/**
+ * Applies the changes made by the pre-request script to the request
+ * @param request The request the pre-request script was run for
+ * @param scriptRequest The request object modified by the script
+ * @returns The request with the changes applied
+ */
+export const getUpdatedRequest = (
+  request: HoppRESTRequest,
+  scriptRequest: PreRequestScriptRequest
+): HoppRESTRequest => {
+  assertString(scriptRequest.url, "request url")
+  assertString(scriptRequest.method, "request method")
+
+  return {
+    ...request,
+    endpoint: scriptRequest.url,
+    method: scriptRequest.method.toUpperCase(),
+    // Inactive entries aren't exposed to the script and are kept as is
+    headers: [
+      ...parseEntries(scriptRequest.headers, "request headers"),
+      ...request.headers.filter(({ active }) => !active),
+    ],
+    params: [
+      ...parseEntries(scriptRequest.params, "request params"),
+      ...request.params.filter(({ active }) => !active),
+    ],
+    body: parseBody(request.body, scriptRequest.body),
+  }
+}
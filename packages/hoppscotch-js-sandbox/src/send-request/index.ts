@@ -0,0 +1,143 @@
+import { ScriptRequest, ScriptResponse, SendRequestHandler } from "~/types"
+
+export const SEND_REQUEST_UNSUPPORTED =
+  "pw.sendRequest is not supported in this environment"
+
+const isJSONContentType = (contentType: string) => /\bjson\b/i.test(contentType)
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Parses the headers supplied to `pw.sendRequest`, either as an object
+ * or as a list of key-value pairs
+ */
+const parseHeaders = (headers: unknown): ScriptRequest["headers"] => {
+  if (headers === undefined || headers === null) return []
+
+  const entries = Array.isArray(headers)
+    ? headers.map((header) => [header?.key, header?.value])
+    : isRecord(headers)
+    ? Object.entries(headers)
+    : null
+
+  if (
+    entries === null ||
+    entries.some(
+      ([key, value]) => typeof key !== "string" || typeof value !== "string"
+    )
+  ) {
+    throw new Error(
+      "Expected headers to be an object or a list of key-value pairs with string values"
+    )
+  }
+
+  return entries.map(([key, value]) => ({ key, value }))
+}
+
+/**
+ * Parses the argument of `pw.sendRequest` into the request passed to the host
+ * @param request URL of the request or the request object
+ * @returns Request with the defaults applied
+ */
+export const parseScriptRequest = (request: unknown): ScriptRequest => {
+  if (typeof request === "string") {
+    return { url: request, method: "GET", headers: [], body: null }
+  }
+
+  if (!isRecord(request) || typeof request.url !== "string") {
+    throw new Error("Expected the request to be a URL or an object with a url")
+  }
+
+  if (request.method !== undefined && typeof request.method !== "string") {
+    throw new Error("Expected the request method to be a string")
+  }
+
+  const headers = parseHeaders(request.headers)
+  let body: string | null = null
+
+  if (typeof request.body === "string") {
+    body = request.body
+  } else if (request.body !== undefined && request.body !== null) {
+    body = JSON.stringify(request.body)
+
+    if (!headers.some(({ key }) => key.toLowerCase() === "content-type")) {
+      headers.push({ key: "Content-Type", value: "application/json" })
+    }
+  }
+
+  return {
+    url: request.url,
+    method: (request.method ?? "GET").toUpperCase(),
+    headers,
+    body,
+  }
+}
+
+/**
+ * Parses the body of the response for the scripts
+ * @param response Response received by the host
+ * @returns Response with the body parsed if it is JSON
+ */
+const parseScriptResponse = (response: ScriptResponse) => {
+  const contentType = response.headers.find(
+    ({ key }) => key.toLowerCase() === "content-type"
+  )
+
+  let body: unknown = response.body
+
+  if (contentType && isJSONContentType(contentType.value)) {
+    try {
+      body = JSON.parse(response.body)
+    } catch (_) {
+      // Malformed JSON bodies are exposed as text
+    }
+  }
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+    body,
+  }
+}
+
+/**
+ * Creates `pw.sendRequest` which makes requests through the handler supplied
+ * by the host. The requests are tracked so that the runners can wait for
+ * the ones the scripts didn't wait for before collecting the results.
+ * @param handler Runs the requests, `pw.sendRequest` rejects if not supplied
+ * @returns `pw.sendRequest` and a function waiting for the pending requests
+ */
+export const createSendRequestMethod = (handler?: SendRequestHandler) => {
+  const pendingRequests = new Set<Promise<void>>()
+
+  const sendRequest = (request: unknown) => {
+    const result = (async () => {
+      if (!handler) throw new Error(SEND_REQUEST_UNSUPPORTED)
+
+      const response = await handler(parseScriptRequest(request))
+      return parseScriptResponse(response)
+    })()
+
+    // Failures are left to the scripts, only the completion is tracked here
+    const pendingRequest = result.then(
+      () => undefined,
+      () => undefined
+    )
+
+    pendingRequests.add(pendingRequest)
+    pendingRequest.then(() => pendingRequests.delete(pendingRequest))
+
+    return result
+  }
+
+  const waitForPendingRequests = async () => {
+    // Callbacks of the completed requests can send further requests
+    while (pendingRequests.size > 0) {
+      await Promise.all(pendingRequests)
+    }
+  }
+
+  return { sendRequest, waitForPendingRequests }
+}
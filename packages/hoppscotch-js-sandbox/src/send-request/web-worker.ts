@@ -0,0 +1,77 @@
+import { ScriptResponse, SendRequestHandler } from "~/types"
+
+import { SEND_REQUEST_UNSUPPORTED } from "~/send-request"
+
+/**
+ * Creates a handler for use inside the web worker, which forwards the
+ * requests to the main thread as the handler supplied by the host lives there
+ * @returns Handler resolving with the responses posted back by the main thread
+ */
+export const createWorkerSendRequestHandler = (): SendRequestHandler => {
+  let lastRequestID = 0
+
+  const pendingRequests = new Map<
+    number,
+    {
+      resolve: (response: ScriptResponse) => void
+      reject: (error: Error) => void
+    }
+  >()
+
+  self.addEventListener("message", (event) => {
+    const { sendRequestResult } = event.data
+    if (!sendRequestResult) return
+
+    const { id, response, error } = sendRequestResult
+    const pendingRequest = pendingRequests.get(id)
+    if (!pendingRequest) return
+
+    pendingRequests.delete(id)
+
+    if (error !== undefined) {
+      pendingRequest.reject(new Error(error))
+    } else {
+      pendingRequest.resolve(response)
+    }
+  })
+
+  return (request) =>
+    new Promise((resolve, reject) => {
+      const id = ++lastRequestID
+      pendingRequests.set(id, { resolve, reject })
+
+      self.postMessage({ sendRequest: { id, request } })
+    })
+}
+
+/**
+ * Runs the requests forwarded by the web worker with the handler supplied
+ * by the host, posting the results back to the web worker
+ * @param worker The web worker running the script
+ * @param handler Runs the requests, the requests fail if not supplied
+ */
+export const handleWorkerSendRequests = (
+  worker: Worker,
+  handler?: SendRequestHandler
+) => {
+  worker.addEventListener("message", async (event: MessageEvent) => {
+    const { sendRequest } = event.data
+    if (!sendRequest) return
+
+    const { id, request } = sendRequest
+
+    try {
+      if (!handler) throw new Error(SEND_REQUEST_UNSUPPORTED)
+
+      const response = await handler(request)
+      worker.postMessage({ sendRequestResult: { id, response } })
+    } catch (error) {
+      worker.postMessage({
+        sendRequestResult: {
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      })
+    }
+  })
+}
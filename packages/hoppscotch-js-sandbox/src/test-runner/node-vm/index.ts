@@ -3,13 +3,24 @@ import * as TE from "fp-ts/TaskEither"
 import { pipe } from "fp-ts/function"
 import { createContext, runInContext } from "vm"
 
-import { TestResponse, TestResult } from "~/types"
-import { getTestRunnerScriptMethods, preventCyclicObjects } from "~/utils"
+import {
+  IterationInfo,
+  SendRequestHandler,
+  TestResponse,
+  TestResult,
+} from "~/types"
+import {
+  getTestRunnerScriptMethods,
+  preventCyclicObjects,
+  wrapAsyncScript,
+} from "~/utils"
 
 export const runTestScript = (
   testScript: string,
   envs: TestResult["envs"],
-  response: TestResponse
+  response: TestResponse,
+  iteration?: IterationInfo,
+  sendRequestHandler?: SendRequestHandler
 ): TE.TaskEither<string, TestResult> =>
   pipe(
     TE.tryCatch(
@@ -20,38 +31,50 @@ export const runTestScript = (
     ),
     TE.chain((context) =>
       TE.tryCatch(
-        () => executeScriptInContext(testScript, envs, response, context),
+        () =>
+          executeScriptInContext(
+            testScript,
+            envs,
+            response,
+            context,
+            iteration,
+            sendRequestHandler
+          ),
         (reason) => `Script execution failed: ${reason}`
       )
     )
   )
 
-const executeScriptInContext = (
+const executeScriptInContext = async (
   testScript: string,
   envs: TestResult["envs"],
   response: TestResponse,
-  context: any
+  context: any,
+  iteration?: IterationInfo,
+  sendRequestHandler?: SendRequestHandler
 ): Promise<TestResult> => {
-  return new Promise((resolve, reject) => {
-    // Parse response object
-    const responseObjHandle = preventCyclicObjects(response)
-    if (E.isLeft(responseObjHandle)) {
-      return reject(`Response parsing failed: ${responseObjHandle.left}`)
-    }
-
-    const { pw, testRunStack, updatedEnvs } = getTestRunnerScriptMethods(envs)
-
-    // Expose pw to the context
-    context.pw = { ...pw, response: responseObjHandle.right }
-    context.atob = atob
-    context.btoa = btoa
-
-    // Run the test script in the provided context
-    runInContext(testScript, context)
-
-    resolve({
-      tests: testRunStack,
-      envs: updatedEnvs,
-    })
-  })
+  // Parse response object
+  const responseObjHandle = preventCyclicObjects(response)
+  if (E.isLeft(responseObjHandle)) {
+    throw `Response parsing failed: ${responseObjHandle.left}`
+  }
+
+  const { pw, testRunStack, updatedEnvs, waitForPendingRequests } =
+    getTestRunnerScriptMethods(envs, iteration, sendRequestHandler)
+
+  // Expose pw to the context
+  context.pw = { ...pw, response: responseObjHandle.right }
+  context.atob = atob
+  context.btoa = btoa
+
+  // Run the test script in the provided context
+  await runInContext(wrapAsyncScript(testScript), context)
+
+  // Wait for the requests the script didn't wait for
+  await waitForPendingRequests()
+
+  return {
+    tests: testRunStack,
+    envs: updatedEnvs,
+  }
 }
@@ -1,27 +1,40 @@
 import * as E from "fp-ts/Either"
 
-import { SandboxTestResult, TestResponse, TestResult } from "~/types"
+import { handleWorkerSendRequests } from "~/send-request/web-worker"
+import {
+  IterationInfo,
+  SandboxTestResult,
+  SendRequestHandler,
+  TestResponse,
+  TestResult,
+} from "~/types"
 
 import Worker from "./worker?worker&inline"
 
 export const runTestScript = (
   testScript: string,
   envs: TestResult["envs"],
-  response: TestResponse
+  response: TestResponse,
+  iteration?: IterationInfo,
+  sendRequestHandler?: SendRequestHandler
 ): Promise<E.Either<string, SandboxTestResult>> => {
   return new Promise((resolve) => {
     const worker = new Worker()
 
+    // Run the requests made from the script on the main thread
+    handleWorkerSendRequests(worker, sendRequestHandler)
+
     // Listen for the results from the web worker
-    worker.addEventListener("message", (event: MessageEvent) =>
-      resolve(event.data.results)
-    )
+    worker.addEventListener("message", (event: MessageEvent) => {
+      if ("results" in event.data) resolve(event.data.results)
+    })
 
     // Send the script to the web worker
     worker.postMessage({
       testScript,
       envs,
       response,
+      iteration,
     })
   })
 }
@@ -1,42 +1,68 @@
 import * as E from "fp-ts/Either"
 import * as TE from "fp-ts/TaskEither"
 
-import { SandboxTestResult, TestResponse, TestResult } from "~/types"
-import { getTestRunnerScriptMethods, preventCyclicObjects } from "~/utils"
+import { createWorkerSendRequestHandler } from "~/send-request/web-worker"
+import {
+  IterationInfo,
+  SandboxTestResult,
+  TestResponse,
+  TestResult,
+} from "~/types"
+import {
+  createAsyncScriptFunction,
+  getTestRunnerScriptMethods,
+  preventCyclicObjects,
+} from "~/utils"
+
+const sendRequestHandler = createWorkerSendRequestHandler()
 
 const executeScriptInContext = (
   testScript: string,
   envs: TestResult["envs"],
-  response: TestResponse
+  response: TestResponse,
+  iteration?: IterationInfo
 ): TE.TaskEither<string, SandboxTestResult> => {
-  try {
-    const responseObjHandle = preventCyclicObjects(response)
-    if (E.isLeft(responseObjHandle)) {
-      return TE.left(`Response marshalling failed: ${responseObjHandle.left}`)
-    }
-
-    const { pw, testRunStack, updatedEnvs } = getTestRunnerScriptMethods(envs)
-
-    // Create a function from the test script using the `Function` constructor
-    const executeScript = new Function("pw", testScript)
-
-    // Execute the script
-    executeScript({ ...pw, response: responseObjHandle.right })
-
-    return TE.right(<SandboxTestResult>{
-      tests: testRunStack[0],
-      envs: updatedEnvs,
-    })
-  } catch (error) {
-    return TE.left(`Script execution failed: ${(error as Error).message}`)
+  const responseObjHandle = preventCyclicObjects(response)
+  if (E.isLeft(responseObjHandle)) {
+    return TE.left(`Response marshalling failed: ${responseObjHandle.left}`)
   }
+
+  return TE.tryCatch(
+    async () => {
+      const { pw, testRunStack, updatedEnvs, waitForPendingRequests } =
+        getTestRunnerScriptMethods(envs, iteration, sendRequestHandler)
+
+      // Create an async function from the test script, allowing top level `await`
+      const executeScript = createAsyncScriptFunction(testScript)
+
+      // Execute the script
+      await executeScript({ ...pw, response: responseObjHandle.right })
+
+      // Wait for the requests the script didn't wait for
+      await waitForPendingRequests()
+
+      return <SandboxTestResult>{
+        tests: testRunStack[0],
+        envs: updatedEnvs,
+      }
+    },
+    (error) => `Script execution failed: ${(error as Error).message}`
+  )
 }
 
 // Listen for messages from the main thread
 self.addEventListener("message", async (event) => {
-  const { testScript, envs, response } = event.data
+  // Results of the requests made from the script are handled separately
+  if ("sendRequestResult" in event.data) return
+
+  const { testScript, envs, response, iteration } = event.data
 
-  const results = await executeScriptInContext(testScript, envs, response)()
+  const results = await executeScriptInContext(
+    testScript,
+    envs,
+    response,
+    iteration
+  )()
 
   // Post the result back to the main thread
   self.postMessage({ results })
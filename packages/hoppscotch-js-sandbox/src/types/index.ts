@@ -1,3 +1,5 @@
+import { HoppRESTRequest } from "@hoppscotch/data"
+
 /**
  * The response object structure exposed to the test script
  */
@@ -60,6 +62,81 @@ export type TestResult = {
   }
 }
 
+/**
+ * Details of the current iteration when a collection is run multiple times,
+ * exposed to the scripts under `pw.iteration`
+ */
+export type IterationInfo = {
+  /** Zero based index of the current iteration */
+  index: number
+  /** Total number of iterations */
+  count: number
+  /** Data (variables) supplied for the current iteration */
+  data: Record<string, string>
+}
+
+/**
+ * Request made from the scripts with `pw.sendRequest`, with the defaults applied
+ */
+export type ScriptRequest = {
+  url: string
+  method: string
+  headers: { key: string; value: string }[]
+  /** Body of the request, objects supplied by the script are sent as JSON */
+  body: string | null
+}
+
+/**
+ * Response to a request made from the scripts, as received by the host
+ */
+export type ScriptResponse = {
+  status: number
+  statusText: string
+  headers: { key: string; value: string }[]
+  /** Body of the response as text, parsed for the scripts if it is JSON */
+  body: string
+}
+
+/**
+ * Runs the requests made from the scripts with `pw.sendRequest`,
+ * supplied by the host (web app, CLI) running the scripts
+ */
+export type SendRequestHandler = (
+  request: ScriptRequest
+) => Promise<ScriptResponse>
+
+/**
+ * The request exposed to the pre-request scripts under `pw.request`,
+ * the changes made by the scripts are applied to the request sent
+ */
+export type PreRequestScriptRequest = {
+  /** Endpoint of the request, environment variables are resolved afterwards */
+  url: string
+  method: string
+  /** Active headers of the request */
+  headers: { key: string; value: string }[]
+  /** Active query parameters of the request */
+  params: { key: string; value: string }[]
+  /**
+   * Raw body of the request, `null` for requests without a body and for
+   * multipart form-data and binary bodies. Objects assigned by the scripts are sent as JSON
+   */
+  body: unknown
+  setHeader: (key: string, value: string) => void
+  removeHeader: (key: string) => void
+  setParam: (key: string, value: string) => void
+  removeParam: (key: string) => void
+}
+
+/**
+ * Defines the result of a pre-request script execution
+ */
+export type PreRequestResult = {
+  envs: TestResult["envs"]
+  /** The request with the changes made by the script, if one was supplied */
+  request?: HoppRESTRequest
+}
+
 export type GlobalEnvItem = TestResult["envs"]["global"][number]
 export type SelectedEnvItem = TestResult["envs"]["selected"][number]
 
@@ -1,16 +1,40 @@
-import { parseTemplateStringE } from "@hoppscotch/data"
+import { HoppRESTRequest, parseTemplateStringE } from "@hoppscotch/data"
 import * as E from "fp-ts/Either"
 import * as O from "fp-ts/Option"
 import { pipe } from "fp-ts/lib/function"
 import { cloneDeep } from "lodash-es"
 
 import {
+  InvalidSchemaError,
+  findDifference,
+  getProperty,
+  isPlainObject,
+  isRegExp,
+  parsePropertyPath,
+  stringifyValue,
+  validateJSONSchema,
+} from "./matchers"
+import { createPreRequestScriptRequest, getUpdatedRequest } from "./request"
+import { createSendRequestMethod } from "./send-request"
+import {
+  ExpectResult,
   GlobalEnvItem,
+  IterationInfo,
   SelectedEnvItem,
+  SendRequestHandler,
   TestDescriptor,
   TestResult,
 } from "./types"
 
+/**
+ * Iteration details used when the script isn't run as part of an iteration
+ */
+export const DEFAULT_ITERATION_INFO: IterationInfo = {
+  index: 0,
+  count: 1,
+  data: {},
+}
+
 const getEnv = (envName: string, envs: TestResult["envs"]) => {
   return O.fromNullable(
     envs.selected.find((x: SelectedEnvItem) => x.key === envName) ??
@@ -83,9 +107,16 @@ const unsetEnv = (
 }
 
 // Compiles shared scripting API methods for use in both pre and post request scripts
-const getSharedMethods = (envs: TestResult["envs"]) => {
+const getSharedMethods = (
+  envs: TestResult["envs"],
+  iteration: IterationInfo,
+  sendRequestHandler?: SendRequestHandler
+) => {
   let updatedEnvs = envs
 
+  const { sendRequest, waitForPendingRequests } =
+    createSendRequestMethod(sendRequestHandler)
+
   const envGetFn = (key: any) => {
     if (typeof key !== "string") {
       throw new Error("Expected key to be a string")
@@ -177,8 +208,14 @@ const getSharedMethods = (envs: TestResult["envs"]) => {
         unset: envUnsetFn,
         resolve: envResolveFn,
       },
+      iteration: Object.freeze({
+        ...iteration,
+        data: Object.freeze(cloneDeep(iteration.data)),
+      }),
+      sendRequest,
     },
     updatedEnvs,
+    waitForPendingRequests,
   }
 }
 
@@ -402,6 +439,196 @@ export const createExpectation = (
     return undefined
   }
 
+  const pushExpectResult = (
+    status: ExpectResult["status"],
+    message: string
+  ) => {
+    currTestStack[currTestStack.length - 1].expectResults.push({
+      status,
+      message,
+    })
+
+    return undefined
+  }
+
+  const toEqualFn = (expectedVal: any) => {
+    const difference = findDifference(expectVal, expectedVal)
+    const assertion = negated ? difference !== null : difference === null
+
+    let message = `Expected ${stringifyValue(expectVal)} to${
+      negated ? " not" : ""
+    } equal ${stringifyValue(expectedVal)}`
+
+    // Point out where the values differ, if it isn't the values themselves
+    if (!assertion && difference && difference.path !== "$") {
+      message += ` (${difference.path}: expected ${stringifyValue(
+        difference.expected
+      )}, received ${stringifyValue(difference.received)})`
+    }
+
+    return pushExpectResult(assertion ? "pass" : "fail", message)
+  }
+
+  const toMatchFn = (pattern: any) => {
+    if (typeof expectVal !== "string") {
+      return pushExpectResult(
+        "error",
+        "Expected toMatch to be called for a string"
+      )
+    }
+
+    if (!(isRegExp(pattern) || typeof pattern === "string")) {
+      return pushExpectResult(
+        "error",
+        "Argument for toMatch should be a regular expression or a string"
+      )
+    }
+
+    // `search` disregards the `lastIndex` of global regular expressions
+    let assertion = isRegExp(pattern)
+      ? expectVal.search(pattern) !== -1
+      : expectVal.includes(pattern)
+
+    if (negated) {
+      assertion = !assertion
+    }
+
+    return pushExpectResult(
+      assertion ? "pass" : "fail",
+      `Expected '${expectVal}' to${negated ? " not" : ""} match ${
+        isRegExp(pattern) ? `${pattern}` : `'${pattern}'`
+      }`
+    )
+  }
+
+  const toBeComparedWith = (
+    matcherName: string,
+    comparison: string,
+    compare: (value: number, expectedVal: number) => boolean
+  ) => {
+    return (expectedVal: any) => {
+      if (typeof expectVal !== "number" || Number.isNaN(expectVal)) {
+        return pushExpectResult(
+          "error",
+          `Expected ${matcherName} to be called for a number`
+        )
+      }
+
+      if (typeof expectedVal !== "number" || Number.isNaN(expectedVal)) {
+        return pushExpectResult(
+          "error",
+          `Argument for ${matcherName} should be a number`
+        )
+      }
+
+      let assertion = compare(expectVal, expectedVal)
+
+      if (negated) {
+        assertion = !assertion
+      }
+
+      return pushExpectResult(
+        assertion ? "pass" : "fail",
+        `Expected '${expectVal}' to${
+          negated ? " not" : ""
+        } be ${comparison} '${expectedVal}'`
+      )
+    }
+  }
+
+  const toBeGreaterThanFn = toBeComparedWith(
+    "toBeGreaterThan",
+    "greater than",
+    (value, expectedVal) => value > expectedVal
+  )
+  const toBeGreaterThanOrEqualFn = toBeComparedWith(
+    "toBeGreaterThanOrEqual",
+    "greater than or equal to",
+    (value, expectedVal) => value >= expectedVal
+  )
+  const toBeLessThanFn = toBeComparedWith(
+    "toBeLessThan",
+    "less than",
+    (value, expectedVal) => value < expectedVal
+  )
+  const toBeLessThanOrEqualFn = toBeComparedWith(
+    "toBeLessThanOrEqual",
+    "less than or equal to",
+    (value, expectedVal) => value <= expectedVal
+  )
+
+  const toHavePropertyFn = (...args: any[]) => {
+    const [path, expectedVal] = args
+    const keys = parsePropertyPath(path)
+
+    if (keys === null) {
+      return pushExpectResult(
+        "error",
+        "Argument for toHaveProperty should be a non-empty string or an array of keys"
+      )
+    }
+
+    const pathPretty = Array.isArray(path) ? keys.join(".") : path
+    // The expected value is checked only if it is supplied
+    const checksValue = args.length > 1
+
+    const property = getProperty(expectVal, keys)
+    const difference =
+      property.found && checksValue
+        ? findDifference(property.value, expectedVal)
+        : null
+
+    const hasProperty = property.found && difference === null
+    const assertion = negated ? !hasProperty : hasProperty
+
+    let message = `Expected ${stringifyValue(expectVal)} to${
+      negated ? " not" : ""
+    } have property '${pathPretty}'${
+      checksValue ? ` with value ${stringifyValue(expectedVal)}` : ""
+    }`
+
+    if (!assertion && !property.found) {
+      message += ` (${property.missingPath} not found)`
+    } else if (!assertion && property.found && difference) {
+      message += ` (received ${stringifyValue(property.value)})`
+    }
+
+    return pushExpectResult(assertion ? "pass" : "fail", message)
+  }
+
+  const toMatchSchemaFn = (schema: any) => {
+    if (!(isPlainObject(schema) || typeof schema === "boolean")) {
+      return pushExpectResult(
+        "error",
+        "Argument for toMatchSchema should be a JSON Schema object or boolean"
+      )
+    }
+
+    let errors: string[]
+
+    try {
+      errors = validateJSONSchema(expectVal, schema)
+    } catch (e) {
+      if (!(e instanceof InvalidSchemaError)) throw e
+
+      return pushExpectResult("error", `Invalid JSON Schema: ${e.message}`)
+    }
+
+    const assertion = negated ? errors.length > 0 : errors.length === 0
+
+    let message = `Expected ${stringifyValue(expectVal)} to${
+      negated ? " not" : ""
+    } match the JSON Schema`
+
+    if (!assertion && errors.length > 0) {
+      message += `, found ${errors.length} error${
+        errors.length > 1 ? "s" : ""
+      }: ${errors.join("; ")}`
+    }
+
+    return pushExpectResult(assertion ? "pass" : "fail", message)
+  }
+
   result.toBe = toBeFn
   result.toBeLevel2xx = toBeLevel2xxFn
   result.toBeLevel3xx = toBeLevel3xxFn
@@ -410,6 +637,14 @@ export const createExpectation = (
   result.toBeType = toBeTypeFn
   result.toHaveLength = toHaveLengthFn
   result.toInclude = toIncludeFn
+  result.toEqual = toEqualFn
+  result.toMatch = toMatchFn
+  result.toBeGreaterThan = toBeGreaterThanFn
+  result.toBeGreaterThanOrEqual = toBeGreaterThanOrEqualFn
+  result.toBeLessThan = toBeLessThanFn
+  result.toBeLessThanOrEqual = toBeLessThanOrEqualFn
+  result.toHaveProperty = toHavePropertyFn
+  result.toMatchSchema = toMatchSchemaFn
 
   Object.defineProperties(result, {
     not: {
@@ -423,19 +658,52 @@ export const createExpectation = (
 /**
  * Compiles methods for use under the `pw` namespace for pre request scripts
  * @param envs The current state of the environment variables
- * @returns Object with methods in the `pw` namespace
+ * @param iteration Details of the current iteration
+ * @param sendRequestHandler Runs the requests made with `pw.sendRequest`
+ * @param request The request the script is run for, exposed as `pw.request`
+ * @returns Object with methods in the `pw` namespace, a function waiting for pending requests and one returning the request with the changes made by the script
  */
-export const getPreRequestScriptMethods = (envs: TestResult["envs"]) => {
-  const { methods, updatedEnvs } = getSharedMethods(cloneDeep(envs))
-  return { pw: methods, updatedEnvs }
+export const getPreRequestScriptMethods = (
+  envs: TestResult["envs"],
+  iteration: IterationInfo = DEFAULT_ITERATION_INFO,
+  sendRequestHandler?: SendRequestHandler,
+  request?: HoppRESTRequest
+) => {
+  const { methods, updatedEnvs, waitForPendingRequests } = getSharedMethods(
+    cloneDeep(envs),
+    iteration,
+    sendRequestHandler
+  )
+
+  const scriptRequest = request
+    ? createPreRequestScriptRequest(request)
+    : undefined
+
+  const pw = {
+    ...methods,
+    request: scriptRequest,
+  }
+
+  const getRequest = () =>
+    request && scriptRequest
+      ? getUpdatedRequest(request, scriptRequest)
+      : undefined
+
+  return { pw, updatedEnvs, waitForPendingRequests, getRequest }
 }
 
 /**
  * Compiles methods for use under the `pw` namespace for post request scripts
  * @param envs The current state of the environment variables
- * @returns Object with methods in the `pw` namespace and test run stack
+ * @param iteration Details of the current iteration
+ * @param sendRequestHandler Runs the requests made with `pw.sendRequest`
+ * @returns Object with methods in the `pw` namespace, test run stack and a function waiting for pending requests
  */
-export const getTestRunnerScriptMethods = (envs: TestResult["envs"]) => {
+export const getTestRunnerScriptMethods = (
+  envs: TestResult["envs"],
+  iteration: IterationInfo = DEFAULT_ITERATION_INFO,
+  sendRequestHandler?: SendRequestHandler
+) => {
   const testRunStack: TestDescriptor[] = [
     { descriptor: "root", expectResults: [], children: [] },
   ]
@@ -456,7 +724,11 @@ export const getTestRunnerScriptMethods = (envs: TestResult["envs"]) => {
   const expectFn = (expectVal: any) =>
     createExpectation(expectVal, false, testRunStack)
 
-  const { methods, updatedEnvs } = getSharedMethods(cloneDeep(envs))
+  const { methods, updatedEnvs, waitForPendingRequests } = getSharedMethods(
+    cloneDeep(envs),
+    iteration,
+    sendRequestHandler
+  )
 
   const pw = {
     ...methods,
@@ -464,5 +736,46 @@ export const getTestRunnerScriptMethods = (envs: TestResult["envs"]) => {
     test: testFn,
   }
 
-  return { pw, testRunStack, updatedEnvs }
+  return { pw, testRunStack, updatedEnvs, waitForPendingRequests }
+}
+
+/**
+ * Wraps a script in an async function for running in the node-vm context,
+ * so that the scripts can `await` at the top level. The script begins on
+ * the first line to keep the line numbers intact.
+ * @param script The script to be wrapped
+ * @returns Expression evaluating to the promise of the script completion
+ */
+export const wrapAsyncScript = (script: string) =>
+  `(async () => {${script}\n})()`
+
+/**
+ * Creates an async function from a script for running in the web worker,
+ * so that the scripts can `await` at the top level
+ * @param script The script to create the function from
+ * @returns Async function running the script with `pw` as its argument
+ */
+export const createAsyncScriptFunction = (
+  script: string
+): ((pw: unknown) => Promise<void>) => {
+  const AsyncFunction = Object.getPrototypeOf(async () => undefined)
+    .constructor as FunctionConstructor
+
+  return new AsyncFunction("pw", script) as (pw: unknown) => Promise<void>
+}
+
+/**
+ * Combines the scripts of the collections (and folders) with the script of
+ * a request into one script, run in the given order. Each script gets a block
+ * scope of its own, so that the variables declared in them don't clash.
+ * @param scripts The scripts to combine, outermost (collection) first
+ * @returns The combined script
+ */
+export const combineScripts = (scripts: string[]) => {
+  const nonEmptyScripts = scripts.filter((script) => script.trim() !== "")
+
+  // A lone script is run as is
+  if (nonEmptyScripts.length === 1) return nonEmptyScripts[0]
+
+  return nonEmptyScripts.map((script) => `{\n${script}\n}`).join("\n")
 }
@@ -1,2 +1,3 @@
 export * from "./pre-request/web-worker"
 export * from "./test-runner/web-worker"
+export { combineScripts } from "./utils"
@@ -125,6 +125,8 @@ function exportedCollectionToHoppCollection(
           params,
           preRequestScript,
           testScript,
+          responses,
+          requestVariables,
         }) => ({
           id,
           v,
@@ -137,6 +139,8 @@ function exportedCollectionToHoppCollection(
           params,
           preRequestScript,
           testScript,
+          responses,
+          requestVariables,
         })
       ),
     }
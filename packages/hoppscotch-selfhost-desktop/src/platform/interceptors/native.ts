@@ -2,17 +2,18 @@ import * as E from "fp-ts/Either"
 import {
   Interceptor,
   InterceptorError,
+  InterceptorRequest,
   RequestRunResult,
 } from "@hoppscotch/common/services/interceptor.service"
 import { CookieJarService } from "@hoppscotch/common/services/cookie-jar.service"
-import axios, { AxiosRequestConfig, CancelToken } from "axios"
+import axios, { CancelToken } from "axios"
 import { cloneDeep } from "lodash-es"
 import { Body, HttpVerb, ResponseType, getClient } from "@tauri-apps/api/http"
 import { Service } from "dioc"
 
 export const preProcessRequest = (
-  req: AxiosRequestConfig
-): AxiosRequestConfig => {
+  req: InterceptorRequest
+): InterceptorRequest => {
   const reqClone = cloneDeep(req)
 
   // If the parameters are URLSearchParams, inject them to URL instead
@@ -38,14 +39,24 @@ export const preProcessRequest = (
 }
 
 async function runRequest(
-  req: AxiosRequestConfig,
-  cancelled: () => boolean
+  req: InterceptorRequest,
+  cancelled: () => boolean,
+  cookieJarService: CookieJarService
 ): RequestRunResult["response"] {
   const timeStart = Date.now()
 
-  const processedReq = preProcessRequest(req)
+  const { settings, ...processedReq } = preProcessRequest(req)
   try {
-    const client = await getClient()
+    // TLS verification can't be configured through the Tauri HTTP client
+    const client = await getClient(
+      settings
+        ? {
+            maxRedirections: settings.followRedirects
+              ? settings.maxRedirects
+              : 0,
+          }
+        : undefined
+    )
 
     if (cancelled()) {
       client.drop()
@@ -70,6 +81,8 @@ async function runRequest(
       }
 
       body = Body.form(body_data)
+    } else if (processedReq.data instanceof Blob) {
+      body = Body.bytes(new Uint8Array(await processedReq.data.arrayBuffer()))
     }
 
     const res = await client.request({
@@ -78,6 +91,13 @@ async function runRequest(
       responseType: ResponseType.Binary,
       headers: processedReq.headers,
       body: body,
+      timeout:
+        settings?.timeout != null
+          ? {
+              secs: Math.floor(settings.timeout / 1000),
+              nanos: (settings.timeout % 1000) * 1000000,
+            }
+          : undefined,
     })
 
     if (cancelled()) {
@@ -87,6 +107,17 @@ async function runRequest(
 
     res.data = new Uint8Array(res.data as number[]).buffer
 
+    // Cookies are stored for the URL the response is received from, as the
+    // responses of the redirects followed by the client can't be seen
+    const setCookieHeaders = Object.entries(res.rawHeaders)
+      .filter(([key]) => key.toLowerCase() === "set-cookie")
+      .flatMap(([, values]) => values)
+
+    cookieJarService.captureSetCookieHeaders(
+      setCookieHeaders,
+      new URL(res.url || processedReq.url!)
+    )
+
     const timeEnd = Date.now()
 
     return E.right({
@@ -136,6 +167,12 @@ export class NativeInterceptorService extends Service implements Interceptor {
 
   public supportsCookies = true
 
+  public supportedRequestSettings: Interceptor["supportedRequestSettings"] = [
+    "timeout",
+    "followRedirects",
+    "maxRedirects",
+  ]
+
   public cookieJarService = this.bind(CookieJarService)
 
   constructor() {
@@ -145,13 +182,13 @@ export class NativeInterceptorService extends Service implements Interceptor {
   public runRequest(req: any) {
     const processedReq = preProcessRequest(req)
 
-    const relevantCookies = this.cookieJarService.getCookiesForURL(
+    const cookieHeader = this.cookieJarService.getCookieHeaderForURL(
       new URL(processedReq.url!)
     )
 
-    processedReq.headers["Cookie"] = relevantCookies
-      .map((cookie) => `${cookie.name!}=${cookie.value!}`)
-      .join(";")
+    if (cookieHeader) {
+      processedReq.headers["Cookie"] = cookieHeader
+    }
 
     let cancelled = false
 
@@ -163,7 +200,7 @@ export class NativeInterceptorService extends Service implements Interceptor {
       cancel: () => {
         cancelled = true
       },
-      response: runRequest(processedReq, checkCancelled),
+      response: runRequest(processedReq, checkCancelled, this.cookieJarService),
     }
   }
 }
@@ -133,6 +133,8 @@ function exportedCollectionToHoppCollection(
           params,
           preRequestScript,
           testScript,
+          responses,
+          requestVariables,
         }) => ({
           id,
           v,
@@ -145,6 +147,8 @@ function exportedCollectionToHoppCollection(
           params,
           preRequestScript,
           testScript,
+          responses,
+          requestVariables,
         })
       ),
       auth: data.auth,